@@ -67,6 +67,7 @@ Start the HTTP API server for the Economic Toolkit.
 - `GET /api/v1/sources` - List available data sources
 - `GET /api/v1/sources/:source/search?q=query` - Search series
 - `GET /api/v1/sources/:source/series/:id?start=date&end=date` - Fetch series data
+- `POST /api/v1/sources/:source/series` - Fetch several series (`{"ids": [...], "start": date, "end": date}`)
 
 ## Formulas
 - `POST /api/v1/formulas/elasticity` - Calculate elasticity
@@ -151,6 +152,31 @@ function start_server(port::Int=8080; host::String="127.0.0.1")
         end
     end
 
+    # Fetch several series at once; a failing id is reported without failing the others
+    HTTP.register!(router, "POST", "/api/v1/sources/:source/series") do req
+        source = HTTP.URIs.splitpath(req.target)[4]
+
+        if !haskey(clients, source)
+            return HTTP.Response(404, JSON3.write(Dict("error" => "Source not found")))
+        end
+
+        body = JSON3.read(req.body)
+        start_date = haskey(body, :start) ? Date(body[:start]) : Date(1900, 1, 1)
+        end_date = haskey(body, :end) ? Date(body[:end]) : today()
+
+        series = Dict{String,Any}()
+        errors = Dict{String,String}()
+        for id in String.(body.ids)
+            try
+                series[id] = fetch_series_by_id(clients[source], id, start_date, end_date)
+            catch e
+                errors[id] = sprint(showerror, e)
+            end
+        end
+
+        return HTTP.Response(200, JSON3.write(Dict("series" => series, "errors" => errors)))
+    end
+
     # Health check
     HTTP.register!(router, "GET", "/health") do req
         HTTP.Response(200, JSON3.write(Dict("status" => "ok", "version" => "2.0.0")))
@@ -160,6 +186,21 @@ function start_server(port::Int=8080; host::String="127.0.0.1")
     HTTP.serve(router, host, port)
 end
 
+"""
+    fetch_series_by_id(client, id::String, start_date::Date, end_date::Date)
+
+Fetch a series by the id used in API requests. World Bank ids name the
+country and the indicator ("USA/NY.GDP.MKTP.CD").
+"""
+fetch_series_by_id(client, id::String, start_date::Date, end_date::Date) =
+    fetch_series(client, id, start_date, end_date)
+
+function fetch_series_by_id(client::WorldBankClient, id::String, start_date::Date, end_date::Date)
+    parts = split(id, "/"; limit=2)
+    length(parts) == 2 || throw(ArgumentError("World Bank series ids must be COUNTRY/INDICATOR, got $id"))
+    return fetch_series(client, String(parts[2]), String(parts[1]), start_date, end_date)
+end
+
 """
     main()
 
@@ -354,7 +354,7 @@ let make = () => {
       <h4> {React.string("Usage Tips")} </h4>
       <ul>
         <li> {React.string("Define accounting identities like C + I + G + NX = GDP")} </li>
-        <li> {React.string("Use spreadsheet cell references (e.g., A1, B2)")} </li>
+        <li> {React.string("Use cell references (e.g., A1, B2) or named ranges (e.g., GDP_C)")} </li>
         <li> {React.string("Check/uncheck constraints to enable/disable them")} </li>
         <li> {React.string("Click 'Solve' to propagate constraints throughout the spreadsheet")} </li>
       </ul>
@@ -0,0 +1,195 @@
+/**
+ * Adapter Errors
+ *
+ * Typed errors thrown by spreadsheet adapters. Each carries a code, the
+ * address or sheet that failed and the original cause, so callers can tell a
+ * missing sheet from an invalid address or a busy host without matching on
+ * messages. Office.js error codes are mapped onto the same codes.
+ */
+
+/**
+ * Why an adapter operation failed
+ * - invalid_argument: an argument was missing, empty or out of range
+ * - invalid_address: an address could not be parsed or lies outside the worksheet
+ * - sheet_not_found: the sheet named in the address does not exist
+ * - not_found: another named item (function, name, table) does not exist
+ * - already_exists: an item with that name already exists
+ * - invalid_operation: the workbook is not in a state that allows the operation
+ *   (merged cells, a table in the way, deleting the last sheet)
+ * - protected: the sheet or workbook is protected, or access was denied
+ * - not_supported: the host or its API version does not support the operation
+ * - transient: the host is busy, throttled or in cell edit mode; retrying may succeed
+ * - canceled: the caller aborted the operation
+ * - unknown: any other failure
+ */
+export type AdapterErrorCode =
+    | 'invalid_argument'
+    | 'invalid_address'
+    | 'sheet_not_found'
+    | 'not_found'
+    | 'already_exists'
+    | 'invalid_operation'
+    | 'protected'
+    | 'not_supported'
+    | 'transient'
+    | 'canceled'
+    | 'unknown';
+
+/**
+ * Details attached to an AdapterError
+ */
+export interface AdapterErrorDetails {
+    code: AdapterErrorCode;
+    /** Address of the failing cell or range */
+    address?: string;
+    /** Sheet of the failing operation, when known */
+    sheetName?: string;
+    /** Host error code (e.g., Office.js "ItemNotFound") */
+    hostCode?: string;
+    /** Original error */
+    cause?: unknown;
+}
+
+/**
+ * Error thrown by spreadsheet adapters
+ */
+export class AdapterError extends Error {
+    readonly code: AdapterErrorCode;
+    readonly address?: string;
+    readonly sheetName?: string;
+    readonly hostCode?: string;
+    readonly cause?: unknown;
+
+    constructor(message: string, details: AdapterErrorDetails) {
+        super(message);
+        this.name = 'AdapterError';
+        this.code = details.code;
+        this.address = details.address;
+        this.sheetName = details.sheetName;
+        this.hostCode = details.hostCode;
+        this.cause = details.cause;
+    }
+
+    /**
+     * True if the operation may succeed when retried
+     */
+    get transient(): boolean {
+        return this.code === 'transient';
+    }
+}
+
+/**
+ * Adapter codes by Office.js error code (OfficeExtension.Error.code, Excel.ErrorCodes)
+ * ItemNotFound is resolved separately: it means the sheet when one was named.
+ */
+const OFFICE_ERROR_CODES: Record<string, AdapterErrorCode> = {
+    InvalidArgument: 'invalid_argument',
+    InvalidBinding: 'invalid_argument',
+    InvalidSelection: 'invalid_argument',
+    RangeExceedsLimit: 'invalid_argument',
+    RequestPayloadSizeLimitExceeded: 'invalid_argument',
+    ResponsePayloadSizeLimitExceeded: 'invalid_argument',
+    InvalidReference: 'invalid_address',
+    ItemAlreadyExists: 'already_exists',
+    InvalidOperation: 'invalid_operation',
+    InsertDeleteConflict: 'invalid_operation',
+    MergedRangeConflict: 'invalid_operation',
+    FilteredRangeConflict: 'invalid_operation',
+    PivotTableRangeConflict: 'invalid_operation',
+    NonBlankCellOffSheet: 'invalid_operation',
+    UnsupportedSheet: 'invalid_operation',
+    AccessDenied: 'protected',
+    Unauthenticated: 'protected',
+    ApiNotFound: 'not_supported',
+    ApiNotAvailable: 'not_supported',
+    NotImplemented: 'not_supported',
+    UnsupportedOperation: 'not_supported',
+    UnsupportedFeature: 'not_supported',
+    ActivityLimitReached: 'transient',
+    Conflict: 'transient',
+    InvalidOperationInCellEditMode: 'transient',
+    RequestAborted: 'transient',
+    ServiceNotAvailable: 'transient',
+    Timeout: 'transient'
+};
+
+/**
+ * Wrap any error thrown during an adapter operation
+ * An AdapterError keeps its code; an Office.js error is classified by its code;
+ * anything else becomes 'unknown'. The message is "<message>: <cause message>".
+ * @param error Error caught
+ * @param message Description of the failed operation (e.g., "Failed to get range A1:B2")
+ * @param target Address and/or sheet the operation worked on
+ * @returns AdapterError with the cause attached
+ */
+export function toAdapterError(
+    error: unknown,
+    message: string,
+    target: { address?: string; sheetName?: string } = {}
+): AdapterError {
+    const causeMessage = error instanceof Error ? error.message : String(error);
+    const sheetName = target.sheetName ?? sheetOf(target.address);
+
+    if (error instanceof AdapterError) {
+        return new AdapterError(`${message}: ${causeMessage}`, {
+            code: error.code,
+            address: target.address ?? error.address,
+            sheetName: sheetName ?? error.sheetName,
+            hostCode: error.hostCode,
+            cause: error
+        });
+    }
+
+    const address = target.address;
+    const hostCode = officeErrorCode(error);
+    let code: AdapterErrorCode = 'unknown';
+
+    if (hostCode === 'ItemNotFound') {
+        code = sheetName ? 'sheet_not_found' : 'not_found';
+    } else if (hostCode && OFFICE_ERROR_CODES[hostCode]) {
+        code = OFFICE_ERROR_CODES[hostCode];
+    }
+
+    return new AdapterError(`${message}: ${causeMessage}`, { code, address, sheetName, hostCode, cause: error });
+}
+
+/**
+ * Check whether an error is an AdapterError, optionally with a given code
+ * @param error Value caught
+ * @param code Code to match
+ */
+export function isAdapterError(error: unknown, code?: AdapterErrorCode): error is AdapterError {
+    return error instanceof AdapterError && (code === undefined || error.code === code);
+}
+
+/**
+ * Check whether a failed operation is worth retrying
+ * @param error Value caught
+ */
+export function isTransientError(error: unknown): boolean {
+    return isAdapterError(error, 'transient');
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Code of an OfficeExtension.Error (a string code property), if the error is one
+ */
+function officeErrorCode(error: unknown): string | undefined {
+    const code = (error as { code?: unknown } | null | undefined)?.code;
+    return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Sheet named in an address ("Sheet1!A1:B2" or "'My Sheet'!A1"), if any
+ * A simplified splitSheetName(): utils/address throws AdapterError and cannot be imported here.
+ */
+function sheetOf(address: string | undefined): string | undefined {
+    const match = address ? /^(?:'((?:[^']|'')+)'|([^'!:]+))!/.exec(address.trim()) : null;
+
+    if (!match) {
+        return undefined;
+    }
+
+    return match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2];
+}
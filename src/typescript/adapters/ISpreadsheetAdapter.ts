@@ -5,13 +5,16 @@
  * Allows single codebase to work across both platforms.
  */
 
+import { FormulaLocale } from '../utils/formula';
+
 /**
- * Cell address in A1 notation (e.g., "B5", "Sheet1!C10")
+ * Cell address in A1 notation (e.g., "B5", "Sheet1!C10") or a named range
+ * ("GDP_C", or "Sheet1!Inputs" for a sheet-scoped name)
  */
 export type CellAddress = string;
 
 /**
- * Range address in A1 notation (e.g., "A1:B10", "Sheet1!C5:E15")
+ * Range address in A1 notation (e.g., "A1:B10", "Sheet1!C5:E15") or a named range
  */
 export type RangeAddress = string;
 
@@ -25,20 +28,421 @@ export type CellValue = string | number | boolean | Date | null | undefined;
  */
 export type CellMatrix = CellValue[][];
 
+/**
+ * 2D array of formulas
+ * Cells holding a formula contain its text (e.g., "=SUM(A1:A3)"); other cells
+ * contain their constant value, and empty cells contain null.
+ */
+export type FormulaMatrix = CellValue[][];
+
+/**
+ * Options for reading and writing formulas
+ */
+export interface FormulaOptions {
+    /**
+     * Reference style of the formula text (default 'A1')
+     */
+    style?: 'A1' | 'R1C1';
+
+    /**
+     * Separators used in the formula text (default invariant: "," and ".")
+     * Formulas are always stored locale-invariant; this only affects the text
+     * passed in and returned, e.g. { argumentSeparator: ';', decimalSeparator: ',' }
+     */
+    locale?: FormulaLocale;
+}
+
+/**
+ * Number format codes, either one code for every cell or one per cell
+ * (e.g., "yyyy-mm-dd", "0.0%", "#,##0.00")
+ */
+export type NumberFormat = string | string[][];
+
+/**
+ * Font settings; colours are hex strings such as "#1F4E79"
+ */
+export interface FontStyle {
+    name?: string;
+    size?: number;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    color?: string;
+}
+
+/**
+ * Range edges a border can be applied to
+ */
+export type BorderEdge = 'top' | 'bottom' | 'left' | 'right' | 'insideHorizontal' | 'insideVertical';
+
+/**
+ * Border settings for a single edge
+ */
+export interface BorderStyle {
+    style: 'continuous' | 'dash' | 'dot' | 'double' | 'none';
+    weight?: 'thin' | 'medium' | 'thick';
+    color?: string;
+}
+
+/**
+ * Basic styling applied to every cell of a range
+ */
+export interface RangeStyle {
+    font?: FontStyle;
+    /** Fill (background) colour */
+    fill?: string;
+    horizontalAlignment?: 'general' | 'left' | 'center' | 'right';
+    wrapText?: boolean;
+    borders?: Partial<Record<BorderEdge, BorderStyle>>;
+    /** Column width in points */
+    columnWidth?: number;
+    /** Row height in points */
+    rowHeight?: number;
+}
+
+/**
+ * One end (or the midpoint) of a colour scale
+ */
+export interface ColorScaleCriterion {
+    type: 'lowestValue' | 'highestValue' | 'number' | 'percent' | 'percentile';
+    /** Threshold for number/percent/percentile criteria */
+    value?: number;
+    color: string;
+}
+
+/**
+ * Conditional format applied to a range
+ * - colorScale: 2- or 3-colour scale (e.g., red/white/green for growth rates)
+ * - cellValue: font/fill applied when cells satisfy a comparison
+ * - dataBar: in-cell bar proportional to the value
+ */
+export type ConditionalFormat =
+    | {
+          type: 'colorScale';
+          minimum: ColorScaleCriterion;
+          midpoint?: ColorScaleCriterion;
+          maximum: ColorScaleCriterion;
+      }
+    | {
+          type: 'cellValue';
+          operator:
+              | 'between'
+              | 'notBetween'
+              | 'equalTo'
+              | 'notEqualTo'
+              | 'greaterThan'
+              | 'lessThan'
+              | 'greaterThanOrEqual'
+              | 'lessThanOrEqual';
+          value: number;
+          /** Upper bound for between/notBetween */
+          value2?: number;
+          font?: FontStyle;
+          fill?: string;
+      }
+    | {
+          type: 'dataBar';
+          color?: string;
+      };
+
+/**
+ * Formatting applied together with the values written by setRange
+ */
+export interface SetRangeOptions {
+    numberFormat?: NumberFormat;
+    style?: RangeStyle;
+}
+
+/**
+ * Progress of a chunked read or write, reported after each chunk
+ */
+export interface ChunkProgress {
+    completedCells: number;
+    totalCells: number;
+    completedChunks: number;
+    totalChunks: number;
+}
+
+/**
+ * Options for chunked reads and writes
+ */
+export interface ChunkOptions {
+    /** Payload budget: maximum cells per host request (default depends on the adapter) */
+    maxCellsPerChunk?: number;
+    /** Called after each chunk */
+    onProgress?: (progress: ChunkProgress) => void;
+    /** Stops before the next chunk; chunks already written stay written */
+    signal?: AbortSignal;
+}
+
+/**
+ * Custom function parameter
+ */
+export interface CustomFunctionParameter {
+    name: string;
+    description: string;
+    /** 'range' parameters receive a 2D matrix of cell values */
+    type: 'string' | 'number' | 'boolean' | 'range';
+    /** May be omitted; optional parameters must follow all required ones */
+    optional?: boolean;
+    /** Accepts any number of arguments; only the last parameter may repeat */
+    repeating?: boolean;
+}
+
 /**
  * Custom function metadata for registration
+ * This is the single source of truth for a function: Office's functions.json
+ * and the LibreOffice add-in description are generated from it
+ * (see manifest/functionManifest).
  */
 export interface CustomFunctionMetadata {
     name: string;
     description: string;
-    parameters: Array<{
-        name: string;
-        description: string;
-        type: 'string' | 'number' | 'boolean' | 'range';
-    }>;
+    parameters: CustomFunctionParameter[];
     returnType: 'string' | 'number' | 'boolean' | 'range';
+    /** Help page shown by the host's function wizard */
+    helpUrl?: string;
+    /** Recalculate on every workbook recalculation */
+    volatile?: boolean;
+    /** Pushes a sequence of results instead of returning one */
+    streaming?: boolean;
+    /** Is notified when the host cancels the call */
+    cancelable?: boolean;
+}
+
+/**
+ * Range result with header rows above the values
+ * Headers must be as wide as the values; the host shows them as the first rows.
+ */
+export interface MatrixResult {
+    headers?: CellMatrix;
+    values: CellMatrix;
+}
+
+/**
+ * Result of a custom function call
+ * Functions with returnType 'range' return a CellMatrix, a MatrixResult or a
+ * single value. Adapters check their results and hand them on as one
+ * CellMatrix, headers first (see utils/results).
+ */
+export type CustomFunctionResult = CellValue | CellMatrix | MatrixResult;
+
+/**
+ * Invocation passed as the last argument to streaming and cancelable functions
+ */
+export interface CustomFunctionInvocation {
+    /** Address of the calling cell, if the host provides it */
+    address?: string;
+    /** Assigned by the function; called once when the host cancels the call */
+    onCanceled?: () => void;
 }
 
+/**
+ * Invocation passed as the last argument to streaming functions
+ * An Error result is shown as an error value in the cell.
+ */
+export interface StreamingInvocation extends CustomFunctionInvocation {
+    setResult(value: CustomFunctionResult | Error): void;
+}
+
+/**
+ * Custom function implementation
+ * Streaming functions report results through their StreamingInvocation
+ * instead of returning them.
+ */
+export type CustomFunctionImplementation = (...args: unknown[]) => unknown;
+
+/**
+ * Result of a read queued in a batch
+ */
+export interface BatchResult<T> {
+    /** The value read; throws until the batch has synced */
+    readonly value: T;
+}
+
+/**
+ * Batch-scoped handle passed to batch() operations
+ * Reads and writes are queued against one host request and run together when
+ * the batch syncs: after the operations return, or earlier on sync(). Reads
+ * return a BatchResult whose value is available after that sync. Addresses
+ * may be names, as everywhere else.
+ */
+export interface BatchContext {
+    getCellValue(address: CellAddress): BatchResult<CellValue>;
+    getRange(startAddress: CellAddress, endAddress: CellAddress): BatchResult<CellMatrix>;
+    getFormulas(startAddress: CellAddress, endAddress: CellAddress, options?: FormulaOptions): BatchResult<FormulaMatrix>;
+    getNumberFormats(startAddress: CellAddress, endAddress: CellAddress): BatchResult<string[][]>;
+    setCellValue(address: CellAddress, value: CellValue): void;
+    setRange(startAddress: CellAddress, data: CellMatrix, options?: SetRangeOptions): void;
+    clearRange(startAddress: CellAddress, endAddress: CellAddress): void;
+    setFormulas(startAddress: CellAddress, formulas: FormulaMatrix, options?: FormulaOptions): void;
+    setNumberFormat(startAddress: CellAddress, endAddress: CellAddress, format: NumberFormat): void;
+    setStyle(startAddress: CellAddress, endAddress: CellAddress, style: RangeStyle): void;
+
+    /**
+     * Run everything queued so far; reads queued so far become available
+     */
+    sync(): Promise<void>;
+}
+
+/**
+ * A defined name referring to a range
+ */
+export interface NamedRange {
+    name: string;
+    /** Sheet-qualified address the name refers to (e.g., "Data!$B$2:$B$5") */
+    address: RangeAddress;
+    /** Sheet name for a sheet-scoped name; null for workbook scope */
+    scope: string | null;
+    comment?: string;
+}
+
+/**
+ * Options for creating a named range
+ */
+export interface NamedRangeOptions {
+    /** Sheet the name is scoped to (default: the whole workbook) */
+    scope?: string;
+    comment?: string;
+}
+
+/**
+ * A native table (an Excel table, a Calc database range)
+ */
+export interface TableInfo {
+    name: string;
+    /** Whole table including its header row, sheet-qualified (e.g., "Data!A8:C20") */
+    address: RangeAddress;
+    sheetName: string;
+    /** Column headers, left to right */
+    columns: string[];
+    /** Number of data rows (the header row is not counted) */
+    rowCount: number;
+}
+
+/**
+ * Options for creating a table
+ */
+export interface TableOptions {
+    /** Table name, unique in the workbook (default: chosen by the host, e.g., "Table1") */
+    name?: string;
+    /** Table style (e.g., "TableStyleMedium2"; Excel only) */
+    style?: string;
+}
+
+/**
+ * A table row keyed by column header
+ */
+export type TableRecord = Record<string, CellValue>;
+
+/**
+ * Chart type
+ * - line, column, area: series plotted against the categories of the source's first column
+ * - scatter: series plotted against numeric x values
+ */
+export type ChartType = 'line' | 'column' | 'scatter' | 'area';
+
+/**
+ * A chart series taken from its own range
+ */
+export interface ChartSeries {
+    name: string;
+    /** Values (y), one column */
+    values: RangeAddress;
+    /** X values of a scatter series, or categories (default: those of the first series) */
+    xValues?: RangeAddress;
+    /** Plot against the secondary value axis */
+    secondaryAxis?: boolean;
+    /** Draw the line dashed (line and scatter charts) */
+    dashed?: boolean;
+}
+
+/**
+ * Options for creating a chart
+ */
+export interface ChartOptions {
+    type: ChartType;
+    /**
+     * Data range: the first column holds the categories (x values for scatter
+     * charts) and each further column one series
+     */
+    source?: RangeAddress;
+    /** Whether the first row of the source names the series (default true) */
+    hasHeaders?: boolean;
+    /** Series taken from other ranges, plotted after those of the source */
+    series?: ChartSeries[];
+    /** Join the points of a scatter chart with lines (default false: markers only) */
+    lines?: boolean;
+    title?: string;
+    /** Category (x) axis title */
+    xAxisTitle?: string;
+    /** Value (y) axis title */
+    yAxisTitle?: string;
+    /** Source series, by name, plotted against a secondary value axis */
+    secondaryAxis?: string[];
+    secondaryAxisTitle?: string;
+    /**
+     * Cell at the chart's top-left corner, or the range the chart covers
+     * (default: two columns right of the source). The chart goes on its sheet,
+     * else on the source's sheet.
+     */
+    position?: RangeAddress;
+    /** Chart name (default: chosen by the host, e.g., "Chart 1") */
+    name?: string;
+}
+
+/**
+ * A chart that was created
+ */
+export interface ChartInfo {
+    name: string;
+    sheetName: string;
+    /** Series names, in plot order */
+    series: string[];
+}
+
+/**
+ * What made a cell change
+ * - local: edited by the user in this copy of the workbook
+ * - remote: edited by a collaborator in a co-authored workbook
+ * - api: written by this add-in through the adapter or the host API
+ * - unknown: the host does not say
+ */
+export type CellChangeType = 'local' | 'remote' | 'api' | 'unknown';
+
+/**
+ * A change to cell values
+ */
+export interface CellChange {
+    /** Changed range, sheet-qualified (e.g., "Sheet1!B2:C4") */
+    address: RangeAddress;
+    sheetName: string;
+    changeType: CellChangeType;
+}
+
+/**
+ * Options for listening to cell changes
+ */
+export interface CellChangeOptions {
+    /**
+     * Only report changes that touch one of these ranges (default: every change)
+     * Unqualified ranges are watched on every sheet. Names are resolved when
+     * the listener is added.
+     */
+    ranges?: RangeAddress[];
+    /**
+     * Wait until no change has arrived for this long, then report every change
+     * since the last call at once, duplicates removed (default 0: report each
+     * change as it happens)
+     */
+    debounceMs?: number;
+}
+
+/**
+ * A JSON-serializable value stored as document metadata
+ */
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
 /**
  * Dialog options
  */
@@ -64,6 +468,7 @@ export enum Platform {
     Excel = 'excel',
     LibreOffice = 'libreoffice',
     Web = 'web',
+    Memory = 'memory',
     Unknown = 'unknown'
 }
 
@@ -76,6 +481,14 @@ export interface ISpreadsheetAdapter {
      */
     getPlatform(): Platform;
 
+    /**
+     * Check whether results of range functions spill into the cells below and
+     * to the right (dynamic arrays)
+     * Without them, range results only fill array formulas entered over enough
+     * cells; writeFunctionResult in utils/results writes them with setRange instead.
+     */
+    supportsDynamicArrays(): boolean;
+
     /**
      * Check if the adapter is initialized and ready
      */
@@ -107,8 +520,26 @@ export interface ISpreadsheetAdapter {
      * Set values in a range
      * @param startAddress Start cell address
      * @param data 2D array of values
+     * @param options Number formats and styling applied in the same operation
+     */
+    setRange(startAddress: CellAddress, data: CellMatrix, options?: SetRangeOptions): Promise<void>;
+
+    /**
+     * Get values from a range in chunks of rows, one host request per chunk
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param options Chunk size, progress callback and abort signal
+     * @returns Promise resolving to 2D array of values
+     */
+    getRangeChunked(startAddress: CellAddress, endAddress: CellAddress, options?: ChunkOptions): Promise<CellMatrix>;
+
+    /**
+     * Set values in a range in chunks of rows, one host request per chunk
+     * @param startAddress Start cell address
+     * @param data 2D array of values
+     * @param options Number formats and styling, plus chunk size, progress callback and abort signal
      */
-    setRange(startAddress: CellAddress, data: CellMatrix): Promise<void>;
+    setRangeChunked(startAddress: CellAddress, data: CellMatrix, options?: SetRangeOptions & ChunkOptions): Promise<void>;
 
     /**
      * Clear values in a range
@@ -117,24 +548,111 @@ export interface ISpreadsheetAdapter {
      */
     clearRange(startAddress: CellAddress, endAddress: CellAddress): Promise<void>;
 
+    // ===== Formulas =====
+
+    /**
+     * Get formulas from a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param options Reference style and locale of the returned formulas
+     */
+    getFormulas(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        options?: FormulaOptions
+    ): Promise<FormulaMatrix>;
+
+    /**
+     * Set formulas in a range
+     * Strings starting with "=" are entered as formulas; other values as constants.
+     * @param startAddress Start cell address
+     * @param formulas 2D array of formulas
+     * @param options Reference style and locale of the supplied formulas
+     */
+    setFormulas(startAddress: CellAddress, formulas: FormulaMatrix, options?: FormulaOptions): Promise<void>;
+
+    // ===== Formatting =====
+
+    /**
+     * Get number format codes from a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     */
+    getNumberFormats(startAddress: CellAddress, endAddress: CellAddress): Promise<string[][]>;
+
+    /**
+     * Set number formats in a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param format One format code for all cells, or a matrix matching the range size
+     */
+    setNumberFormat(startAddress: CellAddress, endAddress: CellAddress, format: NumberFormat): Promise<void>;
+
+    /**
+     * Apply font, fill, alignment, border and size settings to a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param style Style to apply; unspecified properties are left unchanged
+     */
+    setStyle(startAddress: CellAddress, endAddress: CellAddress, style: RangeStyle): Promise<void>;
+
+    /**
+     * Autofit column widths and/or row heights to their contents
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param options Which dimensions to fit (default: columns only)
+     */
+    autofit(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        options?: { columns?: boolean; rows?: boolean }
+    ): Promise<void>;
+
+    /**
+     * Add a conditional format to a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param format Conditional format definition
+     */
+    addConditionalFormat(startAddress: CellAddress, endAddress: CellAddress, format: ConditionalFormat): Promise<void>;
+
+    /**
+     * Remove all conditional formats from a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     */
+    clearConditionalFormats(startAddress: CellAddress, endAddress: CellAddress): Promise<void>;
+
     // ===== Custom Functions =====
 
     /**
      * Register a custom function
+     * Streaming and cancelable functions receive an invocation as their last argument.
      * @param metadata Function metadata
      * @param implementation Function implementation
      */
     registerFunction(
         metadata: CustomFunctionMetadata,
-        implementation: (...args: any[]) => any
+        implementation: CustomFunctionImplementation
     ): void;
 
     /**
      * Call a custom function programmatically
+     * A streaming function resolves with its first result and is then canceled.
+     * @param name Function name
+     * @param args Arguments
+     */
+    callFunction(name: string, ...args: unknown[]): Promise<CustomFunctionResult>;
+
+    /**
+     * Call a custom function and receive every result it streams
+     * Other functions deliver their single result. Errors are delivered as Error values.
      * @param name Function name
      * @param args Arguments
+     * @param handler Receives each result
+     * @returns Cancel function (calls the function's onCanceled)
      */
-    callFunction(name: string, ...args: any[]): Promise<any>;
+    streamFunction(name: string, args: unknown[], handler: (result: CustomFunctionResult | Error) => void): () => void;
 
     // ===== Events =====
 
@@ -159,6 +677,20 @@ export interface ISpreadsheetAdapter {
      */
     onSheetChange(handler: (sheetName: string) => void): () => void;
 
+    /**
+     * Listen to changes of cell values
+     * @param handler Receives the changes, one per call unless debounced
+     * @param options Watched ranges and debounce delay
+     * @returns Unsubscribe function
+     */
+    onCellsChanged(handler: (changes: CellChange[]) => void, options?: CellChangeOptions): () => void;
+
+    /**
+     * Remove every event handler and the host registrations behind them
+     * Call when the add-in shuts down; new subscriptions register again.
+     */
+    dispose(): Promise<void>;
+
     // ===== UI =====
 
     /**
@@ -206,6 +738,121 @@ export interface ISpreadsheetAdapter {
      */
     deleteSheet(name: string): Promise<void>;
 
+    // ===== Named Ranges =====
+
+    /**
+     * Define a name for a range
+     * Unqualified addresses refer to the active sheet.
+     * @param name Name (e.g., "GDP_C")
+     * @param address Range the name refers to
+     * @param options Sheet scope and comment
+     */
+    createNamedRange(name: string, address: RangeAddress, options?: NamedRangeOptions): Promise<void>;
+
+    /**
+     * Resolve a name to the address it refers to
+     * An unqualified name finds a name scoped to the active sheet before a
+     * workbook-scoped one; "Sheet1!Name" finds the name scoped to Sheet1.
+     * @param name Name, optionally sheet-qualified
+     * @returns Sheet-qualified address
+     */
+    resolveNamedRange(name: string): Promise<RangeAddress>;
+
+    /**
+     * List the names that refer to ranges, workbook- and sheet-scoped
+     */
+    getNamedRanges(): Promise<NamedRange[]>;
+
+    /**
+     * Delete a name (the cells it refers to are unchanged)
+     * @param name Name, optionally sheet-qualified
+     */
+    deleteNamedRange(name: string): Promise<void>;
+
+    // ===== Tables =====
+
+    /**
+     * Turn a range into a table that can be sorted, filtered and referenced
+     * from formulas (e.g., "=SUM(Table1[GDP])")
+     * The first row of the range holds the column headers; blank headers become
+     * Column1, Column2, ... and repeated ones are numbered, as the host does.
+     * Unqualified addresses refer to the active sheet.
+     * @param address Range including the header row
+     * @param options Table name and style
+     * @returns The new table
+     */
+    createTable(address: RangeAddress, options?: TableOptions): Promise<TableInfo>;
+
+    /**
+     * Find a table by name (case-insensitive)
+     * @param name Table name
+     * @returns The table, or null if there is none with that name
+     */
+    getTable(name: string): Promise<TableInfo | null>;
+
+    /**
+     * Add rows to the end of a table; the table grows to include them
+     * @param name Table name
+     * @param rows Rows to add, one value per table column
+     * @returns The grown table
+     */
+    appendTableRows(name: string, rows: CellMatrix): Promise<TableInfo>;
+
+    /**
+     * Move the edges of a table; the header row stays where it is
+     * Cells left outside the table keep their values. Unqualified addresses
+     * refer to the table's sheet.
+     * @param name Table name
+     * @param address New range of the table, starting at its current top-left cell
+     * @returns The resized table
+     */
+    resizeTable(name: string, address: RangeAddress): Promise<TableInfo>;
+
+    /**
+     * Read the data rows of a table
+     * @param name Table name
+     * @returns One record per row, keyed by column header
+     */
+    getTableRecords(name: string): Promise<TableRecord[]>;
+
+    // ===== Charts =====
+
+    /**
+     * Create a chart from a source range and/or series taken from other ranges
+     * Unqualified addresses refer to the active sheet.
+     * @param options Type, data, titles, axes and placement
+     * @returns The new chart
+     */
+    createChart(options: ChartOptions): Promise<ChartInfo>;
+
+    // ===== Document Metadata =====
+
+    /**
+     * Read a metadata entry stored inside the document
+     * Entries are saved with the file, so they travel with it when it is shared.
+     * @param key Entry key (letters, digits, "_", "." and "-", starting with a letter)
+     * @returns Stored value, or null if the entry does not exist
+     */
+    getMetadata(key: string): Promise<JsonValue | null>;
+
+    /**
+     * Store a metadata entry inside the document, replacing any previous value
+     * @param key Entry key
+     * @param value JSON-serializable value
+     */
+    setMetadata(key: string, value: JsonValue): Promise<void>;
+
+    /**
+     * Delete a metadata entry (no error if it does not exist)
+     * @param key Entry key
+     */
+    deleteMetadata(key: string): Promise<void>;
+
+    /**
+     * List the keys of the metadata entries stored in the document
+     */
+    getMetadataKeys(): Promise<string[]>;
+
     // ===== Utilities =====
 
     /**
@@ -220,10 +867,13 @@ export interface ISpreadsheetAdapter {
     setSelectedRange(address: RangeAddress): Promise<void>;
 
     /**
-     * Execute a batch of operations efficiently
-     * @param operations Function containing operations
+     * Execute a batch of operations with a single sync
+     * Only operations queued on the context are batched; adapter methods called
+     * inside the batch still run on their own.
+     * @param operations Function queuing operations on the batch context
+     * @returns Result of operations, resolved after the final sync
      */
-    batch<T>(operations: () => Promise<T>): Promise<T>;
+    batch<T>(operations: (context: BatchContext) => Promise<T>): Promise<T>;
 
     /**
      * Refresh/recalculate all formulas
@@ -235,17 +885,24 @@ export interface ISpreadsheetAdapter {
  * Factory function to create appropriate adapter for current platform
  */
 export function createAdapter(): ISpreadsheetAdapter {
-    // Detect platform
-    if (typeof (window as any).Office !== 'undefined') {
-        // Office.js detected - Excel
-        const { OfficeJsAdapter } = require('./OfficeJsAdapter');
-        return new OfficeJsAdapter();
-    } else if (typeof (window as any).XSCRIPTCONTEXT !== 'undefined') {
-        // UNO context detected - LibreOffice
-        const { UnoAdapter } = require('./UnoAdapter');
-        return new UnoAdapter();
-    } else {
-        throw new Error('Unknown platform - neither Office.js nor UNO detected');
+    switch (detectPlatform()) {
+        case Platform.Excel: {
+            // Office.js detected - Excel
+            const { OfficeJsAdapter } = require('./OfficeJsAdapter');
+            return new OfficeJsAdapter();
+        }
+        case Platform.LibreOffice: {
+            // UNO context detected - LibreOffice
+            const { UnoAdapter } = require('./UnoAdapter');
+            return new UnoAdapter();
+        }
+        case Platform.Memory: {
+            // Headless Node/Jest - in-memory workbook
+            const { InMemoryAdapter } = require('./InMemoryAdapter');
+            return new InMemoryAdapter();
+        }
+        default:
+            throw new Error('Unknown platform - neither Office.js nor UNO detected');
     }
 }
 
@@ -253,12 +910,16 @@ export function createAdapter(): ISpreadsheetAdapter {
  * Detect current platform without creating adapter
  */
 export function detectPlatform(): Platform {
-    if (typeof (window as any).Office !== 'undefined') {
+    const host = typeof window !== 'undefined' ? (window as any) : undefined;
+
+    if (host && typeof host.Office !== 'undefined') {
         return Platform.Excel;
-    } else if (typeof (window as any).XSCRIPTCONTEXT !== 'undefined') {
+    } else if (host && typeof host.XSCRIPTCONTEXT !== 'undefined') {
         return Platform.LibreOffice;
-    } else if (typeof window !== 'undefined') {
+    } else if (host) {
         return Platform.Web;
+    } else if (typeof process !== 'undefined' && process.versions && process.versions.node) {
+        return Platform.Memory;
     } else {
         return Platform.Unknown;
     }
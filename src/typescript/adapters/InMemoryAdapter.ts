@@ -0,0 +1,1508 @@
+/**
+ * InMemoryAdapter - Headless Reference Implementation
+ *
+ * Implements ISpreadsheetAdapter interface entirely in memory so that add-in
+ * logic (ribbons, formulas, data insertion) can be exercised under Node/Jest
+ * without an Excel or LibreOffice Calc host.
+ */
+
+import {
+    ISpreadsheetAdapter,
+    Platform,
+    BatchContext,
+    CellAddress,
+    RangeAddress,
+    CellValue,
+    CellMatrix,
+    CellChange,
+    CellChangeOptions,
+    CellChangeType,
+    ChartInfo,
+    ChartOptions,
+    ChartSeries,
+    ChartType,
+    ChunkOptions,
+    ConditionalFormat,
+    CustomFunctionImplementation,
+    CustomFunctionMetadata,
+    CustomFunctionResult,
+    DialogOptions,
+    FormulaMatrix,
+    FormulaOptions,
+    JsonValue,
+    NamedRange,
+    NamedRangeOptions,
+    NumberFormat,
+    RangeStyle,
+    SetRangeOptions,
+    TableInfo,
+    TableOptions,
+    TableRecord,
+    TaskPaneOptions
+} from './ISpreadsheetAdapter';
+import { AdapterError, toAdapterError } from './AdapterError';
+import {
+    CellRef,
+    RangeRef,
+    formatAddress,
+    intersectRanges,
+    isRangeName,
+    offsetRange,
+    parseAddress,
+    rangeFromCorners,
+    rangeSize,
+    resizeRange,
+    splitSheetName
+} from '../utils/address';
+import { QueuedBatchContext } from '../utils/batch';
+import { CellChangeDispatcher } from '../utils/changes';
+import { chartSeries, defaultChartPosition } from '../utils/charts';
+import { EventSubscriptions } from '../utils/events';
+import { DEFAULT_MAX_CELLS_PER_CHUNK, readInChunks, writeInChunks } from '../utils/chunking';
+import { NumberFormats, expandNumberFormat } from '../utils/formats';
+import { metadataKeyOf, metadataStorageKey } from '../utils/metadata';
+import {
+    formulaFromR1C1,
+    formulaToR1C1,
+    isFormula,
+    toInvariantFormula,
+    toLocalFormula
+} from '../utils/formula';
+import { firstResult, startInvocation } from '../utils/streaming';
+import { tableColumnNames, toTableRecords } from '../utils/tables';
+import { ValueMode, dateFormatFor, normalizeCellValue, toHostValue } from '../utils/values';
+
+/**
+ * Options accepted by the InMemoryAdapter constructor
+ */
+export interface InMemoryAdapterOptions {
+    /** Sheets to create up front (defaults to a single "Sheet1") */
+    sheetNames?: string[];
+    /** How stored values are normalized on read (default 'strict') */
+    valueMode?: ValueMode;
+    /** True to emulate a workbook using the 1904 date system */
+    date1904?: boolean;
+    /** False to emulate a host without dynamic arrays (default true) */
+    dynamicArrays?: boolean;
+}
+
+/**
+ * Notification recorded by showNotification/showDialog/showTaskPane
+ */
+export interface InMemoryNotification {
+    kind: 'notification' | 'dialog' | 'taskpane';
+    message: string;
+    type?: 'info' | 'warning' | 'error';
+}
+
+/**
+ * Chart recorded by createChart; addresses are sheet-qualified
+ */
+export interface InMemoryChart {
+    name: string;
+    sheetName: string;
+    type: ChartType;
+    /** Top-left cell or covered range, or null if the host would place the chart */
+    position: RangeAddress | null;
+    title?: string;
+    xAxisTitle?: string;
+    yAxisTitle?: string;
+    secondaryAxisTitle?: string;
+    lines: boolean;
+    series: ChartSeries[];
+}
+
+/**
+ * A single worksheet held in memory
+ * Formulas are stored as invariant A1 text and are not evaluated.
+ * @private
+ */
+interface MemorySheet {
+    name: string;
+    cells: Map<string, CellValue>;
+    formulas: Map<string, string>;
+    numberFormats: Map<string, string>;
+    styles: Map<string, RangeStyle>;
+    conditionalFormats: Array<{ range: RangeRef; format: ConditionalFormat }>;
+}
+
+/**
+ * A defined name held in memory; range is always sheet-qualified
+ * @private
+ */
+interface MemoryName {
+    name: string;
+    scope: string | null;
+    range: RangeRef;
+    comment?: string;
+}
+
+/**
+ * A table held in memory; range is sheet-qualified and includes the header row
+ * @private
+ */
+interface MemoryTable {
+    name: string;
+    range: RangeRef;
+}
+
+/**
+ * InMemoryAdapter class implements spreadsheet operations on an in-memory workbook
+ */
+export class InMemoryAdapter implements ISpreadsheetAdapter {
+    private sheets: MemorySheet[];
+    private names: MemoryName[];
+    private tables: MemoryTable[];
+    private charts: InMemoryChart[];
+    private metadata: Map<string, string>;
+    private activeSheetName: string;
+    private selection: RangeRef;
+    private customFunctions: Map<string, { metadata: CustomFunctionMetadata; implementation: CustomFunctionImplementation }>;
+    private events: EventSubscriptions;
+    private cellChangeDispatchers: Set<CellChangeDispatcher>;
+    private notifications: InMemoryNotification[];
+    private options: InMemoryAdapterOptions;
+
+    constructor(options: InMemoryAdapterOptions = {}) {
+        this.options = options;
+        const sheetNames = options.sheetNames && options.sheetNames.length > 0 ? options.sheetNames : ['Sheet1'];
+
+        this.sheets = [];
+        this.names = [];
+        this.tables = [];
+        this.charts = [];
+        this.metadata = new Map();
+        sheetNames.forEach(name => this.addSheet(name));
+        this.activeSheetName = this.sheets[0].name;
+        this.selection = { ...parseAddress('A1'), sheetName: this.activeSheetName };
+        this.customFunctions = new Map();
+        this.events = new EventSubscriptions();
+        this.cellChangeDispatchers = new Set();
+        this.notifications = [];
+    }
+
+    /**
+     * Get the current platform (always returns Memory for this adapter)
+     * @returns Platform.Memory
+     */
+    getPlatform(): Platform {
+        return Platform.Memory;
+    }
+
+    /**
+     * Check whether range results spill (configurable to emulate older hosts)
+     * @returns False if the adapter was created with dynamicArrays: false
+     */
+    supportsDynamicArrays(): boolean {
+        return this.options.dynamicArrays !== false;
+    }
+
+    /**
+     * Check if the adapter is initialized and ready to use
+     * @returns Promise resolving to true (the in-memory workbook is always ready)
+     */
+    async isReady(): Promise<boolean> {
+        return true;
+    }
+
+    // ===== Cell Operations =====
+
+    /**
+     * Get value from a single cell
+     * @param address Cell address in A1 notation (e.g., "B5" or "Sheet1!C10")
+     * @returns Promise resolving to the cell value, or null if empty
+     * @throws Error if the address or sheet is invalid
+     */
+    async getCellValue(address: CellAddress): Promise<CellValue> {
+        const { sheet, position } = this.resolveCell(address);
+        return this.readCell(sheet, position);
+    }
+
+    /**
+     * Set value in a single cell
+     * @param address Cell address in A1 notation
+     * @param value Value to set (null/undefined clears the cell)
+     * @throws Error if the address or sheet is invalid
+     */
+    async setCellValue(address: CellAddress, value: CellValue): Promise<void> {
+        const { sheet, position } = this.resolveCell(address);
+        this.writeCell(sheet, position, value);
+        this.fireCellsChanged({ sheetName: sheet.name, start: position, end: position, kind: 'cell' }, 'api');
+    }
+
+    /**
+     * Get values from a range
+     * @param startAddress Start cell address (e.g., "A1" or "Sheet1!A1")
+     * @param endAddress End cell address (e.g., "C10")
+     * @returns Promise resolving to 2D array of values
+     * @throws Error if the range is invalid
+     */
+    async getRange(startAddress: CellAddress, endAddress: CellAddress): Promise<CellMatrix> {
+        const { sheet, start, end } = this.resolveRange(startAddress, endAddress);
+        const result: CellMatrix = [];
+
+        for (let row = start.row; row <= end.row; row++) {
+            const rowData: CellValue[] = [];
+            for (let column = start.column; column <= end.column; column++) {
+                rowData.push(this.readCell(sheet, { row, column }));
+            }
+            result.push(rowData);
+        }
+
+        return result;
+    }
+
+    /**
+     * Set values in a range
+     * @param startAddress Start cell address where data will be placed
+     * @param data 2D array of values to set
+     * @param options Number formats and styling applied with the values
+     * @throws Error if the data matrix is empty or the address is invalid
+     */
+    async setRange(startAddress: CellAddress, data: CellMatrix, options: SetRangeOptions = {}): Promise<void> {
+        this.fireCellsChanged(this.writeValues(startAddress, data, options), 'api');
+    }
+
+    /**
+     * Get values from a range in chunks of rows
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param options Chunk size, progress callback and abort signal
+     * @returns Promise resolving to 2D array of values
+     * @throws Error if the range is invalid or the read is aborted
+     */
+    async getRangeChunked(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        options: ChunkOptions = {}
+    ): Promise<CellMatrix> {
+        return readInChunks(
+            this.resolveName(startAddress),
+            this.resolveName(endAddress),
+            options,
+            DEFAULT_MAX_CELLS_PER_CHUNK,
+            (start, end) => this.getRange(start, end)
+        );
+    }
+
+    /**
+     * Set values in a range in chunks of rows
+     * Chunks written before an abort stay written.
+     * @param startAddress Start cell address
+     * @param data 2D array of values
+     * @param options Number formats and styling, chunk size, progress callback and abort signal
+     * @throws Error if the data is empty or the write is aborted
+     */
+    async setRangeChunked(
+        startAddress: CellAddress,
+        data: CellMatrix,
+        options: SetRangeOptions & ChunkOptions = {}
+    ): Promise<void> {
+        await writeInChunks(
+            this.resolveName(startAddress),
+            data,
+            options,
+            DEFAULT_MAX_CELLS_PER_CHUNK,
+            (start, chunk, chunkOptions) => this.setRange(start, chunk, chunkOptions),
+            (start, end, style) => this.setStyle(start, end, style)
+        );
+    }
+
+    /**
+     * Clear values in a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @throws Error if the range is invalid
+     */
+    async clearRange(startAddress: CellAddress, endAddress: CellAddress): Promise<void> {
+        const { sheet, range, start, end } = this.resolveRange(startAddress, endAddress);
+
+        for (let row = start.row; row <= end.row; row++) {
+            for (let column = start.column; column <= end.column; column++) {
+                const key = this.cellKey({ row, column });
+                sheet.cells.delete(key);
+                sheet.formulas.delete(key);
+            }
+        }
+
+        this.fireCellsChanged(range, 'api');
+    }
+
+    // ===== Formulas =====
+
+    /**
+     * Get formulas from a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param options Reference style and locale of the returned formulas
+     * @returns Promise resolving to 2D array of formulas and constants
+     * @throws Error if the range is invalid
+     */
+    async getFormulas(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        options: FormulaOptions = {}
+    ): Promise<FormulaMatrix> {
+        const { sheet, start, end } = this.resolveRange(startAddress, endAddress);
+        const result: FormulaMatrix = [];
+
+        for (let row = start.row; row <= end.row; row++) {
+            const rowData: CellValue[] = [];
+            for (let column = start.column; column <= end.column; column++) {
+                const position = { row, column };
+                let formula = sheet.formulas.get(this.cellKey(position));
+
+                if (formula === undefined) {
+                    rowData.push(this.readCell(sheet, position));
+                    continue;
+                }
+
+                if (options.style === 'R1C1') {
+                    formula = formulaToR1C1(formula, position);
+                }
+                rowData.push(options.locale ? toLocalFormula(formula, options.locale) : formula);
+            }
+            result.push(rowData);
+        }
+
+        return result;
+    }
+
+    /**
+     * Set formulas in a range
+     * @param startAddress Start cell address where formulas will be placed
+     * @param formulas 2D array of formulas and constants
+     * @param options Reference style and locale of the supplied formulas
+     * @throws Error if the matrix is empty or the address is invalid
+     */
+    async setFormulas(
+        startAddress: CellAddress,
+        formulas: FormulaMatrix,
+        options: FormulaOptions = {}
+    ): Promise<void> {
+        if (!formulas || formulas.length === 0 || formulas[0].length === 0) {
+            throw new AdapterError('Formula matrix cannot be empty', { code: 'invalid_argument', address: startAddress });
+        }
+
+        const { sheet, position } = this.resolveCell(startAddress);
+
+        formulas.forEach((rowData, rowOffset) => {
+            rowData.forEach((value, colOffset) => {
+                const target = { row: position.row + rowOffset, column: position.column + colOffset };
+
+                if (!isFormula(value)) {
+                    this.writeCell(sheet, target, value);
+                    return;
+                }
+
+                let formula = options.locale ? toInvariantFormula(value, options.locale) : value;
+                if (options.style === 'R1C1') {
+                    formula = formulaFromR1C1(formula, target);
+                }
+
+                const key = this.cellKey(target);
+                sheet.cells.delete(key);
+                sheet.formulas.set(key, formula);
+            });
+        });
+
+        const target = resizeRange(parseAddress(this.resolveName(startAddress)), formulas.length, formulas[0].length);
+        this.fireCellsChanged({ ...target, sheetName: sheet.name }, 'api');
+    }
+
+    // ===== Formatting =====
+
+    /**
+     * Get number format codes from a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @returns Promise resolving to 2D array of format codes ("General" where unset)
+     * @throws Error if the range is invalid
+     */
+    async getNumberFormats(startAddress: CellAddress, endAddress: CellAddress): Promise<string[][]> {
+        const { sheet, start, end } = this.resolveRange(startAddress, endAddress);
+        const result: string[][] = [];
+
+        for (let row = start.row; row <= end.row; row++) {
+            const rowData: string[] = [];
+            for (let column = start.column; column <= end.column; column++) {
+                rowData.push(sheet.numberFormats.get(this.cellKey({ row, column })) || NumberFormats.general);
+            }
+            result.push(rowData);
+        }
+
+        return result;
+    }
+
+    /**
+     * Set number formats in a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param format One format code for all cells, or a matrix matching the range size
+     * @throws Error if the range is invalid or the matrix does not match it
+     */
+    async setNumberFormat(startAddress: CellAddress, endAddress: CellAddress, format: NumberFormat): Promise<void> {
+        const { sheet, range } = this.resolveRange(startAddress, endAddress);
+        const { rows, columns } = rangeSize(range);
+
+        this.writeNumberFormats(sheet, range, expandNumberFormat(format, rows, columns));
+    }
+
+    /**
+     * Apply font, fill, alignment, border and size settings to a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param style Style to apply; unspecified properties are left unchanged
+     * @throws Error if the range is invalid
+     */
+    async setStyle(startAddress: CellAddress, endAddress: CellAddress, style: RangeStyle): Promise<void> {
+        const { sheet, range } = this.resolveRange(startAddress, endAddress);
+        this.writeStyle(sheet, range, style);
+    }
+
+    /**
+     * Autofit column widths and/or row heights
+     * The in-memory workbook has no layout engine, so this only validates the range.
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @throws Error if the range is invalid
+     */
+    async autofit(startAddress: CellAddress, endAddress: CellAddress): Promise<void> {
+        this.resolveRange(startAddress, endAddress);
+    }
+
+    /**
+     * Add a conditional format to a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param format Conditional format definition
+     * @throws Error if the range is invalid
+     */
+    async addConditionalFormat(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        format: ConditionalFormat
+    ): Promise<void> {
+        const { sheet, range } = this.resolveRange(startAddress, endAddress);
+        sheet.conditionalFormats.push({ range, format });
+    }
+
+    /**
+     * Remove all conditional formats that overlap a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @throws Error if the range is invalid
+     */
+    async clearConditionalFormats(startAddress: CellAddress, endAddress: CellAddress): Promise<void> {
+        const { sheet, range } = this.resolveRange(startAddress, endAddress);
+        sheet.conditionalFormats = sheet.conditionalFormats.filter(entry => !intersectRanges(entry.range, range));
+    }
+
+    /**
+     * Get the style applied to a single cell
+     * @param address Cell address
+     * @returns Accumulated style of the cell (empty if unstyled)
+     */
+    getCellStyle(address: CellAddress): RangeStyle {
+        const { sheet, position } = this.resolveCell(address);
+        return sheet.styles.get(this.cellKey(position)) || {};
+    }
+
+    /**
+     * Get the conditional formats on a sheet
+     * @param sheetName Sheet name (defaults to the active sheet)
+     * @returns Conditional formats with their sheet-qualified addresses
+     */
+    getConditionalFormats(sheetName?: string): Array<{ address: RangeAddress; format: ConditionalFormat }> {
+        const sheet = this.getSheet(sheetName || this.activeSheetName);
+        return sheet.conditionalFormats.map(({ range, format }) => ({ address: formatAddress(range), format }));
+    }
+
+    // ===== Custom Functions =====
+
+    /**
+     * Register a custom function
+     * @param metadata Function metadata
+     * @param implementation Function implementation
+     * @throws Error if the function name is missing
+     */
+    registerFunction(
+        metadata: CustomFunctionMetadata,
+        implementation: CustomFunctionImplementation
+    ): void {
+        if (!metadata.name) {
+            throw new AdapterError('Function name is required', { code: 'invalid_argument' });
+        }
+
+        this.customFunctions.set(metadata.name.toUpperCase(), { metadata, implementation });
+    }
+
+    /**
+     * Call a custom function programmatically
+     * A streaming function resolves with its first result and is then canceled.
+     * @param name Function name (case-insensitive)
+     * @param args Function arguments
+     * @returns Promise resolving to function result
+     * @throws Error if function is not registered or throws
+     */
+    async callFunction(name: string, ...args: unknown[]): Promise<CustomFunctionResult> {
+        const entry = this.getFunction(name);
+
+        try {
+            return await firstResult(entry.metadata, entry.implementation, args);
+        } catch (error) {
+            throw toAdapterError(error, `Error calling function ${name}`);
+        }
+    }
+
+    /**
+     * Call a custom function and receive every result it streams
+     * @param name Function name (case-insensitive)
+     * @param args Function arguments
+     * @param handler Receives each result (Error values for failures)
+     * @returns Cancel function
+     * @throws Error if function is not registered
+     */
+    streamFunction(name: string, args: unknown[], handler: (result: CustomFunctionResult | Error) => void): () => void {
+        const entry = this.getFunction(name);
+        return startInvocation(entry.metadata, entry.implementation, args, handler);
+    }
+
+    /**
+     * Get metadata of all registered custom functions
+     * @returns Array of registered function metadata
+     */
+    getRegisteredFunctions(): CustomFunctionMetadata[] {
+        return Array.from(this.customFunctions.values()).map(entry => entry.metadata);
+    }
+
+    // ===== Events =====
+
+    /**
+     * Listen to selection change events
+     * @param handler Event handler that receives the new selection address
+     * @returns Unsubscribe function
+     */
+    onSelectionChange(handler: (address: CellAddress) => void): () => void {
+        return this.events.subscribe('selectionChange', handler);
+    }
+
+    /**
+     * Listen to calculation complete events
+     * @param handler Event handler called after recalculate()
+     * @returns Unsubscribe function
+     */
+    onCalculate(handler: () => void): () => void {
+        return this.events.subscribe<void>('calculate', handler);
+    }
+
+    /**
+     * Listen to sheet change events (when active sheet changes)
+     * @param handler Event handler that receives the new sheet name
+     * @returns Unsubscribe function
+     */
+    onSheetChange(handler: (sheetName: string) => void): () => void {
+        return this.events.subscribe('sheetChange', handler);
+    }
+
+    /**
+     * Listen to changes of cell values
+     * Writes through the adapter are reported as 'api' changes; use editCells()
+     * to simulate a user or collaborator edit.
+     * @param handler Receives the changes, one per call unless debounced
+     * @param options Watched ranges and debounce delay
+     * @returns Unsubscribe function
+     * @throws Error if a watched range or the delay is invalid
+     */
+    onCellsChanged(handler: (changes: CellChange[]) => void, options: CellChangeOptions = {}): () => void {
+        const ranges = options.ranges ? options.ranges.map(range => this.resolveName(range)) : undefined;
+        const dispatcher = new CellChangeDispatcher(handler, { ...options, ranges });
+
+        const unsubscribe = this.events.subscribe<CellChange>('cellsChanged', change => dispatcher.push(change));
+
+        this.cellChangeDispatchers.add(dispatcher);
+        return () => {
+            unsubscribe();
+            this.cellChangeDispatchers.delete(dispatcher);
+            dispatcher.dispose();
+        };
+    }
+
+    /**
+     * Write values as if the user or a collaborator had typed them
+     * @param startAddress Start cell address
+     * @param data 2D array of values
+     * @param changeType Reported change type (default 'local')
+     * @throws Error if the data matrix is empty or the address is invalid
+     */
+    editCells(startAddress: CellAddress, data: CellMatrix, changeType: 'local' | 'remote' = 'local'): void {
+        this.fireCellsChanged(this.writeValues(startAddress, data, {}), changeType);
+    }
+
+    /**
+     * Remove every event handler
+     */
+    async dispose(): Promise<void> {
+        this.cellChangeDispatchers.forEach(d => d.dispose());
+        this.cellChangeDispatchers.clear();
+        await this.events.dispose();
+    }
+
+    // ===== UI =====
+
+    /**
+     * Record a dialog request (no UI is shown)
+     * @param content HTML content URL or component name
+     * @param options Dialog options
+     */
+    async showDialog(content: string, options: DialogOptions): Promise<void> {
+        this.notifications.push({ kind: 'dialog', message: `${options.title}: ${content}` });
+    }
+
+    /**
+     * Record a task pane request (no UI is shown)
+     * @param component Component name or URL
+     * @param options Task pane options
+     */
+    async showTaskPane(component: string, options: TaskPaneOptions): Promise<void> {
+        this.notifications.push({ kind: 'taskpane', message: `${options.title}: ${component}` });
+    }
+
+    /**
+     * Record a notification/message
+     * @param message Message text
+     * @param type Message type (info, warning, error)
+     */
+    async showNotification(message: string, type: 'info' | 'warning' | 'error'): Promise<void> {
+        this.notifications.push({ kind: 'notification', message, type });
+    }
+
+    /**
+     * Get all dialogs, task panes and notifications shown so far
+     * @returns Recorded notifications in display order
+     */
+    getNotifications(): InMemoryNotification[] {
+        return [...this.notifications];
+    }
+
+    // ===== Sheets =====
+
+    /**
+     * Get list of all sheet names in the workbook
+     * @returns Promise resolving to array of sheet names in tab order
+     */
+    async getSheetNames(): Promise<string[]> {
+        return this.sheets.map(sheet => sheet.name);
+    }
+
+    /**
+     * Get the name of the currently active sheet
+     * @returns Promise resolving to active sheet name
+     */
+    async getActiveSheetName(): Promise<string> {
+        return this.activeSheetName;
+    }
+
+    /**
+     * Create a new sheet with the specified name
+     * @param name Name for the new sheet
+     * @throws Error if the name is missing or already used
+     */
+    async createSheet(name: string): Promise<void> {
+        if (!name) {
+            throw new AdapterError('Sheet name is required', { code: 'invalid_argument' });
+        }
+
+        this.addSheet(name);
+    }
+
+    /**
+     * Delete a sheet by name
+     * @param name Name of the sheet to delete
+     * @throws Error if the sheet does not exist or is the last sheet
+     */
+    async deleteSheet(name: string): Promise<void> {
+        if (!name) {
+            throw new AdapterError('Sheet name is required', { code: 'invalid_argument' });
+        }
+
+        const sheet = this.getSheet(name);
+
+        if (this.sheets.length === 1) {
+            throw new AdapterError(`Failed to delete sheet ${name}: a workbook must contain at least one sheet`, {
+                code: 'invalid_operation',
+                sheetName: name
+            });
+        }
+
+        this.sheets = this.sheets.filter(s => s !== sheet);
+        this.names = this.names.filter(n => n.scope !== sheet.name && n.range.sheetName !== sheet.name);
+        this.tables = this.tables.filter(t => t.range.sheetName !== sheet.name);
+        this.charts = this.charts.filter(c => c.sheetName !== sheet.name);
+
+        if (sheet.name === this.activeSheetName) {
+            this.activateSheet(this.sheets[0].name);
+            this.selection = { ...parseAddress('A1'), sheetName: this.activeSheetName };
+        }
+    }
+
+    /**
+     * Make a sheet the active sheet, firing sheet change handlers
+     * @param name Name of the sheet to activate
+     * @throws Error if the sheet does not exist
+     */
+    activateSheet(name: string): void {
+        const sheet = this.getSheet(name);
+
+        if (sheet.name !== this.activeSheetName) {
+            this.activeSheetName = sheet.name;
+            this.events.emit('sheetChange', sheet.name);
+        }
+    }
+
+    // ===== Named Ranges =====
+
+    /**
+     * Define a name for a range
+     * @param name Name (e.g., "GDP_C")
+     * @param address Range the name refers to; unqualified addresses refer to the active sheet
+     * @param options Sheet scope and comment
+     * @throws Error if the name is invalid or already defined in that scope (workbook-scoped names
+     * also clash with table names), or the sheet does not exist
+     */
+    async createNamedRange(name: string, address: RangeAddress, options: NamedRangeOptions = {}): Promise<void> {
+        if (!isRangeName(name) || name.includes('!')) {
+            throw new AdapterError(`Invalid name: ${name}`, { code: 'invalid_argument' });
+        }
+
+        const scope = options.scope ? this.getSheet(options.scope).name : null;
+        const range = parseAddress(this.resolveName(address));
+        const sheet = this.getSheet(range.sheetName || this.activeSheetName);
+
+        if (this.findName(name, scope) || (scope === null && this.findTable(name))) {
+            throw new AdapterError(`Failed to create name ${name}: a name with that scope already exists`, {
+                code: 'already_exists',
+                sheetName: scope ?? undefined
+            });
+        }
+
+        this.names.push({ name, scope, range: { ...range, sheetName: sheet.name }, comment: options.comment });
+    }
+
+    /**
+     * Resolve a name to the address it refers to
+     * @param name Name, optionally sheet-qualified ("Sheet1!Inputs")
+     * @returns Sheet-qualified address
+     * @throws Error if the name is not defined
+     */
+    async resolveNamedRange(name: string): Promise<RangeAddress> {
+        return formatAddress(this.lookupName(name).range);
+    }
+
+    /**
+     * List the defined names, workbook-scoped first
+     * @returns Names with their addresses and scopes
+     */
+    async getNamedRanges(): Promise<NamedRange[]> {
+        return [...this.names.filter(n => n.scope === null), ...this.names.filter(n => n.scope !== null)].map(n => ({
+            name: n.name,
+            address: formatAddress(n.range),
+            scope: n.scope,
+            comment: n.comment
+        }));
+    }
+
+    /**
+     * Delete a name
+     * @param name Name, optionally sheet-qualified ("Sheet1!Inputs")
+     * @throws Error if the name is not defined
+     */
+    async deleteNamedRange(name: string): Promise<void> {
+        const entry = this.lookupName(name);
+        this.names = this.names.filter(n => n !== entry);
+    }
+
+    // ===== Tables =====
+
+    /**
+     * Turn a range into a table, naming blank and repeated headers as Excel does
+     * @param address Range including the header row; unqualified addresses refer to the active sheet
+     * @param options Table name (default Table1, Table2, ...); the style is ignored
+     * @returns The new table
+     * @throws Error if the name is invalid or taken, or the range overlaps another table
+     */
+    async createTable(address: RangeAddress, options: TableOptions = {}): Promise<TableInfo> {
+        const name = options.name ?? this.nextTableName();
+
+        if (!isRangeName(name) || name.includes('!')) {
+            throw new AdapterError(`Invalid table name: ${name}`, { code: 'invalid_argument' });
+        }
+
+        if (this.findTable(name) || this.findName(name, null)) {
+            throw new AdapterError(`Failed to create table ${name}: a table or name with that name already exists`, {
+                code: 'already_exists'
+            });
+        }
+
+        const parsed = parseAddress(this.resolveName(address));
+        const sheet = this.getSheet(parsed.sheetName || this.activeSheetName);
+        const table: MemoryTable = { name, range: { ...parsed, sheetName: sheet.name } };
+
+        this.assertNoTableOverlap(table, table.range);
+        this.writeTableHeaders(table);
+        this.tables.push(table);
+
+        return this.tableInfo(table);
+    }
+
+    /**
+     * Find a table by name
+     * @param name Table name (case-insensitive)
+     * @returns The table, or null if there is none with that name
+     */
+    async getTable(name: string): Promise<TableInfo | null> {
+        const table = this.findTable(name);
+        return table ? this.tableInfo(table) : null;
+    }
+
+    /**
+     * Add rows to the end of a table
+     * Unlike Excel, which shifts the cells below the table down, the cells
+     * below the table must be empty.
+     * @param name Table name
+     * @param rows Rows to add, one value per table column
+     * @returns The grown table
+     * @throws Error if the table does not exist, a row has the wrong width or the cells below are not empty
+     */
+    async appendTableRows(name: string, rows: CellMatrix): Promise<TableInfo> {
+        const table = this.getMemoryTable(name);
+        const { rows: height, columns } = rangeSize(table.range);
+
+        if (rows.length === 0) {
+            throw new AdapterError('Data matrix cannot be empty', { code: 'invalid_argument' });
+        }
+
+        if (rows.some(row => row.length !== columns)) {
+            throw new AdapterError(`Rows added to table ${table.name} must have ${columns} values each`, {
+                code: 'invalid_argument'
+            });
+        }
+
+        const sheet = this.getSheet(table.range.sheetName as string);
+        const below = offsetRange(resizeRange(table.range, rows.length, columns), height, 0);
+
+        for (let row = below.start.row; row <= below.end.row; row++) {
+            for (let column = below.start.column; column <= below.end.column; column++) {
+                const key = this.cellKey({ row, column });
+                if (sheet.cells.has(key) || sheet.formulas.has(key)) {
+                    throw new AdapterError(
+                        `Failed to add rows to table ${table.name}: the cells below it are not empty`,
+                        { code: 'invalid_operation', address: formatAddress(below) }
+                    );
+                }
+            }
+        }
+
+        this.assertNoTableOverlap(table, below);
+        this.fireCellsChanged(this.writeValues(formatAddress(below), rows, {}), 'api');
+        table.range = resizeRange(table.range, height + rows.length, columns);
+
+        return this.tableInfo(table);
+    }
+
+    /**
+     * Move the edges of a table
+     * @param name Table name
+     * @param address New range, starting at the table's top-left cell; unqualified addresses refer to the table's sheet
+     * @returns The resized table
+     * @throws Error if the table does not exist, the header row would move or the range overlaps another table
+     */
+    async resizeTable(name: string, address: RangeAddress): Promise<TableInfo> {
+        const table = this.getMemoryTable(name);
+        const parsed = parseAddress(this.resolveName(address));
+        const sheetName = table.range.sheetName as string;
+
+        if (
+            (parsed.sheetName && parsed.sheetName.toLowerCase() !== sheetName.toLowerCase()) ||
+            parsed.start.row !== table.range.start.row ||
+            parsed.start.column !== table.range.start.column
+        ) {
+            const corner = formatAddress(resizeRange(table.range, 1, 1));
+            throw new AdapterError(`Failed to resize table ${table.name}: the new range must start at ${corner}`, {
+                code: 'invalid_argument',
+                address
+            });
+        }
+
+        const range = { ...parsed, sheetName };
+        this.assertNoTableOverlap(table, range);
+        table.range = range;
+        this.writeTableHeaders(table);
+
+        return this.tableInfo(table);
+    }
+
+    /**
+     * Read the data rows of a table
+     * @param name Table name
+     * @returns One record per row, keyed by column header
+     * @throws Error if the table does not exist
+     */
+    async getTableRecords(name: string): Promise<TableRecord[]> {
+        const table = this.getMemoryTable(name);
+        const { rows, columns } = rangeSize(table.range);
+
+        if (rows === 1) {
+            return [];
+        }
+
+        const body = resizeRange(offsetRange(table.range, 1, 0), rows - 1, columns);
+        const values = await this.getRange(
+            formatAddress(resizeRange(body, 1, 1)),
+            formatAddress({ ...body, start: body.end })
+        );
+
+        return toTableRecords(this.tableInfo(table).columns, values);
+    }
+
+    // ===== Charts =====
+
+    /**
+     * Record a chart; its series are resolved as Excel would plot them
+     * @param options Type, data, titles, axes and placement
+     * @returns The new chart
+     * @throws Error if an address is invalid, there are no series or the name is taken on the sheet
+     */
+    async createChart(options: ChartOptions): Promise<ChartInfo> {
+        const source = options.source ? this.resolveAddress(options.source) : null;
+        const headers = source && options.hasHeaders !== false ? this.readRow(source) : null;
+        const series = chartSeries(options, source, headers).map(s => ({
+            ...s,
+            values: formatAddress(this.resolveAddress(s.values)),
+            xValues: s.xValues ? formatAddress(this.resolveAddress(s.xValues)) : undefined
+        }));
+
+        // An unqualified position is on the sheet of the data
+        const placed = options.position ? parseAddress(this.resolveName(options.position)) : null;
+        const dataSheet = source ? source.sheetName : parseAddress(series[0].values).sheetName;
+        const sheet = this.getSheet((placed && placed.sheetName) || dataSheet || this.activeSheetName);
+        const position = placed ? { ...placed, sheetName: sheet.name } : source ? defaultChartPosition(source) : null;
+
+        const onSheet = this.charts.filter(c => c.sheetName === sheet.name);
+        let n = onSheet.length + 1;
+        while (onSheet.some(c => c.name === `Chart ${n}`)) {
+            n++;
+        }
+        const name = options.name ?? `Chart ${n}`;
+
+        if (onSheet.some(c => c.name.toLowerCase() === name.toLowerCase())) {
+            throw new AdapterError(`Failed to create chart ${name}: a chart with that name already exists`, {
+                code: 'already_exists',
+                sheetName: sheet.name
+            });
+        }
+
+        this.charts.push({
+            name,
+            sheetName: sheet.name,
+            type: options.type,
+            position: position ? formatAddress(position) : null,
+            title: options.title,
+            xAxisTitle: options.xAxisTitle,
+            yAxisTitle: options.yAxisTitle,
+            secondaryAxisTitle: options.secondaryAxisTitle,
+            lines: options.lines === true,
+            series
+        });
+
+        return { name, sheetName: sheet.name, series: series.map(s => s.name) };
+    }
+
+    /**
+     * Get the charts on a sheet
+     * @param sheetName Sheet name (defaults to the active sheet)
+     * @returns Charts in the order they were created
+     */
+    getCharts(sheetName?: string): InMemoryChart[] {
+        const sheet = this.getSheet(sheetName || this.activeSheetName);
+        return this.charts.filter(c => c.sheetName === sheet.name);
+    }
+
+    // ===== Document Metadata =====
+
+    /**
+     * Read a metadata entry
+     * @param key Entry key
+     * @returns A copy of the stored value, or null if the entry does not exist
+     * @throws Error if the key is invalid
+     */
+    async getMetadata(key: string): Promise<JsonValue | null> {
+        const text = this.metadata.get(metadataStorageKey(key));
+        return text === undefined ? null : (JSON.parse(text) as JsonValue);
+    }
+
+    /**
+     * Store a metadata entry, serialized as JSON like the host adapters
+     * @param key Entry key
+     * @param value JSON-serializable value
+     * @throws Error if the key is invalid
+     */
+    async setMetadata(key: string, value: JsonValue): Promise<void> {
+        this.metadata.set(metadataStorageKey(key), JSON.stringify(value));
+    }
+
+    /**
+     * Delete a metadata entry
+     * @param key Entry key
+     * @throws Error if the key is invalid
+     */
+    async deleteMetadata(key: string): Promise<void> {
+        this.metadata.delete(metadataStorageKey(key));
+    }
+
+    /**
+     * List the keys of the stored metadata entries
+     * @returns Entry keys in the order they were first stored
+     */
+    async getMetadataKeys(): Promise<string[]> {
+        return Array.from(this.metadata.keys())
+            .map(metadataKeyOf)
+            .filter((key): key is string => key !== null);
+    }
+
+    // ===== Utilities =====
+
+    /**
+     * Get the currently selected range address
+     * @returns Promise resolving to sheet-qualified range address (e.g., "Sheet1!A1:B2")
+     */
+    async getSelectedRange(): Promise<RangeAddress> {
+        return formatAddress(this.selection);
+    }
+
+    /**
+     * Set the selected range, activating its sheet if qualified
+     * @param address Range address to select (e.g., "B2", "A1:C3" or "'My Sheet'!A1")
+     * @throws Error if the address or sheet is invalid
+     */
+    async setSelectedRange(address: RangeAddress): Promise<void> {
+        const range = parseAddress(this.resolveName(address));
+        const sheet = this.getSheet(range.sheetName || this.activeSheetName);
+
+        this.activateSheet(sheet.name);
+        this.selection = { ...range, sheetName: sheet.name };
+
+        const selected = formatAddress(this.selection);
+        this.events.emit('selectionChange', selected);
+    }
+
+    /**
+     * Execute a batch of operations
+     * Operations queued on the batch context run in order when the batch syncs,
+     * with the same deferred results as the host adapters
+     * @param operations Function queuing operations on the batch context
+     * @returns Promise resolving to result of operations
+     * @throws Error if batch operations fail
+     */
+    async batch<T>(operations: (context: BatchContext) => Promise<T>): Promise<T> {
+        const context = new QueuedBatchContext(this);
+
+        try {
+            const result = await operations(context);
+            await context.sync();
+            return result;
+        } catch (error) {
+            throw toAdapterError(error, 'Batch operation failed');
+        }
+    }
+
+    /**
+     * Recalculate the workbook, firing calculation handlers
+     */
+    async recalculate(): Promise<void> {
+        this.events.emit<void>('calculate', undefined);
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Write a matrix of values with its number formats and style
+     * @returns The range written, sheet-qualified
+     * @private
+     */
+    private writeValues(startAddress: CellAddress, data: CellMatrix, options: SetRangeOptions): RangeRef {
+        if (!data || data.length === 0 || data[0].length === 0) {
+            throw new AdapterError('Data matrix cannot be empty', { code: 'invalid_argument', address: startAddress });
+        }
+
+        const { sheet, position } = this.resolveCell(startAddress);
+        const target = resizeRange(parseAddress(this.resolveName(startAddress)), data.length, data[0].length);
+        const formats = options.numberFormat
+            ? expandNumberFormat(options.numberFormat, data.length, data[0].length)
+            : null;
+
+        data.forEach((rowData, rowOffset) => {
+            rowData.forEach((value, colOffset) => {
+                this.writeCell(sheet, { row: position.row + rowOffset, column: position.column + colOffset }, value);
+            });
+        });
+
+        if (formats) {
+            this.writeNumberFormats(sheet, target, formats);
+        }
+        if (options.style) {
+            this.writeStyle(sheet, target, options.style);
+        }
+
+        return { ...target, sheetName: sheet.name };
+    }
+
+    /**
+     * Report a change of cell values to the cell change listeners
+     * @private
+     */
+    private fireCellsChanged(range: RangeRef, changeType: CellChangeType): void {
+        if (this.events.count('cellsChanged') === 0) {
+            return;
+        }
+
+        const change: CellChange = { address: formatAddress(range), sheetName: range.sheetName as string, changeType };
+        this.events.emit('cellsChanged', change);
+    }
+
+    /**
+     * Add an empty sheet to the end of the workbook
+     * @param name Sheet name
+     * @throws Error if a sheet with the same name already exists
+     * @private
+     */
+    private addSheet(name: string): void {
+        if (this.findSheet(name)) {
+            throw new AdapterError(`Failed to create sheet ${name}: a sheet with that name already exists`, {
+                code: 'already_exists',
+                sheetName: name
+            });
+        }
+
+        this.sheets.push({
+            name,
+            cells: new Map(),
+            formulas: new Map(),
+            numberFormats: new Map(),
+            styles: new Map(),
+            conditionalFormats: []
+        });
+    }
+
+    /**
+     * Find a sheet by name (case-insensitive, as in Excel and Calc)
+     * @param name Sheet name
+     * @returns The sheet, or undefined if not found
+     * @private
+     */
+    private findSheet(name: string): MemorySheet | undefined {
+        const wanted = name.toLowerCase();
+        return this.sheets.find(sheet => sheet.name.toLowerCase() === wanted);
+    }
+
+    /**
+     * Get a registered custom function
+     * @param name Function name (case-insensitive)
+     * @returns Metadata and implementation
+     * @throws Error if the function is not registered
+     * @private
+     */
+    private getFunction(name: string): { metadata: CustomFunctionMetadata; implementation: CustomFunctionImplementation } {
+        const entry = this.customFunctions.get(name.toUpperCase());
+
+        if (!entry) {
+            throw new AdapterError(`Function ${name} is not registered`, { code: 'not_found' });
+        }
+
+        return entry;
+    }
+
+    /**
+     * Get a sheet by name
+     * @param name Sheet name
+     * @returns The sheet
+     * @throws Error if the sheet does not exist
+     * @private
+     */
+    private getSheet(name: string): MemorySheet {
+        const sheet = this.findSheet(name);
+
+        if (!sheet) {
+            throw new AdapterError(`Sheet not found: ${name}`, { code: 'sheet_not_found', sheetName: name });
+        }
+
+        return sheet;
+    }
+
+    /**
+     * Find a name defined in a given scope
+     * @param name Name (case-insensitive)
+     * @param scope Sheet name, or null for workbook scope
+     * @returns The name, or undefined if not defined
+     * @private
+     */
+    private findName(name: string, scope: string | null): MemoryName | undefined {
+        const wanted = name.toLowerCase();
+        const wantedScope = scope === null ? null : scope.toLowerCase();
+        return this.names.find(
+            n => n.name.toLowerCase() === wanted && (n.scope === null ? null : n.scope.toLowerCase()) === wantedScope
+        );
+    }
+
+    /**
+     * Look up a name as Excel does: "Sheet1!Name" in Sheet1's scope, otherwise the
+     * active sheet's scope before the workbook's
+     * @param name Name, optionally sheet-qualified
+     * @returns The name
+     * @throws Error if the name is not defined
+     * @private
+     */
+    private lookupName(name: string): MemoryName {
+        const { sheetName, reference } = splitSheetName(name);
+        const entry = sheetName
+            ? this.findName(reference, sheetName)
+            : this.findName(reference, this.activeSheetName) ?? this.findName(reference, null);
+
+        if (!entry) {
+            throw new AdapterError(`Name not found: ${name}`, { code: 'not_found', address: name });
+        }
+
+        return entry;
+    }
+
+    /**
+     * Find a table by name
+     * @param name Table name (case-insensitive)
+     * @returns The table, or undefined if there is none with that name
+     * @private
+     */
+    private findTable(name: string): MemoryTable | undefined {
+        const wanted = name.toLowerCase();
+        return this.tables.find(t => t.name.toLowerCase() === wanted);
+    }
+
+    /**
+     * Get a table by name
+     * @throws Error if there is no table with that name
+     * @private
+     */
+    private getMemoryTable(name: string): MemoryTable {
+        const table = this.findTable(name);
+
+        if (!table) {
+            throw new AdapterError(`Table not found: ${name}`, { code: 'not_found' });
+        }
+
+        return table;
+    }
+
+    /**
+     * Pick the first unused default table name (Table1, Table2, ...)
+     * @private
+     */
+    private nextTableName(): string {
+        let n = 1;
+        while (this.findTable(`Table${n}`) || this.findName(`Table${n}`, null)) {
+            n++;
+        }
+        return `Table${n}`;
+    }
+
+    /**
+     * Check that a range a table would cover does not overlap any other table
+     * @throws Error naming the overlapped table
+     * @private
+     */
+    private assertNoTableOverlap(table: MemoryTable, range: RangeRef): void {
+        const other = this.tables.find(t => t !== table && intersectRanges(t.range, range) !== null);
+
+        if (other) {
+            throw new AdapterError(`Table ${table.name} would overlap table ${other.name}`, {
+                code: 'invalid_operation',
+                address: formatAddress(range)
+            });
+        }
+    }
+
+    /**
+     * Rewrite a table's header row with its column names, if any header is blank or repeated
+     * @private
+     */
+    private writeTableHeaders(table: MemoryTable): void {
+        const headers = this.readRow(table.range);
+        const names = tableColumnNames(headers);
+
+        if (names.some((name, i) => name !== headers[i])) {
+            const headerRow = resizeRange(table.range, 1, names.length);
+            this.fireCellsChanged(this.writeValues(formatAddress(headerRow), [names], {}), 'api');
+        }
+    }
+
+    /**
+     * Describe a table
+     * @private
+     */
+    private tableInfo(table: MemoryTable): TableInfo {
+        const sheet = this.getSheet(table.range.sheetName as string);
+        const { rows } = rangeSize(table.range);
+
+        return {
+            name: table.name,
+            address: formatAddress(table.range),
+            sheetName: sheet.name,
+            columns: this.readRow(table.range).map(header => String(header)),
+            rowCount: rows - 1
+        };
+    }
+
+    /**
+     * Replace a name by the sheet-qualified address it refers to; addresses pass through
+     * @private
+     */
+    private resolveName(address: string): string {
+        return isRangeName(address) ? formatAddress(this.lookupName(address).range) : address;
+    }
+
+    /**
+     * Resolve an address or name to a sheet-qualified range
+     * @throws Error if the address, name or sheet is invalid
+     * @private
+     */
+    private resolveAddress(address: RangeAddress): RangeRef {
+        const range = parseAddress(this.resolveName(address));
+        const sheet = this.getSheet(range.sheetName || this.activeSheetName);
+        return { ...range, sheetName: sheet.name };
+    }
+
+    /**
+     * Read the first row of a range
+     * @private
+     */
+    private readRow(range: RangeRef): CellValue[] {
+        const sheet = this.getSheet(range.sheetName || this.activeSheetName);
+        const values: CellValue[] = [];
+
+        for (let column = range.start.column; column <= range.end.column; column++) {
+            values.push(this.readCell(sheet, { row: range.start.row, column }));
+        }
+
+        return values;
+    }
+
+    /**
+     * Resolve a cell address to its sheet and position
+     * A range address or name resolves to its top-left cell.
+     * @param address Address string (e.g., "Sheet1!A1", "B5" or "GDP_C")
+     * @returns Sheet and zero-based position
+     * @private
+     */
+    private resolveCell(address: CellAddress): { sheet: MemorySheet; position: CellRef } {
+        const range = parseAddress(this.resolveName(address));
+        const sheet = this.getSheet(range.sheetName || this.activeSheetName);
+        return { sheet, position: range.start };
+    }
+
+    /**
+     * Resolve a start/end address pair to a sheet and normalized corners
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @returns Sheet, sheet-qualified range and top-left/bottom-right positions
+     * @throws Error if the two addresses name different sheets
+     * @private
+     */
+    private resolveRange(
+        startAddress: CellAddress,
+        endAddress: CellAddress
+    ): { sheet: MemorySheet; range: RangeRef; start: CellRef; end: CellRef } {
+        const range = rangeFromCorners(this.resolveName(startAddress), this.resolveName(endAddress));
+        const sheet = this.getSheet(range.sheetName || this.activeSheetName);
+        return { sheet, range: { ...range, sheetName: sheet.name }, start: range.start, end: range.end };
+    }
+
+    /**
+     * Store number formats for every cell of a range
+     * @private
+     */
+    private writeNumberFormats(sheet: MemorySheet, range: RangeRef, formats: string[][]): void {
+        formats.forEach((rowData, rowOffset) => {
+            rowData.forEach((format, colOffset) => {
+                const key = this.cellKey({ row: range.start.row + rowOffset, column: range.start.column + colOffset });
+                if (format === NumberFormats.general) {
+                    sheet.numberFormats.delete(key);
+                } else {
+                    sheet.numberFormats.set(key, format);
+                }
+            });
+        });
+    }
+
+    /**
+     * Merge a style into every cell of a range
+     * @private
+     */
+    private writeStyle(sheet: MemorySheet, range: RangeRef, style: RangeStyle): void {
+        for (let row = range.start.row; row <= range.end.row; row++) {
+            for (let column = range.start.column; column <= range.end.column; column++) {
+                const key = this.cellKey({ row, column });
+                const current = sheet.styles.get(key) || {};
+                sheet.styles.set(key, {
+                    ...current,
+                    ...style,
+                    font: style.font || current.font ? { ...current.font, ...style.font } : undefined,
+                    borders: style.borders || current.borders ? { ...current.borders, ...style.borders } : undefined
+                });
+            }
+        }
+    }
+
+    /**
+     * Build the storage key for a cell
+     * @param position Zero-based position
+     * @returns Map key
+     * @private
+     */
+    private cellKey(position: CellRef): string {
+        return `${position.row}:${position.column}`;
+    }
+
+    /**
+     * Read a cell, returning null for empty cells
+     * Values are normalized through the cell's number format, as a host would.
+     * @private
+     */
+    private readCell(sheet: MemorySheet, position: CellRef): CellValue {
+        const key = this.cellKey(position);
+        return normalizeCellValue(sheet.cells.get(key), sheet.numberFormats.get(key), {
+            mode: this.options.valueMode,
+            date1904: this.options.date1904
+        });
+    }
+
+    /**
+     * Write a cell, replacing any formula and removing it when the value is empty
+     * Dates are stored as serials and given a default date format, as OfficeJsAdapter does.
+     * @private
+     */
+    private writeCell(sheet: MemorySheet, position: CellRef, value: CellValue): void {
+        const key = this.cellKey(position);
+        sheet.formulas.delete(key);
+
+        const hostValue = toHostValue(value, this.options);
+        if (hostValue === '') {
+            sheet.cells.delete(key);
+            return;
+        }
+
+        sheet.cells.set(key, hostValue);
+
+        const dateFormat = dateFormatFor(value);
+        if (dateFormat) {
+            sheet.numberFormats.set(key, dateFormat);
+        }
+    }
+}
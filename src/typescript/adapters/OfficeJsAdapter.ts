@@ -8,31 +8,129 @@
 import {
     ISpreadsheetAdapter,
     Platform,
+    BatchContext,
+    BatchResult,
     CellAddress,
     RangeAddress,
     CellValue,
     CellMatrix,
+    CellChange,
+    CellChangeOptions,
+    CellChangeType,
+    ChartInfo,
+    ChartOptions,
+    ChunkOptions,
+    ConditionalFormat,
+    CustomFunctionImplementation,
     CustomFunctionMetadata,
+    CustomFunctionResult,
     DialogOptions,
+    FontStyle,
+    FormulaMatrix,
+    FormulaOptions,
+    JsonValue,
+    NamedRange,
+    NamedRangeOptions,
+    NumberFormat,
+    RangeStyle,
+    SetRangeOptions,
+    StreamingInvocation,
+    TableInfo,
+    TableOptions,
+    TableRecord,
     TaskPaneOptions
 } from './ISpreadsheetAdapter';
+import { AdapterError, toAdapterError } from './AdapterError';
+import {
+    RangeRef,
+    formatAddress,
+    formatCell,
+    isRangeName,
+    parseAddress,
+    quoteSheetName,
+    rangeFromCorners,
+    rangeSize,
+    resizeRange,
+    splitSheetName
+} from '../utils/address';
+import { isFormula, toInvariantFormula, toLocalFormula } from '../utils/formula';
+import { DeferredResult } from '../utils/batch';
+import { CellChangeDispatcher } from '../utils/changes';
+import { chartSeries, defaultChartPosition } from '../utils/charts';
+import { EventSubscriptions, HostUnregister } from '../utils/events';
+import { DEFAULT_MAX_CELLS_PER_CHUNK, readInChunks, writeInChunks } from '../utils/chunking';
+import { expandNumberFormat } from '../utils/formats';
+import { metadataKeyOf, metadataStorageKey } from '../utils/metadata';
+import { toHostMatrix, toRangeResult } from '../utils/results';
+import { firstResult, startInvocation } from '../utils/streaming';
+import { toTableRecords } from '../utils/tables';
+import {
+    ValueMode,
+    dateFormatFor,
+    normalizeCellMatrix,
+    normalizeCellValue,
+    toHostValue
+} from '../utils/values';
+
+/**
+ * Office.js names for ISpreadsheetAdapter border edges
+ */
+const BORDER_INDEX = {
+    top: 'EdgeTop',
+    bottom: 'EdgeBottom',
+    left: 'EdgeLeft',
+    right: 'EdgeRight',
+    insideHorizontal: 'InsideHorizontal',
+    insideVertical: 'InsideVertical'
+} as const;
+
+/**
+ * Office.js chart types for ISpreadsheetAdapter chart types
+ */
+const CHART_TYPES = {
+    line: 'Line',
+    column: 'ColumnClustered',
+    area: 'Area',
+    scatter: 'XYScatter'
+} as const;
+
+/**
+ * The part of the shared custom functions runtime used here (not in the office-js typings)
+ */
+interface CustomFunctionsRuntime {
+    associate(id: string, implementation: CustomFunctionImplementation): void;
+    Error: new (errorCode: string, message?: string) => unknown;
+    ErrorCode: { invalidValue: string };
+}
+
+/**
+ * Options accepted by the OfficeJsAdapter constructor
+ */
+export interface OfficeJsAdapterOptions {
+    /** How raw Excel values are normalized (default 'strict') */
+    valueMode?: ValueMode;
+    /** True if the workbook uses the 1904 date system */
+    date1904?: boolean;
+    /** Payload budget in cells; larger setRange calls are split into chunks (default 20000) */
+    maxCellsPerRequest?: number;
+}
 
 /**
  * OfficeJsAdapter class implements spreadsheet operations using Office.js API
  */
 export class OfficeJsAdapter implements ISpreadsheetAdapter {
-    private customFunctions: Map<string, (...args: any[]) => any>;
-    private selectionChangeHandlers: Set<(address: CellAddress) => void>;
-    private calculateHandlers: Set<() => void>;
-    private sheetChangeHandlers: Set<(sheetName: string) => void>;
+    private customFunctions: Map<string, { metadata: CustomFunctionMetadata; implementation: CustomFunctionImplementation }>;
+    private events: EventSubscriptions;
+    private cellChangeDispatchers: Set<CellChangeDispatcher>;
     private initialized: boolean;
     private initPromise: Promise<void> | null;
+    private options: OfficeJsAdapterOptions;
 
-    constructor() {
+    constructor(options: OfficeJsAdapterOptions = {}) {
+        this.options = options;
         this.customFunctions = new Map();
-        this.selectionChangeHandlers = new Set();
-        this.calculateHandlers = new Set();
-        this.sheetChangeHandlers = new Set();
+        this.events = new EventSubscriptions();
+        this.cellChangeDispatchers = new Set();
         this.initialized = false;
         this.initPromise = null;
         this.initialize();
@@ -50,7 +148,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         if (!this.initPromise) {
             this.initPromise = new Promise<void>((resolve, reject) => {
                 if (typeof Office === 'undefined') {
-                    reject(new Error('Office.js is not loaded'));
+                    reject(new AdapterError('Office.js is not loaded', { code: 'not_supported' }));
                     return;
                 }
 
@@ -72,6 +170,14 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         return Platform.Excel;
     }
 
+    /**
+     * Check whether Excel spills range results (ExcelApi 1.12, the first with spill ranges)
+     * @returns True if dynamic arrays are supported
+     */
+    supportsDynamicArrays(): boolean {
+        return typeof Office !== 'undefined' && Office.context.requirements.isSetSupported('ExcelApi', '1.12');
+    }
+
     /**
      * Check if the adapter is initialized and ready to use
      * @returns Promise resolving to true if ready
@@ -97,29 +203,15 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         await this.initialize();
 
         try {
-            return await Excel.run(async (context) => {
-                const { sheetName, cellAddress } = this.parseAddress(address);
-                let worksheet: Excel.Worksheet;
-
-                if (sheetName) {
-                    worksheet = context.workbook.worksheets.getItem(sheetName);
-                } else {
-                    worksheet = context.workbook.worksheets.getActiveWorksheet();
-                }
-
-                const range = worksheet.getRange(cellAddress);
-                range.load('values');
+            const [cell] = await this.resolveNames(address);
 
+            return await Excel.run(async (context) => {
+                const read = this.queueGetCellValue(context, cell);
                 await context.sync();
-
-                if (range.values && range.values.length > 0 && range.values[0].length > 0) {
-                    return this.normalizeValue(range.values[0][0]);
-                }
-
-                return null;
+                return read();
             });
         } catch (error) {
-            throw new Error(`Failed to get cell value at ${address}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Failed to get cell value at ${address}`, { address });
         }
     }
 
@@ -133,23 +225,14 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         await this.initialize();
 
         try {
-            await Excel.run(async (context) => {
-                const { sheetName, cellAddress } = this.parseAddress(address);
-                let worksheet: Excel.Worksheet;
-
-                if (sheetName) {
-                    worksheet = context.workbook.worksheets.getItem(sheetName);
-                } else {
-                    worksheet = context.workbook.worksheets.getActiveWorksheet();
-                }
-
-                const range = worksheet.getRange(cellAddress);
-                range.values = [[value === null || value === undefined ? '' : value]];
+            const [cell] = await this.resolveNames(address);
 
+            await Excel.run(async (context) => {
+                this.queueSetCellValue(context, cell, value);
                 await context.sync();
             });
         } catch (error) {
-            throw new Error(`Failed to set cell value at ${address}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Failed to set cell value at ${address}`, { address });
         }
     }
 
@@ -164,29 +247,17 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         await this.initialize();
 
         try {
-            return await Excel.run(async (context) => {
-                const { sheetName: startSheet, cellAddress: start } = this.parseAddress(startAddress);
-                const { cellAddress: end } = this.parseAddress(endAddress);
-                const sheetName = startSheet;
-
-                let worksheet: Excel.Worksheet;
-
-                if (sheetName) {
-                    worksheet = context.workbook.worksheets.getItem(sheetName);
-                } else {
-                    worksheet = context.workbook.worksheets.getActiveWorksheet();
-                }
-
-                const rangeAddress = `${start}:${end}`;
-                const range = worksheet.getRange(rangeAddress);
-                range.load('values');
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
 
+            return await Excel.run(async (context) => {
+                const read = this.queueGetRange(context, start, end);
                 await context.sync();
-
-                return this.normalizeMatrix(range.values as any[][]);
+                return read();
             });
         } catch (error) {
-            throw new Error(`Failed to get range ${startAddress}:${endAddress}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Failed to get range ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
         }
     }
 
@@ -194,41 +265,101 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
      * Set values in a range
      * @param startAddress Start cell address where data will be placed
      * @param data 2D array of values to set
+     * @param options Number formats and styling applied in the same Excel.run
      * @throws Error if range cannot be set
      */
-    async setRange(startAddress: CellAddress, data: CellMatrix): Promise<void> {
+    async setRange(startAddress: CellAddress, data: CellMatrix, options: SetRangeOptions = {}): Promise<void> {
         await this.initialize();
 
         if (!data || data.length === 0 || data[0].length === 0) {
-            throw new Error('Data matrix cannot be empty');
+            throw new AdapterError('Data matrix cannot be empty', { code: 'invalid_argument', address: startAddress });
+        }
+
+        if (data.length * data[0].length > this.maxCellsPerRequest()) {
+            return this.setRangeChunked(startAddress, data, options);
         }
 
         try {
+            const [start] = await this.resolveNames(startAddress);
+
             await Excel.run(async (context) => {
-                const { sheetName, cellAddress } = this.parseAddress(startAddress);
-                let worksheet: Excel.Worksheet;
+                this.queueSetRange(context, start, data, options);
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to set range at ${startAddress}`, { address: startAddress });
+        }
+    }
 
-                if (sheetName) {
-                    worksheet = context.workbook.worksheets.getItem(sheetName);
-                } else {
-                    worksheet = context.workbook.worksheets.getActiveWorksheet();
-                }
+    /**
+     * Get values from a range in chunks of rows, one Excel.run per chunk
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param options Chunk size (default maxCellsPerRequest), progress callback and abort signal
+     * @returns Promise resolving to 2D array of values
+     * @throws Error if a chunk cannot be read or the read is aborted
+     */
+    async getRangeChunked(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        options: ChunkOptions = {}
+    ): Promise<CellMatrix> {
+        await this.initialize();
 
-                const rows = data.length;
-                const cols = data[0].length;
+        try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
 
-                const endCell = this.calculateEndAddress(cellAddress, rows - 1, cols - 1);
-                const rangeAddress = `${cellAddress}:${endCell}`;
+            return await readInChunks(start, end, options, this.maxCellsPerRequest(), (chunkStart, chunkEnd) =>
+                Excel.run(async (context) => {
+                    const read = this.queueGetRange(context, chunkStart, chunkEnd);
+                    await context.sync();
+                    return read();
+                })
+            );
+        } catch (error) {
+            throw toAdapterError(error, `Failed to get range ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
+        }
+    }
 
-                const range = worksheet.getRange(rangeAddress);
-                range.values = data.map(row =>
-                    row.map(cell => cell === null || cell === undefined ? '' : cell)
-                );
+    /**
+     * Set values in a range in chunks of rows, one Excel.run per chunk
+     * Chunks written before a failure or abort stay written.
+     * @param startAddress Start cell address where data will be placed
+     * @param data 2D array of values to set
+     * @param options Number formats and styling, chunk size (default maxCellsPerRequest),
+     * progress callback and abort signal
+     * @throws Error if a chunk cannot be written or the write is aborted
+     */
+    async setRangeChunked(
+        startAddress: CellAddress,
+        data: CellMatrix,
+        options: SetRangeOptions & ChunkOptions = {}
+    ): Promise<void> {
+        await this.initialize();
 
-                await context.sync();
-            });
+        try {
+            const [start] = await this.resolveNames(startAddress);
+
+            await writeInChunks(
+                start,
+                data,
+                options,
+                this.maxCellsPerRequest(),
+                (chunkStart, chunk, chunkOptions) =>
+                    Excel.run(async (context) => {
+                        this.queueSetRange(context, chunkStart, chunk, chunkOptions);
+                        await context.sync();
+                    }),
+                (styleStart, styleEnd, style) =>
+                    Excel.run(async (context) => {
+                        this.queueSetStyle(context, styleStart, styleEnd, style);
+                        await context.sync();
+                    })
+            );
         } catch (error) {
-            throw new Error(`Failed to set range at ${startAddress}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Failed to set range at ${startAddress}`, { address: startAddress });
         }
     }
 
@@ -242,27 +373,248 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         await this.initialize();
 
         try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
+
             await Excel.run(async (context) => {
-                const { sheetName: startSheet, cellAddress: start } = this.parseAddress(startAddress);
-                const { cellAddress: end } = this.parseAddress(endAddress);
-                const sheetName = startSheet;
+                this.queueClearRange(context, start, end);
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to clear range ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
+        }
+    }
 
-                let worksheet: Excel.Worksheet;
+    // ===== Formulas =====
 
-                if (sheetName) {
-                    worksheet = context.workbook.worksheets.getItem(sheetName);
-                } else {
-                    worksheet = context.workbook.worksheets.getActiveWorksheet();
+    /**
+     * Get formulas from a range
+     * Reads range.formulas (or formulasR1C1), which Excel always reports locale-invariant
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param options Reference style and locale of the returned formulas
+     * @returns Promise resolving to 2D array of formulas and constants
+     * @throws Error if range cannot be accessed
+     */
+    async getFormulas(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        options: FormulaOptions = {}
+    ): Promise<FormulaMatrix> {
+        await this.initialize();
+
+        try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
+
+            return await Excel.run(async (context) => {
+                const read = this.queueGetFormulas(context, start, end, options);
+                await context.sync();
+                return read();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to get formulas ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
+        }
+    }
+
+    /**
+     * Set formulas in a range
+     * Writes range.formulas (or formulasR1C1) with locale-invariant text, so formulas
+     * work regardless of the user's list separator
+     * @param startAddress Start cell address where formulas will be placed
+     * @param formulas 2D array of formulas and constants
+     * @param options Reference style and locale of the supplied formulas
+     * @throws Error if formulas cannot be set
+     */
+    async setFormulas(
+        startAddress: CellAddress,
+        formulas: FormulaMatrix,
+        options: FormulaOptions = {}
+    ): Promise<void> {
+        await this.initialize();
+
+        if (!formulas || formulas.length === 0 || formulas[0].length === 0) {
+            throw new AdapterError('Formula matrix cannot be empty', { code: 'invalid_argument', address: startAddress });
+        }
+
+        try {
+            const [start] = await this.resolveNames(startAddress);
+
+            await Excel.run(async (context) => {
+                this.queueSetFormulas(context, start, formulas, options);
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to set formulas at ${startAddress}`, { address: startAddress });
+        }
+    }
+
+    // ===== Formatting =====
+
+    /**
+     * Get number format codes from a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @returns Promise resolving to 2D array of format codes
+     * @throws Error if range cannot be accessed
+     */
+    async getNumberFormats(startAddress: CellAddress, endAddress: CellAddress): Promise<string[][]> {
+        await this.initialize();
+
+        try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
+
+            return await Excel.run(async (context) => {
+                const read = this.queueGetNumberFormats(context, start, end);
+                await context.sync();
+                return read();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to get number formats ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
+        }
+    }
+
+    /**
+     * Set number formats in a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param format One format code for all cells, or a matrix matching the range size
+     * @throws Error if number formats cannot be set
+     */
+    async setNumberFormat(startAddress: CellAddress, endAddress: CellAddress, format: NumberFormat): Promise<void> {
+        await this.initialize();
+
+        try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
+
+            await Excel.run(async (context) => {
+                const batch = this.createBatchContext(context);
+                batch.setNumberFormat(start, end, format);
+                await batch.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to set number format ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
+        }
+    }
+
+    /**
+     * Apply font, fill, alignment, border and size settings to a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param style Style to apply; unspecified properties are left unchanged
+     * @throws Error if the style cannot be applied
+     */
+    async setStyle(startAddress: CellAddress, endAddress: CellAddress, style: RangeStyle): Promise<void> {
+        await this.initialize();
+
+        try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
+
+            await Excel.run(async (context) => {
+                this.queueSetStyle(context, start, end, style);
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to set style ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
+        }
+    }
+
+    /**
+     * Autofit column widths and/or row heights to their contents
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param options Which dimensions to fit (default: columns only)
+     * @throws Error if autofit fails
+     */
+    async autofit(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        options: { columns?: boolean; rows?: boolean } = {}
+    ): Promise<void> {
+        await this.initialize();
+
+        try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
+
+            await Excel.run(async (context) => {
+                const range = this.getExcelRange(context, rangeFromCorners(start, end));
+
+                if (options.columns !== false) {
+                    range.format.autofitColumns();
+                }
+                if (options.rows) {
+                    range.format.autofitRows();
                 }
 
-                const rangeAddress = `${start}:${end}`;
-                const range = worksheet.getRange(rangeAddress);
-                range.clear(Excel.ClearApplyTo.contents);
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to autofit ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
+        }
+    }
+
+    /**
+     * Add a conditional format to a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @param format Conditional format definition
+     * @throws Error if the conditional format cannot be added
+     */
+    async addConditionalFormat(
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        format: ConditionalFormat
+    ): Promise<void> {
+        await this.initialize();
+
+        try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
+
+            await Excel.run(async (context) => {
+                const range = this.getExcelRange(context, rangeFromCorners(start, end));
+                this.applyConditionalFormat(range, format);
+
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to add conditional format ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
+        }
+    }
+
+    /**
+     * Remove all conditional formats from a range
+     * @param startAddress Start cell address
+     * @param endAddress End cell address
+     * @throws Error if conditional formats cannot be cleared
+     */
+    async clearConditionalFormats(startAddress: CellAddress, endAddress: CellAddress): Promise<void> {
+        await this.initialize();
+
+        try {
+            const [start, end] = await this.resolveNames(startAddress, endAddress);
+
+            await Excel.run(async (context) => {
+                const range = this.getExcelRange(context, rangeFromCorners(start, end));
+                range.conditionalFormats.clearAll();
 
                 await context.sync();
             });
         } catch (error) {
-            throw new Error(`Failed to clear range ${startAddress}:${endAddress}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Failed to clear conditional formats ${startAddress}:${endAddress}`, {
+                address: `${startAddress}:${endAddress}`
+            });
         }
     }
 
@@ -270,79 +622,83 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
 
     /**
      * Register a custom function
-     * Note: In Office.js, custom functions must be declared in manifest.xml
-     * This method stores the function implementation for programmatic calling
+     * Office reads the declaration from functions.json, generated from the same
+     * metadata by manifest/functionManifest. When the custom functions runtime
+     * is loaded the implementation is also associated with its id; streaming
+     * and cancelable functions then receive Office's invocation object, with
+     * Error results shown as #VALUE!. Range results are checked and returned as
+     * the whole matrix, which without dynamic arrays fills an array formula
+     * (Ctrl+Shift+Enter) entered over enough cells.
      * @param metadata Function metadata
      * @param implementation Function implementation
      */
     registerFunction(
         metadata: CustomFunctionMetadata,
-        implementation: (...args: any[]) => any
+        implementation: CustomFunctionImplementation
     ): void {
         if (!metadata.name) {
-            throw new Error('Function name is required');
+            throw new AdapterError('Function name is required', { code: 'invalid_argument' });
         }
 
-        this.customFunctions.set(metadata.name.toUpperCase(), implementation);
+        this.customFunctions.set(metadata.name.toUpperCase(), { metadata, implementation });
 
-        // Note: For Office.js, custom functions must also be registered in manifest.xml
-        // and the functions.json file. This is just storing the implementation.
-        console.log(`Custom function ${metadata.name} registered. Ensure it's also declared in manifest.xml`);
+        const runtime = (globalThis as { CustomFunctions?: CustomFunctionsRuntime }).CustomFunctions;
+        if (runtime) {
+            const associated = metadata.returnType === 'range' ? this.wrapRange(metadata, implementation) : implementation;
+            runtime.associate(
+                metadata.name.toUpperCase(),
+                metadata.streaming ? this.wrapStreaming(runtime, associated) : associated
+            );
+        }
     }
 
     /**
      * Call a custom function programmatically
+     * A streaming function resolves with its first result and is then canceled.
      * @param name Function name
      * @param args Function arguments
      * @returns Promise resolving to function result
      * @throws Error if function is not registered
      */
-    async callFunction(name: string, ...args: any[]): Promise<any> {
-        const funcName = name.toUpperCase();
-        const func = this.customFunctions.get(funcName);
-
-        if (!func) {
-            throw new Error(`Function ${name} is not registered`);
-        }
+    async callFunction(name: string, ...args: unknown[]): Promise<CustomFunctionResult> {
+        const func = this.getFunction(name);
 
         try {
-            const result = await func(...args);
-            return result;
+            return await firstResult(func.metadata, func.implementation, args);
         } catch (error) {
-            throw new Error(`Error calling function ${name}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Error calling function ${name}`);
         }
     }
 
+    /**
+     * Call a custom function and receive every result it streams
+     * @param name Function name
+     * @param args Function arguments
+     * @param handler Receives each result (Error values for failures)
+     * @returns Cancel function
+     * @throws Error if function is not registered
+     */
+    streamFunction(name: string, args: unknown[], handler: (result: CustomFunctionResult | Error) => void): () => void {
+        const func = this.getFunction(name);
+        return startInvocation(func.metadata, func.implementation, args, handler);
+    }
+
     // ===== Events =====
 
     /**
-     * Listen to selection change events
-     * @param handler Event handler that receives the new selection address
+     * Listen to selection change events on any worksheet (worksheets.onSelectionChanged)
+     * @param handler Event handler that receives the new sheet-qualified selection address
      * @returns Unsubscribe function
      */
     onSelectionChange(handler: (address: CellAddress) => void): () => void {
-        this.selectionChangeHandlers.add(handler);
-
-        // Register Office.js event handler (only once)
-        if (this.selectionChangeHandlers.size === 1) {
-            this.initialize().then(() => {
-                Excel.run(async (context) => {
-                    const worksheet = context.workbook.worksheets.getActiveWorksheet();
-                    worksheet.onSelectionChanged.add(async (event) => {
-                        const address = event.address;
-                        this.selectionChangeHandlers.forEach(h => h(address));
-                    });
-                    await context.sync();
-                }).catch(error => {
-                    console.error('Failed to register selection change handler:', error);
-                });
-            });
-        }
-
-        // Return unsubscribe function
-        return () => {
-            this.selectionChangeHandlers.delete(handler);
-        };
+        return this.events.subscribe('selectionChange', handler, emit =>
+            this.registerEvent(context =>
+                context.workbook.worksheets.onSelectionChanged.add(async (event) => {
+                    const sheetName = await this.getSheetNameById(event.worksheetId);
+                    emit(`${quoteSheetName(sheetName)}!${event.address}`);
+                })
+            )
+        );
     }
 
     /**
@@ -351,26 +707,13 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
      * @returns Unsubscribe function
      */
     onCalculate(handler: () => void): () => void {
-        this.calculateHandlers.add(handler);
-
-        // Register Office.js event handler (only once)
-        if (this.calculateHandlers.size === 1) {
-            this.initialize().then(() => {
-                Excel.run(async (context) => {
-                    context.workbook.worksheets.onCalculated.add(async () => {
-                        this.calculateHandlers.forEach(h => h());
-                    });
-                    await context.sync();
-                }).catch(error => {
-                    console.error('Failed to register calculation handler:', error);
-                });
-            });
-        }
-
-        // Return unsubscribe function
-        return () => {
-            this.calculateHandlers.delete(handler);
-        };
+        return this.events.subscribe<void>('calculate', handler, emit =>
+            this.registerEvent(context =>
+                context.workbook.worksheets.onCalculated.add(async () => {
+                    emit(undefined);
+                })
+            )
+        );
     }
 
     /**
@@ -379,35 +722,79 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
      * @returns Unsubscribe function
      */
     onSheetChange(handler: (sheetName: string) => void): () => void {
-        this.sheetChangeHandlers.add(handler);
+        return this.events.subscribe('sheetChange', handler, emit =>
+            this.registerEvent(context =>
+                context.workbook.worksheets.onActivated.add(async (event) => {
+                    emit(await this.getSheetNameById(event.worksheetId));
+                })
+            )
+        );
+    }
 
-        // Register Office.js event handler (only once)
-        if (this.sheetChangeHandlers.size === 1) {
-            this.initialize().then(() => {
-                Excel.run(async (context) => {
-                    context.workbook.worksheets.onActivated.add(async (event) => {
-                        Excel.run(async (ctx) => {
-                            const sheet = ctx.workbook.worksheets.getItem(event.worksheetId);
-                            sheet.load('name');
-                            await ctx.sync();
-                            this.sheetChangeHandlers.forEach(h => h(sheet.name));
-                        });
-                    });
-                    await context.sync();
-                }).catch(error => {
-                    console.error('Failed to register sheet change handler:', error);
-                });
+    /**
+     * Listen to changes of cell values on any worksheet (worksheets.onChanged)
+     * Writes by this add-in are reported as 'api' (ExcelApi 1.14); writes by
+     * other add-ins are indistinguishable from local edits. Watched names are
+     * resolved once; changes arriving before they are resolved are not
+     * reported, and invalid ranges are reported on the console.
+     * @param handler Receives the changes, one per call unless debounced
+     * @param options Watched ranges and debounce delay
+     * @returns Unsubscribe function
+     */
+    onCellsChanged(handler: (changes: CellChange[]) => void, options: CellChangeOptions = {}): () => void {
+        let dispatcher: CellChangeDispatcher | null = null;
+        let unsubscribed = false;
+
+        this.initialize()
+            .then(() => this.resolveNames(...(options.ranges || [])))
+            .then((ranges) => {
+                if (!unsubscribed) {
+                    dispatcher = new CellChangeDispatcher(handler, { ...options, ranges: options.ranges ? ranges : undefined });
+                    this.cellChangeDispatchers.add(dispatcher);
+                }
+            })
+            .catch(error => {
+                console.error('Failed to register cell change handler:', error);
             });
-        }
 
-        // Return unsubscribe function
+        const unsubscribe = this.events.subscribe<CellChange>(
+            'cellsChanged',
+            change => dispatcher?.push(change),
+            emit =>
+                this.registerEvent(context =>
+                    context.workbook.worksheets.onChanged.add(async (event) => {
+                        const sheetName = await this.getSheetNameById(event.worksheetId);
+                        emit({
+                            address: `${quoteSheetName(sheetName)}!${event.address}`,
+                            sheetName,
+                            changeType: this.cellChangeType(event)
+                        });
+                    })
+                )
+        );
+
         return () => {
-            this.sheetChangeHandlers.delete(handler);
+            unsubscribed = true;
+            unsubscribe();
+            if (dispatcher) {
+                this.cellChangeDispatchers.delete(dispatcher);
+                dispatcher.dispose();
+            }
         };
     }
 
-    // ===== UI =====
-
+    /**
+     * Remove every event handler and its Office.js registration
+     * The adapter can still be used; new subscriptions register again.
+     */
+    async dispose(): Promise<void> {
+        this.cellChangeDispatchers.forEach(d => d.dispose());
+        this.cellChangeDispatchers.clear();
+        await this.events.dispose();
+    }
+
+    // ===== UI =====
+
     /**
      * Show a dialog
      * @param content HTML content URL or component name
@@ -428,7 +815,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                     { height: (height / window.innerHeight) * 100, width: (width / window.innerWidth) * 100 },
                     (result) => {
                         if (result.status === Office.AsyncResultStatus.Failed) {
-                            reject(new Error(`Failed to show dialog: ${result.error.message}`));
+                            reject(toAdapterError(result.error, 'Failed to show dialog'));
                         } else {
                             const dialog = result.value;
 
@@ -447,7 +834,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                     }
                 );
             } catch (error) {
-                reject(new Error(`Failed to display dialog: ${(error as Error).message}`));
+                reject(toAdapterError(error, 'Failed to display dialog'));
             }
         });
     }
@@ -477,14 +864,14 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                     },
                     (result) => {
                         if (result.status === Office.AsyncResultStatus.Failed) {
-                            reject(new Error(`Failed to show task pane: ${result.error.message}`));
+                            reject(toAdapterError(result.error, 'Failed to show task pane'));
                         } else {
                             resolve();
                         }
                     }
                 );
             } catch (error) {
-                reject(new Error(`Failed to display task pane: ${(error as Error).message}`));
+                reject(toAdapterError(error, 'Failed to display task pane'));
             }
         });
     }
@@ -543,7 +930,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                 return sheets.items.map(sheet => sheet.name);
             });
         } catch (error) {
-            throw new Error(`Failed to get sheet names: ${(error as Error).message}`);
+            throw toAdapterError(error, 'Failed to get sheet names');
         }
     }
 
@@ -564,7 +951,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                 return activeSheet.name;
             });
         } catch (error) {
-            throw new Error(`Failed to get active sheet name: ${(error as Error).message}`);
+            throw toAdapterError(error, 'Failed to get active sheet name');
         }
     }
 
@@ -577,7 +964,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         await this.initialize();
 
         if (!name) {
-            throw new Error('Sheet name is required');
+            throw new AdapterError('Sheet name is required', { code: 'invalid_argument' });
         }
 
         try {
@@ -587,7 +974,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                 await context.sync();
             });
         } catch (error) {
-            throw new Error(`Failed to create sheet ${name}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Failed to create sheet ${name}`, { sheetName: name });
         }
     }
 
@@ -600,7 +987,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         await this.initialize();
 
         if (!name) {
-            throw new Error('Sheet name is required');
+            throw new AdapterError('Sheet name is required', { code: 'invalid_argument' });
         }
 
         try {
@@ -610,7 +997,474 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                 await context.sync();
             });
         } catch (error) {
-            throw new Error(`Failed to delete sheet ${name}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Failed to delete sheet ${name}`, { sheetName: name });
+        }
+    }
+
+    // ===== Named Ranges =====
+
+    /**
+     * Define a name for a range (workbook.names, or worksheet.names for a sheet scope)
+     * @param name Name (e.g., "GDP_C")
+     * @param address Range the name refers to; unqualified addresses refer to the active sheet
+     * @param options Sheet scope and comment
+     * @throws Error if the name is invalid or already defined in that scope
+     */
+    async createNamedRange(name: string, address: RangeAddress, options: NamedRangeOptions = {}): Promise<void> {
+        await this.initialize();
+
+        if (!isRangeName(name) || name.includes('!')) {
+            throw new AdapterError(`Invalid name: ${name}`, { code: 'invalid_argument' });
+        }
+
+        try {
+            const [resolved] = await this.resolveNames(address);
+
+            await Excel.run(async (context) => {
+                const names = options.scope
+                    ? context.workbook.worksheets.getItem(options.scope).names
+                    : context.workbook.names;
+
+                names.add(name, this.getExcelRange(context, parseAddress(resolved)), options.comment);
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to create name ${name}`, { address, sheetName: options.scope });
+        }
+    }
+
+    /**
+     * Resolve a name to the address it refers to
+     * @param name Name, optionally sheet-qualified ("Sheet1!Inputs")
+     * @returns Sheet-qualified address
+     * @throws Error if the name is not defined
+     */
+    async resolveNamedRange(name: string): Promise<RangeAddress> {
+        await this.initialize();
+
+        try {
+            return await Excel.run(async (context) => {
+                const read = this.queueResolveName(context, name);
+                await context.sync();
+                return read();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to resolve name ${name}`, { address: name });
+        }
+    }
+
+    /**
+     * List the names that refer to ranges, workbook-scoped first
+     * @returns Names with their addresses and scopes
+     * @throws Error if the names cannot be read
+     */
+    async getNamedRanges(): Promise<NamedRange[]> {
+        await this.initialize();
+
+        try {
+            return await Excel.run(async (context) => {
+                const worksheets = context.workbook.worksheets;
+                worksheets.load('items/name');
+                await context.sync();
+
+                const collections: Array<{ scope: string | null; names: Excel.NamedItemCollection }> = [
+                    { scope: null, names: context.workbook.names },
+                    ...worksheets.items.map(sheet => ({ scope: sheet.name, names: sheet.names }))
+                ];
+                collections.forEach(({ names }) => names.load('items/name,items/type,items/formula,items/comment'));
+                await context.sync();
+
+                return collections.flatMap(({ scope, names }) =>
+                    names.items
+                        .filter(item => item.type === Excel.NamedItemType.range)
+                        .map(item => ({
+                            name: item.name,
+                            address: String(item.formula).replace(/^=/, ''),
+                            scope,
+                            comment: item.comment || undefined
+                        }))
+                );
+            });
+        } catch (error) {
+            throw toAdapterError(error, 'Failed to get names');
+        }
+    }
+
+    /**
+     * Delete a name
+     * @param name Name, optionally sheet-qualified ("Sheet1!Inputs")
+     * @throws Error if the name is not defined
+     */
+    async deleteNamedRange(name: string): Promise<void> {
+        await this.initialize();
+
+        try {
+            await Excel.run(async (context) => {
+                const { sheetName, reference } = splitSheetName(name);
+                const names = sheetName ? context.workbook.worksheets.getItem(sheetName).names : context.workbook.names;
+
+                names.getItem(reference).delete();
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to delete name ${name}`, { address: name });
+        }
+    }
+
+    // ===== Tables =====
+
+    /**
+     * Turn a range into a table (worksheet.tables)
+     * @param address Range including the header row; unqualified addresses refer to the active sheet
+     * @param options Table name and style
+     * @returns The new table
+     * @throws Error if the name is invalid or taken, or the range overlaps another table
+     */
+    async createTable(address: RangeAddress, options: TableOptions = {}): Promise<TableInfo> {
+        await this.initialize();
+
+        if (options.name !== undefined && (!isRangeName(options.name) || options.name.includes('!'))) {
+            throw new AdapterError(`Invalid table name: ${options.name}`, { code: 'invalid_argument' });
+        }
+
+        try {
+            const [resolved] = await this.resolveNames(address);
+
+            return await Excel.run(async (context) => {
+                const range = parseAddress(resolved);
+                const worksheet = range.sheetName
+                    ? context.workbook.worksheets.getItem(range.sheetName)
+                    : context.workbook.worksheets.getActiveWorksheet();
+                const table = worksheet.tables.add(this.getExcelRange(context, range), true);
+
+                if (options.name) {
+                    table.name = options.name;
+                }
+                if (options.style) {
+                    table.style = options.style;
+                }
+
+                const read = this.queueTableInfo(table);
+                await context.sync();
+                return read();
+            });
+        } catch (error) {
+            const label = options.name ? `Failed to create table ${options.name}` : 'Failed to create table';
+            throw toAdapterError(error, label, { address });
+        }
+    }
+
+    /**
+     * Find a table by name
+     * @param name Table name (case-insensitive)
+     * @returns The table, or null if there is none with that name
+     * @throws Error if the tables cannot be read
+     */
+    async getTable(name: string): Promise<TableInfo | null> {
+        await this.initialize();
+
+        try {
+            return await Excel.run(async (context) => {
+                const table = context.workbook.tables.getItemOrNullObject(name);
+                await context.sync();
+
+                if (table.isNullObject) {
+                    return null;
+                }
+
+                const read = this.queueTableInfo(table);
+                await context.sync();
+                return read();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to get table ${name}`);
+        }
+    }
+
+    /**
+     * Add rows to the end of a table (table.rows.add); cells below the table move down
+     * @param name Table name
+     * @param rows Rows to add, one value per table column
+     * @returns The grown table
+     * @throws Error if the table does not exist or a row has the wrong width
+     */
+    async appendTableRows(name: string, rows: CellMatrix): Promise<TableInfo> {
+        await this.initialize();
+
+        if (rows.length === 0) {
+            throw new AdapterError('Data matrix cannot be empty', { code: 'invalid_argument' });
+        }
+
+        try {
+            return await Excel.run(async (context) => {
+                const table = context.workbook.tables.getItem(name);
+                const added = table.rows.add(
+                    undefined,
+                    rows.map(row => row.map(cell => toHostValue(cell, this.options)))
+                );
+
+                if (rows.some(row => row.some(cell => cell instanceof Date))) {
+                    // null leaves the format of non-date cells unchanged
+                    added.getRange().numberFormat = rows.map(row => row.map(cell => dateFormatFor(cell)));
+                }
+
+                const read = this.queueTableInfo(table);
+                await context.sync();
+                return read();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to add rows to table ${name}`);
+        }
+    }
+
+    /**
+     * Move the edges of a table (table.resize)
+     * @param name Table name
+     * @param address New range, starting at the table's top-left cell; unqualified addresses refer to the table's sheet
+     * @returns The resized table
+     * @throws Error if the table does not exist or the header row would move
+     */
+    async resizeTable(name: string, address: RangeAddress): Promise<TableInfo> {
+        await this.initialize();
+
+        try {
+            const [resolved] = await this.resolveNames(address);
+
+            return await Excel.run(async (context) => {
+                const table = context.workbook.tables.getItem(name);
+                const range = parseAddress(resolved);
+                const worksheet = range.sheetName
+                    ? context.workbook.worksheets.getItem(range.sheetName)
+                    : table.worksheet;
+
+                table.resize(worksheet.getRange(formatAddress(range, { includeSheet: false })));
+
+                const read = this.queueTableInfo(table);
+                await context.sync();
+                return read();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to resize table ${name}`, { address });
+        }
+    }
+
+    /**
+     * Read the data rows of a table
+     * @param name Table name
+     * @returns One record per row, keyed by column header
+     * @throws Error if the table does not exist
+     */
+    async getTableRecords(name: string): Promise<TableRecord[]> {
+        await this.initialize();
+
+        try {
+            return await Excel.run(async (context) => {
+                const table = context.workbook.tables.getItem(name);
+                const header = table.getHeaderRowRange();
+                const body = table.getDataBodyRange();
+                const count = table.rows.getCount();
+                header.load('values');
+                body.load(['values', 'numberFormat']);
+                await context.sync();
+
+                // An empty table still shows one blank body row
+                if (count.value === 0) {
+                    return [];
+                }
+
+                const columns = header.values[0].map(value => String(value));
+                return toTableRecords(columns, this.normalizeMatrix(body.values, body.numberFormat));
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to read table ${name}`);
+        }
+    }
+
+    // ===== Charts =====
+
+    /**
+     * Create a chart (worksheet.charts), adding each series explicitly so the
+     * series and their names do not depend on what Excel guesses from the data
+     * @param options Type, data, titles, axes and placement
+     * @returns The new chart
+     * @throws Error if an address is invalid or there are no series
+     */
+    async createChart(options: ChartOptions): Promise<ChartInfo> {
+        await this.initialize();
+
+        try {
+            const resolved = await this.resolveChartNames(options);
+
+            return await Excel.run(async (context) => {
+                const source = resolved.source ? parseAddress(resolved.source) : null;
+                let headers: CellValue[] | null = null;
+
+                if (source && resolved.hasHeaders !== false) {
+                    const headerRow = this.getExcelRange(context, resizeRange(source, 1, rangeSize(source).columns));
+                    headerRow.load('values');
+                    await context.sync();
+                    headers = headerRow.values[0] as CellValue[];
+                }
+
+                const series = chartSeries(resolved, source, headers);
+                const range = (address: RangeAddress): Excel.Range => this.getExcelRange(context, parseAddress(address));
+
+                // An unqualified position is on the sheet of the data
+                const placed = resolved.position ? parseAddress(resolved.position) : null;
+                const sheetName =
+                    (placed && placed.sheetName) || (source ? source.sheetName : parseAddress(series[0].values).sheetName);
+                const worksheet = sheetName
+                    ? context.workbook.worksheets.getItem(sheetName)
+                    : context.workbook.worksheets.getActiveWorksheet();
+
+                const type = resolved.type === 'scatter' && resolved.lines ? 'XYScatterLinesNoMarkers' : CHART_TYPES[resolved.type];
+                const chart = worksheet.charts.add(type, range(series[0].values), Excel.ChartSeriesBy.columns);
+
+                series.forEach((s, index) => {
+                    const item = index === 0 ? chart.series.getItemAt(0) : chart.series.add(s.name);
+                    const xValues = s.xValues ?? series[0].xValues;
+
+                    item.name = s.name;
+                    if (index > 0) {
+                        item.setValues(range(s.values));
+                    }
+                    if (xValues) {
+                        item.setXAxisValues(range(xValues));
+                    }
+                    if (s.secondaryAxis) {
+                        item.axisGroup = Excel.ChartAxisGroup.secondary;
+                    }
+                    if (s.dashed) {
+                        item.format.line.lineStyle = Excel.ChartLineStyle.dash;
+                    }
+                });
+
+                if (resolved.name) {
+                    chart.name = resolved.name;
+                }
+                if (resolved.title) {
+                    chart.title.text = resolved.title;
+                }
+                if (resolved.xAxisTitle) {
+                    chart.axes.categoryAxis.title.text = resolved.xAxisTitle;
+                }
+                if (resolved.yAxisTitle) {
+                    chart.axes.valueAxis.title.text = resolved.yAxisTitle;
+                }
+                if (resolved.secondaryAxisTitle) {
+                    chart.axes.getItem(Excel.ChartAxisType.value, Excel.ChartAxisGroup.secondary).title.text =
+                        resolved.secondaryAxisTitle;
+                }
+
+                const corner = placed || (source ? defaultChartPosition(source) : null);
+                if (corner) {
+                    const isCell = corner.start.row === corner.end.row && corner.start.column === corner.end.column;
+                    chart.setPosition(formatCell(corner.start), isCell ? undefined : formatCell(corner.end));
+                }
+
+                chart.load('name');
+                worksheet.load('name');
+                await context.sync();
+
+                return { name: chart.name, sheetName: worksheet.name, series: series.map(s => s.name) };
+            });
+        } catch (error) {
+            throw toAdapterError(error, options.name ? `Failed to create chart ${options.name}` : 'Failed to create chart', {
+                address: options.source
+            });
+        }
+    }
+
+    // ===== Document Metadata =====
+
+    /**
+     * Read a metadata entry from the workbook settings
+     * @param key Entry key
+     * @returns Stored value, or null if the entry does not exist
+     * @throws Error if the key is invalid or the setting cannot be read
+     */
+    async getMetadata(key: string): Promise<JsonValue | null> {
+        await this.initialize();
+        const storageKey = metadataStorageKey(key);
+
+        try {
+            return await Excel.run(async (context) => {
+                const setting = context.workbook.settings.getItemOrNullObject(storageKey);
+                setting.load('value');
+                await context.sync();
+
+                return setting.isNullObject ? null : (JSON.parse(setting.value) as JsonValue);
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to read metadata ${key}`);
+        }
+    }
+
+    /**
+     * Store a metadata entry in the workbook settings, saved with the file
+     * The value is stored as JSON text so it reads back exactly as written.
+     * @param key Entry key
+     * @param value JSON-serializable value
+     * @throws Error if the key is invalid or the setting cannot be written
+     */
+    async setMetadata(key: string, value: JsonValue): Promise<void> {
+        await this.initialize();
+        const storageKey = metadataStorageKey(key);
+
+        try {
+            await Excel.run(async (context) => {
+                context.workbook.settings.add(storageKey, JSON.stringify(value));
+                await context.sync();
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to write metadata ${key}`);
+        }
+    }
+
+    /**
+     * Delete a metadata entry from the workbook settings
+     * @param key Entry key
+     * @throws Error if the key is invalid or the setting cannot be deleted
+     */
+    async deleteMetadata(key: string): Promise<void> {
+        await this.initialize();
+        const storageKey = metadataStorageKey(key);
+
+        try {
+            await Excel.run(async (context) => {
+                const setting = context.workbook.settings.getItemOrNullObject(storageKey);
+                await context.sync();
+
+                if (!setting.isNullObject) {
+                    setting.delete();
+                    await context.sync();
+                }
+            });
+        } catch (error) {
+            throw toAdapterError(error, `Failed to delete metadata ${key}`);
+        }
+    }
+
+    /**
+     * List the keys of the metadata entries in the workbook settings
+     * @returns Entry keys; settings written by other add-ins are skipped
+     * @throws Error if the settings cannot be read
+     */
+    async getMetadataKeys(): Promise<string[]> {
+        await this.initialize();
+
+        try {
+            return await Excel.run(async (context) => {
+                const settings = context.workbook.settings;
+                settings.load('items/key');
+                await context.sync();
+
+                return settings.items
+                    .map(setting => metadataKeyOf(setting.key))
+                    .filter((key): key is string => key !== null);
+            });
+        } catch (error) {
+            throw toAdapterError(error, 'Failed to list metadata');
         }
     }
 
@@ -633,7 +1487,7 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                 return range.address;
             });
         } catch (error) {
-            throw new Error(`Failed to get selected range: ${(error as Error).message}`);
+            throw toAdapterError(error, 'Failed to get selected range');
         }
     }
 
@@ -646,45 +1500,45 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
         await this.initialize();
 
         try {
+            const [resolved] = await this.resolveNames(address);
+
             await Excel.run(async (context) => {
-                const { sheetName, cellAddress } = this.parseAddress(address);
-                let worksheet: Excel.Worksheet;
+                const target = parseAddress(resolved);
 
-                if (sheetName) {
-                    worksheet = context.workbook.worksheets.getItem(sheetName);
-                    worksheet.activate();
-                } else {
-                    worksheet = context.workbook.worksheets.getActiveWorksheet();
+                if (target.sheetName) {
+                    context.workbook.worksheets.getItem(target.sheetName).activate();
                 }
 
-                const range = worksheet.getRange(cellAddress);
+                const range = this.getExcelRange(context, target);
                 range.select();
 
                 await context.sync();
             });
         } catch (error) {
-            throw new Error(`Failed to set selected range to ${address}: ${(error as Error).message}`);
+            throw toAdapterError(error, `Failed to set selected range to ${address}`, { address });
         }
     }
 
     /**
-     * Execute a batch of operations efficiently
-     * Uses Excel.run to batch multiple operations into a single sync
-     * @param operations Function containing operations to batch
+     * Execute a batch of operations with a single sync
+     * Operations queued on the batch context share one Excel.run request context;
+     * everything still queued when operations returns is sent in one final sync.
+     * @param operations Function queuing operations on the batch context
      * @returns Promise resolving to result of operations
      * @throws Error if batch operations fail
      */
-    async batch<T>(operations: () => Promise<T>): Promise<T> {
+    async batch<T>(operations: (context: BatchContext) => Promise<T>): Promise<T> {
         await this.initialize();
 
         try {
             return await Excel.run(async (context) => {
-                const result = await operations();
-                await context.sync();
+                const batch = this.createBatchContext(context);
+                const result = await operations(batch);
+                await batch.sync();
                 return result;
             });
         } catch (error) {
-            throw new Error(`Batch operation failed: ${(error as Error).message}`);
+            throw toAdapterError(error, 'Batch operation failed');
         }
     }
 
@@ -701,121 +1555,743 @@ export class OfficeJsAdapter implements ISpreadsheetAdapter {
                 await context.sync();
             });
         } catch (error) {
-            throw new Error(`Failed to recalculate: ${(error as Error).message}`);
+            throw toAdapterError(error, 'Failed to recalculate');
         }
     }
 
     // ===== Private Helper Methods =====
 
     /**
-     * Parse cell address to extract sheet name and cell address
-     * @param address Address string (e.g., "Sheet1!A1" or "B5")
-     * @returns Object with sheetName and cellAddress
+     * Register an Office.js event handler at workbook scope
+     * @param add Adds the handler and returns its registration
+     * @returns Function removing the registration in the context it was made in
      * @private
      */
-    private parseAddress(address: string): { sheetName: string | null; cellAddress: string } {
-        const parts = address.split('!');
+    private async registerEvent(
+        add: (context: Excel.RequestContext) => OfficeExtension.EventHandlerResult<any>
+    ): Promise<HostUnregister> {
+        await this.initialize();
 
-        if (parts.length === 2) {
-            return {
-                sheetName: parts[0].replace(/^'|'$/g, ''), // Remove quotes if present
-                cellAddress: parts[1]
-            };
+        const registration = await Excel.run(async (context) => {
+            const result = add(context);
+            await context.sync();
+            return result;
+        });
+
+        return async () => {
+            await Excel.run(registration.context, async (context) => {
+                registration.remove();
+                await context.sync();
+            });
+        };
+    }
+
+    /**
+     * Get the name of a worksheet from its id (event arguments carry only the id)
+     * @private
+     */
+    private async getSheetNameById(worksheetId: string): Promise<string> {
+        return Excel.run(async (context) => {
+            const sheet = context.workbook.worksheets.getItem(worksheetId);
+            sheet.load('name');
+            await context.sync();
+            return sheet.name;
+        });
+    }
+
+    /**
+     * Classify a worksheet change by what made it
+     * @private
+     */
+    private cellChangeType(event: Excel.WorksheetChangedEventArgs): CellChangeType {
+        if (event.triggerSource === Excel.EventTriggerSource.thisLocalAddin) {
+            return 'api';
+        }
+
+        if (event.source === Excel.EventSource.remote) {
+            return 'remote';
         }
 
+        return event.source === Excel.EventSource.local ? 'local' : 'unknown';
+    }
+
+    /**
+     * Payload budget in cells for one request
+     * @private
+     */
+    private maxCellsPerRequest(): number {
+        return this.options.maxCellsPerRequest ?? DEFAULT_MAX_CELLS_PER_CHUNK;
+    }
+
+    /**
+     * Replace names by the sheet-qualified addresses they refer to
+     * Costs one extra Excel.run, and only when a name is present.
+     * @param addresses Addresses and/or names
+     * @returns Addresses in the same order
+     * @private
+     */
+    private async resolveNames(...addresses: string[]): Promise<string[]> {
+        if (!addresses.some(isRangeName)) {
+            return addresses;
+        }
+
+        return Excel.run(async (context) => {
+            const reads = addresses.map(address =>
+                isRangeName(address) ? this.queueResolveName(context, address) : () => address
+            );
+            await context.sync();
+            return reads.map(read => read());
+        });
+    }
+
+    /**
+     * Replace names in a chart's addresses by the ranges they refer to
+     * @private
+     */
+    private async resolveChartNames(options: ChartOptions): Promise<ChartOptions> {
+        const series = options.series || [];
+        const addresses = [options.source, options.position, ...series.flatMap(s => [s.values, s.xValues])];
+        const resolved = await this.resolveNames(...addresses.map(address => address ?? ''));
+        const at = (index: number): string | undefined => (addresses[index] === undefined ? undefined : resolved[index]);
+
         return {
-            sheetName: null,
-            cellAddress: address
+            ...options,
+            source: at(0),
+            position: at(1),
+            series: series.map((s, i) => ({ ...s, values: resolved[2 + 2 * i], xValues: at(3 + 2 * i) }))
+        };
+    }
+
+    /**
+     * Queue looking up a name as Excel does: "Sheet1!Name" in Sheet1's scope,
+     * otherwise the active sheet's scope before the workbook's
+     * @returns Reader to call after the context has synced
+     * @throws Error (from the reader) if the name is not defined
+     * @private
+     */
+    private queueResolveName(context: Excel.RequestContext, name: string): () => RangeAddress {
+        const { sheetName, reference } = splitSheetName(name);
+        const candidates = sheetName
+            ? [context.workbook.worksheets.getItem(sheetName).names.getItemOrNullObject(reference)]
+            : [
+                  context.workbook.worksheets.getActiveWorksheet().names.getItemOrNullObject(reference),
+                  context.workbook.names.getItemOrNullObject(reference)
+              ];
+        const ranges = candidates.map(item => {
+            const range = item.getRangeOrNullObject();
+            range.load('address');
+            return range;
+        });
+
+        return () => {
+            const found = ranges.find(range => !range.isNullObject);
+
+            if (!found) {
+                throw new AdapterError(`Name not found: ${name}`, { code: 'not_found', address: name });
+            }
+
+            return found.address;
         };
     }
 
     /**
-     * Calculate end cell address from start address and dimensions
-     * @param startAddress Starting cell (e.g., "A1")
-     * @param rowOffset Number of rows to offset (0-based)
-     * @param colOffset Number of columns to offset (0-based)
-     * @returns End cell address
+     * Queue loading what describes a table
+     * @returns Reader to call after the context has synced
+     * @private
+     */
+    private queueTableInfo(table: Excel.Table): () => TableInfo {
+        const range = table.getRange();
+        const header = table.getHeaderRowRange();
+        const count = table.rows.getCount();
+        table.load('name');
+        table.worksheet.load('name');
+        range.load('address');
+        header.load('values');
+
+        return () => ({
+            name: table.name,
+            address: range.address,
+            sheetName: table.worksheet.name,
+            columns: header.values[0].map(value => String(value)),
+            rowCount: count.value
+        });
+    }
+
+    /**
+     * Create a batch context queuing operations against one request context
+     * @param context Excel request context of the batch
+     * @returns Batch context
+     * @private
+     */
+    private createBatchContext(context: Excel.RequestContext): BatchContext {
+        let pending: Array<() => void> = [];
+        let deferred: Array<() => void> = [];
+
+        const read = <T>(reader: () => T): BatchResult<T> => {
+            const result = new DeferredResult<T>();
+            pending.push(() => result.resolve(reader()));
+            return result;
+        };
+
+        return {
+            getCellValue: address => read(this.queueGetCellValue(context, address)),
+            getRange: (startAddress, endAddress) => read(this.queueGetRange(context, startAddress, endAddress)),
+            getFormulas: (startAddress, endAddress, options = {}) =>
+                read(this.queueGetFormulas(context, startAddress, endAddress, options)),
+            getNumberFormats: (startAddress, endAddress) =>
+                read(this.queueGetNumberFormats(context, startAddress, endAddress)),
+            setCellValue: (address, value) => this.queueSetCellValue(context, address, value),
+            setRange: (startAddress, data, options = {}) => this.queueSetRange(context, startAddress, data, options),
+            clearRange: (startAddress, endAddress) => this.queueClearRange(context, startAddress, endAddress),
+            setFormulas: (startAddress, formulas, options = {}) =>
+                this.queueSetFormulas(context, startAddress, formulas, options),
+            setNumberFormat: (startAddress, endAddress, format) =>
+                this.queueSetNumberFormat(context, startAddress, endAddress, format, write => deferred.push(write)),
+            setStyle: (startAddress, endAddress, style) =>
+                this.queueSetStyle(context, startAddress, endAddress, style),
+            sync: async () => {
+                if (deferred.length > 0) {
+                    // Writes waiting for the size of a named range go out in a second sync
+                    await context.sync();
+                    const writes = deferred;
+                    deferred = [];
+                    writes.forEach(write => write());
+                }
+                await context.sync();
+
+                const settled = pending;
+                pending = [];
+                settled.forEach(resolve => resolve());
+            }
+        };
+    }
+
+    /**
+     * Queue loading a single cell
+     * @returns Reader to call after the context has synced
+     * @private
+     */
+    private queueGetCellValue(context: Excel.RequestContext, address: CellAddress): () => CellValue {
+        const range = this.getBatchCell(context, address);
+        range.load(['values', 'numberFormat']);
+
+        return () => {
+            if (range.values && range.values.length > 0 && range.values[0].length > 0) {
+                return this.normalizeValue(range.values[0][0], range.numberFormat[0][0]);
+            }
+
+            return null;
+        };
+    }
+
+    /**
+     * Queue writing a single cell (Dates also get a date format)
+     * @private
+     */
+    private queueSetCellValue(context: Excel.RequestContext, address: CellAddress, value: CellValue): void {
+        const range = this.getBatchCell(context, address);
+        range.values = [[toHostValue(value, this.options)]];
+
+        const dateFormat = dateFormatFor(value);
+        if (dateFormat) {
+            range.numberFormat = [[dateFormat]];
+        }
+    }
+
+    /**
+     * Queue loading the values of a range
+     * @returns Reader to call after the context has synced
+     * @private
+     */
+    private queueGetRange(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        endAddress: CellAddress
+    ): () => CellMatrix {
+        const range = this.getBatchCorners(context, startAddress, endAddress);
+        range.load(['values', 'numberFormat']);
+
+        return () => this.normalizeMatrix(range.values, range.numberFormat);
+    }
+
+    /**
+     * Queue writing a matrix with its number formats and style
+     * @throws Error if the matrix is empty
+     * @private
+     */
+    private queueSetRange(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        data: CellMatrix,
+        options: SetRangeOptions
+    ): void {
+        if (!data || data.length === 0 || data[0].length === 0) {
+            throw new AdapterError('Data matrix cannot be empty', { code: 'invalid_argument', address: startAddress });
+        }
+
+        const rows = data.length;
+        const cols = data[0].length;
+
+        const range = this.getBatchBlock(context, startAddress, rows, cols);
+        range.values = data.map(row => row.map(cell => toHostValue(cell, this.options)));
+
+        if (options.numberFormat) {
+            range.numberFormat = expandNumberFormat(options.numberFormat, rows, cols);
+        } else if (data.some(row => row.some(cell => cell instanceof Date))) {
+            // null leaves the format of non-date cells unchanged
+            range.numberFormat = data.map(row => row.map(cell => dateFormatFor(cell)));
+        }
+        if (options.style) {
+            this.applyStyle(range, options.style);
+        }
+    }
+
+    /**
+     * Queue clearing the contents of a range
+     * @private
+     */
+    private queueClearRange(context: Excel.RequestContext, startAddress: CellAddress, endAddress: CellAddress): void {
+        const range = this.getBatchCorners(context, startAddress, endAddress);
+        range.clear(Excel.ClearApplyTo.contents);
+    }
+
+    /**
+     * Queue loading formulas (Excel reports them locale-invariant)
+     * @returns Reader to call after the context has synced
+     * @private
+     */
+    private queueGetFormulas(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        options: FormulaOptions
+    ): () => FormulaMatrix {
+        const range = this.getBatchCorners(context, startAddress, endAddress);
+        const r1c1 = options.style === 'R1C1';
+        range.load(r1c1 ? 'formulasR1C1' : 'formulas');
+
+        return () => {
+            const formulas = (r1c1 ? range.formulasR1C1 : range.formulas) as any[][];
+            return formulas.map(row =>
+                row.map(cell => {
+                    if (isFormula(cell)) {
+                        return options.locale ? toLocalFormula(cell, options.locale) : cell;
+                    }
+                    return this.normalizeValue(cell);
+                })
+            );
+        };
+    }
+
+    /**
+     * Queue writing formulas as locale-invariant text
+     * @throws Error if the matrix is empty
+     * @private
+     */
+    private queueSetFormulas(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        formulas: FormulaMatrix,
+        options: FormulaOptions
+    ): void {
+        if (!formulas || formulas.length === 0 || formulas[0].length === 0) {
+            throw new AdapterError('Formula matrix cannot be empty', { code: 'invalid_argument', address: startAddress });
+        }
+
+        const range = this.getBatchBlock(context, startAddress, formulas.length, formulas[0].length);
+        const invariant = formulas.map(row =>
+            row.map(cell => {
+                if (isFormula(cell)) {
+                    return options.locale ? toInvariantFormula(cell, options.locale) : cell;
+                }
+                return toHostValue(cell, this.options);
+            })
+        );
+
+        if (options.style === 'R1C1') {
+            range.formulasR1C1 = invariant;
+        } else {
+            range.formulas = invariant;
+        }
+    }
+
+    /**
+     * Queue loading number format codes
+     * @returns Reader to call after the context has synced
      * @private
      */
-    private calculateEndAddress(startAddress: string, rowOffset: number, colOffset: number): string {
-        const match = startAddress.match(/^([A-Z]+)(\d+)$/);
+    private queueGetNumberFormats(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        endAddress: CellAddress
+    ): () => string[][] {
+        const range = this.getBatchCorners(context, startAddress, endAddress);
+        range.load('numberFormat');
+
+        return () => range.numberFormat.map(row => row.map(format => String(format)));
+    }
 
-        if (!match) {
-            throw new Error(`Invalid cell address: ${startAddress}`);
+    /**
+     * Queue setting number formats
+     * Formats for names are deferred until a sync has loaded the named range's size.
+     * @param defer Queues a write to make once that sync is done
+     * @private
+     */
+    private queueSetNumberFormat(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        format: NumberFormat,
+        defer: (write: () => void) => void
+    ): void {
+        if (!isRangeName(startAddress) && !isRangeName(endAddress)) {
+            const target = rangeFromCorners(startAddress, endAddress);
+            const { rows, columns } = rangeSize(target);
+            this.getExcelRange(context, target).numberFormat = expandNumberFormat(format, rows, columns);
+            return;
         }
 
-        const col = match[1];
-        const row = parseInt(match[2], 10);
+        // The size of a named range is only known after a sync
+        const range = this.getBatchCorners(context, startAddress, endAddress);
+        range.load(['rowCount', 'columnCount']);
+        defer(() => {
+            range.numberFormat = expandNumberFormat(format, range.rowCount, range.columnCount);
+        });
+    }
 
-        const endCol = this.offsetColumn(col, colOffset);
-        const endRow = row + rowOffset;
+    /**
+     * Get the Excel range for an address or name inside a batch
+     * Names are looked up in the batch's own request context, so without the
+     * extra request that would find sheet-scoped names first: "Sheet1!Name"
+     * in Sheet1's scope, other names in the workbook's.
+     * @param context Excel request context of the batch
+     * @param address Address or name
+     * @returns Excel range proxy object
+     * @private
+     */
+    private getBatchRange(context: Excel.RequestContext, address: string): Excel.Range {
+        if (!isRangeName(address)) {
+            return this.getExcelRange(context, parseAddress(address));
+        }
 
-        return `${endCol}${endRow}`;
+        const { sheetName, reference } = splitSheetName(address);
+        const names = sheetName ? context.workbook.worksheets.getItem(sheetName).names : context.workbook.names;
+        return names.getItem(reference).getRange();
     }
 
     /**
-     * Offset a column letter by a number of columns
-     * @param col Column letter (e.g., "A", "Z", "AA")
-     * @param offset Number of columns to offset
-     * @returns New column letter
+     * Get the cell at an address, or the top-left cell of a name, inside a batch
      * @private
      */
-    private offsetColumn(col: string, offset: number): string {
-        let colNum = 0;
+    private getBatchCell(context: Excel.RequestContext, address: CellAddress): Excel.Range {
+        const range = this.getBatchRange(context, address);
+        return isRangeName(address) ? range.getCell(0, 0) : range;
+    }
 
-        for (let i = 0; i < col.length; i++) {
-            colNum = colNum * 26 + (col.charCodeAt(i) - 64);
+    /**
+     * Get the range spanned by two corners (addresses or names) inside a batch
+     * @private
+     */
+    private getBatchCorners(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        endAddress: CellAddress
+    ): Excel.Range {
+        if (!isRangeName(startAddress) && !isRangeName(endAddress)) {
+            return this.getExcelRange(context, rangeFromCorners(startAddress, endAddress));
         }
 
-        colNum += offset;
+        return this.getBatchRange(context, startAddress).getBoundingRect(this.getBatchRange(context, endAddress));
+    }
 
-        let result = '';
-        while (colNum > 0) {
-            const remainder = (colNum - 1) % 26;
-            result = String.fromCharCode(65 + remainder) + result;
-            colNum = Math.floor((colNum - 1) / 26);
+    /**
+     * Get a block of cells starting at an address or at a name's top-left cell inside a batch
+     * @private
+     */
+    private getBatchBlock(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        rows: number,
+        columns: number
+    ): Excel.Range {
+        if (!isRangeName(startAddress)) {
+            return this.getExcelRange(context, resizeRange(parseAddress(startAddress), rows, columns));
         }
 
-        return result || 'A';
+        return this.getBatchRange(context, startAddress).getCell(0, 0).getResizedRange(rows - 1, columns - 1);
     }
 
     /**
-     * Normalize a single value from Excel
-     * @param value Raw value from Excel
-     * @returns Normalized CellValue
+     * Queue applying a style
      * @private
      */
-    private normalizeValue(value: any): CellValue {
-        if (value === null || value === undefined || value === '') {
-            return null;
+    private queueSetStyle(
+        context: Excel.RequestContext,
+        startAddress: CellAddress,
+        endAddress: CellAddress,
+        style: RangeStyle
+    ): void {
+        const range = this.getBatchCorners(context, startAddress, endAddress);
+        this.applyStyle(range, style);
+    }
+
+    /**
+     * Get a registered custom function
+     * @param name Function name (case-insensitive)
+     * @returns Metadata and implementation
+     * @throws Error if the function is not registered
+     * @private
+     */
+    private getFunction(name: string): { metadata: CustomFunctionMetadata; implementation: CustomFunctionImplementation } {
+        const func = this.customFunctions.get(name.toUpperCase());
+
+        if (!func) {
+            throw new AdapterError(`Function ${name} is not registered`, { code: 'not_found' });
         }
 
-        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
-            return value;
+        return func;
+    }
+
+    /**
+     * Adapt Office's streaming invocation so Error results become CustomFunctions.Error
+     * @param runtime Custom functions runtime
+     * @param implementation Streaming implementation
+     * @returns Implementation to associate
+     * @private
+     */
+    private wrapStreaming(
+        runtime: CustomFunctionsRuntime,
+        implementation: CustomFunctionImplementation
+    ): CustomFunctionImplementation {
+        return (...args: unknown[]) => {
+            const officeInvocation = args[args.length - 1] as StreamingInvocation;
+            const invocation: StreamingInvocation = {
+                address: officeInvocation.address,
+                setResult: value =>
+                    officeInvocation.setResult(
+                        value instanceof Error
+                            ? (new runtime.Error(runtime.ErrorCode.invalidValue, value.message) as Error)
+                            : value
+                    )
+            };
+
+            officeInvocation.onCanceled = () => {
+                if (invocation.onCanceled) {
+                    invocation.onCanceled();
+                }
+            };
+
+            return implementation(...args.slice(0, -1), invocation);
+        };
+    }
+
+    /**
+     * Adapt a range function so its results reach Excel as checked host matrices
+     * @param metadata Function metadata
+     * @param implementation Range function implementation
+     * @returns Implementation to associate (wrapped by wrapStreaming if streaming)
+     * @private
+     */
+    private wrapRange(
+        metadata: CustomFunctionMetadata,
+        implementation: CustomFunctionImplementation
+    ): CustomFunctionImplementation {
+        const present = (result: unknown) => toHostMatrix(toRangeResult(result, metadata.name), this.options);
+
+        if (!metadata.streaming) {
+            return (...args: unknown[]) => Promise.resolve(implementation(...args)).then(present);
         }
 
-        if (value instanceof Date) {
-            return value;
+        return (...args: unknown[]) => {
+            const invocation = args[args.length - 1] as StreamingInvocation;
+            const setResult = invocation.setResult.bind(invocation);
+            invocation.setResult = value => {
+                if (value instanceof Error) {
+                    setResult(value);
+                    return;
+                }
+                try {
+                    setResult(present(value));
+                } catch (error) {
+                    setResult(toAdapterError(error, `Error calling function ${metadata.name}`));
+                }
+            };
+            return implementation(...args);
+        };
+    }
+
+    /**
+     * Get the Excel range for a parsed address
+     * Unqualified addresses resolve against the active worksheet.
+     * @param context Excel request context
+     * @param range Parsed range reference
+     * @returns Excel range proxy object
+     * @private
+     */
+    private getExcelRange(context: Excel.RequestContext, range: RangeRef): Excel.Range {
+        const worksheet = range.sheetName
+            ? context.workbook.worksheets.getItem(range.sheetName)
+            : context.workbook.worksheets.getActiveWorksheet();
+
+        return worksheet.getRange(formatAddress(range, { includeSheet: false }));
+    }
+
+    /**
+     * Queue style changes on an Excel range (no sync)
+     * @param range Excel range proxy object
+     * @param style Style to apply
+     * @private
+     */
+    private applyStyle(range: Excel.Range, style: RangeStyle): void {
+        if (style.font) {
+            this.applyFont(range.format.font, style.font);
+        }
+        if (style.fill !== undefined) {
+            range.format.fill.color = style.fill;
+        }
+        if (style.horizontalAlignment) {
+            range.format.horizontalAlignment = this.capitalize(style.horizontalAlignment) as Excel.HorizontalAlignment;
+        }
+        if (style.wrapText !== undefined) {
+            range.format.wrapText = style.wrapText;
+        }
+        if (style.columnWidth !== undefined) {
+            range.format.columnWidth = style.columnWidth;
+        }
+        if (style.rowHeight !== undefined) {
+            range.format.rowHeight = style.rowHeight;
         }
 
-        // Try to parse as number
-        const num = Number(value);
-        if (!isNaN(num)) {
-            return num;
+        if (style.borders) {
+            (Object.keys(style.borders) as Array<keyof typeof BORDER_INDEX>).forEach(edge => {
+                const border = style.borders![edge];
+                if (!border) {
+                    return;
+                }
+
+                const item = range.format.borders.getItem(BORDER_INDEX[edge]);
+                item.style = this.capitalize(border.style) as Excel.BorderLineStyle;
+                if (border.weight) {
+                    item.weight = this.capitalize(border.weight) as Excel.BorderWeight;
+                }
+                if (border.color) {
+                    item.color = border.color;
+                }
+            });
         }
+    }
 
-        // Default to string
-        return String(value);
+    /**
+     * Queue font changes on an Excel font object (no sync)
+     * Conditional format fonts support neither name nor size, so those are range-only.
+     * @param target Range or conditional format font
+     * @param font Font settings
+     * @private
+     */
+    private applyFont(target: Excel.RangeFont | Excel.ConditionalRangeFont, font: FontStyle): void {
+        if (target instanceof Excel.RangeFont) {
+            if (font.name !== undefined) {
+                target.name = font.name;
+            }
+            if (font.size !== undefined) {
+                target.size = font.size;
+            }
+        }
+        if (font.bold !== undefined) {
+            target.bold = font.bold;
+        }
+        if (font.italic !== undefined) {
+            target.italic = font.italic;
+        }
+        if (font.underline !== undefined) {
+            target.underline = font.underline ? 'Single' : 'None';
+        }
+        if (font.color !== undefined) {
+            target.color = font.color;
+        }
+    }
+
+    /**
+     * Queue a conditional format on an Excel range (no sync)
+     * @param range Excel range proxy object
+     * @param format Conditional format definition
+     * @private
+     */
+    private applyConditionalFormat(range: Excel.Range, format: ConditionalFormat): void {
+        switch (format.type) {
+            case 'colorScale': {
+                const conditional = range.conditionalFormats.add(Excel.ConditionalFormatType.colorScale);
+                const criterion = (c: { type: string; value?: number; color: string }) => ({
+                    type: this.capitalize(c.type) as Excel.ConditionalFormatColorCriterionType,
+                    formula: c.value === undefined ? null : String(c.value),
+                    color: c.color
+                });
+
+                conditional.colorScale.criteria = {
+                    minimum: criterion(format.minimum),
+                    midpoint: format.midpoint ? criterion(format.midpoint) : undefined,
+                    maximum: criterion(format.maximum)
+                } as Excel.ConditionalColorScaleCriteria;
+                break;
+            }
+            case 'cellValue': {
+                const conditional = range.conditionalFormats.add(Excel.ConditionalFormatType.cellValue);
+                conditional.cellValue.rule = {
+                    formula1: String(format.value),
+                    formula2: format.value2 === undefined ? undefined : String(format.value2),
+                    operator: this.capitalize(format.operator) as Excel.ConditionalCellValueOperator
+                };
+                if (format.font) {
+                    this.applyFont(conditional.cellValue.format.font, format.font);
+                }
+                if (format.fill) {
+                    conditional.cellValue.format.fill.color = format.fill;
+                }
+                break;
+            }
+            case 'dataBar': {
+                const conditional = range.conditionalFormats.add(Excel.ConditionalFormatType.dataBar);
+                if (format.color) {
+                    conditional.dataBar.positiveFormat.fillColor = format.color;
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Capitalize the first letter of an option name to match Office.js enum strings
+     * @param value Option name (e.g., "greaterThan")
+     * @returns Office.js enum string (e.g., "GreaterThan")
+     * @private
+     */
+    private capitalize(value: string): string {
+        return value.charAt(0).toUpperCase() + value.slice(1);
+    }
+
+    /**
+     * Normalize a single value from Excel
+     * @param value Raw value from Excel
+     * @param numberFormat Number format of the cell, used to recognise dates
+     * @returns Normalized CellValue
+     * @private
+     */
+    private normalizeValue(value: unknown, numberFormat?: string | null): CellValue {
+        return normalizeCellValue(value, numberFormat, { mode: this.options.valueMode, date1904: this.options.date1904 });
     }
 
     /**
      * Normalize a matrix of values from Excel
      * @param matrix Raw matrix from Excel
+     * @param numberFormats Matching number formats
      * @returns Normalized CellMatrix
      * @private
      */
-    private normalizeMatrix(matrix: any[][]): CellMatrix {
-        return matrix.map(row => row.map(cell => this.normalizeValue(cell)));
+    private normalizeMatrix(matrix: unknown[][], numberFormats?: unknown[][]): CellMatrix {
+        return normalizeCellMatrix(matrix, numberFormats, {
+            mode: this.options.valueMode,
+            date1904: this.options.date1904
+        });
     }
 
     /**
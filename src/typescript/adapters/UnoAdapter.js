@@ -15,6 +15,38 @@
 
 /* global XSCRIPTCONTEXT */
 
+/**
+ * Error thrown by adapter operations
+ * Mirrors AdapterError in src/typescript/adapters/AdapterError.ts (same name,
+ * codes and properties), which Rhino cannot load.
+ * @param {string} message Error message
+ * @param {Object} details code, and optionally address, sheetName, hostCode and cause
+ */
+function AdapterError(message, details) {
+    this.name = 'AdapterError';
+    this.message = message;
+    this.code = details.code;
+    this.address = details.address;
+    this.sheetName = details.sheetName;
+    this.hostCode = details.hostCode;
+    this.cause = details.cause;
+    this.transient = details.code === 'transient';
+    this.stack = new Error(message).stack;
+}
+
+AdapterError.prototype = Object.create(Error.prototype);
+AdapterError.prototype.constructor = AdapterError;
+
+/**
+ * Adapter error codes by UNO exception type
+ */
+var UNO_ERROR_CODES = {
+    IndexOutOfBoundsException: 'invalid_address',
+    IllegalArgumentException: 'invalid_argument',
+    NoSuchElementException: 'not_found',
+    ElementExistException: 'already_exists'
+};
+
 /**
  * UnoAdapter Constructor
  * Creates a new adapter instance for LibreOffice Calc
@@ -27,7 +59,8 @@ function UnoAdapter() {
     this.eventListeners = {
         selectionChange: [],
         calculate: [],
-        sheetChange: []
+        sheetChange: [],
+        cellsChanged: []
     };
     this.isInitialized = false;
 
@@ -61,6 +94,14 @@ UnoAdapter.prototype.getPlatform = function() {
     return 'libreoffice';
 };
 
+/**
+ * Check whether range results spill (Calc array results need an array formula)
+ * @returns {boolean} Always false; range results only fill array formulas
+ */
+UnoAdapter.prototype.supportsDynamicArrays = function() {
+    return false;
+};
+
 /**
  * Check if the adapter is initialized and ready
  * @returns {Promise<boolean>} Promise resolving to readiness state
@@ -72,27 +113,74 @@ UnoAdapter.prototype.isReady = function() {
     });
 };
 
+/**
+ * Split an optional sheet prefix from an address
+ * Mirrors splitSheetName() in src/typescript/utils/address.ts, which Rhino cannot load.
+ * Quoted names may contain "!" and doubled quotes (e.g., "'It''s!'!A1").
+ * @private
+ * @param {string} address Address string (e.g., "'My Sheet'!A1:B2")
+ * @returns {Object} Object with sheetName (or null) and reference properties
+ */
+UnoAdapter.prototype._splitSheetName = function(address) {
+    var trimmed = String(address).replace(/^\s+|\s+$/g, '');
+
+    if (trimmed.charAt(0) === "'") {
+        var i = 1;
+        var name = '';
+        while (i < trimmed.length) {
+            if (trimmed.charAt(i) === "'") {
+                if (trimmed.charAt(i + 1) === "'") {
+                    name += "'";
+                    i += 2;
+                    continue;
+                }
+                break;
+            }
+            name += trimmed.charAt(i);
+            i++;
+        }
+
+        if (i >= trimmed.length || trimmed.charAt(i + 1) !== '!') {
+            throw new AdapterError('Invalid sheet reference: ' + address, { code: 'invalid_address', address: address });
+        }
+
+        return { sheetName: name, reference: trimmed.substring(i + 2) };
+    }
+
+    var separator = trimmed.lastIndexOf('!');
+    if (separator === -1) {
+        return { sheetName: null, reference: trimmed };
+    }
+
+    return { sheetName: trimmed.substring(0, separator), reference: trimmed.substring(separator + 1) };
+};
+
 /**
  * Parse A1 notation address to sheet name, column, and row
+ * A named range resolves to its top-left cell, or its bottom-right cell for an end address.
  * @private
- * @param {string} address Cell address in A1 notation (e.g., "B5" or "Sheet1!C10")
+ * @param {string} address Cell address in A1 notation (e.g., "B5", "$B$5" or "'My Sheet'!C10") or a name
+ * @param {boolean} [isEnd] True if the address is the end of a range
  * @returns {Object} Object with sheetName, column, and row properties
  */
-UnoAdapter.prototype._parseAddress = function(address) {
-    var sheetName = null;
-    var cellRef = address;
-
-    // Check for sheet name prefix (e.g., "Sheet1!A1")
-    if (address.indexOf('!') !== -1) {
-        var parts = address.split('!');
-        sheetName = parts[0];
-        cellRef = parts[1];
+UnoAdapter.prototype._parseAddress = function(address, isEnd) {
+    if (this._isRangeName(address)) {
+        var area = this._findNamedRange(address).getReferredCells().getRangeAddress();
+        return {
+            sheetName: this.sheets.getByIndex(area.Sheet).getName(),
+            column: isEnd ? area.EndColumn : area.StartColumn,
+            row: isEnd ? area.EndRow : area.StartRow
+        };
     }
 
-    // Parse column letters and row number
-    var match = cellRef.match(/^([A-Z]+)(\d+)$/);
+    var split = this._splitSheetName(address);
+    var sheetName = split.sheetName;
+    var cellRef = split.reference;
+
+    // Parse column letters and row number, ignoring absolute markers
+    var match = cellRef.toUpperCase().match(/^\$?([A-Z]{1,3})\$?(\d+)$/);
     if (!match) {
-        throw new Error('Invalid cell address: ' + address);
+        throw new AdapterError('Invalid cell address: ' + address, { code: 'invalid_address', address: address });
     }
 
     var columnLetters = match[1];
@@ -105,6 +193,14 @@ UnoAdapter.prototype._parseAddress = function(address) {
     }
     column = column - 1; // Make zero-based
 
+    // Enforce Excel worksheet limits (XFD, 1048576) so both hosts accept the same addresses
+    if (column >= 16384 || rowNumber < 1 || rowNumber > 1048576) {
+        throw new AdapterError('Cell address outside the worksheet: ' + address, {
+            code: 'invalid_address',
+            address: address
+        });
+    }
+
     return {
         sheetName: sheetName,
         column: column,
@@ -112,6 +208,105 @@ UnoAdapter.prototype._parseAddress = function(address) {
     };
 };
 
+/**
+ * Resolve the sheet shared by a start/end address pair
+ * @private
+ * @param {Object} startParsed Parsed start address
+ * @param {Object} endParsed Parsed end address
+ * @returns {string|null} Sheet name or null for the active sheet
+ */
+UnoAdapter.prototype._rangeSheetName = function(startParsed, endParsed) {
+    if (startParsed.sheetName && endParsed.sheetName &&
+        startParsed.sheetName.toLowerCase() !== endParsed.sheetName.toLowerCase()) {
+        throw new AdapterError('Range spans more than one sheet: ' +
+            startParsed.sheetName + ', ' + endParsed.sheetName, { code: 'invalid_address' });
+    }
+
+    return startParsed.sheetName || endParsed.sheetName;
+};
+
+/**
+ * Parse a range address or name into its corners
+ * @private
+ * @param {string} address Range address (e.g., "Data!A1:C10") or name
+ * @returns {Object} { start, end } parsed like _parseAddress; the sheet is on both
+ */
+UnoAdapter.prototype._parseRange = function(address) {
+    if (this._isRangeName(address)) {
+        return { start: this._parseAddress(address), end: this._parseAddress(address, true) };
+    }
+
+    var split = this._splitSheetName(address);
+    var prefix = this._sheetPrefix(split.sheetName);
+    var corners = split.reference.split(':');
+
+    return {
+        start: this._parseAddress(prefix + corners[0]),
+        end: this._parseAddress(prefix + corners[corners.length - 1], true)
+    };
+};
+
+/**
+ * Check whether text is a defined name rather than an address
+ * Mirrors isRangeName() in src/typescript/utils/address.ts.
+ * @private
+ * @param {string} text Text to check (e.g., "GDP_C" or "'My Sheet'!Inputs")
+ * @returns {boolean} True if the text is a valid name
+ */
+UnoAdapter.prototype._isRangeName = function(text) {
+    var reference;
+
+    try {
+        reference = this._splitSheetName(text).reference;
+    } catch (e) {
+        return false;
+    }
+
+    return reference.length <= 255 &&
+        /^[A-Za-z_\\][A-Za-z0-9_.\\]*$/.test(reference) &&
+        !/^\$?[A-Za-z]{1,3}\$?\d+$/.test(reference) &&
+        !/^R(\[-?\d+\]|\d+)?C(\[-?\d+\]|\d+)?$/i.test(reference) &&
+        !/^[RC]$/i.test(reference);
+};
+
+/**
+ * Find a named range as Calc and Excel do: "Sheet1!Name" among Sheet1's names,
+ * otherwise the active sheet's names before the document's
+ * @private
+ * @param {string} name Name, optionally sheet-qualified
+ * @returns {Object} UNO named range (XNamedRange)
+ */
+UnoAdapter.prototype._findNamedRange = function(name) {
+    var split = this._splitSheetName(name);
+    var collections = split.sheetName ?
+        [this._getSheet(split.sheetName).getPropertyValue('NamedRanges')] :
+        [
+            this.controller.getActiveSheet().getPropertyValue('NamedRanges'),
+            this.document.getPropertyValue('NamedRanges')
+        ];
+
+    for (var i = 0; i < collections.length; i++) {
+        if (collections[i].hasByName(split.reference)) {
+            return collections[i].getByName(split.reference);
+        }
+    }
+
+    throw new AdapterError('Name not found: ' + name, { code: 'not_found', address: name });
+};
+
+/**
+ * Format a UNO cell range address in A1 notation with its sheet
+ * @private
+ * @param {Object} area CellRangeAddress
+ * @returns {string} Address such as "'Data'!B2:B5"
+ */
+UnoAdapter.prototype._formatRangeAddress = function(area) {
+    var start = this._columnToLetter(area.StartColumn) + (area.StartRow + 1);
+    var end = this._columnToLetter(area.EndColumn) + (area.EndRow + 1);
+    var prefix = this._sheetPrefix(this.sheets.getByIndex(area.Sheet).getName());
+    return prefix + (start === end ? start : start + ':' + end);
+};
+
 /**
  * Convert column index to letter(s)
  * @private
@@ -141,13 +336,36 @@ UnoAdapter.prototype._getSheet = function(sheetName) {
         if (this.sheets.hasByName(sheetName)) {
             return this.sheets.getByName(sheetName);
         } else {
-            throw new Error('Sheet not found: ' + sheetName);
+            throw new AdapterError('Sheet not found: ' + sheetName, { code: 'sheet_not_found', sheetName: sheetName });
         }
     } else {
         return this.controller.getActiveSheet();
     }
 };
 
+/**
+ * Wrap an exception thrown during an operation as an AdapterError
+ * AdapterErrors pass through; UNO exceptions are classified by their type name.
+ * @private
+ * @param {*} e Exception caught
+ * @returns {AdapterError} Error to reject with
+ */
+UnoAdapter.prototype._toAdapterError = function(e) {
+    if (e instanceof AdapterError) {
+        return e;
+    }
+
+    var text = e && e.message ? e.message : String(e);
+    var match = String(e).match(/com\.sun\.star\.[\w.]*?(\w+Exception)/);
+    var hostCode = match ? match[1] : undefined;
+
+    return new AdapterError(text, {
+        code: (hostCode && UNO_ERROR_CODES[hostCode]) || 'unknown',
+        hostCode: hostCode,
+        cause: e
+    });
+};
+
 /**
  * Get cell object from sheet
  * @private
@@ -179,6 +397,9 @@ UnoAdapter.prototype._getCellValueFromUnoCell = function(cell) {
     if (cellType === EMPTY) {
         return null;
     } else if (cellType === VALUE) {
+        if (this._isDateCell(cell)) {
+            return this._serialToDate(cell.getValue());
+        }
         return cell.getValue();
     } else if (cellType === TEXT) {
         return cell.getFormula(); // getFormula() returns text for text cells
@@ -215,10 +436,7 @@ UnoAdapter.prototype._setCellValueToUnoCell = function(cell, value) {
             cell.setFormula(value);
         }
     } else if (value instanceof Date) {
-        // Convert Date to serial number (days since 1899-12-30)
-        var epoch = new Date(1899, 11, 30);
-        var days = (value - epoch) / (24 * 60 * 60 * 1000);
-        cell.setValue(days);
+        cell.setValue(this._dateToSerial(value));
 
         // Set number format to date
         var numberFormats = this.document.getNumberFormats();
@@ -235,6 +453,44 @@ UnoAdapter.prototype._setCellValueToUnoCell = function(cell, value) {
     }
 };
 
+/**
+ * Convert a Date to a Calc serial number (days since 1899-12-30)
+ * The Date's UTC fields are used so the result does not depend on the
+ * machine's time zone. Calc has no phantom 1900-02-29, so no correction
+ * is needed for early dates.
+ * @private
+ * @param {Date} date Date to convert
+ * @returns {number} Serial number
+ */
+UnoAdapter.prototype._dateToSerial = function(date) {
+    return (date.getTime() - Date.UTC(1899, 11, 30)) / (24 * 60 * 60 * 1000);
+};
+
+/**
+ * Convert a Calc serial number to a Date
+ * @private
+ * @param {number} serial Serial number
+ * @returns {Date} Date whose UTC fields hold the calendar date and time
+ */
+UnoAdapter.prototype._serialToDate = function(serial) {
+    return new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 24 * 60 * 60 * 1000));
+};
+
+/**
+ * Check whether a cell's number format displays a date or date-time
+ * @private
+ * @param {Object} cell UNO cell object
+ * @returns {boolean} True for date formats
+ */
+UnoAdapter.prototype._isDateCell = function(cell) {
+    // com.sun.star.util.NumberFormat.DATE
+    var DATE = 2;
+
+    var key = cell.getPropertyValue('NumberFormat');
+    var format = this.document.getNumberFormats().getByKey(key);
+    return (format.getPropertyValue('Type') & DATE) !== 0;
+};
+
 /**
  * Get value from a single cell
  * @param {string} address Cell address in A1 notation
@@ -250,7 +506,7 @@ UnoAdapter.prototype.getCellValue = function(address) {
             var value = self._getCellValueFromUnoCell(cell);
             resolve(value);
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
@@ -271,7 +527,7 @@ UnoAdapter.prototype.setCellValue = function(address, value) {
             self._setCellValueToUnoCell(cell, value);
             resolve();
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
@@ -287,10 +543,10 @@ UnoAdapter.prototype.getRange = function(startAddress, endAddress) {
     return new Promise(function(resolve, reject) {
         try {
             var startParsed = self._parseAddress(startAddress);
-            var endParsed = self._parseAddress(endAddress);
+            var endParsed = self._parseAddress(endAddress, true);
 
             // Ensure both addresses reference the same sheet
-            var sheetName = startParsed.sheetName || endParsed.sheetName;
+            var sheetName = self._rangeSheetName(startParsed, endParsed);
             var sheet = self._getSheet(sheetName);
 
             var startCol = startParsed.column;
@@ -312,7 +568,7 @@ UnoAdapter.prototype.getRange = function(startAddress, endAddress) {
 
             resolve(result);
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
@@ -321,9 +577,10 @@ UnoAdapter.prototype.getRange = function(startAddress, endAddress) {
  * Set values in a range
  * @param {string} startAddress Start cell address
  * @param {Array<Array>} data 2D array of values
+ * @param {Object} [options] Number format and style to apply to the written range
  * @returns {Promise<void>} Promise resolving when complete
  */
-UnoAdapter.prototype.setRange = function(startAddress, data) {
+UnoAdapter.prototype.setRange = function(startAddress, data, options) {
     var self = this;
     return new Promise(function(resolve, reject) {
         try {
@@ -341,13 +598,156 @@ UnoAdapter.prototype.setRange = function(startAddress, data) {
                 }
             }
 
+            if (options && (options.numberFormat !== undefined || options.style) && data.length > 0) {
+                var written = sheet.getCellRangeByPosition(
+                    startCol,
+                    startRow,
+                    startCol + data[0].length - 1,
+                    startRow + data.length - 1
+                );
+                if (options.numberFormat !== undefined) {
+                    self._applyNumberFormat(written, options.numberFormat);
+                }
+                if (options.style) {
+                    self._applyStyle(written, options.style);
+                }
+            }
+
             resolve();
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Default payload budget in cells for chunked reads and writes
+ * Mirrors DEFAULT_MAX_CELLS_PER_CHUNK in src/typescript/utils/chunking.ts.
+ */
+var DEFAULT_MAX_CELLS_PER_CHUNK = 20000;
+
+/**
+ * Get values from a range in chunks of rows
+ * @param {string} startAddress Start cell address
+ * @param {string} endAddress End cell address
+ * @param {Object} [options] maxCellsPerChunk, onProgress(progress) and signal (AbortSignal)
+ * @returns {Promise<Array<Array>>} Promise resolving to 2D array of values
+ */
+UnoAdapter.prototype.getRangeChunked = function(startAddress, endAddress, options) {
+    var self = this;
+    var opts = options || {};
+
+    return new Promise(function(resolve, reject) {
+        try {
+            var startParsed = self._parseAddress(startAddress);
+            var endParsed = self._parseAddress(endAddress, true);
+            var prefix = self._sheetPrefix(self._rangeSheetName(startParsed, endParsed));
+            var columns = endParsed.column - startParsed.column + 1;
+            var rows = endParsed.row - startParsed.row + 1;
+            var result = [];
+
+            self._runChunks(rows, columns, opts, function(firstRow, chunkRows) {
+                var start = prefix + self._columnToLetter(startParsed.column) + (startParsed.row + firstRow + 1);
+                var end = self._columnToLetter(endParsed.column) + (startParsed.row + firstRow + chunkRows);
+
+                return self.getRange(start, end).then(function(values) {
+                    result = result.concat(values);
+                });
+            }).then(function() {
+                resolve(result);
+            }, reject);
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Set values in a range in chunks of rows
+ * Chunks written before an abort stay written.
+ * @param {string} startAddress Start cell address
+ * @param {Array<Array>} data 2D array of values
+ * @param {Object} [options] maxCellsPerChunk, onProgress(progress) and signal (AbortSignal)
+ * @returns {Promise<void>} Promise resolving when complete
+ */
+UnoAdapter.prototype.setRangeChunked = function(startAddress, data, options) {
+    var self = this;
+    var opts = options || {};
+
+    return new Promise(function(resolve, reject) {
+        try {
+            if (!data || data.length === 0 || data[0].length === 0) {
+                throw new AdapterError('Data matrix cannot be empty', { code: 'invalid_argument', address: startAddress });
+            }
+
+            var startParsed = self._parseAddress(startAddress);
+            var prefix = self._sheetPrefix(startParsed.sheetName);
+
+            self._runChunks(data.length, data[0].length, opts, function(firstRow, chunkRows) {
+                var start = prefix + self._columnToLetter(startParsed.column) + (startParsed.row + firstRow + 1);
+                return self.setRange(start, data.slice(firstRow, firstRow + chunkRows));
+            }).then(function() {
+                resolve();
+            }, reject);
+        } catch (e) {
+            reject(self._toAdapterError(e));
         }
     });
 };
 
+/**
+ * Run row chunks in order, checking the abort signal before each and reporting progress after each
+ * @private
+ * @param {number} rows Total rows
+ * @param {number} columns Columns per row
+ * @param {Object} options maxCellsPerChunk, onProgress and signal
+ * @param {Function} runChunk Called with (firstRow, chunkRows); returns a Promise
+ * @returns {Promise<void>} Promise resolving when all chunks have run
+ */
+UnoAdapter.prototype._runChunks = function(rows, columns, options, runChunk) {
+    var maxCells = options.maxCellsPerChunk || DEFAULT_MAX_CELLS_PER_CHUNK;
+    var rowsPerChunk = Math.max(1, Math.floor(maxCells / columns));
+    var totalChunks = Math.ceil(rows / rowsPerChunk);
+    var totalCells = rows * columns;
+
+    var next = function(chunkIndex) {
+        var firstRow = chunkIndex * rowsPerChunk;
+        if (firstRow >= rows) {
+            return Promise.resolve();
+        }
+        if (options.signal && options.signal.aborted) {
+            return Promise.reject(new AdapterError('Canceled after ' + firstRow * columns + ' of ' + totalCells + ' cells', {
+                code: 'canceled'
+            }));
+        }
+
+        var chunkRows = Math.min(rowsPerChunk, rows - firstRow);
+        return runChunk(firstRow, chunkRows).then(function() {
+            if (options.onProgress) {
+                options.onProgress({
+                    completedCells: (firstRow + chunkRows) * columns,
+                    totalCells: totalCells,
+                    completedChunks: chunkIndex + 1,
+                    totalChunks: totalChunks
+                });
+            }
+            return next(chunkIndex + 1);
+        });
+    };
+
+    return next(0);
+};
+
+/**
+ * Build the sheet prefix of an address, including the "!" (empty for the active sheet)
+ * @private
+ * @param {string|null} sheetName Sheet name or null
+ * @returns {string} Prefix such as "'My Sheet'!"
+ */
+UnoAdapter.prototype._sheetPrefix = function(sheetName) {
+    return sheetName ? "'" + sheetName.replace(/'/g, "''") + "'!" : '';
+};
+
 /**
  * Clear values in a range
  * @param {string} startAddress Start cell address
@@ -359,9 +759,9 @@ UnoAdapter.prototype.clearRange = function(startAddress, endAddress) {
     return new Promise(function(resolve, reject) {
         try {
             var startParsed = self._parseAddress(startAddress);
-            var endParsed = self._parseAddress(endAddress);
+            var endParsed = self._parseAddress(endAddress, true);
 
-            var sheetName = startParsed.sheetName || endParsed.sheetName;
+            var sheetName = self._rangeSheetName(startParsed, endParsed);
             var sheet = self._getSheet(sheetName);
 
             var startCol = startParsed.column;
@@ -378,337 +778,1823 @@ UnoAdapter.prototype.clearRange = function(startAddress, endAddress) {
 
             resolve();
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
 
 /**
- * Register a custom function
- * @param {Object} metadata Function metadata
- * @param {Function} implementation Function implementation
+ * Swap argument separators in a formula, leaving string literals and quoted
+ * sheet names untouched. UNO's getFormula/setFormula use ";" between
+ * arguments, while ISpreadsheetAdapter formulas are invariant (",").
+ * @private
+ * @param {string} formula Formula text
+ * @param {string} from Separator to replace
+ * @param {string} to Replacement separator
+ * @returns {string} Converted formula
  */
-UnoAdapter.prototype.registerFunction = function(metadata, implementation) {
-    this.registeredFunctions[metadata.name.toUpperCase()] = {
-        metadata: metadata,
-        implementation: implementation
-    };
+UnoAdapter.prototype._swapSeparators = function(formula, from, to) {
+    var result = '';
+    var quote = null;
+
+    for (var i = 0; i < formula.length; i++) {
+        var ch = formula.charAt(i);
+
+        if (quote) {
+            if (ch === quote) {
+                quote = null;
+            }
+            result += ch;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+            result += ch;
+        } else if (ch === from) {
+            result += to;
+        } else {
+            result += ch;
+        }
+    }
+
+    return result;
 };
 
 /**
- * Call a custom function programmatically
- * @param {string} name Function name
- * @param {...*} args Arguments
- * @returns {Promise<*>} Promise resolving to function result
+ * Get formulas from a range
+ * @param {string} startAddress Start cell address
+ * @param {string} endAddress End cell address
+ * @param {Object} [options] Formula options; only the 'A1' style and the locale argument separator are supported
+ * @returns {Promise<Array<Array>>} Promise resolving to 2D array of formulas and constants
  */
-UnoAdapter.prototype.callFunction = function(name) {
+UnoAdapter.prototype.getFormulas = function(startAddress, endAddress, options) {
     var self = this;
-    var args = Array.prototype.slice.call(arguments, 1);
-
     return new Promise(function(resolve, reject) {
         try {
-            var funcName = name.toUpperCase();
-            if (!self.registeredFunctions[funcName]) {
-                reject(new Error('Function not registered: ' + name));
+            if (options && options.style === 'R1C1') {
+                reject(new AdapterError('R1C1 formulas are not supported in LibreOffice', { code: 'not_supported' }));
                 return;
             }
 
-            var func = self.registeredFunctions[funcName];
-            var result = func.implementation.apply(null, args);
+            var startParsed = self._parseAddress(startAddress);
+            var endParsed = self._parseAddress(endAddress, true);
+            var sheet = self._getSheet(self._rangeSheetName(startParsed, endParsed));
+            var FORMULA = 3;
+            var result = [];
+
+            for (var row = startParsed.row; row <= endParsed.row; row++) {
+                var rowData = [];
+                for (var col = startParsed.column; col <= endParsed.column; col++) {
+                    var cell = self._getCell(sheet, col, row);
+                    if (cell.getType() === FORMULA) {
+                        var formula = self._swapSeparators(cell.getFormula(), ';', ',');
+                        if (options && options.locale && options.locale.argumentSeparator === ';') {
+                            formula = self._swapSeparators(formula, ',', ';');
+                        }
+                        rowData.push(formula);
+                    } else {
+                        rowData.push(self._getCellValueFromUnoCell(cell));
+                    }
+                }
+                result.push(rowData);
+            }
+
             resolve(result);
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
 
 /**
- * Listen to selection change events
- * @param {Function} handler Event handler function
- * @returns {Function} Unsubscribe function
+ * Set formulas in a range
+ * @param {string} startAddress Start cell address
+ * @param {Array<Array>} formulas 2D array of formulas and constants
+ * @param {Object} [options] Formula options; only the 'A1' style and the locale argument separator are supported
+ * @returns {Promise<void>} Promise resolving when complete
  */
-UnoAdapter.prototype.onSelectionChange = function(handler) {
+UnoAdapter.prototype.setFormulas = function(startAddress, formulas, options) {
     var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            if (options && options.style === 'R1C1') {
+                reject(new AdapterError('R1C1 formulas are not supported in LibreOffice', { code: 'not_supported' }));
+                return;
+            }
 
-    // Create a UNO listener object
-    var listener = {
-        selectionChanged: function(event) {
-            try {
-                var selection = self.controller.getSelection();
-                if (selection) {
-                    var address = selection.getAbsoluteName();
-                    handler(address);
+            var startParsed = self._parseAddress(startAddress);
+            var sheet = self._getSheet(startParsed.sheetName);
+            var localSeparator = options && options.locale ? options.locale.argumentSeparator : ',';
+
+            for (var rowIdx = 0; rowIdx < formulas.length; rowIdx++) {
+                for (var colIdx = 0; colIdx < formulas[rowIdx].length; colIdx++) {
+                    var value = formulas[rowIdx][colIdx];
+                    var cell = self._getCell(sheet, startParsed.column + colIdx, startParsed.row + rowIdx);
+
+                    if (typeof value === 'string' && value.charAt(0) === '=') {
+                        // UNO expects ";" between arguments
+                        cell.setFormula(localSeparator === ';' ? value : self._swapSeparators(value, ',', ';'));
+                    } else {
+                        self._setCellValueToUnoCell(cell, value);
+                    }
                 }
-            } catch (e) {
-                console.error('Selection change handler error:', e);
             }
-        }
-    };
-
-    // Add listener to controller
-    this.controller.addSelectionChangeListener(listener);
-    this.eventListeners.selectionChange.push(listener);
 
-    // Return unsubscribe function
-    return function() {
-        try {
-            self.controller.removeSelectionChangeListener(listener);
-            var index = self.eventListeners.selectionChange.indexOf(listener);
-            if (index > -1) {
-                self.eventListeners.selectionChange.splice(index, 1);
-            }
+            resolve();
         } catch (e) {
-            console.error('Error removing selection change listener:', e);
+            reject(self._toAdapterError(e));
         }
-    };
+    });
 };
 
 /**
- * Listen to calculation complete events
- * @param {Function} handler Event handler function
- * @returns {Function} Unsubscribe function
+ * Get number format codes from a range
+ * @param {string} startAddress Start cell address
+ * @param {string} endAddress End cell address
+ * @returns {Promise<Array<Array<string>>>} Promise resolving to 2D array of format codes
  */
-UnoAdapter.prototype.onCalculate = function(handler) {
+UnoAdapter.prototype.getNumberFormats = function(startAddress, endAddress) {
     var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var range = self._getCellRange(startAddress, endAddress);
+            var numberFormats = self.document.getNumberFormats();
+            var rows = range.getRows().getCount();
+            var columns = range.getColumns().getCount();
+            var result = [];
 
-    // Create a modified listener for cell range changes
-    var listener = {
-        modified: function(event) {
-            try {
-                handler();
-            } catch (e) {
-                console.error('Calculate handler error:', e);
+            for (var row = 0; row < rows; row++) {
+                var rowData = [];
+                for (var col = 0; col < columns; col++) {
+                    var key = range.getCellByPosition(col, row).getPropertyValue('NumberFormat');
+                    rowData.push(String(numberFormats.getByKey(key).getPropertyValue('FormatString')));
+                }
+                result.push(rowData);
+            }
+
+            resolve(result);
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Set number formats in a range
+ * @param {string} startAddress Start cell address
+ * @param {string} endAddress End cell address
+ * @param {string|Array<Array<string>>} format One format code for all cells, or a matrix matching the range size
+ * @returns {Promise<void>} Promise resolving when complete
+ */
+UnoAdapter.prototype.setNumberFormat = function(startAddress, endAddress, format) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            self._applyNumberFormat(self._getCellRange(startAddress, endAddress), format);
+            resolve();
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Apply font, fill, alignment, border and size settings to a range
+ * @param {string} startAddress Start cell address
+ * @param {string} endAddress End cell address
+ * @param {Object} style Style to apply; unspecified properties are left unchanged
+ * @returns {Promise<void>} Promise resolving when complete
+ */
+UnoAdapter.prototype.setStyle = function(startAddress, endAddress, style) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            self._applyStyle(self._getCellRange(startAddress, endAddress), style);
+            resolve();
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Autofit column widths and/or row heights to their contents
+ * @param {string} startAddress Start cell address
+ * @param {string} endAddress End cell address
+ * @param {Object} [options] Which dimensions to fit (default: columns only)
+ * @returns {Promise<void>} Promise resolving when complete
+ */
+UnoAdapter.prototype.autofit = function(startAddress, endAddress, options) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var range = self._getCellRange(startAddress, endAddress);
+            var opts = options || {};
+
+            if (opts.columns !== false) {
+                self._setEach(range.getColumns(), 'OptimalWidth', true);
+            }
+            if (opts.rows) {
+                self._setEach(range.getRows(), 'OptimalHeight', true);
+            }
+
+            resolve();
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Add a conditional format to a range
+ * Not supported: Calc conditional formats are not mapped yet.
+ * @returns {Promise<void>} Promise rejecting with a not_supported AdapterError
+ */
+UnoAdapter.prototype.addConditionalFormat = function() {
+    return Promise.reject(
+        new AdapterError('Conditional formats are not supported in LibreOffice', { code: 'not_supported' })
+    );
+};
+
+/**
+ * Remove all conditional formats from a range
+ * Not supported: Calc conditional formats are not mapped yet.
+ * @returns {Promise<void>} Promise rejecting with a not_supported AdapterError
+ */
+UnoAdapter.prototype.clearConditionalFormats = function() {
+    return Promise.reject(
+        new AdapterError('Conditional formats are not supported in LibreOffice', { code: 'not_supported' })
+    );
+};
+
+/**
+ * Get the cell range spanned by two corners (addresses or names)
+ * @private
+ * @param {string} startAddress Start cell address
+ * @param {string} endAddress End cell address
+ * @returns {Object} UNO cell range
+ */
+UnoAdapter.prototype._getCellRange = function(startAddress, endAddress) {
+    var startParsed = this._parseAddress(startAddress);
+    var endParsed = this._parseAddress(endAddress, true);
+    var sheet = this._getSheet(this._rangeSheetName(startParsed, endParsed));
+
+    return sheet.getCellRangeByPosition(startParsed.column, startParsed.row, endParsed.column, endParsed.row);
+};
+
+/**
+ * Get the key of a number format code, adding the code to the document if needed
+ * Codes are read in the en-US locale, like the format codes of Office.js.
+ * @private
+ * @param {string} code Number format code (e.g., "yyyy-mm-dd")
+ * @returns {number} Number format key
+ */
+UnoAdapter.prototype._numberFormatKey = function(code) {
+    var numberFormats = this.document.getNumberFormats();
+    var locale = new Packages.com.sun.star.lang.Locale();
+    locale.Language = 'en';
+    locale.Country = 'US';
+
+    var key = numberFormats.queryKey(code, locale, false);
+    return key === -1 ? numberFormats.addNew(code, locale) : key;
+};
+
+/**
+ * Apply number formats to a cell range
+ * Mirrors expandNumberFormat() in src/typescript/utils/formats.ts for the size check.
+ * @private
+ * @param {Object} range UNO cell range
+ * @param {string|Array<Array<string>>} format One format code, or a matrix matching the range size
+ */
+UnoAdapter.prototype._applyNumberFormat = function(range, format) {
+    if (typeof format === 'string') {
+        range.setPropertyValue('NumberFormat', this._numberFormatKey(format));
+        return;
+    }
+
+    var rows = range.getRows().getCount();
+    var columns = range.getColumns().getCount();
+    var matches = format.length === rows && format.every(function(row) {
+        return row.length === columns;
+    });
+    if (!matches) {
+        throw new AdapterError('Number format matrix must be ' + rows + 'x' + columns, { code: 'invalid_argument' });
+    }
+
+    for (var row = 0; row < rows; row++) {
+        for (var col = 0; col < columns; col++) {
+            range.getCellByPosition(col, row).setPropertyValue('NumberFormat', this._numberFormatKey(format[row][col]));
+        }
+    }
+};
+
+/**
+ * Lines of the TableBorder2 cell range property by edge
+ */
+var BORDER_LINES = {
+    top: 'TopLine',
+    bottom: 'BottomLine',
+    left: 'LeftLine',
+    right: 'RightLine',
+    insideHorizontal: 'HorizontalLine',
+    insideVertical: 'VerticalLine'
+};
+
+/**
+ * Border line widths in 1/100 mm by weight
+ */
+var BORDER_WIDTHS = { thin: 26, medium: 53, thick: 88 };
+
+/**
+ * Hundredths of a millimetre per point, for column widths and row heights
+ */
+var HUNDREDTH_MM_PER_POINT = 2540 / 72;
+
+/**
+ * Apply a style to a cell range
+ * @private
+ * @param {Object} range UNO cell range
+ * @param {Object} style Style to apply; unspecified properties are left unchanged
+ */
+UnoAdapter.prototype._applyStyle = function(range, style) {
+    var self = this;
+    var font = style.font || {};
+
+    if (font.name !== undefined) {
+        range.setPropertyValue('CharFontName', font.name);
+    }
+    if (font.size !== undefined) {
+        range.setPropertyValue('CharHeight', font.size);
+    }
+    if (font.bold !== undefined) {
+        range.setPropertyValue('CharWeight', font.bold ?
+            Packages.com.sun.star.awt.FontWeight.BOLD :
+            Packages.com.sun.star.awt.FontWeight.NORMAL);
+    }
+    if (font.italic !== undefined) {
+        range.setPropertyValue('CharPosture', font.italic ?
+            Packages.com.sun.star.awt.FontSlant.ITALIC :
+            Packages.com.sun.star.awt.FontSlant.NONE);
+    }
+    if (font.underline !== undefined) {
+        range.setPropertyValue('CharUnderline', font.underline ?
+            Packages.com.sun.star.awt.FontUnderline.SINGLE :
+            Packages.com.sun.star.awt.FontUnderline.NONE);
+    }
+    if (font.color !== undefined) {
+        range.setPropertyValue('CharColor', this._toUnoColor(font.color));
+    }
+
+    if (style.fill !== undefined) {
+        range.setPropertyValue('CellBackColor', this._toUnoColor(style.fill));
+    }
+    if (style.horizontalAlignment) {
+        var justify = Packages.com.sun.star.table.CellHoriJustify;
+        range.setPropertyValue('HoriJustify', {
+            general: justify.STANDARD,
+            left: justify.LEFT,
+            center: justify.CENTER,
+            right: justify.RIGHT
+        }[style.horizontalAlignment]);
+    }
+    if (style.wrapText !== undefined) {
+        range.setPropertyValue('IsTextWrapped', style.wrapText);
+    }
+    if (style.columnWidth !== undefined) {
+        this._setEach(range.getColumns(), 'Width', Math.round(style.columnWidth * HUNDREDTH_MM_PER_POINT));
+    }
+    if (style.rowHeight !== undefined) {
+        this._setEach(range.getRows(), 'Height', Math.round(style.rowHeight * HUNDREDTH_MM_PER_POINT));
+    }
+
+    if (style.borders) {
+        var tableBorder = range.getPropertyValue('TableBorder2');
+
+        Object.keys(style.borders).forEach(function(edge) {
+            var border = style.borders[edge];
+            if (!border) {
+                return;
+            }
+
+            var line = BORDER_LINES[edge];
+            tableBorder[line] = self._toBorderLine(border);
+            tableBorder['Is' + line + 'Valid'] = true;
+        });
+
+        range.setPropertyValue('TableBorder2', tableBorder);
+    }
+};
+
+/**
+ * Convert a border setting to a UNO BorderLine2
+ * @private
+ * @param {Object} border Border style, weight and colour
+ * @returns {Object} UNO BorderLine2 struct
+ */
+UnoAdapter.prototype._toBorderLine = function(border) {
+    var line = new Packages.com.sun.star.table.BorderLine2();
+    var lineStyle = Packages.com.sun.star.table.BorderLineStyle;
+
+    line.LineStyle = {
+        continuous: lineStyle.SOLID,
+        dash: lineStyle.DASHED,
+        dot: lineStyle.DOTTED,
+        double: lineStyle.DOUBLE,
+        none: lineStyle.NONE
+    }[border.style];
+    line.LineWidth = border.style === 'none' ? 0 : BORDER_WIDTHS[border.weight || 'thin'];
+    line.Color = border.color ? this._toUnoColor(border.color) : 0;
+    return line;
+};
+
+/**
+ * Convert a hex colour string (e.g., "#1F4E79") to a UNO colour
+ * @private
+ * @param {string} color Hex colour
+ * @returns {number} RGB integer
+ */
+UnoAdapter.prototype._toUnoColor = function(color) {
+    var match = String(color).match(/^#?([0-9A-Fa-f]{6})$/);
+    if (!match) {
+        throw new AdapterError('Invalid colour: ' + color, { code: 'invalid_argument' });
+    }
+    return parseInt(match[1], 16);
+};
+
+/**
+ * Set a property on every column or row of a collection
+ * @private
+ * @param {Object} items UNO table columns or rows
+ * @param {string} property Property name
+ * @param {*} value Property value
+ */
+UnoAdapter.prototype._setEach = function(items, property, value) {
+    for (var i = 0; i < items.getCount(); i++) {
+        items.getByIndex(i).setPropertyValue(property, value);
+    }
+};
+
+/**
+ * Register a custom function
+ * @param {Object} metadata Function metadata
+ * @param {Function} implementation Function implementation
+ */
+UnoAdapter.prototype.registerFunction = function(metadata, implementation) {
+    this.registeredFunctions[metadata.name.toUpperCase()] = {
+        metadata: metadata,
+        implementation: implementation
+    };
+};
+
+/**
+ * Call a custom function programmatically
+ * A streaming function resolves with its first result and is then canceled.
+ * @param {string} name Function name
+ * @param {...*} args Arguments
+ * @returns {Promise<*>} Promise resolving to function result
+ */
+UnoAdapter.prototype.callFunction = function(name) {
+    var self = this;
+    var args = Array.prototype.slice.call(arguments, 1);
+
+    return new Promise(function(resolve, reject) {
+        var settled = false;
+        var cancel = null;
+
+        try {
+            cancel = self.streamFunction(name, args, function(result) {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+
+                if (result instanceof Error) {
+                    reject(result);
+                } else {
+                    resolve(result);
+                }
+
+                // The first result may arrive before streamFunction has returned
+                if (self.registeredFunctions[name.toUpperCase()].metadata.streaming) {
+                    Promise.resolve().then(function() {
+                        cancel();
+                    });
+                }
+            });
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Call a custom function and receive every result it streams
+ * Streaming and cancelable functions receive an invocation
+ * ({ setResult, onCanceled }) as their last argument. Results of range
+ * functions are checked like utils/results.ts does.
+ * @param {string} name Function name
+ * @param {Array} args Arguments
+ * @param {Function} handler Receives each result (Error values for failures)
+ * @returns {Function} Cancel function
+ */
+UnoAdapter.prototype.streamFunction = function(name, args, handler) {
+    var funcName = name.toUpperCase();
+    if (!this.registeredFunctions[funcName]) {
+        throw new AdapterError('Function not registered: ' + name, { code: 'not_found' });
+    }
+
+    var self = this;
+    var func = this.registeredFunctions[funcName];
+    var metadata = func.metadata;
+    var canceled = false;
+
+    var deliver = function(result) {
+        if (canceled) {
+            return;
+        }
+        if (metadata.returnType === 'range' && !(result instanceof Error)) {
+            try {
+                result = self._toRangeResult(result, metadata.name);
+            } catch (e) {
+                result = e;
+            }
+        }
+        handler(result);
+    };
+    var fail = function(e) {
+        deliver(e instanceof Error ? e : new Error(String(e)));
+    };
+    var invocation = { setResult: deliver };
+
+    try {
+        var callArgs = metadata.streaming || metadata.cancelable ? args.concat([invocation]) : args;
+        var returned = func.implementation.apply(null, callArgs);
+
+        if (!metadata.streaming) {
+            Promise.resolve(returned).then(deliver, fail);
+        } else if (returned && typeof returned.then === 'function') {
+            returned.then(null, fail);
+        }
+    } catch (e) {
+        fail(e);
+    }
+
+    return function() {
+        if (canceled) {
+            return;
+        }
+        canceled = true;
+        if (invocation.onCanceled) {
+            invocation.onCanceled();
+        }
+    };
+};
+
+/**
+ * Check a range function's result and put its header rows above the values
+ * Mirrors toRangeResult in src/typescript/utils/results.ts.
+ * @private
+ * @param {*} result Single value, 2-D array or { headers, values }
+ * @param {string} name Function name, for error messages
+ * @returns {*} Single values as they are, otherwise one matrix with empty cells as null
+ */
+UnoAdapter.prototype._toRangeResult = function(result, name) {
+    var invalid = function(problem) {
+        return new AdapterError(name + ' returned an invalid range: ' + problem, { code: 'invalid_argument' });
+    };
+    var checkCell = function(value, where) {
+        if (value === null || value === undefined) {
+            return null;
+        }
+        if (typeof value === 'number' && !isFinite(value)) {
+            throw invalid(where + ' is not a finite number');
+        }
+        if (value instanceof Date && isNaN(value.getTime())) {
+            throw invalid(where + ' is an invalid Date');
+        }
+        if (typeof value !== 'string' && typeof value !== 'boolean' && typeof value !== 'number' &&
+            !(value instanceof Date)) {
+            throw invalid(where + ' has unsupported type ' + typeof value);
+        }
+        return value;
+    };
+
+    var isMatrixResult = result !== null && typeof result === 'object' && !Array.isArray(result) &&
+        !(result instanceof Date) && Array.isArray(result.values);
+    if (!Array.isArray(result) && !isMatrixResult) {
+        return checkCell(result, 'result');
+    }
+
+    var headers = isMatrixResult ? (result.headers || []) : [];
+    if (!Array.isArray(headers)) {
+        throw invalid('headers must be an array of rows');
+    }
+
+    var rows = headers.concat(isMatrixResult ? result.values : result);
+    var width = rows.length > 0 && Array.isArray(rows[0]) ? rows[0].length : 0;
+
+    return rows.map(function(row, r) {
+        if (!Array.isArray(row)) {
+            throw invalid('row ' + (r + 1) + ' is not an array; expected a 2-D array');
+        }
+        if (row.length === 0 || row.length !== width) {
+            throw invalid('row ' + (r + 1) + ' has ' + row.length + ' cells; expected ' + (width || 'at least 1'));
+        }
+        return row.map(function(cell, c) {
+            return checkCell(cell, 'row ' + (r + 1) + ', column ' + (c + 1));
+        });
+    });
+};
+
+/**
+ * Listen to selection change events
+ * @param {Function} handler Event handler function
+ * @returns {Function} Unsubscribe function
+ */
+UnoAdapter.prototype.onSelectionChange = function(handler) {
+    var self = this;
+
+    // Create a UNO listener object
+    var listener = {
+        selectionChanged: function(event) {
+            try {
+                var selection = self.controller.getSelection();
+                if (selection) {
+                    var address = selection.getAbsoluteName();
+                    handler(address);
+                }
+            } catch (e) {
+                console.error('Selection change handler error:', e);
             }
         }
     };
 
-    // Add listener to document
-    this.document.addModifyListener(listener);
-    this.eventListeners.calculate.push(listener);
+    // Add listener to controller
+    this.controller.addSelectionChangeListener(listener);
+    this.eventListeners.selectionChange.push(listener);
+
+    // Return unsubscribe function
+    return function() {
+        try {
+            self.controller.removeSelectionChangeListener(listener);
+            var index = self.eventListeners.selectionChange.indexOf(listener);
+            if (index > -1) {
+                self.eventListeners.selectionChange.splice(index, 1);
+            }
+        } catch (e) {
+            console.error('Error removing selection change listener:', e);
+        }
+    };
+};
+
+/**
+ * Listen to calculation complete events
+ * @param {Function} handler Event handler function
+ * @returns {Function} Unsubscribe function
+ */
+UnoAdapter.prototype.onCalculate = function(handler) {
+    var self = this;
+
+    // Create a modified listener for cell range changes
+    var listener = {
+        modified: function(event) {
+            try {
+                handler();
+            } catch (e) {
+                console.error('Calculate handler error:', e);
+            }
+        }
+    };
+
+    // Add listener to document
+    this.document.addModifyListener(listener);
+    this.eventListeners.calculate.push(listener);
+
+    // Return unsubscribe function
+    return function() {
+        try {
+            self.document.removeModifyListener(listener);
+            var index = self.eventListeners.calculate.indexOf(listener);
+            if (index > -1) {
+                self.eventListeners.calculate.splice(index, 1);
+            }
+        } catch (e) {
+            console.error('Error removing calculate listener:', e);
+        }
+    };
+};
+
+/**
+ * Listen to sheet change events
+ * @param {Function} handler Event handler function
+ * @returns {Function} Unsubscribe function
+ */
+UnoAdapter.prototype.onSheetChange = function(handler) {
+    var self = this;
+
+    // Create a listener for active sheet changes
+    var listener = {
+        activeSpreadsheetChanged: function(event) {
+            try {
+                var activeSheet = self.controller.getActiveSheet();
+                var sheetName = activeSheet.getName();
+                handler(sheetName);
+            } catch (e) {
+                console.error('Sheet change handler error:', e);
+            }
+        }
+    };
+
+    // Add listener to controller
+    if (this.controller.addActivationEventListener) {
+        this.controller.addActivationEventListener(listener);
+        this.eventListeners.sheetChange.push(listener);
+    }
+
+    // Return unsubscribe function
+    return function() {
+        try {
+            if (self.controller.removeActivationEventListener) {
+                self.controller.removeActivationEventListener(listener);
+            }
+            var index = self.eventListeners.sheetChange.indexOf(listener);
+            if (index > -1) {
+                self.eventListeners.sheetChange.splice(index, 1);
+            }
+        } catch (e) {
+            console.error('Error removing sheet change listener:', e);
+        }
+    };
+};
+
+/**
+ * Listen to changes of cell values
+ * Calc's modify listeners do not say which cells changed or who changed them:
+ * each change is reported as the whole watched range (or sheet) with change
+ * type 'unknown'. Rhino has no timers, so debounceMs is ignored.
+ * @param {Function} handler Receives an array of { address, sheetName, changeType }
+ * @param {Object} options Watched ranges ("ranges"); unqualified ranges are watched on every sheet
+ * @returns {Function} Unsubscribe function
+ */
+UnoAdapter.prototype.onCellsChanged = function(handler, options) {
+    var self = this;
+    var opts = options || {};
+    var targets = [];
+    var sheetNames = this.sheets.getElementNames();
+    var i, j;
+
+    // Listen on each watched range, or on every sheet
+    if (opts.ranges) {
+        for (i = 0; i < opts.ranges.length; i++) {
+            var parsed = self._parseRange(opts.ranges[i]);
+            var startParsed = parsed.start;
+            var endParsed = parsed.end;
+
+            var names = startParsed.sheetName ? [startParsed.sheetName] : sheetNames;
+
+            for (j = 0; j < names.length; j++) {
+                var sheet = self._getSheet(names[j]);
+                targets.push({
+                    sheetName: String(sheet.getName()),
+                    cells: sheet.getCellRangeByPosition(
+                        startParsed.column, startParsed.row, endParsed.column, endParsed.row
+                    )
+                });
+            }
+        }
+    } else {
+        for (i = 0; i < sheetNames.length; i++) {
+            targets.push({ sheetName: String(sheetNames[i]), cells: self.sheets.getByName(sheetNames[i]) });
+        }
+    }
+
+    var listeners = [];
+    for (i = 0; i < targets.length; i++) {
+        listeners.push(self._addCellsChangedListener(targets[i], handler));
+    }
+
+    // Return unsubscribe function
+    return function() {
+        for (var k = 0; k < listeners.length; k++) {
+            try {
+                listeners[k].target.cells.removeModifyListener(listeners[k].listener);
+                var index = self.eventListeners.cellsChanged.indexOf(listeners[k]);
+                if (index > -1) {
+                    self.eventListeners.cellsChanged.splice(index, 1);
+                }
+            } catch (e) {
+                console.error('Error removing cell change listener:', e);
+            }
+        }
+    };
+};
+
+/**
+ * Add a modify listener reporting changes of a watched range
+ * @param {Object} target { sheetName, cells } with cells a sheet or cell range
+ * @param {Function} handler Cell change handler
+ * @returns {Object} { target, listener }
+ * @private
+ */
+UnoAdapter.prototype._addCellsChangedListener = function(target, handler) {
+    var self = this;
+    var listener = {
+        modified: function(event) {
+            try {
+                handler([{
+                    address: self._formatRangeAddress(target.cells.getRangeAddress()),
+                    sheetName: target.sheetName,
+                    changeType: 'unknown'
+                }]);
+            } catch (e) {
+                console.error('Cell change handler error:', e);
+            }
+        }
+    };
+
+    var registration = { target: target, listener: listener };
+    target.cells.addModifyListener(listener);
+    this.eventListeners.cellsChanged.push(registration);
+    return registration;
+};
+
+/**
+ * Remove every event listener added through this adapter
+ * @returns {Promise<void>} Promise resolving when the listeners are removed
+ */
+UnoAdapter.prototype.dispose = function() {
+    var self = this;
+    return new Promise(function(resolve) {
+        var listeners = self.eventListeners;
+        var remove = function(list, removeListener) {
+            for (var i = 0; i < list.length; i++) {
+                try {
+                    removeListener(list[i]);
+                } catch (e) {
+                    console.error('Error removing event listener:', e);
+                }
+            }
+        };
+
+        remove(listeners.selectionChange, function(listener) {
+            self.controller.removeSelectionChangeListener(listener);
+        });
+        remove(listeners.calculate, function(listener) {
+            self.document.removeModifyListener(listener);
+        });
+        remove(listeners.sheetChange, function(listener) {
+            if (self.controller.removeActivationEventListener) {
+                self.controller.removeActivationEventListener(listener);
+            }
+        });
+        remove(listeners.cellsChanged, function(registration) {
+            registration.target.cells.removeModifyListener(registration.listener);
+        });
+
+        self.eventListeners = {
+            selectionChange: [],
+            calculate: [],
+            sheetChange: [],
+            cellsChanged: []
+        };
+        resolve();
+    });
+};
+
+/**
+ * Show a dialog
+ * @param {string} content HTML content or component name
+ * @param {Object} options Dialog options
+ * @returns {Promise<void>} Promise resolving when dialog is shown
+ */
+UnoAdapter.prototype.showDialog = function(content, options) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            // Get dialog provider
+            var dialogProvider = XSCRIPTCONTEXT.getComponentContext()
+                .getServiceManager()
+                .createInstanceWithContext(
+                    'com.sun.star.awt.DialogProvider',
+                    XSCRIPTCONTEXT.getComponentContext()
+                );
+
+            // Create dialog model
+            var dialogModel = XSCRIPTCONTEXT.getComponentContext()
+                .getServiceManager()
+                .createInstanceWithContext(
+                    'com.sun.star.awt.UnoControlDialogModel',
+                    XSCRIPTCONTEXT.getComponentContext()
+                );
+
+            // Set dialog properties
+            dialogModel.setPropertyValue('Title', options.title || 'Dialog');
+            dialogModel.setPropertyValue('Width', options.width || 300);
+            dialogModel.setPropertyValue('Height', options.height || 200);
+
+            // Create and show dialog
+            var dialog = dialogProvider.createDialog('');
+            dialog.setModel(dialogModel);
+            dialog.execute();
+
+            resolve();
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Show a task pane (not supported in LibreOffice)
+ * @param {string} component Component name or URL
+ * @param {Object} options Task pane options
+ * @returns {Promise<void>} Promise resolving immediately
+ */
+UnoAdapter.prototype.showTaskPane = function(component, options) {
+    return new Promise(function(resolve) {
+        console.warn('Task panes are not supported in LibreOffice');
+        resolve();
+    });
+};
+
+/**
+ * Show a notification/message
+ * @param {string} message Message text
+ * @param {string} type Message type ('info', 'warning', 'error')
+ * @returns {Promise<void>} Promise resolving when notification is shown
+ */
+UnoAdapter.prototype.showNotification = function(message, type) {
+    return new Promise(function(resolve, reject) {
+        try {
+            // Use infobox for notifications
+            var toolkit = XSCRIPTCONTEXT.getComponentContext()
+                .getServiceManager()
+                .createInstanceWithContext(
+                    'com.sun.star.awt.Toolkit',
+                    XSCRIPTCONTEXT.getComponentContext()
+                );
+
+            var messageBox = toolkit.createMessageBox(
+                null,
+                0, // Rectangle
+                type === 'error' ? 'errorbox' : type === 'warning' ? 'warningbox' : 'infobox',
+                1, // Buttons
+                type.toUpperCase(),
+                message
+            );
+
+            messageBox.execute();
+            resolve();
+        } catch (e) {
+            // Fallback to console if message box fails
+            console.log('[' + type.toUpperCase() + '] ' + message);
+            resolve();
+        }
+    });
+};
+
+/**
+ * Get list of sheet names
+ * @returns {Promise<Array<string>>} Promise resolving to array of sheet names
+ */
+UnoAdapter.prototype.getSheetNames = function() {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var sheetNames = [];
+            var elementNames = self.sheets.getElementNames();
+
+            for (var i = 0; i < elementNames.length; i++) {
+                sheetNames.push(elementNames[i]);
+            }
+
+            resolve(sheetNames);
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Get active sheet name
+ * @returns {Promise<string>} Promise resolving to active sheet name
+ */
+UnoAdapter.prototype.getActiveSheetName = function() {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var activeSheet = self.controller.getActiveSheet();
+            var sheetName = activeSheet.getName();
+            resolve(sheetName);
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Create a new sheet
+ * @param {string} name Sheet name
+ * @returns {Promise<void>} Promise resolving when sheet is created
+ */
+UnoAdapter.prototype.createSheet = function(name) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var count = self.sheets.getCount();
+            self.sheets.insertNewByName(name, count);
+            resolve();
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Delete a sheet
+ * @param {string} name Sheet name
+ * @returns {Promise<void>} Promise resolving when sheet is deleted
+ */
+UnoAdapter.prototype.deleteSheet = function(name) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            if (self.sheets.hasByName(name)) {
+                self.sheets.removeByName(name);
+                resolve();
+            } else {
+                reject(new AdapterError('Sheet not found: ' + name, { code: 'sheet_not_found', sheetName: name }));
+            }
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Define a name for a range (document NamedRanges, or the sheet's for a sheet scope)
+ * @param {string} name Name (e.g., "GDP_C")
+ * @param {string} address Range the name refers to; unqualified addresses refer to the active sheet
+ * @param {Object} [options] scope (sheet name) and comment (ignored: Calc names have no comment)
+ * @returns {Promise<void>} Promise resolving when the name is defined
+ */
+UnoAdapter.prototype.createNamedRange = function(name, address, options) {
+    var self = this;
+    var opts = options || {};
+
+    return new Promise(function(resolve, reject) {
+        try {
+            if (!self._isRangeName(name) || name.indexOf('!') !== -1) {
+                throw new AdapterError('Invalid name: ' + name, { code: 'invalid_argument' });
+            }
+
+            var parsed = self._parseRange(address);
+            var startParsed = parsed.start;
+            var endParsed = parsed.end;
+
+            var sheet = self._getSheet(startParsed.sheetName);
+            var sheetName = sheet.getName();
+            var names = opts.scope ?
+                self._getSheet(opts.scope).getPropertyValue('NamedRanges') :
+                self.document.getPropertyValue('NamedRanges');
+
+            if (names.hasByName(name)) {
+                throw new AdapterError('Failed to create name ' + name + ': a name with that scope already exists', {
+                    code: 'already_exists',
+                    sheetName: opts.scope
+                });
+            }
+
+            // Calc content syntax: $'Sheet'.$A$1:$B$2
+            var content = "$'" + sheetName.replace(/'/g, "''") + "'." +
+                '$' + self._columnToLetter(startParsed.column) + '$' + (startParsed.row + 1) + ':' +
+                '$' + self._columnToLetter(endParsed.column) + '$' + (endParsed.row + 1);
+            var position = new Packages.com.sun.star.table.CellAddress();
+            position.Sheet = sheet.getRangeAddress().Sheet;
+            position.Column = startParsed.column;
+            position.Row = startParsed.row;
+
+            names.addNewByName(name, content, position, 0);
+            resolve();
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Resolve a name to the address it refers to
+ * @param {string} name Name, optionally sheet-qualified ("Sheet1!Inputs")
+ * @returns {Promise<string>} Promise resolving to the sheet-qualified address
+ */
+UnoAdapter.prototype.resolveNamedRange = function(name) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            resolve(self._formatRangeAddress(self._findNamedRange(name).getReferredCells().getRangeAddress()));
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * List the names that refer to ranges, document-scoped first
+ * @returns {Promise<Array<Object>>} Promise resolving to { name, address, scope } objects
+ */
+UnoAdapter.prototype.getNamedRanges = function() {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var result = [];
+            var collect = function(names, scope) {
+                var elementNames = names.getElementNames();
+                for (var i = 0; i < elementNames.length; i++) {
+                    var cells = names.getByName(elementNames[i]).getReferredCells();
+                    if (cells) {
+                        result.push({
+                            name: String(elementNames[i]),
+                            address: self._formatRangeAddress(cells.getRangeAddress()),
+                            scope: scope
+                        });
+                    }
+                }
+            };
+
+            collect(self.document.getPropertyValue('NamedRanges'), null);
+
+            var sheetNames = self.sheets.getElementNames();
+            for (var i = 0; i < sheetNames.length; i++) {
+                collect(self.sheets.getByName(sheetNames[i]).getPropertyValue('NamedRanges'), String(sheetNames[i]));
+            }
+
+            resolve(result);
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Delete a name
+ * @param {string} name Name, optionally sheet-qualified ("Sheet1!Inputs")
+ * @returns {Promise<void>} Promise resolving when the name is deleted
+ */
+UnoAdapter.prototype.deleteNamedRange = function(name) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var split = self._splitSheetName(name);
+            var names = split.sheetName ?
+                self._getSheet(split.sheetName).getPropertyValue('NamedRanges') :
+                self.document.getPropertyValue('NamedRanges');
+
+            if (!names.hasByName(split.reference)) {
+                throw new AdapterError('Name not found: ' + name, { code: 'not_found', address: name });
+            }
+
+            names.removeByName(split.reference);
+            resolve();
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Turn a range into a table: a database range with a header row and autofilter
+ * Calc formulas can reference it as Table1[Column] like an Excel table.
+ * @param {string} address Range including the header row; unqualified addresses refer to the active sheet
+ * @param {Object} options { name } (default Table1, Table2, ...); style is ignored
+ * @returns {Promise<Object>} Promise resolving to the new table
+ */
+UnoAdapter.prototype.createTable = function(address, options) {
+    var self = this;
+    var opts = options || {};
+
+    return new Promise(function(resolve, reject) {
+        try {
+            var ranges = self._databaseRanges();
+            var name = opts.name;
+
+            if (name === undefined) {
+                var n = 1;
+                while (self._findTableName('Table' + n) !== null) {
+                    n++;
+                }
+                name = 'Table' + n;
+            }
+
+            if (!self._isRangeName(name) || name.indexOf('!') !== -1) {
+                throw new AdapterError('Invalid table name: ' + name, { code: 'invalid_argument' });
+            }
+
+            if (self._findTableName(name) !== null) {
+                throw new AdapterError('Failed to create table ' + name + ': a table with that name already exists', {
+                    code: 'already_exists'
+                });
+            }
+
+            var parsed = self._parseRange(address);
+            var area = self._getSheet(parsed.start.sheetName).getCellRangeByPosition(
+                parsed.start.column, parsed.start.row, parsed.end.column, parsed.end.row
+            ).getRangeAddress();
+
+            ranges.addNewByName(name, area);
+            var table = ranges.getByName(name);
+            table.setPropertyValue('ContainsHeader', true);
+            table.setPropertyValue('AutoFilter', true);
+
+            self._writeTableHeaders(table);
+            resolve(self._tableInfo(name));
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Find a table by name
+ * @param {string} name Table name (case-insensitive)
+ * @returns {Promise<Object|null>} Promise resolving to the table, or null if there is none with that name
+ */
+UnoAdapter.prototype.getTable = function(name) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var found = self._findTableName(name);
+            resolve(found === null ? null : self._tableInfo(found));
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Add rows to the end of a table
+ * Database ranges do not move the cells below them, so those cells must be empty.
+ * @param {string} name Table name
+ * @param {Array<Array<*>>} rows Rows to add, one value per table column
+ * @returns {Promise<Object>} Promise resolving to the grown table
+ */
+UnoAdapter.prototype.appendTableRows = function(name, rows) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var found = self._getTableName(name);
+            var table = self._databaseRanges().getByName(found);
+            var area = table.getDataArea();
+            var columns = area.EndColumn - area.StartColumn + 1;
+            var r, c;
+
+            if (rows.length === 0) {
+                throw new AdapterError('Data matrix cannot be empty', { code: 'invalid_argument' });
+            }
+
+            for (r = 0; r < rows.length; r++) {
+                if (rows[r].length !== columns) {
+                    throw new AdapterError('Rows added to table ' + found + ' must have ' + columns + ' values each', {
+                        code: 'invalid_argument'
+                    });
+                }
+            }
+
+            var sheet = self.sheets.getByIndex(area.Sheet);
+            var below = sheet.getCellRangeByPosition(
+                area.StartColumn, area.EndRow + 1, area.EndColumn, area.EndRow + rows.length
+            );
+            var used = below.queryContentCells(Packages.com.sun.star.sheet.CellFlags.VALUE |
+                Packages.com.sun.star.sheet.CellFlags.DATETIME |
+                Packages.com.sun.star.sheet.CellFlags.STRING |
+                Packages.com.sun.star.sheet.CellFlags.FORMULA);
+
+            if (used.getCount() > 0) {
+                throw new AdapterError('Failed to add rows to table ' + found + ': the cells below it are not empty', {
+                    code: 'invalid_operation',
+                    address: self._formatRangeAddress(below.getRangeAddress())
+                });
+            }
+
+            for (r = 0; r < rows.length; r++) {
+                for (c = 0; c < columns; c++) {
+                    var cell = self._getCell(sheet, area.StartColumn + c, area.EndRow + 1 + r);
+                    self._setCellValueToUnoCell(cell, rows[r][c]);
+                }
+            }
+
+            area.EndRow = area.EndRow + rows.length;
+            table.setDataArea(area);
+            resolve(self._tableInfo(found));
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Move the edges of a table
+ * @param {string} name Table name
+ * @param {string} address New range, starting at the table's top-left cell; unqualified addresses
+ * refer to the table's sheet
+ * @returns {Promise<Object>} Promise resolving to the resized table
+ */
+UnoAdapter.prototype.resizeTable = function(name, address) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var found = self._getTableName(name);
+            var table = self._databaseRanges().getByName(found);
+            var area = table.getDataArea();
+            var sheetName = String(self.sheets.getByIndex(area.Sheet).getName());
+            var parsed = self._parseRange(address);
+
+            if ((parsed.start.sheetName && parsed.start.sheetName.toLowerCase() !== sheetName.toLowerCase()) ||
+                parsed.start.row !== area.StartRow || parsed.start.column !== area.StartColumn) {
+                throw new AdapterError('Failed to resize table ' + found + ': the new range must start at ' +
+                    self._columnToLetter(area.StartColumn) + (area.StartRow + 1), {
+                    code: 'invalid_argument',
+                    address: address
+                });
+            }
+
+            area.EndColumn = parsed.end.column;
+            area.EndRow = parsed.end.row;
+            table.setDataArea(area);
+
+            self._writeTableHeaders(table);
+            resolve(self._tableInfo(found));
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Read the data rows of a table
+ * @param {string} name Table name
+ * @returns {Promise<Array<Object>>} Promise resolving to one record per row, keyed by column header
+ */
+UnoAdapter.prototype.getTableRecords = function(name) {
+    var self = this;
+    return new Promise(function(resolve, reject) {
+        try {
+            var found = self._getTableName(name);
+            var area = self._databaseRanges().getByName(found).getDataArea();
+            var sheet = self.sheets.getByIndex(area.Sheet);
+            var columns = self._tableInfo(found).columns;
+            var records = [];
+
+            for (var row = area.StartRow + 1; row <= area.EndRow; row++) {
+                var record = {};
+                for (var c = 0; c < columns.length; c++) {
+                    record[columns[c]] = self._getCellValueFromUnoCell(self._getCell(sheet, area.StartColumn + c, row));
+                }
+                records.push(record);
+            }
+
+            resolve(records);
+        } catch (e) {
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Get the document's database ranges
+ * @private
+ * @returns {Object} XDatabaseRanges
+ */
+UnoAdapter.prototype._databaseRanges = function() {
+    return this.document.getPropertyValue('DatabaseRanges');
+};
+
+/**
+ * Find the stored name of a table (database range names are matched case-insensitively)
+ * @private
+ * @param {string} name Table name
+ * @returns {string|null} Stored name, or null if there is no such table
+ */
+UnoAdapter.prototype._findTableName = function(name) {
+    var names = this._databaseRanges().getElementNames();
+    var wanted = name.toLowerCase();
+
+    for (var i = 0; i < names.length; i++) {
+        if (String(names[i]).toLowerCase() === wanted) {
+            return String(names[i]);
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Get the stored name of a table
+ * @private
+ * @param {string} name Table name
+ * @returns {string} Stored name
+ */
+UnoAdapter.prototype._getTableName = function(name) {
+    var found = this._findTableName(name);
+
+    if (found === null) {
+        throw new AdapterError('Table not found: ' + name, { code: 'not_found' });
+    }
 
-    // Return unsubscribe function
-    return function() {
-        try {
-            self.document.removeModifyListener(listener);
-            var index = self.eventListeners.calculate.indexOf(listener);
-            if (index > -1) {
-                self.eventListeners.calculate.splice(index, 1);
-            }
-        } catch (e) {
-            console.error('Error removing calculate listener:', e);
-        }
-    };
+    return found;
 };
 
 /**
- * Listen to sheet change events
- * @param {Function} handler Event handler function
- * @returns {Function} Unsubscribe function
+ * Describe a table
+ * @private
+ * @param {string} name Stored table name
+ * @returns {Object} { name, address, sheetName, columns, rowCount }
  */
-UnoAdapter.prototype.onSheetChange = function(handler) {
-    var self = this;
+UnoAdapter.prototype._tableInfo = function(name) {
+    var area = this._databaseRanges().getByName(name).getDataArea();
+    var sheet = this.sheets.getByIndex(area.Sheet);
+    var columns = [];
 
-    // Create a listener for active sheet changes
-    var listener = {
-        activeSpreadsheetChanged: function(event) {
-            try {
-                var activeSheet = self.controller.getActiveSheet();
-                var sheetName = activeSheet.getName();
-                handler(sheetName);
-            } catch (e) {
-                console.error('Sheet change handler error:', e);
-            }
-        }
+    for (var column = area.StartColumn; column <= area.EndColumn; column++) {
+        columns.push(String(this._getCellValueFromUnoCell(this._getCell(sheet, column, area.StartRow))));
+    }
+
+    return {
+        name: name,
+        address: this._formatRangeAddress(area),
+        sheetName: String(sheet.getName()),
+        columns: columns,
+        rowCount: area.EndRow - area.StartRow
     };
+};
 
-    // Add listener to controller
-    if (this.controller.addActivationEventListener) {
-        this.controller.addActivationEventListener(listener);
-        this.eventListeners.sheetChange.push(listener);
-    }
+/**
+ * Name blank and repeated headers of a table as Excel does
+ * Mirrors tableColumnNames() in src/typescript/utils/tables.ts, which Rhino cannot load.
+ * @private
+ * @param {Object} table XDatabaseRange
+ */
+UnoAdapter.prototype._writeTableHeaders = function(table) {
+    var area = table.getDataArea();
+    var sheet = this.sheets.getByIndex(area.Sheet);
+    var used = {};
+
+    for (var column = area.StartColumn; column <= area.EndColumn; column++) {
+        var cell = this._getCell(sheet, column, area.StartRow);
+        var value = this._getCellValueFromUnoCell(cell);
+        var text = value === null || value === undefined ? '' : String(value).replace(/^\s+|\s+$/g, '');
+        var header = text === '' ? 'Column' + (column - area.StartColumn + 1) : text;
+
+        for (var n = 2; used[header.toLowerCase()]; n++) {
+            header = (text === '' ? 'Column' : text) + n;
+        }
 
-    // Return unsubscribe function
-    return function() {
-        try {
-            if (self.controller.removeActivationEventListener) {
-                self.controller.removeActivationEventListener(listener);
-            }
-            var index = self.eventListeners.sheetChange.indexOf(listener);
-            if (index > -1) {
-                self.eventListeners.sheetChange.splice(index, 1);
-            }
-        } catch (e) {
-            console.error('Error removing sheet change listener:', e);
+        used[header.toLowerCase()] = true;
+        if (header !== value) {
+            this._setCellValueToUnoCell(cell, header);
         }
-    };
+    }
 };
 
 /**
- * Show a dialog
- * @param {string} content HTML content or component name
- * @param {Object} options Dialog options
- * @returns {Promise<void>} Promise resolving when dialog is shown
+ * Calc chart services for ISpreadsheetAdapter chart types
  */
-UnoAdapter.prototype.showDialog = function(content, options) {
+var CHART_DIAGRAMS = {
+    line: 'com.sun.star.chart.LineDiagram',
+    column: 'com.sun.star.chart.BarDiagram',
+    area: 'com.sun.star.chart.AreaDiagram',
+    scatter: 'com.sun.star.chart.XYDiagram'
+};
+
+/**
+ * Size of a chart placed at a single cell, in 1/100 mm (Excel's default 5" x 3")
+ */
+var DEFAULT_CHART_WIDTH = 12700;
+var DEFAULT_CHART_HEIGHT = 7620;
+
+/**
+ * Create a chart as an embedded Calc chart
+ * Calc names a chart's series after the header cells of its source, so series
+ * given in options.series, which have no header cells, are left unnamed.
+ * @param {Object} options { type, source, hasHeaders, series, lines, title, xAxisTitle, yAxisTitle,
+ * secondaryAxis, secondaryAxisTitle, position, name }
+ * @returns {Promise<Object>} Promise resolving to { name, sheetName, series }
+ */
+UnoAdapter.prototype.createChart = function(options) {
     var self = this;
     return new Promise(function(resolve, reject) {
         try {
-            // Get dialog provider
-            var dialogProvider = XSCRIPTCONTEXT.getComponentContext()
-                .getServiceManager()
-                .createInstanceWithContext(
-                    'com.sun.star.awt.DialogProvider',
-                    XSCRIPTCONTEXT.getComponentContext()
-                );
+            var source = options.source ? self._parseRange(options.source) : null;
+            var series = self._chartSeries(options, source);
+            var data = source || self._parseRange(series[0].values);
+
+            // An unqualified position is on the sheet of the data
+            var placed = options.position ? self._parseRange(options.position) : null;
+            var sheet = self._getSheet((placed && placed.start.sheetName) || data.start.sheetName);
+            var charts = sheet.getCharts();
+
+            var name = options.name;
+            if (name === undefined) {
+                var n = charts.getCount() + 1;
+                while (charts.hasByName('Chart ' + n)) {
+                    n++;
+                }
+                name = 'Chart ' + n;
+            }
 
-            // Create dialog model
-            var dialogModel = XSCRIPTCONTEXT.getComponentContext()
-                .getServiceManager()
-                .createInstanceWithContext(
-                    'com.sun.star.awt.UnoControlDialogModel',
-                    XSCRIPTCONTEXT.getComponentContext()
-                );
+            if (charts.hasByName(name)) {
+                throw new AdapterError('Failed to create chart ' + name + ': a chart with that name already exists', {
+                    code: 'already_exists',
+                    sheetName: String(sheet.getName())
+                });
+            }
 
-            // Set dialog properties
-            dialogModel.setPropertyValue('Title', options.title || 'Dialog');
-            dialogModel.setPropertyValue('Width', options.width || 300);
-            dialogModel.setPropertyValue('Height', options.height || 200);
+            // Plot the whole source when it holds every series, so Calc names them from its headers
+            var ranges = [];
+            var i;
+            if (source && !options.series) {
+                ranges.push(self._chartRangeAddress(options.source));
+            } else {
+                if (series[0].xValues) {
+                    ranges.push(self._chartRangeAddress(series[0].xValues));
+                }
+                for (i = 0; i < series.length; i++) {
+                    ranges.push(self._chartRangeAddress(series[i].values));
+                }
+            }
+            var headers = source !== null && !options.series && options.hasHeaders !== false;
 
-            // Create and show dialog
-            var dialog = dialogProvider.createDialog('');
-            dialog.setModel(dialogModel);
-            dialog.execute();
+            charts.addNewByName(name, self._chartRectangle(sheet, placed, data), ranges, headers, true);
+            var chart = charts.getByName(name).getEmbeddedObject();
 
-            resolve();
+            chart.setDiagram(chart.createInstance(CHART_DIAGRAMS[options.type]));
+            var diagram = chart.getDiagram();
+            if (options.type === 'scatter') {
+                diagram.setPropertyValue('Lines', options.lines === true);
+            }
+
+            for (i = 0; i < series.length; i++) {
+                var row = diagram.getDataRowProperties(i);
+                if (series[i].secondaryAxis) {
+                    row.setPropertyValue('Axis', Packages.com.sun.star.chart.ChartAxisAssign.SECONDARY_Y);
+                }
+                if (series[i].dashed) {
+                    row.setPropertyValue('LineStyle', Packages.com.sun.star.drawing.LineStyle.DASH);
+                }
+            }
+
+            if (options.title) {
+                chart.setPropertyValue('HasMainTitle', true);
+                chart.getTitle().setPropertyValue('String', options.title);
+            }
+            if (options.xAxisTitle) {
+                diagram.setPropertyValue('HasXAxisTitle', true);
+                diagram.getXAxisTitle().setPropertyValue('String', options.xAxisTitle);
+            }
+            if (options.yAxisTitle) {
+                diagram.setPropertyValue('HasYAxisTitle', true);
+                diagram.getYAxisTitle().setPropertyValue('String', options.yAxisTitle);
+            }
+            if (options.secondaryAxisTitle) {
+                diagram.setPropertyValue('HasSecondaryYAxisTitle', true);
+                diagram.getSecondYAxisTitle().setPropertyValue('String', options.secondaryAxisTitle);
+            }
+
+            resolve({
+                name: name,
+                sheetName: String(sheet.getName()),
+                series: series.map(function(s) { return s.name; })
+            });
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
 
 /**
- * Show a task pane (not supported in LibreOffice)
- * @param {string} component Component name or URL
- * @param {Object} options Task pane options
- * @returns {Promise<void>} Promise resolving immediately
+ * List the series of a chart
+ * Mirrors chartSeries() in src/typescript/utils/charts.ts, which Rhino cannot load.
+ * @private
+ * @param {Object} options Chart options
+ * @param {Object|null} source Source range parsed by _parseRange, or null
+ * @returns {Array<Object>} { name, values, xValues, secondaryAxis, dashed } per series
  */
-UnoAdapter.prototype.showTaskPane = function(component, options) {
-    return new Promise(function(resolve) {
-        console.warn('Task panes are not supported in LibreOffice');
-        resolve();
-    });
+UnoAdapter.prototype._chartSeries = function(options, source) {
+    var series = [];
+
+    if (source) {
+        var sheet = this._getSheet(source.start.sheetName);
+        var prefix = this._sheetPrefix(String(sheet.getName()));
+        var hasHeaders = options.hasHeaders !== false;
+        var firstRow = source.start.row + (hasHeaders ? 1 : 0);
+        var secondary = {};
+        var i;
+
+        if (source.end.column <= source.start.column || source.end.row < firstRow) {
+            throw new AdapterError('Chart source ' + options.source +
+                ' needs a category column and at least one value column', {
+                code: 'invalid_argument',
+                address: options.source
+            });
+        }
+
+        for (i = 0; i < (options.secondaryAxis || []).length; i++) {
+            secondary[options.secondaryAxis[i].toLowerCase()] = true;
+        }
+
+        var self = this;
+        var column = function(index) {
+            var letter = self._columnToLetter(source.start.column + index);
+            return prefix + letter + (firstRow + 1) + ':' + letter + (source.end.row + 1);
+        };
+
+        for (i = 1; i <= source.end.column - source.start.column; i++) {
+            var header = hasHeaders ?
+                this._getCellValueFromUnoCell(this._getCell(sheet, source.start.column + i, source.start.row)) :
+                null;
+            var name = header === null || header === undefined || header === '' ? 'Series' + i : String(header);
+            series.push({
+                name: name,
+                values: column(i),
+                xValues: column(0),
+                secondaryAxis: secondary[name.toLowerCase()] === true
+            });
+        }
+    }
+
+    series = series.concat(options.series || []);
+
+    if (series.length === 0) {
+        throw new AdapterError('A chart needs a source range or at least one series', { code: 'invalid_argument' });
+    }
+
+    return series;
 };
 
 /**
- * Show a notification/message
- * @param {string} message Message text
- * @param {string} type Message type ('info', 'warning', 'error')
- * @returns {Promise<void>} Promise resolving when notification is shown
+ * Get the CellRangeAddress of a range for the chart API
+ * @private
+ * @param {string} address Range address or name
+ * @returns {Object} CellRangeAddress
  */
-UnoAdapter.prototype.showNotification = function(message, type) {
-    return new Promise(function(resolve, reject) {
-        try {
-            // Use infobox for notifications
-            var toolkit = XSCRIPTCONTEXT.getComponentContext()
-                .getServiceManager()
-                .createInstanceWithContext(
-                    'com.sun.star.awt.Toolkit',
-                    XSCRIPTCONTEXT.getComponentContext()
-                );
+UnoAdapter.prototype._chartRangeAddress = function(address) {
+    var parsed = this._parseRange(address);
+    return this._getSheet(parsed.start.sheetName).getCellRangeByPosition(
+        parsed.start.column, parsed.start.row, parsed.end.column, parsed.end.row
+    ).getRangeAddress();
+};
 
-            var messageBox = toolkit.createMessageBox(
-                null,
-                0, // Rectangle
-                type === 'error' ? 'errorbox' : type === 'warning' ? 'warningbox' : 'infobox',
-                1, // Buttons
-                type.toUpperCase(),
-                message
-            );
+/**
+ * Get the area a chart covers: the range given as its position, the default
+ * size at a single cell, or two columns right of its data
+ * Mirrors defaultChartPosition() in src/typescript/utils/charts.ts.
+ * @private
+ * @param {Object} sheet Sheet the chart is on
+ * @param {Object|null} placed Position parsed by _parseRange, or null
+ * @param {Object} data Range the chart plots, parsed by _parseRange
+ * @returns {Object} Rectangle in 1/100 mm
+ */
+UnoAdapter.prototype._chartRectangle = function(sheet, placed, data) {
+    var start = placed ? placed.start : { column: data.end.column + 2, row: data.start.row };
+    var end = placed ? placed.end : start;
+    var topLeft = sheet.getCellByPosition(start.column, start.row).getPropertyValue('Position');
+    var rectangle = new Packages.com.sun.star.awt.Rectangle();
+
+    rectangle.X = topLeft.X;
+    rectangle.Y = topLeft.Y;
+    rectangle.Width = DEFAULT_CHART_WIDTH;
+    rectangle.Height = DEFAULT_CHART_HEIGHT;
+
+    if (end.column !== start.column || end.row !== start.row) {
+        var bottomRight = sheet.getCellByPosition(end.column, end.row);
+        var corner = bottomRight.getPropertyValue('Position');
+        var size = bottomRight.getPropertyValue('Size');
+        rectangle.Width = corner.X + size.Width - topLeft.X;
+        rectangle.Height = corner.Y + size.Height - topLeft.Y;
+    }
 
-            messageBox.execute();
-            resolve();
-        } catch (e) {
-            // Fallback to console if message box fails
-            console.log('[' + type.toUpperCase() + '] ' + message);
-            resolve();
-        }
-    });
+    return rectangle;
 };
 
 /**
- * Get list of sheet names
- * @returns {Promise<Array<string>>} Promise resolving to array of sheet names
+ * Prefix and pattern of metadata keys
+ * Mirror src/typescript/utils/metadata.ts, which Rhino cannot load.
  */
-UnoAdapter.prototype.getSheetNames = function() {
+var METADATA_KEY_PREFIX = 'EconToolkit.';
+var METADATA_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_.-]{0,99}$/;
+
+/**
+ * Get the user-defined property a metadata entry is stored in
+ * @param {string} key Entry key
+ * @returns {string} Prefixed property name
+ * @private
+ */
+UnoAdapter.prototype._metadataStorageKey = function(key) {
+    if (!METADATA_KEY_PATTERN.test(key)) {
+        throw new AdapterError('Invalid metadata key: ' + key, { code: 'invalid_argument' });
+    }
+    return METADATA_KEY_PREFIX + key;
+};
+
+/**
+ * Get the document's user-defined properties (File > Properties > Custom Properties)
+ * @returns {Object} XPropertyContainer and XPropertySet of the properties
+ * @private
+ */
+UnoAdapter.prototype._userDefinedProperties = function() {
+    return this.document.getDocumentProperties().getUserDefinedProperties();
+};
+
+/**
+ * Read a metadata entry from the document's user-defined properties
+ * @param {string} key Entry key
+ * @returns {Promise<*>} Promise resolving to the stored value, or null if the entry does not exist
+ */
+UnoAdapter.prototype.getMetadata = function(key) {
     var self = this;
     return new Promise(function(resolve, reject) {
         try {
-            var sheetNames = [];
-            var elementNames = self.sheets.getElementNames();
+            var name = self._metadataStorageKey(key);
+            var properties = self._userDefinedProperties();
 
-            for (var i = 0; i < elementNames.length; i++) {
-                sheetNames.push(elementNames[i]);
+            if (!properties.getPropertySetInfo().hasPropertyByName(name)) {
+                resolve(null);
+                return;
             }
 
-            resolve(sheetNames);
+            resolve(JSON.parse(String(properties.getPropertyValue(name))));
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
 
 /**
- * Get active sheet name
- * @returns {Promise<string>} Promise resolving to active sheet name
+ * Store a metadata entry as a user-defined string property, saved with the file
+ * @param {string} key Entry key
+ * @param {*} value JSON-serializable value
+ * @returns {Promise<void>} Promise resolving when the entry is stored
  */
-UnoAdapter.prototype.getActiveSheetName = function() {
+UnoAdapter.prototype.setMetadata = function(key, value) {
     var self = this;
     return new Promise(function(resolve, reject) {
         try {
-            var activeSheet = self.controller.getActiveSheet();
-            var sheetName = activeSheet.getName();
-            resolve(sheetName);
+            var name = self._metadataStorageKey(key);
+            var properties = self._userDefinedProperties();
+            var text = JSON.stringify(value);
+
+            if (properties.getPropertySetInfo().hasPropertyByName(name)) {
+                properties.setPropertyValue(name, text);
+            } else {
+                properties.addProperty(name, Packages.com.sun.star.beans.PropertyAttribute.REMOVABLE, text);
+            }
+            resolve();
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
 
 /**
- * Create a new sheet
- * @param {string} name Sheet name
- * @returns {Promise<void>} Promise resolving when sheet is created
+ * Delete a metadata entry (no error if it does not exist)
+ * @param {string} key Entry key
+ * @returns {Promise<void>} Promise resolving when the entry is deleted
  */
-UnoAdapter.prototype.createSheet = function(name) {
+UnoAdapter.prototype.deleteMetadata = function(key) {
     var self = this;
     return new Promise(function(resolve, reject) {
         try {
-            var count = self.sheets.getCount();
-            self.sheets.insertNewByName(name, count);
+            var name = self._metadataStorageKey(key);
+            var properties = self._userDefinedProperties();
+
+            if (properties.getPropertySetInfo().hasPropertyByName(name)) {
+                properties.removeProperty(name);
+            }
             resolve();
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
 
 /**
- * Delete a sheet
- * @param {string} name Sheet name
- * @returns {Promise<void>} Promise resolving when sheet is deleted
+ * List the keys of the metadata entries in the document
+ * @returns {Promise<string[]>} Promise resolving to entry keys; other custom properties are skipped
  */
-UnoAdapter.prototype.deleteSheet = function(name) {
+UnoAdapter.prototype.getMetadataKeys = function() {
     var self = this;
     return new Promise(function(resolve, reject) {
         try {
-            if (self.sheets.hasByName(name)) {
-                self.sheets.removeByName(name);
-                resolve();
-            } else {
-                reject(new Error('Sheet not found: ' + name));
+            var properties = self._userDefinedProperties().getPropertySetInfo().getProperties();
+            var keys = [];
+
+            for (var i = 0; i < properties.length; i++) {
+                var name = String(properties[i].Name);
+                var key = name.substring(METADATA_KEY_PREFIX.length);
+                if (name.indexOf(METADATA_KEY_PREFIX) === 0 && METADATA_KEY_PATTERN.test(key)) {
+                    keys.push(key);
+                }
             }
+            resolve(keys);
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
@@ -726,10 +2612,10 @@ UnoAdapter.prototype.getSelectedRange = function() {
                 var rangeAddress = selection.getAbsoluteName();
                 resolve(rangeAddress);
             } else {
-                reject(new Error('No selection found'));
+                reject(new AdapterError('No selection found', { code: 'not_found' }));
             }
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
@@ -743,16 +2629,17 @@ UnoAdapter.prototype.setSelectedRange = function(address) {
     var self = this;
     return new Promise(function(resolve, reject) {
         try {
-            // Parse the address to determine if it includes a range
-            var sheetName = null;
-            var rangeRef = address;
-
-            if (address.indexOf('!') !== -1) {
-                var parts = address.split('!');
-                sheetName = parts[0];
-                rangeRef = parts[1];
+            if (self._isRangeName(address)) {
+                self.controller.select(self._findNamedRange(address).getReferredCells());
+                resolve();
+                return;
             }
 
+            // Parse the address to determine if it includes a range
+            var split = self._splitSheetName(address);
+            var sheetName = split.sheetName;
+            var rangeRef = split.reference;
+
             var sheet = self._getSheet(sheetName);
 
             // Parse range (e.g., "A1:B10")
@@ -774,14 +2661,16 @@ UnoAdapter.prototype.setSelectedRange = function(address) {
             self.controller.select(cellRange);
             resolve();
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
 
 /**
- * Execute a batch of operations efficiently
- * @param {Function} operations Function containing operations to execute
+ * Execute a batch of operations with a single sync
+ * Operations queued on the batch context run in order, with screen updates
+ * locked, when the batch syncs (after operations returns, or on sync()).
+ * @param {Function} operations Function receiving the batch context
  * @returns {Promise<*>} Promise resolving to result of operations
  */
 UnoAdapter.prototype.batch = function(operations) {
@@ -791,27 +2680,102 @@ UnoAdapter.prototype.batch = function(operations) {
             // Lock controllers to prevent screen updates
             self.document.lockControllers();
 
-            // Execute operations
-            var result = operations();
-
-            // If result is a promise, wait for it
-            if (result && typeof result.then === 'function') {
-                result.then(function(value) {
+            var context = self._createBatchContext();
+
+            Promise.resolve()
+                .then(function() {
+                    return operations(context);
+                })
+                .then(function(result) {
+                    return context.sync().then(function() {
+                        return result;
+                    });
+                })
+                .then(function(result) {
                     self.document.unlockControllers();
-                    resolve(value);
-                }).catch(function(error) {
+                    resolve(result);
+                })
+                .catch(function(error) {
                     self.document.unlockControllers();
-                    reject(error);
+                    reject(self._toAdapterError(error));
                 });
-            } else {
-                self.document.unlockControllers();
-                resolve(result);
-            }
         } catch (e) {
             self.document.unlockControllers();
-            reject(e);
+            reject(self._toAdapterError(e));
+        }
+    });
+};
+
+/**
+ * Create a batch context that queues calls to this adapter's methods
+ * Reads return an object whose value is available after the next sync.
+ * @private
+ * @returns {Object} Batch context
+ */
+UnoAdapter.prototype._createBatchContext = function() {
+    var self = this;
+    var queue = [];
+
+    var enqueue = function(method, args) {
+        if (typeof self[method] !== 'function') {
+            throw new AdapterError('Batch operation not supported: ' + method, { code: 'not_supported' });
+        }
+        var item = { method: method, args: args, settle: null };
+        queue.push(item);
+        return item;
+    };
+
+    var read = function(method, args) {
+        var item = enqueue(method, args);
+        var settled = false;
+        var value;
+        var result = {};
+
+        Object.defineProperty(result, 'value', {
+            get: function() {
+                if (!settled) {
+                    throw new Error('Batch result is not available until the batch has synced');
+                }
+                return value;
+            }
+        });
+
+        item.settle = function(readValue) {
+            value = readValue;
+            settled = true;
+        };
+        return result;
+    };
+
+    var context = {
+        sync: function() {
+            var queued = queue;
+            queue = [];
+
+            return queued.reduce(function(previous, item) {
+                return previous.then(function() {
+                    return self[item.method].apply(self, item.args).then(function(readValue) {
+                        if (item.settle) {
+                            item.settle(readValue);
+                        }
+                    });
+                });
+            }, Promise.resolve());
         }
+    };
+
+    ['getCellValue', 'getRange', 'getFormulas', 'getNumberFormats'].forEach(function(method) {
+        context[method] = function() {
+            return read(method, Array.prototype.slice.call(arguments));
+        };
     });
+    ['setCellValue', 'setRange', 'clearRange', 'setFormulas', 'setNumberFormat', 'setStyle'].forEach(function(method) {
+        context[method] = function() {
+            enqueue(method, Array.prototype.slice.call(arguments));
+        };
+    });
+
+    return context;
 };
 
 /**
@@ -825,12 +2789,12 @@ UnoAdapter.prototype.recalculate = function() {
             self.document.calculateAll();
             resolve();
         } catch (e) {
-            reject(e);
+            reject(self._toAdapterError(e));
         }
     });
 };
 
 // Export the UnoAdapter
 if (typeof module !== 'undefined' && module.exports) {
-    module.exports = { UnoAdapter: UnoAdapter };
+    module.exports = { UnoAdapter: UnoAdapter, AdapterError: AdapterError };
 }
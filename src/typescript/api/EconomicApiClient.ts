@@ -0,0 +1,644 @@
+/**
+ * EconomicApiClient - Typed Client for the Julia Backend API
+ *
+ * Wraps the REST endpoints served by EconomicToolkit.start_server() with typed
+ * request/response models, a configurable base URL, per-request timeouts,
+ * cancellation through AbortSignal and structured errors.
+ *
+ * Identical GET requests in flight at the same time share one request. When
+ * configured (see applySettings), requests to a data source wait for its rate
+ * limit and failed requests are retried with backoff.
+ */
+
+import { RateLimiter, RateLimiterOptions, rateLimitOptionsFromSettings } from './RateLimiter';
+import { parseRetryAfter, RetryableFailure, RetryOptions, retryOptionsFromSettings, withRetry } from './retry';
+
+/**
+ * Default address of the Julia backend
+ */
+export const DEFAULT_BASE_URL = 'http://localhost:8080';
+
+/**
+ * Default per-request timeout in milliseconds
+ */
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+// ===== Response Models =====
+
+/**
+ * Response of GET /health
+ */
+export interface HealthStatus {
+    status: string;
+    version: string;
+}
+
+/**
+ * A data source listed by GET /api/v1/sources
+ */
+export interface DataSourceInfo {
+    id: string;
+    name: string;
+    /** 'stub' sources are listed but not yet implemented by the backend */
+    status: 'active' | 'stub';
+}
+
+/**
+ * A series returned by GET /api/v1/sources/:source/search
+ * Fields other than id and title depend on the data source.
+ */
+export interface SeriesSearchResult {
+    id: string;
+    title: string;
+    frequency?: string;
+    units?: string;
+    seasonal_adjustment?: string;
+    [field: string]: unknown;
+}
+
+/**
+ * Series data returned by GET /api/v1/sources/:source/series/:id
+ * Columns have equal length; missing observations are null.
+ */
+export interface SeriesData {
+    /** ISO dates (YYYY-MM-DD) */
+    date: string[];
+    value: (number | null)[];
+}
+
+/**
+ * Response of POST /api/v1/sources/:source/series
+ * Every id requested appears in exactly one of the two maps.
+ */
+export interface SeriesBatch {
+    series: Record<string, SeriesData>;
+    /** Error message by id, for the series that could not be fetched */
+    errors: Record<string, string>;
+}
+
+/**
+ * User settings exchanged with /api/v1/settings
+ */
+export interface EconomicSettings {
+    apiKeys: { source: string; key: string | null }[];
+    cache: {
+        enabled: boolean;
+        ttlHours: number;
+        maxSizeMb: number;
+    };
+    rateLimit: {
+        enabled: boolean;
+        /** [source, requests per minute] pairs */
+        customLimits: [string, number][];
+    };
+    retry: {
+        enabled: boolean;
+        maxRetries: number;
+        initialDelayMs: number;
+        useExponentialBackoff: boolean;
+    };
+    display: {
+        showNotifications: boolean;
+        autoRefresh: boolean;
+        refreshIntervalMinutes: number;
+        dateFormat: string;
+        numberFormat: string;
+    };
+}
+
+// ===== Request Options =====
+
+/**
+ * Options accepted by the EconomicApiClient constructor
+ */
+export interface EconomicApiClientOptions {
+    /** Backend address (default http://localhost:8080) */
+    baseUrl?: string;
+    /** Per-request timeout in milliseconds (default 30000, 0 disables) */
+    timeoutMs?: number;
+    /** Headers sent with every request */
+    headers?: Record<string, string>;
+    /** fetch implementation (defaults to the global fetch) */
+    fetch?: typeof fetch;
+    /** Per-source rate limits of data source requests (default: none) */
+    rateLimit?: RateLimiterOptions;
+    /** Retries of failed requests (default: none) */
+    retry?: RetryOptions;
+}
+
+/**
+ * Options accepted by every request method
+ */
+export interface RequestOptions {
+    /** Signal used to cancel the request */
+    signal?: AbortSignal;
+    /** Overrides the client timeout for this request */
+    timeoutMs?: number;
+}
+
+/**
+ * Options for fetching a series
+ */
+export interface SeriesRequestOptions extends RequestOptions {
+    /** First observation date (YYYY-MM-DD string or Date, read as UTC) */
+    start?: string | Date;
+    /** Last observation date (YYYY-MM-DD string or Date, read as UTC) */
+    end?: string | Date;
+}
+
+// ===== Errors =====
+
+/**
+ * Why an API request failed
+ * - http: the backend answered with a non-2xx status
+ * - timeout: no response within the timeout
+ * - aborted: cancelled through the caller's AbortSignal
+ * - network: the backend could not be reached
+ * - invalid_response: the response body was not the expected JSON
+ * - rate_limited: the data source's rate limit would not allow the request within its maximum wait
+ */
+export type ApiErrorKind = 'http' | 'timeout' | 'aborted' | 'network' | 'invalid_response' | 'rate_limited';
+
+/**
+ * Error thrown by EconomicApiClient
+ */
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly method: string;
+    readonly url: string;
+    /** HTTP status for 'http' errors */
+    readonly status?: number;
+    /** Error message reported by the backend ({"error": "..."}), if any */
+    readonly serverMessage?: string;
+    /** Delay requested by the backend before trying again (Retry-After), in ms */
+    readonly retryAfterMs?: number;
+
+    constructor(
+        message: string,
+        details: {
+            kind: ApiErrorKind;
+            method: string;
+            url: string;
+            status?: number;
+            serverMessage?: string;
+            retryAfterMs?: number;
+        }
+    ) {
+        super(message);
+        this.name = 'ApiError';
+        this.kind = details.kind;
+        this.method = details.method;
+        this.url = details.url;
+        this.status = details.status;
+        this.serverMessage = details.serverMessage;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
+
+/**
+ * A GET request shared by the callers that asked for it while it was in flight
+ */
+interface SharedRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    /** Callers still waiting; the request is cancelled when the last one cancels */
+    callers: number;
+}
+
+/**
+ * EconomicApiClient class
+ */
+export class EconomicApiClient {
+    private baseUrl: string;
+    private timeoutMs: number;
+    private headers: Record<string, string>;
+    private fetchImpl: typeof fetch;
+    private rateLimiter: RateLimiter | null;
+    private retry: RetryOptions;
+    private shared: Map<string, SharedRequest>;
+
+    constructor(options: EconomicApiClientOptions = {}) {
+        this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.timeoutMs = options.timeoutMs !== undefined ? options.timeoutMs : DEFAULT_TIMEOUT_MS;
+        this.headers = { ...options.headers };
+
+        const fetchImpl = options.fetch || (typeof fetch === 'function' ? fetch : undefined);
+        if (!fetchImpl) {
+            throw new Error('No fetch implementation available; pass one in EconomicApiClientOptions.fetch');
+        }
+        this.fetchImpl = fetchImpl;
+        this.rateLimiter = options.rateLimit ? new RateLimiter(options.rateLimit) : null;
+        this.retry = options.retry || { enabled: false };
+        this.shared = new Map();
+    }
+
+    /**
+     * Apply the user's rate limit and retry settings
+     * Limits restart from full buckets.
+     * @param settings Settings, e.g. from getSettings()
+     */
+    applySettings(settings: Pick<EconomicSettings, 'rateLimit' | 'retry'>): void {
+        this.rateLimiter = new RateLimiter(rateLimitOptionsFromSettings(settings.rateLimit));
+        this.retry = retryOptionsFromSettings(settings.retry);
+    }
+
+    /**
+     * Get the backend base URL
+     * @returns Base URL without a trailing slash
+     */
+    getBaseUrl(): string {
+        return this.baseUrl;
+    }
+
+    /**
+     * Check that the backend is running
+     * @param options Cancellation and timeout
+     * @returns Backend status and version
+     */
+    async health(options: RequestOptions = {}): Promise<HealthStatus> {
+        return this.request<HealthStatus>('GET', '/health', undefined, options);
+    }
+
+    /**
+     * List the data sources known to the backend
+     * @param options Cancellation and timeout
+     * @returns Data sources, including stubs
+     */
+    async listSources(options: RequestOptions = {}): Promise<DataSourceInfo[]> {
+        return this.request<DataSourceInfo[]>('GET', '/api/v1/sources', undefined, options);
+    }
+
+    /**
+     * Search for series in a data source
+     * @param source Data source id (e.g., "fred")
+     * @param query Search text
+     * @param options Cancellation and timeout
+     * @returns Matching series
+     */
+    async searchSeries(source: string, query: string, options: RequestOptions = {}): Promise<SeriesSearchResult[]> {
+        const path = `/api/v1/sources/${encodeURIComponent(source)}/search?q=${encodeURIComponent(query)}`;
+        return this.request<SeriesSearchResult[]>('GET', path, undefined, options);
+    }
+
+    /**
+     * Fetch a time series
+     * @param source Data source id (e.g., "fred")
+     * @param seriesId Series id (e.g., "GDPC1")
+     * @param options Date range, cancellation and timeout
+     * @returns Series data
+     * @throws ApiError with kind 'invalid_response' if the columns differ in length
+     */
+    async getSeries(source: string, seriesId: string, options: SeriesRequestOptions = {}): Promise<SeriesData> {
+        const params: string[] = [];
+        if (options.start !== undefined) {
+            params.push(`start=${encodeURIComponent(this.formatDate(options.start))}`);
+        }
+        if (options.end !== undefined) {
+            params.push(`end=${encodeURIComponent(this.formatDate(options.end))}`);
+        }
+
+        const path =
+            `/api/v1/sources/${encodeURIComponent(source)}/series/${encodeURIComponent(seriesId)}` +
+            (params.length > 0 ? `?${params.join('&')}` : '');
+
+        const data = await this.request<SeriesData>('GET', path, undefined, options);
+
+        if (!isSeriesData(data)) {
+            throw new ApiError(`Failed to fetch series ${source}/${seriesId}: malformed series data`, {
+                kind: 'invalid_response',
+                method: 'GET',
+                url: this.baseUrl + path
+            });
+        }
+
+        return data;
+    }
+
+    /**
+     * Fetch several series of one data source in one request
+     * A series that cannot be fetched is reported in errors without failing the others.
+     * @param source Data source id (e.g., "fred")
+     * @param seriesIds Series ids (World Bank: "COUNTRY/INDICATOR")
+     * @param options Date range, cancellation and timeout
+     * @returns Series data and errors by id
+     */
+    async getSeriesBatch(source: string, seriesIds: string[], options: SeriesRequestOptions = {}): Promise<SeriesBatch> {
+        const body = {
+            ids: seriesIds,
+            ...(options.start !== undefined ? { start: this.formatDate(options.start) } : {}),
+            ...(options.end !== undefined ? { end: this.formatDate(options.end) } : {})
+        };
+
+        const path = `/api/v1/sources/${encodeURIComponent(source)}/series`;
+        const data = await this.request<Partial<SeriesBatch>>('POST', path, body, options);
+        const batch: SeriesBatch = { series: {}, errors: {} };
+
+        for (const id of seriesIds) {
+            const series = data && data.series ? data.series[id] : undefined;
+            const error = data && data.errors ? data.errors[id] : undefined;
+
+            if (error !== undefined) {
+                batch.errors[id] = String(error);
+            } else if (!isSeriesData(series)) {
+                batch.errors[id] = series === undefined ? 'missing from the response' : 'malformed series data';
+            } else {
+                batch.series[id] = series;
+            }
+        }
+
+        return batch;
+    }
+
+    /**
+     * Load the user settings stored by the backend
+     * @param options Cancellation and timeout
+     * @returns Settings
+     */
+    async getSettings(options: RequestOptions = {}): Promise<EconomicSettings> {
+        return this.request<EconomicSettings>('GET', '/api/v1/settings', undefined, options);
+    }
+
+    /**
+     * Save the user settings
+     * @param settings Settings to store
+     * @param options Cancellation and timeout
+     */
+    async saveSettings(settings: EconomicSettings, options: RequestOptions = {}): Promise<void> {
+        await this.request<unknown>('POST', '/api/v1/settings', settings, options);
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Send a request and parse the JSON response
+     * A GET request joins an identical one in flight, whose timeout applies.
+     * @param method HTTP method
+     * @param path Path (and query) relative to the base URL
+     * @param body JSON body, if any
+     * @param options Cancellation and timeout
+     * @returns Parsed response body (undefined for empty bodies)
+     * @throws ApiError describing the failure
+     * @private
+     */
+    private async request<T>(method: string, path: string, body: unknown, options: RequestOptions): Promise<T> {
+        if (options.signal && options.signal.aborted) {
+            throw this.failure(method, path, 'aborted', 'request was cancelled');
+        }
+
+        if (method !== 'GET') {
+            return this.attempt<T>(method, path, body, options);
+        }
+
+        let shared = this.shared.get(path);
+        if (!shared || shared.controller.signal.aborted) {
+            const controller = new AbortController();
+            const request: SharedRequest = {
+                controller,
+                callers: 0,
+                promise: this.attempt<T>(method, path, body, { ...options, signal: controller.signal }).finally(() => {
+                    if (this.shared.get(path) === request) {
+                        this.shared.delete(path);
+                    }
+                })
+            };
+            this.shared.set(path, request);
+            shared = request;
+        }
+
+        return this.join<T>(shared, method, path, options.signal);
+    }
+
+    /**
+     * Wait for a shared request, leaving it if the caller cancels
+     * @private
+     */
+    private join<T>(shared: SharedRequest, method: string, path: string, signal?: AbortSignal): Promise<T> {
+        shared.callers++;
+
+        if (!signal) {
+            return shared.promise as Promise<T>;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                reject(this.failure(method, path, 'aborted', 'request was cancelled'));
+                shared.callers--;
+                if (shared.callers === 0) {
+                    shared.controller.abort();
+                }
+            };
+
+            signal.addEventListener('abort', onAbort);
+            (shared.promise as Promise<T>)
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    /**
+     * Send a request once its data source's rate limit allows, retrying failures as configured
+     * @private
+     */
+    private async attempt<T>(method: string, path: string, body: unknown, options: RequestOptions): Promise<T> {
+        const source = sourceOf(path);
+        const rateLimiter = this.rateLimiter;
+
+        try {
+            return await withRetry(
+                async () => {
+                    if (rateLimiter && source !== null && !(await rateLimiter.acquire(source, options.signal))) {
+                        if (options.signal && options.signal.aborted) {
+                            throw this.failure(method, path, 'aborted', 'request was cancelled');
+                        }
+                        throw this.failure(method, path, 'rate_limited', `rate limit of ${source} exceeded`);
+                    }
+                    return this.send<T>(method, path, body, options);
+                },
+                retryableFailure,
+                { ...this.retry, signal: options.signal }
+            );
+        } catch (error) {
+            // Cancelled while waiting to retry: report the cancellation rather than the last failure
+            if (options.signal && options.signal.aborted && !(error instanceof ApiError && error.kind === 'aborted')) {
+                throw this.failure(method, path, 'aborted', 'request was cancelled');
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Send a request once and parse the JSON response
+     * @private
+     */
+    private async send<T>(method: string, path: string, body: unknown, options: RequestOptions): Promise<T> {
+        const timeoutMs = options.timeoutMs !== undefined ? options.timeoutMs : this.timeoutMs;
+        const fail = (
+            kind: ApiErrorKind,
+            reason: string,
+            extra: { status?: number; serverMessage?: string; retryAfterMs?: number } = {}
+        ) => this.failure(method, path, kind, reason, extra);
+
+        if (options.signal && options.signal.aborted) {
+            throw fail('aborted', 'request was cancelled');
+        }
+
+        const controller = new AbortController();
+        let timedOut = false;
+        const onAbort = () => controller.abort();
+        const timer =
+            timeoutMs > 0
+                ? setTimeout(() => {
+                      timedOut = true;
+                      controller.abort();
+                  }, timeoutMs)
+                : null;
+
+        if (options.signal) {
+            options.signal.addEventListener('abort', onAbort);
+        }
+
+        try {
+            let response: Response;
+            try {
+                response = await this.fetchImpl(this.baseUrl + path, {
+                    method,
+                    headers: {
+                        Accept: 'application/json',
+                        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                        ...this.headers
+                    },
+                    body: body !== undefined ? JSON.stringify(body) : undefined,
+                    signal: controller.signal
+                });
+            } catch (error) {
+                if (timedOut) {
+                    throw fail('timeout', `no response after ${timeoutMs} ms`);
+                }
+                if (controller.signal.aborted) {
+                    throw fail('aborted', 'request was cancelled');
+                }
+                throw fail('network', (error as Error).message);
+            }
+
+            let text: string;
+            try {
+                text = await response.text();
+            } catch (error) {
+                if (timedOut) {
+                    throw fail('timeout', `no response after ${timeoutMs} ms`);
+                }
+                if (controller.signal.aborted) {
+                    throw fail('aborted', 'request was cancelled');
+                }
+                throw fail('network', (error as Error).message);
+            }
+
+            if (!response.ok) {
+                const serverMessage = this.extractServerMessage(text);
+                const reason = `HTTP ${response.status}${serverMessage ? ` ${serverMessage}` : ''}`;
+                throw fail('http', reason, {
+                    status: response.status,
+                    serverMessage,
+                    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+                });
+            }
+
+            if (text.trim() === '') {
+                return undefined as T;
+            }
+
+            try {
+                return JSON.parse(text) as T;
+            } catch {
+                throw fail('invalid_response', 'response is not valid JSON');
+            }
+        } finally {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            if (options.signal) {
+                options.signal.removeEventListener('abort', onAbort);
+            }
+        }
+    }
+
+    /**
+     * Build the error of a failed request
+     * @private
+     */
+    private failure(
+        method: string,
+        path: string,
+        kind: ApiErrorKind,
+        reason: string,
+        extra: { status?: number; serverMessage?: string; retryAfterMs?: number } = {}
+    ): ApiError {
+        return new ApiError(`${method} ${path} failed: ${reason}`, { kind, method, url: this.baseUrl + path, ...extra });
+    }
+
+    /**
+     * Read the error message from a backend error body ({"error": "..."})
+     * @private
+     */
+    private extractServerMessage(text: string): string | undefined {
+        try {
+            const parsed = JSON.parse(text) as { error?: unknown } | null;
+            if (parsed && typeof parsed.error === 'string') {
+                return parsed.error;
+            }
+        } catch {
+            // Not JSON; fall through to the raw text
+        }
+
+        const trimmed = text.trim();
+        return trimmed ? trimmed.substring(0, 200) : undefined;
+    }
+
+    /**
+     * Format a date query parameter as YYYY-MM-DD
+     * @private
+     */
+    private formatDate(value: string | Date): string {
+        if (value instanceof Date) {
+            if (isNaN(value.getTime())) {
+                throw new Error('Invalid date');
+            }
+            return value.toISOString().substring(0, 10);
+        }
+
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+            throw new Error(`Invalid date: ${value} (expected YYYY-MM-DD)`);
+        }
+        return value;
+    }
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Data source a request goes to, if it is a data source request
+ */
+function sourceOf(path: string): string | null {
+    const match = /^\/api\/v1\/sources\/([^/?]+)\//.exec(path);
+    return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * Check that series data has date and value columns of equal length
+ */
+function isSeriesData(data: SeriesData | undefined): data is SeriesData {
+    return !!data && Array.isArray(data.date) && Array.isArray(data.value) && data.date.length === data.value.length;
+}
+
+/**
+ * Describe a failed request for withRetry; only network errors, timeouts and HTTP errors may be retried
+ */
+function retryableFailure(error: unknown): RetryableFailure | null {
+    if (!(error instanceof ApiError)) {
+        return null;
+    }
+    if (error.kind === 'network' || error.kind === 'timeout') {
+        return {};
+    }
+    return error.kind === 'http' ? { status: error.status, retryAfterMs: error.retryAfterMs } : null;
+}
@@ -0,0 +1,234 @@
+/**
+ * RateLimiter - Per-Source Request Limits
+ *
+ * Client-side counterpart of src/julia/utils/rate_limiter.jl. Each data source
+ * has a token bucket holding a minute's worth of requests that refills
+ * continuously, so a workbook recalculating hundreds of custom functions sends
+ * them at the source's rate instead of all at once. Requests get their tokens
+ * in the order they asked for them.
+ */
+
+import { EconomicSettings } from './EconomicApiClient';
+
+/**
+ * Requests per minute of sources without a limit of their own
+ */
+export const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+/**
+ * Requests per minute of each data source, as the Julia clients limit them with an API key
+ */
+export const DEFAULT_SOURCE_RATE_LIMITS: Readonly<Record<string, number>> = {
+    fred: 120,
+    worldbank: 60,
+    imf: 60,
+    oecd: 60,
+    dbnomics: 500,
+    ecb: 60,
+    bea: 100,
+    census: 80,
+    eurostat: 60,
+    bis: 60
+};
+
+/**
+ * Longest a request waits for a token unless options say otherwise (as wait_if_needed's max_wait)
+ */
+export const DEFAULT_MAX_WAIT_MS = 120000;
+
+/**
+ * Options for a RateLimiter
+ */
+export interface RateLimiterOptions {
+    /** False to let every request through (default true) */
+    enabled?: boolean;
+    /** Requests per minute of sources without a limit of their own (default DEFAULT_REQUESTS_PER_MINUTE) */
+    requestsPerMinute?: number;
+    /** Requests per minute by source id, over DEFAULT_SOURCE_RATE_LIMITS */
+    limits?: Record<string, number>;
+    /** Longest a request waits for a token (default DEFAULT_MAX_WAIT_MS) */
+    maxWaitMs?: number;
+}
+
+interface Bucket {
+    /** Tokens available; negative while requests are waiting for tokens */
+    tokens: number;
+    /** When tokens was last refilled (ms since epoch) */
+    updatedAt: number;
+}
+
+/**
+ * Rate limiter options from the user's settings
+ * @param settings Rate limit settings (Settings > Rate Limits)
+ * @returns Options with the user's limits over the defaults
+ */
+export function rateLimitOptionsFromSettings(settings: EconomicSettings['rateLimit']): RateLimiterOptions {
+    return {
+        enabled: settings.enabled,
+        limits: Object.fromEntries(settings.customLimits)
+    };
+}
+
+/**
+ * RateLimiter class
+ */
+export class RateLimiter {
+    private enabled: boolean;
+    private requestsPerMinute: number;
+    private limits: Map<string, number>;
+    private maxWaitMs: number;
+    private buckets: Map<string, Bucket>;
+
+    /**
+     * @param options Limits and maximum wait
+     * @throws Error if a limit is not a positive number
+     */
+    constructor(options: RateLimiterOptions = {}) {
+        this.enabled = options.enabled !== false;
+        this.requestsPerMinute = checkLimit('default', options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE);
+        this.limits = new Map();
+        this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+        this.buckets = new Map();
+
+        Object.entries({ ...DEFAULT_SOURCE_RATE_LIMITS, ...options.limits }).forEach(([source, limit]) =>
+            this.setLimit(source, limit)
+        );
+    }
+
+    /**
+     * Get a source's limit
+     * @param source Data source id
+     * @returns Requests per minute
+     */
+    getLimit(source: string): number {
+        return this.limits.get(source) ?? this.requestsPerMinute;
+    }
+
+    /**
+     * Set a source's limit
+     * @param source Data source id
+     * @param requestsPerMinute Requests per minute
+     * @throws Error if the limit is not a positive number
+     */
+    setLimit(source: string, requestsPerMinute: number): void {
+        this.limits.set(source, checkLimit(source, requestsPerMinute));
+        this.buckets.delete(source);
+    }
+
+    /**
+     * Wait for a token, then take it
+     * @param source Data source id
+     * @param signal Signal cancelling the wait
+     * @returns True once the request may proceed; false if it would wait longer
+     * than the maximum wait or the wait was cancelled
+     */
+    async acquire(source: string, signal?: AbortSignal): Promise<boolean> {
+        if (!this.enabled) {
+            return true;
+        }
+
+        const bucket = this.refill(source);
+        bucket.tokens -= 1;
+
+        if (bucket.tokens >= 0) {
+            return true;
+        }
+
+        const waitMs = Math.ceil((-bucket.tokens * 60000) / this.getLimit(source));
+        if (waitMs > this.maxWaitMs || (signal && signal.aborted)) {
+            bucket.tokens += 1;
+            return false;
+        }
+
+        return new Promise<boolean>(resolve => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                // Return the token; requests queued behind this one keep their turn
+                bucket.tokens += 1;
+                resolve(false);
+            };
+            const timer = setTimeout(() => {
+                if (signal) {
+                    signal.removeEventListener('abort', onAbort);
+                }
+                resolve(true);
+            }, waitMs);
+
+            if (signal) {
+                signal.addEventListener('abort', onAbort);
+            }
+        });
+    }
+
+    /**
+     * Take a token if one is available, without waiting
+     * @param source Data source id
+     * @returns True if a token was taken
+     */
+    tryAcquire(source: string): boolean {
+        if (!this.enabled) {
+            return true;
+        }
+
+        const bucket = this.refill(source);
+        if (bucket.tokens < 1) {
+            return false;
+        }
+
+        bucket.tokens -= 1;
+        return true;
+    }
+
+    /**
+     * Number of requests a source can make now without waiting
+     * @param source Data source id
+     */
+    getRemaining(source: string): number {
+        return this.enabled ? Math.max(0, Math.floor(this.refill(source).tokens)) : this.getLimit(source);
+    }
+
+    /**
+     * Refill buckets to their limits
+     * @param source Data source id (default: every source)
+     */
+    reset(source?: string): void {
+        if (source === undefined) {
+            this.buckets.clear();
+        } else {
+            this.buckets.delete(source);
+        }
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Add the tokens earned since the last refill, up to the limit
+     * @private
+     */
+    private refill(source: string): Bucket {
+        const limit = this.getLimit(source);
+        const now = Date.now();
+        let bucket = this.buckets.get(source);
+
+        if (!bucket) {
+            bucket = { tokens: limit, updatedAt: now };
+            this.buckets.set(source, bucket);
+        }
+
+        bucket.tokens = Math.min(limit, bucket.tokens + ((now - bucket.updatedAt) * limit) / 60000);
+        bucket.updatedAt = now;
+        return bucket;
+    }
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Check that a limit is a positive number
+ */
+function checkLimit(source: string, requestsPerMinute: number): number {
+    if (!(requestsPerMinute > 0) || !Number.isFinite(requestsPerMinute)) {
+        throw new Error(`Rate limit of ${source} must be a positive number of requests per minute`);
+    }
+    return requestsPerMinute;
+}
@@ -0,0 +1,180 @@
+/**
+ * Retry - Exponential Backoff for Failed Requests
+ *
+ * Client-side counterpart of src/julia/utils/retry.jl. Failures that may go
+ * away (network errors, timeouts, HTTP 429 and 5xx) are tried again after a
+ * delay that grows by the backoff factor with each attempt. Jitter shortens
+ * each delay by a random amount, so cells that failed together do not retry
+ * together. A delay requested by the server (Retry-After) is never shortened.
+ */
+
+import { EconomicSettings } from './EconomicApiClient';
+
+/**
+ * HTTP statuses retried unless options say otherwise
+ */
+export const DEFAULT_RETRY_STATUSES: readonly number[] = [429, 500, 502, 503, 504];
+
+/**
+ * Retry options; the defaults are those of RetryConfig in retry.jl
+ */
+export interface RetryOptions {
+    /** False to never retry (default true) */
+    enabled?: boolean;
+    /** Retries after the first attempt (default 3) */
+    maxRetries?: number;
+    /** Delay before the first retry (default 2000) */
+    initialDelayMs?: number;
+    /** Longest delay between attempts (default 32000) */
+    maxDelayMs?: number;
+    /** Factor by which the delay grows after each retry (default 2; 1 for a constant delay) */
+    backoffFactor?: number;
+    /** Largest fraction of each delay removed at random (default 0.25; 0 disables jitter) */
+    jitter?: number;
+    /** HTTP statuses worth retrying (default DEFAULT_RETRY_STATUSES) */
+    retryOn?: readonly number[];
+    /** Random number generator in [0, 1) (default Math.random) */
+    random?: () => number;
+}
+
+/**
+ * Options for a single withRetry call
+ */
+export interface WithRetryOptions extends RetryOptions {
+    /** Signal stopping further retries */
+    signal?: AbortSignal;
+    /** Called before waiting for each retry */
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * What withRetry needs to know about a failure that may be retried
+ */
+export interface RetryableFailure {
+    /** HTTP status, retried if in retryOn; omitted for network errors and timeouts, which are always retried */
+    status?: number;
+    /** Delay requested by the server (Retry-After), in ms */
+    retryAfterMs?: number;
+}
+
+/**
+ * Retry options from the user's settings
+ * @param settings Retry settings (Settings > Retry Settings)
+ * @returns Options with the user's retry count and initial delay
+ */
+export function retryOptionsFromSettings(settings: EconomicSettings['retry']): RetryOptions {
+    return {
+        enabled: settings.enabled,
+        maxRetries: settings.maxRetries,
+        initialDelayMs: settings.initialDelayMs,
+        backoffFactor: settings.useExponentialBackoff ? 2 : 1
+    };
+}
+
+/**
+ * Delay before a retry, as calculate_delay in retry.jl with jitter
+ * @param attempt Attempt that failed (1 for the first)
+ * @param options Delays, backoff factor and jitter
+ * @returns Delay in ms
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = {}): number {
+    const initialDelayMs = options.initialDelayMs ?? 2000;
+    const backoffFactor = options.backoffFactor ?? 2;
+    const jitter = options.jitter ?? 0.25;
+    const random = options.random || Math.random;
+
+    const delay = Math.min(initialDelayMs * Math.pow(backoffFactor, attempt - 1), options.maxDelayMs ?? 32000);
+    return Math.round(delay * (1 - jitter * random()));
+}
+
+/**
+ * Read a Retry-After header
+ * @param value Header value: seconds, or an HTTP date
+ * @param now Current time (ms since epoch)
+ * @returns Delay in ms, or undefined if the header is missing or malformed
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value || value.trim() === '') {
+        return undefined;
+    }
+
+    if (/^\s*\d+\s*$/.test(value)) {
+        return parseInt(value, 10) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Run a task, retrying failures with exponential backoff, as with_retry in retry.jl
+ * A failure is not retried if the server asks for a longer delay than maxDelayMs.
+ * @param task Runs one attempt (numbered from 1)
+ * @param classify Describes a failure that may be retried; null for one that must not be
+ * @param options Retry options, cancellation and a retry callback
+ * @returns The task's result
+ * @throws The last failure once retries are exhausted, cancelled, or not worth retrying
+ */
+export async function withRetry<T>(
+    task: (attempt: number) => Promise<T>,
+    classify: (error: unknown) => RetryableFailure | null,
+    options: WithRetryOptions = {}
+): Promise<T> {
+    const maxRetries = options.enabled === false ? 0 : (options.maxRetries ?? 3);
+    const maxDelayMs = options.maxDelayMs ?? 32000;
+    const retryOn = options.retryOn || DEFAULT_RETRY_STATUSES;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task(attempt);
+        } catch (error) {
+            const failure = attempt > maxRetries ? null : classify(error);
+
+            if (
+                !failure ||
+                (failure.status !== undefined && !retryOn.includes(failure.status)) ||
+                (failure.retryAfterMs !== undefined && failure.retryAfterMs > maxDelayMs)
+            ) {
+                throw error;
+            }
+
+            const delayMs = Math.max(backoffDelay(attempt, options), failure.retryAfterMs ?? 0);
+            if (options.onRetry) {
+                options.onRetry(error, attempt, delayMs);
+            }
+
+            if (!(await sleep(delayMs, options.signal))) {
+                throw error;
+            }
+        }
+    }
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Wait for a delay
+ * @returns False if the signal was aborted first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal && signal.aborted) {
+        return Promise.resolve(false);
+    }
+
+    return new Promise<boolean>(resolve => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            if (signal) {
+                signal.removeEventListener('abort', onAbort);
+            }
+            resolve(true);
+        }, ms);
+
+        if (signal) {
+            signal.addEventListener('abort', onAbort);
+        }
+    });
+}
@@ -0,0 +1,159 @@
+/**
+ * Cache Storage
+ *
+ * Where SeriesCache keeps its entries. Stores only hold entries; expiry, size
+ * limits and eviction are decided by SeriesCache, so every store behaves the
+ * same. MemoryCacheStore is the default and is used in tests; FileCacheStore
+ * (Node) and IndexedDbCacheStore (browser) persist across restarts.
+ */
+
+import { JsonValue } from '../adapters/ISpreadsheetAdapter';
+
+/**
+ * Bookkeeping of a cache entry, without its value
+ */
+export interface CacheEntryInfo {
+    key: string;
+    /** Data source id (e.g., "fred"), or "" if unknown */
+    source: string;
+    /** Series id, or "" for entries that are not series (e.g., searches) */
+    seriesId: string;
+    /** When the value was stored (ms since epoch) */
+    createdAt: number;
+    /** When the value stops being fresh (ms since epoch) */
+    expiresAt: number;
+    /** When the value was last read or stored (ms since epoch), for LRU eviction */
+    accessedAt: number;
+    /** Size of the value as UTF-8 JSON, in bytes */
+    size: number;
+}
+
+/**
+ * A cache entry
+ */
+export interface CacheEntry extends CacheEntryInfo {
+    value: JsonValue;
+}
+
+/**
+ * Storage backend of a SeriesCache
+ */
+export interface CacheStore {
+    /**
+     * Read an entry
+     * @param key Cache key
+     * @returns The entry, or null if there is none
+     */
+    get(key: string): Promise<CacheEntry | null>;
+
+    /**
+     * Store an entry, replacing any with the same key
+     * @param entry Entry to store
+     */
+    put(entry: CacheEntry): Promise<void>;
+
+    /**
+     * Update an entry's last access time, if the entry exists
+     * @param key Cache key
+     * @param accessedAt Access time (ms since epoch)
+     */
+    touch(key: string, accessedAt: number): Promise<void>;
+
+    /**
+     * Remove entries
+     * @param keys Cache keys
+     */
+    delete(keys: string[]): Promise<void>;
+
+    /**
+     * List every entry without its value
+     */
+    list(): Promise<CacheEntryInfo[]>;
+
+    /**
+     * Remove every entry
+     */
+    clear(): Promise<void>;
+}
+
+/**
+ * Copy the bookkeeping fields of an entry
+ * @param entry Entry or entry info
+ * @returns Entry info without the value
+ */
+export function entryInfo(entry: CacheEntryInfo): CacheEntryInfo {
+    const { key, source, seriesId, createdAt, expiresAt, accessedAt, size } = entry;
+    return { key, source, seriesId, createdAt, expiresAt, accessedAt, size };
+}
+
+/**
+ * Cache store holding entries in memory; they are lost when the add-in reloads
+ */
+export class MemoryCacheStore implements CacheStore {
+    private entries: Map<string, CacheEntry>;
+
+    constructor() {
+        this.entries = new Map();
+    }
+
+    /**
+     * Read an entry
+     * @param key Cache key
+     * @returns A copy of the entry, or null if there is none
+     */
+    async get(key: string): Promise<CacheEntry | null> {
+        const entry = this.entries.get(key);
+        return entry ? copyEntry(entry) : null;
+    }
+
+    /**
+     * Store a copy of an entry
+     * @param entry Entry to store
+     */
+    async put(entry: CacheEntry): Promise<void> {
+        this.entries.set(entry.key, copyEntry(entry));
+    }
+
+    /**
+     * Update an entry's last access time
+     * @param key Cache key
+     * @param accessedAt Access time (ms since epoch)
+     */
+    async touch(key: string, accessedAt: number): Promise<void> {
+        const entry = this.entries.get(key);
+        if (entry) {
+            entry.accessedAt = accessedAt;
+        }
+    }
+
+    /**
+     * Remove entries
+     * @param keys Cache keys
+     */
+    async delete(keys: string[]): Promise<void> {
+        keys.forEach(key => this.entries.delete(key));
+    }
+
+    /**
+     * List every entry without its value
+     */
+    async list(): Promise<CacheEntryInfo[]> {
+        return Array.from(this.entries.values()).map(entryInfo);
+    }
+
+    /**
+     * Remove every entry
+     */
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Copy an entry so callers cannot change the stored value
+ */
+function copyEntry(entry: CacheEntry): CacheEntry {
+    return { ...entry, value: JSON.parse(JSON.stringify(entry.value)) as JsonValue };
+}
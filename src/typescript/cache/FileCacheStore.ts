@@ -0,0 +1,211 @@
+/**
+ * File Cache Store
+ *
+ * Keeps SeriesCache entries in a directory (Node only): one JSON file per
+ * value plus an index of the entries' bookkeeping, so listing and eviction do
+ * not read the values. Files are written to a temporary name and renamed, so
+ * a crash never leaves a half-written value behind.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonValue } from '../adapters/ISpreadsheetAdapter';
+import { CacheEntry, CacheEntryInfo, CacheStore, entryInfo } from './CacheStore';
+
+/**
+ * Directory used when none is given, next to the Julia backend's cache
+ */
+export const DEFAULT_CACHE_DIRECTORY = path.join(os.homedir(), '.economic-toolkit', 'cache', 'series');
+
+const INDEX_FILE = 'index.json';
+
+/**
+ * Cache store keeping entries in files
+ */
+export class FileCacheStore implements CacheStore {
+    private directory: string;
+    private index: Map<string, CacheEntryInfo> | null;
+    private queue: Promise<unknown>;
+
+    /**
+     * @param directory Directory holding the cache (default DEFAULT_CACHE_DIRECTORY); created when needed
+     */
+    constructor(directory: string = DEFAULT_CACHE_DIRECTORY) {
+        this.directory = directory;
+        this.index = null;
+        this.queue = Promise.resolve();
+    }
+
+    /**
+     * Read an entry
+     * @param key Cache key
+     * @returns The entry, or null if there is none or its file is missing
+     */
+    async get(key: string): Promise<CacheEntry | null> {
+        return this.exclusive(async () => {
+            const index = await this.loadIndex();
+            const info = index.get(key);
+
+            if (!info) {
+                return null;
+            }
+
+            const text = await this.readFile(this.valuePath(key));
+            if (text === null) {
+                // The value file was removed behind our back; forget the entry
+                index.delete(key);
+                await this.saveIndex();
+                return null;
+            }
+
+            return { ...info, value: JSON.parse(text) as JsonValue };
+        });
+    }
+
+    /**
+     * Store an entry, replacing any with the same key
+     * @param entry Entry to store
+     */
+    async put(entry: CacheEntry): Promise<void> {
+        await this.exclusive(async () => {
+            const index = await this.loadIndex();
+            await this.writeFile(this.valuePath(entry.key), JSON.stringify(entry.value));
+            index.set(entry.key, entryInfo(entry));
+            await this.saveIndex();
+        });
+    }
+
+    /**
+     * Update an entry's last access time
+     * @param key Cache key
+     * @param accessedAt Access time (ms since epoch)
+     */
+    async touch(key: string, accessedAt: number): Promise<void> {
+        await this.exclusive(async () => {
+            const info = (await this.loadIndex()).get(key);
+            if (info) {
+                info.accessedAt = accessedAt;
+                await this.saveIndex();
+            }
+        });
+    }
+
+    /**
+     * Remove entries and their files
+     * @param keys Cache keys
+     */
+    async delete(keys: string[]): Promise<void> {
+        await this.exclusive(async () => {
+            const index = await this.loadIndex();
+
+            for (const key of keys) {
+                index.delete(key);
+                await fs.rm(this.valuePath(key), { force: true });
+            }
+
+            await this.saveIndex();
+        });
+    }
+
+    /**
+     * List every entry without its value
+     */
+    async list(): Promise<CacheEntryInfo[]> {
+        return this.exclusive(async () => Array.from((await this.loadIndex()).values()).map(entryInfo));
+    }
+
+    /**
+     * Remove every entry, deleting the files of indexed entries and the index
+     * Other files in the directory are left alone.
+     */
+    async clear(): Promise<void> {
+        await this.exclusive(async () => {
+            const index = await this.loadIndex();
+
+            for (const key of index.keys()) {
+                await fs.rm(this.valuePath(key), { force: true });
+            }
+            await fs.rm(path.join(this.directory, INDEX_FILE), { force: true });
+
+            this.index = new Map();
+        });
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Run file operations one at a time, so the index is never written by two at once
+     * @private
+     */
+    private exclusive<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Read the index, once; a missing or unreadable index starts an empty cache
+     * @private
+     */
+    private async loadIndex(): Promise<Map<string, CacheEntryInfo>> {
+        if (!this.index) {
+            const text = await this.readFile(path.join(this.directory, INDEX_FILE));
+            let infos: CacheEntryInfo[] = [];
+
+            try {
+                infos = text === null ? [] : (JSON.parse(text) as CacheEntryInfo[]);
+            } catch {
+                // Corrupt index: the cache starts over
+            }
+
+            this.index = new Map(infos.map(info => [info.key, info]));
+        }
+
+        return this.index;
+    }
+
+    /**
+     * Write the index
+     * @private
+     */
+    private async saveIndex(): Promise<void> {
+        const infos = Array.from((this.index as Map<string, CacheEntryInfo>).values());
+        await this.writeFile(path.join(this.directory, INDEX_FILE), JSON.stringify(infos));
+    }
+
+    /**
+     * File holding an entry's value
+     * @private
+     */
+    private valuePath(key: string): string {
+        return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+    }
+
+    /**
+     * Read a text file
+     * @returns The text, or null if the file does not exist
+     * @private
+     */
+    private async readFile(file: string): Promise<string | null> {
+        try {
+            return await fs.readFile(file, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Write a text file through a temporary file, creating the directory if needed
+     * @private
+     */
+    private async writeFile(file: string, text: string): Promise<void> {
+        const temporary = `${file}.tmp`;
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(temporary, text, 'utf8');
+        await fs.rename(temporary, file);
+    }
+}
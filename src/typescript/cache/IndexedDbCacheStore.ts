@@ -0,0 +1,194 @@
+/**
+ * IndexedDB Cache Store
+ *
+ * Keeps SeriesCache entries in the browser's IndexedDB, which Office add-ins
+ * and Calc's web views keep across sessions, so fetched series stay available
+ * offline. Values and their bookkeeping live in separate object stores, so
+ * listing and eviction do not read the values.
+ */
+
+import { JsonValue } from '../adapters/ISpreadsheetAdapter';
+import { CacheEntry, CacheEntryInfo, CacheStore, entryInfo } from './CacheStore';
+
+/**
+ * Database used when none is given
+ */
+export const DEFAULT_CACHE_DATABASE = 'economic-toolkit-cache';
+
+const DATABASE_VERSION = 1;
+const VALUES_STORE = 'values';
+const INFO_STORE = 'entries';
+
+/**
+ * Options for an IndexedDB cache store
+ */
+export interface IndexedDbCacheStoreOptions {
+    /** Database name (default DEFAULT_CACHE_DATABASE) */
+    databaseName?: string;
+    /** IndexedDB implementation (defaults to the global indexedDB) */
+    indexedDB?: IDBFactory;
+}
+
+/**
+ * Cache store keeping entries in IndexedDB
+ */
+export class IndexedDbCacheStore implements CacheStore {
+    private databaseName: string;
+    private factory: IDBFactory;
+    private database: Promise<IDBDatabase> | null;
+
+    /**
+     * @param options Database name and IndexedDB implementation
+     * @throws Error if IndexedDB is not available
+     */
+    constructor(options: IndexedDbCacheStoreOptions = {}) {
+        const factory = options.indexedDB || (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+        if (!factory) {
+            throw new Error('IndexedDB is not available; pass an implementation in IndexedDbCacheStoreOptions.indexedDB');
+        }
+
+        this.databaseName = options.databaseName || DEFAULT_CACHE_DATABASE;
+        this.factory = factory;
+        this.database = null;
+    }
+
+    /**
+     * Read an entry
+     * @param key Cache key
+     * @returns The entry, or null if there is none
+     */
+    async get(key: string): Promise<CacheEntry | null> {
+        return this.run('readonly', (values, infos) => {
+            const value = values.get(key) as IDBRequest<{ key: string; value: JsonValue } | undefined>;
+            const info = infos.get(key) as IDBRequest<CacheEntryInfo | undefined>;
+            return () => (value.result && info.result ? { ...info.result, value: value.result.value } : null);
+        });
+    }
+
+    /**
+     * Store an entry, replacing any with the same key
+     * @param entry Entry to store
+     */
+    async put(entry: CacheEntry): Promise<void> {
+        await this.run('readwrite', (values, infos) => {
+            values.put({ key: entry.key, value: entry.value });
+            infos.put(entryInfo(entry));
+            return () => undefined;
+        });
+    }
+
+    /**
+     * Update an entry's last access time
+     * @param key Cache key
+     * @param accessedAt Access time (ms since epoch)
+     */
+    async touch(key: string, accessedAt: number): Promise<void> {
+        await this.run('readwrite', (_values, infos) => {
+            const request = infos.get(key) as IDBRequest<CacheEntryInfo | undefined>;
+            request.onsuccess = () => {
+                if (request.result) {
+                    infos.put({ ...request.result, accessedAt });
+                }
+            };
+            return () => undefined;
+        });
+    }
+
+    /**
+     * Remove entries
+     * @param keys Cache keys
+     */
+    async delete(keys: string[]): Promise<void> {
+        await this.run('readwrite', (values, infos) => {
+            keys.forEach(key => {
+                values.delete(key);
+                infos.delete(key);
+            });
+            return () => undefined;
+        });
+    }
+
+    /**
+     * List every entry without its value
+     */
+    async list(): Promise<CacheEntryInfo[]> {
+        return this.run('readonly', (_values, infos) => {
+            const request = infos.getAll() as IDBRequest<CacheEntryInfo[]>;
+            return () => request.result;
+        });
+    }
+
+    /**
+     * Remove every entry
+     */
+    async clear(): Promise<void> {
+        await this.run('readwrite', (values, infos) => {
+            values.clear();
+            infos.clear();
+            return () => undefined;
+        });
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Open the database once, creating its object stores on first use
+     * The connection is closed when another page upgrades the database (e.g.,
+     * a newer add-in version), so the upgrade is not blocked by this one.
+     * @private
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = this.factory.open(this.databaseName, DATABASE_VERSION);
+
+                request.onupgradeneeded = () => {
+                    const database = request.result;
+                    for (const name of [VALUES_STORE, INFO_STORE]) {
+                        if (!database.objectStoreNames.contains(name)) {
+                            database.createObjectStore(name, { keyPath: 'key' });
+                        }
+                    }
+                };
+                request.onsuccess = () => {
+                    const database = request.result;
+                    database.onversionchange = () => {
+                        database.close();
+                        this.database = null;
+                    };
+                    resolve(database);
+                };
+                request.onerror = () => reject(request.error);
+            }).catch(error => {
+                // Let the next call try again
+                this.database = null;
+                throw error;
+            });
+        }
+
+        return this.database;
+    }
+
+    /**
+     * Run requests in one transaction over both object stores
+     * @param mode Transaction mode
+     * @param operation Queues the requests and returns a function reading the result
+     * @returns The result, once the transaction has completed
+     * @private
+     */
+    private async run<T>(
+        mode: IDBTransactionMode,
+        operation: (values: IDBObjectStore, infos: IDBObjectStore) => () => T
+    ): Promise<T> {
+        const database = await this.open();
+
+        return new Promise<T>((resolve, reject) => {
+            const transaction = database.transaction([VALUES_STORE, INFO_STORE], mode);
+            const result = operation(transaction.objectStore(VALUES_STORE), transaction.objectStore(INFO_STORE));
+
+            transaction.oncomplete = () => resolve(result());
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction was aborted'));
+        });
+    }
+}
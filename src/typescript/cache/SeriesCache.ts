@@ -0,0 +1,564 @@
+/**
+ * SeriesCache - Offline-First Cache of Fetched Series
+ *
+ * Client-side counterpart of src/julia/cache/sqlite_cache.jl, keyed the same
+ * way (SHA-256 of "source|series_id|start|end"), so the add-in still has data
+ * when the backend is not running or the machine is offline.
+ *
+ * An entry is fresh for its TTL. For a while after that it is still served,
+ * while a new copy is fetched in the background (stale-while-revalidate).
+ * Whenever the backend cannot be reached, the cached copy is served however
+ * old it is. The cache stays under its size limit by evicting the least
+ * recently used entries.
+ */
+
+import { JsonValue } from '../adapters/ISpreadsheetAdapter';
+import {
+    ApiError,
+    EconomicApiClient,
+    EconomicSettings,
+    RequestOptions,
+    SeriesData,
+    SeriesRequestOptions,
+    SeriesSearchResult
+} from '../api/EconomicApiClient';
+import { CacheEntry, CacheStore, MemoryCacheStore } from './CacheStore';
+
+/**
+ * Time an entry stays fresh unless options say otherwise (24 hours, as in the Julia cache)
+ */
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Size limit unless options say otherwise (100 MB, the Settings default)
+ */
+export const DEFAULT_CACHE_MAX_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Options for a SeriesCache
+ */
+export interface SeriesCacheOptions {
+    /** Where entries are kept (default: a new MemoryCacheStore) */
+    store?: CacheStore;
+    /** False to bypass the cache entirely (default true) */
+    enabled?: boolean;
+    /** Time an entry stays fresh (default DEFAULT_CACHE_TTL_MS) */
+    ttlMs?: number;
+    /** Total size of the cached values as UTF-8 JSON (default DEFAULT_CACHE_MAX_BYTES) */
+    maxSizeBytes?: number;
+    /**
+     * How long after expiring an entry is still served while it is fetched
+     * again in the background (default: the TTL). Older entries are fetched
+     * first, and only served if the backend cannot be reached.
+     */
+    staleWhileRevalidateMs?: number;
+    /** Clock in ms since epoch (default Date.now) */
+    now?: () => number;
+    /** Called when a background fetch fails (default: logged to the console) */
+    onRevalidateError?: (error: Error, key: string) => void;
+}
+
+/**
+ * What a cached value is
+ */
+export interface CacheMetadata {
+    /** Data source id (e.g., "fred") */
+    source: string;
+    /** Series id; omit for values that are not series (e.g., searches) */
+    seriesId?: string;
+    /** Time this entry stays fresh (default: the cache's TTL) */
+    ttlMs?: number;
+}
+
+/**
+ * Where a value came from
+ * - fresh: the cache, within its TTL
+ * - stale: the cache, after its TTL; a new copy is being fetched in the background
+ * - fetched: the backend (and it was stored)
+ * - offline: the cache, however old, because the backend could not be reached
+ */
+export type CacheStatus = 'fresh' | 'stale' | 'fetched' | 'offline';
+
+/**
+ * A value read through the cache
+ */
+export interface CachedResult<T> {
+    value: T;
+    /** Cache key, e.g. for ProvenanceRegistry cache keys */
+    key: string;
+    status: CacheStatus;
+    /** When the value was fetched from the backend */
+    fetchedAt: Date;
+}
+
+/**
+ * Options for reading through the cache
+ */
+export interface CachedFetchOptions {
+    /** Fetch from the backend even if a fresh copy is cached (it is still served if the backend is offline) */
+    forceRefresh?: boolean;
+    /** Stops this caller waiting; a shared fetch is cancelled only when every caller has stopped */
+    signal?: AbortSignal;
+}
+
+/**
+ * Cache statistics, as returned by get_stats in the Julia cache
+ */
+export interface CacheStats {
+    total: number;
+    /** Entries within their TTL */
+    active: number;
+    expired: number;
+    /** Entries per data source */
+    bySource: Record<string, number>;
+    sizeBytes: number;
+    sizeMb: number;
+}
+
+/**
+ * Cache key of a series request: SHA-256 (hex) of "source|series_id|start|end",
+ * as cache_key(source, series_id, start_date, end_date) in the Julia cache
+ * @param source Data source id
+ * @param seriesId Series id
+ * @param start First observation date (YYYY-MM-DD or Date, read as UTC); omitted dates are empty
+ * @param end Last observation date
+ * @returns Hex digest
+ */
+export async function cacheKey(
+    source: string,
+    seriesId: string,
+    start?: string | Date,
+    end?: string | Date
+): Promise<string> {
+    return sha256(`${source}|${seriesId}|${keyDate(start)}|${keyDate(end)}`);
+}
+
+/**
+ * Cache key of a search: SHA-256 (hex) of "source|search|query", as cache_key(source, query)
+ * @param source Data source id
+ * @param query Search text
+ * @returns Hex digest
+ */
+export async function searchCacheKey(source: string, query: string): Promise<string> {
+    return sha256(`${source}|search|${query}`);
+}
+
+/**
+ * Cache options from the user's settings
+ * @param settings Cache settings (Settings > Cache)
+ * @returns Options enabling the cache with the chosen TTL and size limit
+ */
+export function cacheOptionsFromSettings(
+    settings: EconomicSettings['cache']
+): Pick<SeriesCacheOptions, 'enabled' | 'ttlMs' | 'maxSizeBytes'> {
+    return {
+        enabled: settings.enabled,
+        ttlMs: settings.ttlHours * 60 * 60 * 1000,
+        maxSizeBytes: settings.maxSizeMb * 1024 * 1024
+    };
+}
+
+/**
+ * Backend fetch shared by concurrent reads of one key
+ */
+interface SharedFetch {
+    promise: Promise<CacheEntry>;
+    controller: AbortController;
+    /** Callers still waiting; the fetch is cancelled when the last one cancels */
+    callers: number;
+}
+
+/**
+ * SeriesCache class
+ */
+export class SeriesCache {
+    private store: CacheStore;
+    private enabled: boolean;
+    private ttlMs: number;
+    private maxSizeBytes: number;
+    private staleWhileRevalidateMs: number;
+    private now: () => number;
+    private onRevalidateError: (error: Error, key: string) => void;
+    private inflight: Map<string, SharedFetch>;
+
+    /**
+     * @param options Store, TTL, size limit and stale-while-revalidate window
+     * @throws Error if the TTL, size limit or window is negative
+     */
+    constructor(options: SeriesCacheOptions = {}) {
+        this.store = options.store || new MemoryCacheStore();
+        this.enabled = options.enabled !== false;
+        this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+        this.maxSizeBytes = options.maxSizeBytes ?? DEFAULT_CACHE_MAX_BYTES;
+        this.staleWhileRevalidateMs = options.staleWhileRevalidateMs ?? this.ttlMs;
+        this.now = options.now || Date.now;
+        this.onRevalidateError =
+            options.onRevalidateError || ((error, key) => console.error(`Failed to refresh cached ${key}:`, error));
+        this.inflight = new Map();
+
+        if (!(this.ttlMs >= 0) || !(this.maxSizeBytes >= 0) || !(this.staleWhileRevalidateMs >= 0)) {
+            throw new Error('Cache TTL, size limit and stale-while-revalidate window must not be negative');
+        }
+    }
+
+    /**
+     * Read a fresh value
+     * @param key Cache key
+     * @returns The value, or null if it is not cached, has expired or the cache is disabled
+     */
+    async get<T>(key: string): Promise<T | null> {
+        const entry = this.enabled ? await this.store.get(key) : null;
+
+        if (!entry || entry.expiresAt <= this.now()) {
+            return null;
+        }
+
+        await this.store.touch(key, this.now());
+        return entry.value as unknown as T;
+    }
+
+    /**
+     * Store a value, evicting the least recently used entries beyond the size limit
+     * A value larger than the whole limit is not stored.
+     * @param key Cache key
+     * @param value JSON-serializable value
+     * @param metadata Source, series id and TTL
+     */
+    async set<T>(key: string, value: T, metadata: CacheMetadata): Promise<void> {
+        if (this.enabled) {
+            await this.put(key, value, metadata);
+        }
+    }
+
+    /**
+     * Remove an entry
+     * @param key Cache key
+     * @returns True if an entry was removed
+     */
+    async delete(key: string): Promise<boolean> {
+        const exists = (await this.store.list()).some(info => info.key === key);
+        await this.store.delete([key]);
+        return exists;
+    }
+
+    /**
+     * Remove the entries past their TTL
+     * @returns Number of entries removed
+     */
+    async clearExpired(): Promise<number> {
+        const now = this.now();
+        return this.remove(info => info.expiresAt <= now);
+    }
+
+    /**
+     * Remove the entries of one data source
+     * @param source Data source id
+     * @returns Number of entries removed
+     */
+    async clearSource(source: string): Promise<number> {
+        return this.remove(info => info.source === source);
+    }
+
+    /**
+     * Remove every entry
+     * @returns Number of entries removed
+     */
+    async clearAll(): Promise<number> {
+        const count = (await this.store.list()).length;
+        await this.store.clear();
+        return count;
+    }
+
+    /**
+     * Count the entries, by freshness and source, and their size
+     */
+    async stats(): Promise<CacheStats> {
+        const infos = await this.store.list();
+        const now = this.now();
+        const bySource: Record<string, number> = {};
+        let sizeBytes = 0;
+
+        for (const info of infos) {
+            if (info.source !== '') {
+                bySource[info.source] = (bySource[info.source] || 0) + 1;
+            }
+            sizeBytes += info.size;
+        }
+
+        const active = infos.filter(info => info.expiresAt > now).length;
+        return {
+            total: infos.length,
+            active,
+            expired: infos.length - active,
+            bySource,
+            sizeBytes,
+            sizeMb: Math.round((sizeBytes / 1024 / 1024) * 100) / 100
+        };
+    }
+
+    /**
+     * Read a value through the cache
+     * Concurrent fetches of the same key share one request, cancelled through
+     * the signal passed to the fetcher once every caller waiting for it has
+     * cancelled. Background revalidations are never cancelled by callers.
+     * @param key Cache key
+     * @param metadata Source, series id and TTL of the value
+     * @param fetcher Fetches the value from the backend
+     * @param options Whether to skip a fresh copy, and cancellation of this caller's wait
+     * @returns The value and where it came from
+     * @throws The fetcher's error if nothing usable is cached, or the error is
+     * not one of an unreachable backend (cancelled requests, HTTP 4xx, ...)
+     */
+    async fetch<T>(
+        key: string,
+        metadata: CacheMetadata,
+        fetcher: (signal: AbortSignal) => Promise<T>,
+        options: CachedFetchOptions = {}
+    ): Promise<CachedResult<T>> {
+        const entry = this.enabled ? await this.store.get(key) : null;
+        const now = this.now();
+        const cached = (status: CacheStatus, from: CacheEntry): CachedResult<T> => ({
+            value: from.value as unknown as T,
+            key,
+            status,
+            fetchedAt: new Date(from.createdAt)
+        });
+
+        if (entry && !options.forceRefresh && now < entry.expiresAt + this.staleWhileRevalidateMs) {
+            await this.store.touch(key, now);
+
+            if (now < entry.expiresAt) {
+                return cached('fresh', entry);
+            }
+
+            this.join(key, this.refresh(key, metadata, fetcher)).catch(error =>
+                this.onRevalidateError(error as Error, key)
+            );
+            return cached('stale', entry);
+        }
+
+        try {
+            return cached('fetched', await this.join(key, this.refresh(key, metadata, fetcher), options.signal));
+        } catch (error) {
+            if (entry && isUnreachable(error)) {
+                await this.store.touch(key, this.now());
+                return cached('offline', entry);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Fetch a series through the cache
+     * @param client Backend client
+     * @param source Data source id (e.g., "fred")
+     * @param seriesId Series id (e.g., "GDPC1")
+     * @param options Date range, cancellation, timeout and forceRefresh
+     * @returns Series data and where it came from
+     */
+    async getSeries(
+        client: EconomicApiClient,
+        source: string,
+        seriesId: string,
+        options: SeriesRequestOptions & CachedFetchOptions = {}
+    ): Promise<CachedResult<SeriesData>> {
+        const key = await cacheKey(source, seriesId, options.start, options.end);
+        return this.fetch(
+            key,
+            { source, seriesId },
+            signal => client.getSeries(source, seriesId, { ...options, signal }),
+            options
+        );
+    }
+
+    /**
+     * Search for series through the cache
+     * @param client Backend client
+     * @param source Data source id
+     * @param query Search text
+     * @param options Cancellation, timeout and forceRefresh
+     * @returns Matching series and where they came from
+     */
+    async searchSeries(
+        client: EconomicApiClient,
+        source: string,
+        query: string,
+        options: RequestOptions & CachedFetchOptions = {}
+    ): Promise<CachedResult<SeriesSearchResult[]>> {
+        const key = await searchCacheKey(source, query);
+        return this.fetch(key, { source }, signal => client.searchSeries(source, query, { ...options, signal }), options);
+    }
+
+    /**
+     * Wait for the background fetches started so far
+     */
+    async settle(): Promise<void> {
+        await Promise.all(Array.from(this.inflight.values()).map(fetch => fetch.promise.catch(() => undefined)));
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Fetch a value and store it, sharing the request with concurrent fetches of the key
+     * The fetcher gets the shared fetch's own signal, not any caller's.
+     * @private
+     */
+    private refresh<T>(
+        key: string,
+        metadata: CacheMetadata,
+        fetcher: (signal: AbortSignal) => Promise<T>
+    ): SharedFetch {
+        let shared = this.inflight.get(key);
+
+        if (!shared) {
+            const controller = new AbortController();
+            const promise = fetcher(controller.signal)
+                .then(value => (this.enabled ? this.put(key, value, metadata) : this.entry(key, value, metadata)))
+                .finally(() => this.inflight.delete(key));
+            shared = { promise, controller, callers: 0 };
+            this.inflight.set(key, shared);
+        }
+
+        return shared;
+    }
+
+    /**
+     * Wait for a shared fetch, leaving it if the caller cancels
+     * Callers without a signal (background revalidations) never leave.
+     * @private
+     */
+    private join(key: string, shared: SharedFetch, signal?: AbortSignal): Promise<CacheEntry> {
+        shared.callers++;
+
+        if (!signal) {
+            return shared.promise;
+        }
+
+        return new Promise<CacheEntry>((resolve, reject) => {
+            const onAbort = () => {
+                reject(canceled(key));
+                shared.callers--;
+                if (shared.callers === 0) {
+                    shared.controller.abort();
+                }
+            };
+
+            if (signal.aborted) {
+                onAbort();
+                return;
+            }
+
+            signal.addEventListener('abort', onAbort);
+            shared.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    /**
+     * Store a value and evict beyond the size limit
+     * @private
+     */
+    private async put<T>(key: string, value: T, metadata: CacheMetadata): Promise<CacheEntry> {
+        const entry = this.entry(key, value, metadata);
+
+        if (entry.size > this.maxSizeBytes) {
+            await this.store.delete([key]);
+            return entry;
+        }
+
+        await this.store.put(entry);
+        await this.evict(key);
+        return entry;
+    }
+
+    /**
+     * Build the entry for a value
+     * @private
+     */
+    private entry<T>(key: string, value: T, metadata: CacheMetadata): CacheEntry {
+        const now = this.now();
+        const json = JSON.stringify(value);
+
+        return {
+            key,
+            source: metadata.source,
+            seriesId: metadata.seriesId || '',
+            createdAt: now,
+            expiresAt: now + (metadata.ttlMs ?? this.ttlMs),
+            accessedAt: now,
+            size: new TextEncoder().encode(json).length,
+            value: JSON.parse(json) as JsonValue
+        };
+    }
+
+    /**
+     * Remove the least recently used entries until the cache fits its size limit
+     * @param keep Key of the entry just stored, evicted last
+     * @private
+     */
+    private async evict(keep: string): Promise<void> {
+        const infos = (await this.store.list()).sort(
+            (a, b) => Number(a.key === keep) - Number(b.key === keep) || a.accessedAt - b.accessedAt
+        );
+        let size = infos.reduce((sum, info) => sum + info.size, 0);
+        const evicted: string[] = [];
+
+        for (const info of infos) {
+            if (size <= this.maxSizeBytes) {
+                break;
+            }
+            evicted.push(info.key);
+            size -= info.size;
+        }
+
+        if (evicted.length > 0) {
+            await this.store.delete(evicted);
+        }
+    }
+
+    /**
+     * Remove the entries matching a condition
+     * @private
+     */
+    private async remove(matches: (info: { source: string; expiresAt: number }) => boolean): Promise<number> {
+        const keys = (await this.store.list()).filter(matches).map(info => info.key);
+        await this.store.delete(keys);
+        return keys.length;
+    }
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Format a key date as the Julia cache does (YYYY-MM-DD)
+ */
+function keyDate(date: string | Date | undefined): string {
+    if (date === undefined) {
+        return '';
+    }
+    return date instanceof Date ? date.toISOString().substring(0, 10) : date;
+}
+
+/**
+ * SHA-256 of a string as lowercase hex
+ */
+async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Error for a caller that stopped waiting for a shared fetch
+ */
+function canceled(key: string): ApiError {
+    return new ApiError(`Fetch of cached ${key} failed: request was cancelled`, { kind: 'aborted', method: 'GET', url: '' });
+}
+
+/**
+ * Check whether an error means the backend could not be reached or failed, rather than refused the request
+ */
+function isUnreachable(error: unknown): boolean {
+    return (
+        error instanceof ApiError &&
+        (error.kind === 'network' || error.kind === 'timeout' || (error.kind === 'http' && (error.status ?? 0) >= 500))
+    );
+}
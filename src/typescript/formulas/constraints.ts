@@ -0,0 +1,608 @@
+/**
+ * Constraint Propagation
+ *
+ * TypeScript port of src/julia/formulas/constraints.jl, so constraint systems
+ * such as the GDP identity solve in the add-in without the Julia backend.
+ *
+ * Constraints are equations over named variables, linear ("GDP = C + I + G + NX")
+ * or simple nonlinear ("Y = A * K^0.3 * L^0.7", "ln(P) = ln(M) + ln(V) - ln(Y)").
+ * Fixed variables keep their values; the solver moves the free ones, as little
+ * as it can, until every equation holds within the tolerance. Unlike the Julia
+ * version it solves the constraints together (Gauss-Newton with minimum-norm
+ * steps), so systems where each constraint shares its free variables with
+ * others, like X + Y = 10 and X - Y = 2, converge too.
+ */
+
+/**
+ * Functions available in equations
+ */
+export type ConstraintFunction = 'ln' | 'exp' | 'sqrt';
+
+/**
+ * Parsed expression
+ */
+export type Expression =
+    | { kind: 'number'; value: number }
+    | { kind: 'variable'; name: string }
+    | { kind: 'negate'; operand: Expression }
+    | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: Expression; right: Expression }
+    | { kind: 'call'; name: ConstraintFunction; argument: Expression };
+
+/**
+ * A constraint: an equation that must hold
+ */
+export interface Constraint {
+    name: string;
+    /** Equation as written (e.g., "GDP = C + I + G + NX") */
+    equation: string;
+    /** Variables in the equation, in order of first appearance */
+    variables: string[];
+    /** Left side minus right side; zero when the constraint holds */
+    residual: Expression;
+}
+
+/**
+ * How far a constraint is from holding
+ */
+export interface ConstraintResidual {
+    name: string;
+    equation: string;
+    /** Left side minus right side (NaN if it cannot be evaluated, e.g. ln of a negative number) */
+    residual: number;
+}
+
+/**
+ * Options for solving a constraint system
+ */
+export interface SolveOptions {
+    /** Maximum solver iterations (default 100) */
+    maxIterations?: number;
+    /** Largest residual accepted as satisfied (default 1e-6) */
+    tolerance?: number;
+}
+
+/**
+ * Outcome of solving a constraint system
+ */
+export interface ConstraintSolution {
+    /** True if every constraint holds within the tolerance */
+    converged: boolean;
+    iterations: number;
+    /** Value of every variable in the system after solving */
+    values: Record<string, number>;
+    /** Constraints that do not hold, with their residuals */
+    unsatisfied: ConstraintResidual[];
+}
+
+const DEFAULT_MAX_ITERATIONS = 100;
+const DEFAULT_TOLERANCE = 1e-6;
+
+/** Value unknown variables start from: 1 keeps logs and fractional powers defined */
+const INITIAL_VALUE = 1;
+
+const FUNCTIONS: ConstraintFunction[] = ['ln', 'exp', 'sqrt'];
+
+/**
+ * Parse an equation into its two sides
+ * @param equation Equation such as "GDP = C + I + G + NX"
+ * @returns Left and right side expressions
+ * @throws Error if the equation cannot be parsed or does not have exactly one "="
+ */
+export function parseEquation(equation: string): { left: Expression; right: Expression } {
+    const sides = equation.split('=');
+
+    if (sides.length !== 2) {
+        throw new Error(`Invalid equation "${equation}": expected exactly one "="`);
+    }
+
+    return { left: parseExpression(sides[0], equation), right: parseExpression(sides[1], equation) };
+}
+
+/**
+ * List the variables of an expression in order of first appearance
+ * @param expression Parsed expression
+ * @returns Variable names
+ */
+export function expressionVariables(expression: Expression): string[] {
+    const names: string[] = [];
+
+    const visit = (node: Expression): void => {
+        switch (node.kind) {
+            case 'variable':
+                if (!names.includes(node.name)) {
+                    names.push(node.name);
+                }
+                break;
+            case 'negate':
+                visit(node.operand);
+                break;
+            case 'binary':
+                visit(node.left);
+                visit(node.right);
+                break;
+            case 'call':
+                visit(node.argument);
+                break;
+        }
+    };
+
+    visit(expression);
+    return names;
+}
+
+/**
+ * Evaluate an expression
+ * @param expression Parsed expression
+ * @param values Variable values
+ * @returns The value (NaN outside the domain of a function or power)
+ * @throws Error if a variable has no value
+ */
+export function evaluateExpression(expression: Expression, values: Record<string, number>): number {
+    return evaluate(expression, name => lookup(values, name), null)[0];
+}
+
+/**
+ * ConstraintSystem class
+ * Collection of constraints with variable values, some of them fixed.
+ */
+export class ConstraintSystem {
+    private constraints: Constraint[];
+    private values: Map<string, number>;
+    private fixed: Set<string>;
+
+    constructor() {
+        this.constraints = [];
+        this.values = new Map();
+        this.fixed = new Set();
+    }
+
+    /**
+     * Add a constraint
+     * @param name Constraint name (unique in the system)
+     * @param equation Equation over named variables (e.g., "GDP = C + I + G + NX")
+     * @returns The parsed constraint
+     * @throws Error if the name is taken or the equation cannot be parsed
+     */
+    addConstraint(name: string, equation: string): Constraint {
+        if (this.constraints.some(c => c.name === name)) {
+            throw new Error(`Constraint already exists: ${name}`);
+        }
+
+        const { left, right } = parseEquation(equation);
+        const residual: Expression = { kind: 'binary', operator: '-', left, right };
+        const constraint: Constraint = { name, equation, variables: expressionVariables(residual), residual };
+
+        this.constraints.push(constraint);
+        return constraint;
+    }
+
+    /**
+     * Remove a constraint
+     * @param name Constraint name
+     * @returns True if a constraint was removed
+     */
+    removeConstraint(name: string): boolean {
+        const count = this.constraints.length;
+        this.constraints = this.constraints.filter(c => c.name !== name);
+        return this.constraints.length < count;
+    }
+
+    /**
+     * Get the constraints in the order they were added
+     */
+    getConstraints(): Constraint[] {
+        return [...this.constraints];
+    }
+
+    /**
+     * List the variables of all constraints, in order of first appearance
+     */
+    getVariableNames(): string[] {
+        const names: string[] = [];
+        for (const constraint of this.constraints) {
+            names.push(...constraint.variables.filter(name => !names.includes(name)));
+        }
+        return names;
+    }
+
+    /**
+     * Set a variable's value
+     * @param name Variable name
+     * @param value Variable value
+     * @param fixed True if the solver must not change it; false makes it free
+     * @throws Error if the value is not a finite number
+     */
+    setVariable(name: string, value: number, fixed: boolean = false): void {
+        if (!Number.isFinite(value)) {
+            throw new Error(`Value of ${name} must be a finite number`);
+        }
+
+        this.values.set(name, value);
+        if (fixed) {
+            this.fixed.add(name);
+        } else {
+            this.fixed.delete(name);
+        }
+    }
+
+    /**
+     * Forget a variable's value, leaving it free for the solver
+     * @param name Variable name
+     */
+    clearVariable(name: string): void {
+        this.values.delete(name);
+        this.fixed.delete(name);
+    }
+
+    /**
+     * Get a variable's value
+     * @param name Variable name
+     * @returns The value, or null if it has none
+     */
+    getVariable(name: string): number | null {
+        return this.values.get(name) ?? null;
+    }
+
+    /**
+     * Check whether a variable is fixed
+     * @param name Variable name
+     */
+    isFixed(name: string): boolean {
+        return this.fixed.has(name);
+    }
+
+    /**
+     * List the constraints that do not currently hold
+     * Variables without a value count as 0, as in the Julia version.
+     * @param tolerance Largest residual accepted as satisfied (default 1e-6)
+     * @returns Unsatisfied constraints with their residuals
+     */
+    check(tolerance: number = DEFAULT_TOLERANCE): ConstraintResidual[] {
+        return this.residuals(name => this.values.get(name) ?? 0).filter(r => !(Math.abs(r.residual) <= tolerance));
+    }
+
+    /**
+     * Solve for the free variables so that every constraint holds
+     * Free variables without a value start from 1. Each step changes the free
+     * variables as little as possible, so of many solutions the one closest
+     * to the current values is found. Values are kept even if the system does
+     * not converge.
+     * @param options Iteration limit and tolerance
+     * @returns Whether it converged, the values and the constraints that still fail
+     * @throws Error if the tolerance or iteration limit is not positive
+     */
+    solve(options: SolveOptions = {}): ConstraintSolution {
+        const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+        const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+        if (!(tolerance > 0) || !(maxIterations > 0)) {
+            throw new Error('Tolerance and maximum iterations must be positive');
+        }
+
+        const names = this.getVariableNames();
+        for (const name of names) {
+            if (!this.values.has(name)) {
+                this.values.set(name, INITIAL_VALUE);
+            }
+        }
+
+        const free = names.filter(name => !this.fixed.has(name));
+        const x = new Map(names.map(name => [name, this.values.get(name) as number]));
+        let iterations = 0;
+
+        while (free.length > 0 && iterations < maxIterations) {
+            const residuals = this.residualVector(x);
+            const error = norm(residuals);
+
+            if (!Number.isFinite(error) || residuals.every(r => Math.abs(r) <= tolerance)) {
+                break;
+            }
+
+            iterations++;
+            const step = this.newtonStep(x, free, residuals);
+
+            // Halve the step until it reduces the residuals, keeping nonlinear steps inside function domains
+            let accepted: Map<string, number> | null = null;
+            for (let scale = 1; scale > 1e-4 && !accepted; scale /= 2) {
+                const trial = new Map(x);
+                free.forEach((name, j) => trial.set(name, (x.get(name) as number) + scale * step[j]));
+                if (norm(this.residualVector(trial)) < error) {
+                    accepted = trial;
+                }
+            }
+
+            if (!accepted) {
+                break;
+            }
+            accepted.forEach((value, name) => x.set(name, value));
+        }
+
+        free.forEach(name => this.values.set(name, x.get(name) as number));
+
+        const unsatisfied = this.check(tolerance);
+        return {
+            converged: unsatisfied.length === 0,
+            iterations,
+            values: Object.fromEntries(names.map(name => [name, this.values.get(name) as number])),
+            unsatisfied
+        };
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Evaluate every constraint's residual
+     * @private
+     */
+    private residuals(value: (name: string) => number): ConstraintResidual[] {
+        return this.constraints.map(c => ({
+            name: c.name,
+            equation: c.equation,
+            residual: evaluate(c.residual, value, null)[0]
+        }));
+    }
+
+    /**
+     * Residuals at a point, in constraint order
+     * @private
+     */
+    private residualVector(x: Map<string, number>): number[] {
+        return this.residuals(name => x.get(name) as number).map(r => r.residual);
+    }
+
+    /**
+     * Minimum-norm Gauss-Newton step for the free variables: J^T (J J^T)^-1 (-r)
+     * A small ridge keeps redundant or contradictory constraints from making
+     * J J^T singular; their residuals then simply remain.
+     * @private
+     */
+    private newtonStep(x: Map<string, number>, free: string[], residuals: number[]): number[] {
+        const value = (name: string): number => x.get(name) as number;
+        const jacobian = this.constraints.map(c =>
+            free.map(name => (c.variables.includes(name) ? evaluate(c.residual, value, name)[1] : 0))
+        );
+        const gram = jacobian.map(row => jacobian.map(other => dot(row, other)));
+        const ridge = 1e-12 * Math.max(1, ...gram.map((row, i) => row[i]));
+
+        gram.forEach((row, i) => (row[i] += ridge));
+        const y = solveLinear(gram, residuals.map(r => -r));
+
+        return free.map((_, j) => jacobian.reduce((sum, row, i) => sum + row[j] * y[i], 0));
+    }
+}
+
+/**
+ * Create the GDP identity system GDP = C + I + G + NX
+ * Known values are fixed; solving finds the missing one.
+ * @param known Known values of GDP, C, I, G and NX
+ * @returns The constraint system
+ */
+export function gdpIdentitySystem(
+    known: { GDP?: number; C?: number; I?: number; G?: number; NX?: number } = {}
+): ConstraintSystem {
+    const system = new ConstraintSystem();
+    system.addConstraint('GDP_identity', 'GDP = C + I + G + NX');
+
+    for (const [name, value] of Object.entries(known)) {
+        if (value !== undefined) {
+            system.setVariable(name, value, true);
+        }
+    }
+
+    return system;
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Parse one side of an equation
+ * Grammar: sum = product (("+" | "-") product)*; product = unary (("*" | "/") unary)*;
+ * unary = "-" unary | power; power = atom ("^" unary)?; atom = number | name | name "(" sum ")" | "(" sum ")"
+ */
+function parseExpression(text: string, equation: string): Expression {
+    const tokens = text.match(/\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?|[A-Za-z_][A-Za-z0-9_.]*|\S/g) || [];
+    let position = 0;
+
+    const fail = (message: string): never => {
+        throw new Error(`Invalid equation "${equation}": ${message}`);
+    };
+    const peek = (): string | undefined => tokens[position];
+    const take = (): string => tokens[position++];
+
+    const sum = (): Expression => {
+        let node = product();
+        while (peek() === '+' || peek() === '-') {
+            const operator = take() as '+' | '-';
+            node = { kind: 'binary', operator, left: node, right: product() };
+        }
+        return node;
+    };
+
+    const product = (): Expression => {
+        let node = unary();
+        while (peek() === '*' || peek() === '/') {
+            const operator = take() as '*' | '/';
+            node = { kind: 'binary', operator, left: node, right: unary() };
+        }
+        return node;
+    };
+
+    const unary = (): Expression => {
+        if (peek() === '-') {
+            take();
+            return { kind: 'negate', operand: unary() };
+        }
+        if (peek() === '+') {
+            take();
+            return unary();
+        }
+        return power();
+    };
+
+    const power = (): Expression => {
+        const base = atom();
+        if (peek() === '^') {
+            take();
+            return { kind: 'binary', operator: '^', left: base, right: unary() };
+        }
+        return base;
+    };
+
+    const atom = (): Expression => {
+        const token = peek();
+
+        if (token === undefined) {
+            return fail('unexpected end of expression');
+        }
+
+        if (token === '(') {
+            take();
+            const inner = sum();
+            if (take() !== ')') {
+                fail('missing ")"');
+            }
+            return inner;
+        }
+
+        if (/^[\d.]/.test(token)) {
+            take();
+            return { kind: 'number', value: Number(token) };
+        }
+
+        if (/^[A-Za-z_]/.test(token)) {
+            take();
+            if (peek() !== '(') {
+                return { kind: 'variable', name: token };
+            }
+
+            const name = token.toLowerCase() as ConstraintFunction;
+            if (!FUNCTIONS.includes(name)) {
+                fail(`unknown function ${token} (expected ${FUNCTIONS.join(', ')})`);
+            }
+            take();
+            const argument = sum();
+            if (take() !== ')') {
+                fail('missing ")"');
+            }
+            return { kind: 'call', name, argument };
+        }
+
+        return fail(`unexpected "${token}"`);
+    };
+
+    const expression = sum();
+    if (position < tokens.length) {
+        fail(`unexpected "${tokens[position]}"`);
+    }
+    return expression;
+}
+
+/**
+ * Evaluate an expression and its derivative with respect to one variable (forward mode)
+ * @returns [value, derivative]; the derivative is 0 when wrt is null
+ */
+function evaluate(node: Expression, value: (name: string) => number, wrt: string | null): [number, number] {
+    switch (node.kind) {
+        case 'number':
+            return [node.value, 0];
+        case 'variable':
+            return [value(node.name), node.name === wrt ? 1 : 0];
+        case 'negate': {
+            const [v, d] = evaluate(node.operand, value, wrt);
+            return [-v, -d];
+        }
+        case 'call': {
+            const [v, d] = evaluate(node.argument, value, wrt);
+            switch (node.name) {
+                case 'ln':
+                    return [v > 0 ? Math.log(v) : NaN, d / v];
+                case 'exp':
+                    return [Math.exp(v), Math.exp(v) * d];
+                case 'sqrt':
+                    return [v >= 0 ? Math.sqrt(v) : NaN, d / (2 * Math.sqrt(v))];
+            }
+            break;
+        }
+        case 'binary': {
+            const [a, da] = evaluate(node.left, value, wrt);
+            const [b, db] = evaluate(node.right, value, wrt);
+            switch (node.operator) {
+                case '+':
+                    return [a + b, da + db];
+                case '-':
+                    return [a - b, da - db];
+                case '*':
+                    return [a * b, da * b + a * db];
+                case '/':
+                    return [a / b, (da * b - a * db) / (b * b)];
+                case '^': {
+                    const v = a ** b;
+                    // d(a^b) = b a^(b-1) da + a^b ln(a) db; the second term vanishes for constant exponents
+                    return [v, (db === 0 ? 0 : v * Math.log(a) * db) + (da === 0 ? 0 : b * a ** (b - 1) * da)];
+                }
+            }
+        }
+    }
+
+    return [NaN, NaN];
+}
+
+/**
+ * Look up a variable's value
+ */
+function lookup(values: Record<string, number>, name: string): number {
+    if (!(name in values)) {
+        throw new Error(`No value for variable ${name}`);
+    }
+    return values[name];
+}
+
+/**
+ * Dot product of two vectors
+ */
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+/**
+ * Euclidean norm of a vector
+ */
+function norm(values: number[]): number {
+    return Math.sqrt(dot(values, values));
+}
+
+/**
+ * Solve a square linear system by Gaussian elimination with partial pivoting
+ */
+function solveLinear(matrix: number[][], rhs: number[]): number[] {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+                pivot = row;
+            }
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) {
+                a[row][k] -= factor * a[col][k];
+            }
+        }
+    }
+
+    const x = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) {
+            sum -= a[row][k] * x[k];
+        }
+        x[row] = sum / a[row][row];
+    }
+
+    return x;
+}
@@ -0,0 +1,132 @@
+/**
+ * ECON.* Data Functions
+ *
+ * Custom functions returning series fetched by the Julia backend, as
+ * [date, value] rows. Their calls go through a SeriesDispatcher, so a sheet
+ * full of them is fetched with one request per data source and date range,
+ * and a bad series id shows an error only in its own cells.
+ *
+ * Date arguments may be serial numbers, Dates or YYYY-MM-DD strings; empty
+ * ones leave the range open.
+ */
+
+import { CellMatrix, CustomFunctionMetadata, ISpreadsheetAdapter } from '../adapters/ISpreadsheetAdapter';
+import { SeriesData } from '../api/EconomicApiClient';
+import { SeriesDispatcher } from '../services/SeriesDispatcher';
+import { serialToDate } from '../utils/dates';
+
+/**
+ * A custom function fetching data
+ */
+export interface DataFunction {
+    metadata: CustomFunctionMetadata;
+    implementation: (...args: unknown[]) => Promise<CellMatrix>;
+}
+
+const DATE_PARAMETERS: CustomFunctionMetadata['parameters'] = [
+    { name: 'start_date', description: 'First observation date (default: all)', type: 'string', optional: true },
+    { name: 'end_date', description: 'Last observation date (default: latest)', type: 'string', optional: true }
+];
+
+/**
+ * Metadata of the data functions, for manifests
+ */
+export const DATA_FUNCTION_METADATA: CustomFunctionMetadata[] = [
+    {
+        name: 'ECON.FRED',
+        description: 'Fetch a series from Federal Reserve Economic Data (FRED)',
+        parameters: [
+            { name: 'series_id', description: 'FRED series id (e.g., GDPC1)', type: 'string' },
+            ...DATE_PARAMETERS
+        ],
+        returnType: 'range'
+    },
+    {
+        name: 'ECON.WB',
+        description: 'Fetch an indicator from the World Bank',
+        parameters: [
+            { name: 'indicator_code', description: 'Indicator code (e.g., NY.GDP.MKTP.CD)', type: 'string' },
+            { name: 'country_code', description: 'ISO country code (e.g., USA)', type: 'string' },
+            ...DATE_PARAMETERS
+        ],
+        returnType: 'range'
+    }
+];
+
+/**
+ * The data functions, fetching through a dispatcher
+ * @param dispatcher Dispatcher coalescing the requests
+ * @returns Functions in the order of DATA_FUNCTION_METADATA
+ */
+export function dataFunctions(dispatcher: SeriesDispatcher): DataFunction[] {
+    const [fred, worldBank] = DATA_FUNCTION_METADATA;
+
+    return [
+        {
+            metadata: fred,
+            implementation: async (seriesId: unknown, start?: unknown, end?: unknown) =>
+                rows(await dispatcher.getSeries('fred', text(seriesId, 'series_id'), range(start, end)))
+        },
+        {
+            metadata: worldBank,
+            implementation: async (indicator: unknown, country: unknown, start?: unknown, end?: unknown) => {
+                const id = `${text(country, 'country_code')}/${text(indicator, 'indicator_code')}`;
+                return rows(await dispatcher.getSeries('worldbank', id, range(start, end)));
+            }
+        }
+    ];
+}
+
+/**
+ * Register the data functions with an adapter
+ * @param adapter Spreadsheet adapter
+ * @param dispatcher Dispatcher coalescing the requests
+ */
+export function registerDataFunctions(adapter: ISpreadsheetAdapter, dispatcher: SeriesDispatcher): void {
+    dataFunctions(dispatcher).forEach(fn => adapter.registerFunction(fn.metadata, fn.implementation));
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Read a required text argument
+ */
+function text(value: unknown, name: string): string {
+    if (value === null || value === undefined || String(value).trim() === '') {
+        throw new Error(`${name} is required`);
+    }
+    return String(value).trim();
+}
+
+/**
+ * Read the optional start and end date arguments
+ */
+function range(start: unknown, end: unknown): { start?: string | Date; end?: string | Date } {
+    return { start: dateArgument(start, 'start_date'), end: dateArgument(end, 'end_date') };
+}
+
+/**
+ * Read a date argument (serial, Date or YYYY-MM-DD string); empty means none
+ */
+function dateArgument(value: unknown, name: string): string | Date | undefined {
+    if (value === null || value === undefined || value === '') {
+        return undefined;
+    }
+    if (value instanceof Date) {
+        return value;
+    }
+    if (typeof value === 'number') {
+        return serialToDate(Math.floor(value));
+    }
+    if (typeof value === 'string') {
+        return value.trim();
+    }
+    throw new Error(`${name} must be a date`);
+}
+
+/**
+ * Shape series data as [date, value] rows, with missing values as empty cells
+ */
+function rows(data: SeriesData): CellMatrix {
+    return data.date.map((date, i) => [new Date(`${date}T00:00:00Z`), data.value[i]]);
+}
@@ -0,0 +1,347 @@
+/**
+ * ECON.* Custom Functions
+ *
+ * Spreadsheet-facing wrappers around the formula library, with their
+ * CustomFunctionMetadata. They run entirely in the add-in, so they work
+ * offline without the Julia backend.
+ *
+ * Range arguments arrive as matrices; empty cells are skipped (paired ranges
+ * skip a row if either side is empty). Date cells may be serial numbers,
+ * Dates or YYYY-MM-DD strings. In matrix results NaN becomes an empty cell.
+ */
+
+import { CellMatrix, CellValue, CustomFunctionMetadata, ISpreadsheetAdapter } from '../adapters/ISpreadsheetAdapter';
+import { serialToDate } from '../utils/dates';
+import { ElasticityMethod, crossPriceElasticity, elasticity, incomeElasticity } from './elasticity';
+import { GrowthMethod, cagr, gdpGrowth, subtractMonths } from './growth';
+import { atkinsonIndex, giniCoefficient, lorenzCurve, palmaRatio, theilIndex } from './inequality';
+
+/**
+ * A custom function definition
+ */
+export interface EconFunction {
+    metadata: CustomFunctionMetadata;
+    implementation: (...args: unknown[]) => CellValue | CellMatrix;
+}
+
+const ELASTICITY_METHODS: ElasticityMethod[] = ['midpoint', 'arc', 'point', 'log'];
+const GROWTH_METHODS: GrowthMethod[] = ['yoy', 'qoq', 'mom', 'cagr'];
+
+/** Months between observations assumed by ECON.GROWTH when no dates are given */
+const PERIOD_MONTHS: Record<GrowthMethod, number> = { yoy: 12, qoq: 3, mom: 1, cagr: 12 };
+
+/**
+ * All ECON.* functions implemented in TypeScript
+ */
+export const ECON_FUNCTIONS: EconFunction[] = [
+    {
+        metadata: {
+            name: 'ECON.ELASTICITY',
+            description: 'Calculate price elasticity of demand',
+            parameters: [
+                { name: 'quantities', description: 'Quantity values', type: 'range' },
+                { name: 'prices', description: 'Price values', type: 'range' },
+                {
+                    name: 'method',
+                    description: 'midpoint (default), arc, point or log',
+                    type: 'string',
+                    optional: true
+                }
+            ],
+            returnType: 'number'
+        },
+        implementation: (quantities: unknown, prices: unknown, method?: unknown) => {
+            const [q, p] = numberPairs(quantities, prices, 'quantities', 'prices');
+            return elasticity(q, p, parseMethod(method, ELASTICITY_METHODS, 'midpoint'));
+        }
+    },
+    {
+        metadata: {
+            name: 'ECON.INCOME_ELASTICITY',
+            description: 'Calculate income elasticity of demand',
+            parameters: [
+                { name: 'quantities', description: 'Quantity values', type: 'range' },
+                { name: 'incomes', description: 'Income values', type: 'range' }
+            ],
+            returnType: 'number'
+        },
+        implementation: (quantities: unknown, incomes: unknown) => {
+            const [q, i] = numberPairs(quantities, incomes, 'quantities', 'incomes');
+            return incomeElasticity(q, i);
+        }
+    },
+    {
+        metadata: {
+            name: 'ECON.CROSS_ELASTICITY',
+            description: 'Calculate cross-price elasticity',
+            parameters: [
+                { name: 'quantity_x', description: 'Quantities of good X', type: 'range' },
+                { name: 'price_y', description: 'Prices of good Y', type: 'range' }
+            ],
+            returnType: 'number'
+        },
+        implementation: (quantities: unknown, prices: unknown) => {
+            const [q, p] = numberPairs(quantities, prices, 'quantity_x', 'price_y');
+            return crossPriceElasticity(q, p);
+        }
+    },
+    {
+        metadata: {
+            name: 'ECON.GROWTH',
+            description: 'Calculate growth rates in percent (YoY, QoQ, MoM, CAGR)',
+            parameters: [
+                { name: 'values', description: 'Series values', type: 'range' },
+                {
+                    name: 'dates',
+                    description: 'Observation dates, or the method if dates are omitted',
+                    type: 'range',
+                    optional: true
+                },
+                { name: 'method', description: 'YoY (default), QoQ, MoM or CAGR', type: 'string', optional: true }
+            ],
+            returnType: 'range'
+        },
+        implementation: (values: unknown, dates?: unknown, method?: unknown) => {
+            const datesAsMethod = flatten(dates);
+            if (datesAsMethod.length === 1 && typeof datesAsMethod[0] === 'string') {
+                return growthWithoutDates(values, datesAsMethod[0]);
+            }
+            if (datesAsMethod.every(isEmpty)) {
+                return growthWithoutDates(values, method);
+            }
+
+            const growthMethod = parseMethod(method, GROWTH_METHODS, 'yoy');
+            const [v, d] = datedValues(values, dates);
+            const rates = gdpGrowth(v, d, growthMethod);
+            return growthMethod === 'cagr' ? cell(rates[0]) : column(rates);
+        }
+    },
+    {
+        metadata: {
+            name: 'ECON.CAGR',
+            description: 'Compound annual growth rate in percent',
+            parameters: [
+                { name: 'initial_value', description: 'Value at the start', type: 'number' },
+                { name: 'final_value', description: 'Value at the end', type: 'number' },
+                { name: 'periods', description: 'Number of years', type: 'number' }
+            ],
+            returnType: 'number'
+        },
+        implementation: (initial: unknown, final: unknown, periods: unknown) =>
+            cagr(scalar(initial, 'initial_value'), scalar(final, 'final_value'), scalar(periods, 'periods'))
+    },
+    {
+        metadata: {
+            name: 'ECON.GINI',
+            description: 'Calculate Gini coefficient',
+            parameters: [{ name: 'distribution', description: 'Income distribution', type: 'range' }],
+            returnType: 'number'
+        },
+        implementation: (distribution: unknown) => giniCoefficient(numbers(distribution, 'distribution'))
+    },
+    {
+        metadata: {
+            name: 'ECON.LORENZ',
+            description: 'Calculate Lorenz curve coordinates (population share, income share)',
+            parameters: [{ name: 'distribution', description: 'Income distribution', type: 'range' }],
+            returnType: 'range'
+        },
+        implementation: (distribution: unknown) => {
+            const curve = lorenzCurve(numbers(distribution, 'distribution'));
+            return curve.populationShare.map((share, i) => [share, curve.incomeShare[i]]);
+        }
+    },
+    {
+        metadata: {
+            name: 'ECON.ATKINSON',
+            description: 'Calculate Atkinson inequality index',
+            parameters: [
+                { name: 'distribution', description: 'Income distribution', type: 'range' },
+                { name: 'epsilon', description: 'Inequality aversion (default 1)', type: 'number', optional: true }
+            ],
+            returnType: 'number'
+        },
+        implementation: (distribution: unknown, epsilon?: unknown) =>
+            atkinsonIndex(numbers(distribution, 'distribution'), isEmpty(epsilon) ? 1 : scalar(epsilon, 'epsilon'))
+    },
+    {
+        metadata: {
+            name: 'ECON.THEIL',
+            description: 'Calculate Theil inequality index',
+            parameters: [{ name: 'distribution', description: 'Income distribution', type: 'range' }],
+            returnType: 'number'
+        },
+        implementation: (distribution: unknown) => theilIndex(numbers(distribution, 'distribution'))
+    },
+    {
+        metadata: {
+            name: 'ECON.PALMA',
+            description: 'Calculate Palma ratio (top 10% / bottom 40%)',
+            parameters: [{ name: 'distribution', description: 'Income distribution', type: 'range' }],
+            returnType: 'number'
+        },
+        implementation: (distribution: unknown) => palmaRatio(numbers(distribution, 'distribution'))
+    }
+];
+
+/**
+ * Register every ECON.* function with an adapter
+ * @param adapter Spreadsheet adapter
+ */
+export function registerEconFunctions(adapter: ISpreadsheetAdapter): void {
+    ECON_FUNCTIONS.forEach(fn => adapter.registerFunction(fn.metadata, fn.implementation));
+}
+
+// ===== Private Helpers =====
+
+/**
+ * ECON.GROWTH(values, method): treat values as consecutive periods of the method's frequency
+ */
+function growthWithoutDates(values: unknown, methodName: unknown): CellValue | CellMatrix {
+    const method = parseMethod(methodName, GROWTH_METHODS, 'yoy');
+    const v = numbers(values, 'values');
+
+    if (method === 'cagr') {
+        if (v.length < 2) {
+            throw new Error('Need at least 2 data points for CAGR');
+        }
+        return cell(cagr(v[0], v[v.length - 1], v.length - 1));
+    }
+
+    const end = new Date(Date.UTC(2000, 0, 1));
+    const dates = v.map((_, i) => subtractMonths(end, (v.length - 1 - i) * PERIOD_MONTHS[method]));
+    return column(gdpGrowth(v, dates, method));
+}
+
+/**
+ * Flatten a range or scalar argument
+ */
+function flatten(arg: unknown): unknown[] {
+    if (Array.isArray(arg)) {
+        return (arg as unknown[]).reduce<unknown[]>((acc, item) => acc.concat(flatten(item)), []);
+    }
+    return [arg];
+}
+
+/**
+ * Check whether a cell is empty
+ */
+function isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+/**
+ * Convert a cell to a number
+ */
+function toNumber(value: unknown, name: string): number {
+    if (typeof value === 'number' && !isNaN(value)) {
+        return value;
+    }
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        return Number(value);
+    }
+    throw new Error(`${name} must contain only numbers`);
+}
+
+/**
+ * Read a single number argument
+ */
+function scalar(arg: unknown, name: string): number {
+    const values = flatten(arg);
+
+    if (values.length !== 1 || isEmpty(values[0])) {
+        throw new Error(`${name} must be a single number`);
+    }
+
+    return toNumber(values[0], name);
+}
+
+/**
+ * Read a range of numbers, skipping empty cells
+ */
+function numbers(arg: unknown, name: string): number[] {
+    return flatten(arg)
+        .filter(value => !isEmpty(value))
+        .map(value => toNumber(value, name));
+}
+
+/**
+ * Read two ranges of equal size as aligned number arrays
+ */
+function numberPairs(a: unknown, b: unknown, nameA: string, nameB: string): [number[], number[]] {
+    const [left, right] = alignedCells(a, b, nameA, nameB);
+    return [left.map(value => toNumber(value, nameA)), right.map(value => toNumber(value, nameB))];
+}
+
+/**
+ * Read a value range and a date range as aligned arrays
+ */
+function datedValues(values: unknown, dates: unknown): [number[], Date[]] {
+    const [left, right] = alignedCells(values, dates, 'values', 'dates');
+    return [left.map(value => toNumber(value, 'values')), right.map(toDate)];
+}
+
+/**
+ * Flatten two ranges of equal size, dropping positions where either cell is empty
+ */
+function alignedCells(a: unknown, b: unknown, nameA: string, nameB: string): [unknown[], unknown[]] {
+    const left = flatten(a);
+    const right = flatten(b);
+
+    if (left.length !== right.length) {
+        throw new Error(`${nameA} and ${nameB} must have the same size`);
+    }
+
+    const keep = left.map((value, i) => !isEmpty(value) && !isEmpty(right[i]));
+    return [left.filter((_, i) => keep[i]), right.filter((_, i) => keep[i])];
+}
+
+/**
+ * Convert a date cell (serial, Date or YYYY-MM-DD string) to a Date
+ */
+function toDate(value: unknown): Date {
+    if (value instanceof Date) {
+        return value;
+    }
+    if (typeof value === 'number') {
+        return serialToDate(Math.floor(value));
+    }
+    if (typeof value === 'string') {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) {
+            return date;
+        }
+    }
+    throw new Error(`Invalid date: ${String(value)}`);
+}
+
+/**
+ * Parse a method name case-insensitively
+ */
+function parseMethod<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+    if (isEmpty(value)) {
+        return fallback;
+    }
+
+    const name = String(value).toLowerCase() as T;
+
+    if (!allowed.includes(name)) {
+        throw new Error(`Unknown method: ${String(value)} (expected ${allowed.join(', ')})`);
+    }
+
+    return name;
+}
+
+/**
+ * Shape numbers as a single-column matrix, with NaN as an empty cell
+ */
+function column(values: number[]): CellMatrix {
+    return values.map(value => [cell(value)]);
+}
+
+/**
+ * Convert a number to a cell, NaN becoming an empty cell
+ */
+function cell(value: number): CellValue {
+    return isNaN(value) ? null : value;
+}
@@ -0,0 +1,172 @@
+/**
+ * Elasticity Calculations
+ *
+ * TypeScript port of src/julia/formulas/elasticity.jl. Results match the
+ * Julia implementation, including Infinity for a zero price change and NaN
+ * where the Julia code averages an empty set.
+ */
+
+/**
+ * Elasticity calculation method
+ * - midpoint: (ΔQ/Q_avg) / (ΔP/P_avg) between the first and last points (default)
+ * - arc: mean of midpoint elasticities between consecutive points
+ * - point: linear regression slope dQ/dP evaluated at the means
+ * - log: slope of a log-log regression over positive points
+ */
+export type ElasticityMethod = 'midpoint' | 'arc' | 'point' | 'log';
+
+/**
+ * Calculate price elasticity of demand
+ * @param quantities Quantity values
+ * @param prices Price values
+ * @param method Calculation method (default 'midpoint')
+ * @returns Elasticity coefficient
+ * @throws Error if the inputs differ in length, have fewer than 2 points or the method is unknown
+ */
+export function elasticity(quantities: number[], prices: number[], method: ElasticityMethod = 'midpoint'): number {
+    if (quantities.length !== prices.length) {
+        throw new Error('Quantities and prices must have same length');
+    }
+
+    if (quantities.length < 2) {
+        throw new Error('Need at least 2 data points');
+    }
+
+    switch (method) {
+        case 'midpoint':
+            return elasticityMidpoint(quantities, prices);
+        case 'arc':
+            return elasticityArc(quantities, prices);
+        case 'point':
+            return elasticityPoint(quantities, prices);
+        case 'log':
+            return elasticityLog(quantities, prices);
+        default:
+            throw new Error(`Unknown method: ${String(method)}`);
+    }
+}
+
+/**
+ * Calculate elasticity with the midpoint method using the first and last points
+ * @param quantities Quantity values
+ * @param prices Price values
+ * @returns Elasticity, or Infinity if the price does not change
+ */
+export function elasticityMidpoint(quantities: number[], prices: number[]): number {
+    return midpoint(quantities[0], quantities[quantities.length - 1], prices[0], prices[prices.length - 1]);
+}
+
+/**
+ * Calculate arc elasticity (mean of elasticities between consecutive points)
+ * Segments with no price change are skipped.
+ * @param quantities Quantity values
+ * @param prices Price values
+ * @returns Elasticity, or NaN if the price never changes
+ */
+export function elasticityArc(quantities: number[], prices: number[]): number {
+    const elasticities: number[] = [];
+
+    for (let i = 0; i < quantities.length - 1; i++) {
+        if (prices[i + 1] - prices[i] !== 0) {
+            elasticities.push(midpoint(quantities[i], quantities[i + 1], prices[i], prices[i + 1]));
+        }
+    }
+
+    return mean(elasticities);
+}
+
+/**
+ * Calculate point elasticity from a linear regression of quantity on price
+ * @param quantities Quantity values
+ * @param prices Price values
+ * @returns Elasticity at the means, or Infinity if all prices are equal
+ */
+export function elasticityPoint(quantities: number[], prices: number[]): number {
+    const slope = regressionSlope(prices, quantities);
+    return isFinite(slope) ? slope * (mean(prices) / mean(quantities)) : slope;
+}
+
+/**
+ * Calculate elasticity as the slope of a log-log regression
+ * Points with a non-positive quantity or price are ignored.
+ * @param quantities Quantity values
+ * @param prices Price values
+ * @returns Elasticity, or Infinity if all remaining prices are equal
+ * @throws Error if fewer than 2 positive points remain
+ */
+export function elasticityLog(quantities: number[], prices: number[]): number {
+    const logQ: number[] = [];
+    const logP: number[] = [];
+
+    quantities.forEach((q, i) => {
+        if (q > 0 && prices[i] > 0) {
+            logQ.push(Math.log(q));
+            logP.push(Math.log(prices[i]));
+        }
+    });
+
+    if (logQ.length < 2) {
+        throw new Error('Need at least 2 positive data points for log-log regression');
+    }
+
+    return regressionSlope(logP, logQ);
+}
+
+/**
+ * Calculate income elasticity of demand (midpoint method)
+ * @param quantities Quantity values
+ * @param incomes Income values
+ * @returns Income elasticity (> 1 luxury, 0-1 normal, < 0 inferior good)
+ */
+export function incomeElasticity(quantities: number[], incomes: number[]): number {
+    return elasticityMidpoint(quantities, incomes);
+}
+
+/**
+ * Calculate cross-price elasticity of demand (midpoint method)
+ * @param quantitiesX Quantities of good X
+ * @param pricesY Prices of good Y
+ * @returns Cross-price elasticity (> 0 substitutes, < 0 complements)
+ */
+export function crossPriceElasticity(quantitiesX: number[], pricesY: number[]): number {
+    return elasticityMidpoint(quantitiesX, pricesY);
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Midpoint elasticity between two points
+ */
+function midpoint(q1: number, q2: number, p1: number, p2: number): number {
+    const dp = p2 - p1;
+
+    if (dp === 0) {
+        return Infinity;
+    }
+
+    return (q2 - q1) / ((q1 + q2) / 2) / (dp / ((p1 + p2) / 2));
+}
+
+/**
+ * Least-squares slope of y on x, or Infinity if x is constant
+ */
+function regressionSlope(x: number[], y: number[]): number {
+    const xMean = mean(x);
+    const yMean = mean(y);
+    let numerator = 0;
+    let denominator = 0;
+
+    for (let i = 0; i < x.length; i++) {
+        numerator += (x[i] - xMean) * (y[i] - yMean);
+        denominator += (x[i] - xMean) ** 2;
+    }
+
+    return denominator === 0 ? Infinity : numerator / denominator;
+}
+
+/**
+ * Arithmetic mean (NaN for an empty array, as in Julia)
+ */
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
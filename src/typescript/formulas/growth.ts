@@ -0,0 +1,188 @@
+/**
+ * GDP Growth and Growth Rate Calculations
+ *
+ * TypeScript port of src/julia/formulas/gdp_growth.jl. Rates are percentages
+ * and series results keep the Julia layout: sorted by date, with NaN for the
+ * first observation and wherever no earlier comparison point exists.
+ *
+ * Dates are compared through their UTC fields (see utils/dates).
+ */
+
+/**
+ * Growth calculation method
+ * - yoy: year-over-year change
+ * - qoq: quarter-over-quarter change, annualized
+ * - mom: month-over-month change, annualized
+ * - cagr: compound annual growth rate over the whole period
+ */
+export type GrowthMethod = 'yoy' | 'qoq' | 'mom' | 'cagr';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculate growth rates
+ * @param values Series values
+ * @param dates Observation dates
+ * @param method Growth method (default 'yoy')
+ * @returns Rates in date order (a single CAGR value for 'cagr')
+ * @throws Error if the inputs differ in length, have fewer than 2 points or the method is unknown
+ */
+export function gdpGrowth(values: number[], dates: Date[], method: GrowthMethod = 'yoy'): number[] {
+    if (values.length !== dates.length) {
+        throw new Error('Values and dates must have same length');
+    }
+
+    if (values.length < 2) {
+        throw new Error('Need at least 2 data points');
+    }
+
+    const order = dates.map((_, i) => i).sort((a, b) => dates[a].getTime() - dates[b].getTime());
+    const sortedValues = order.map(i => values[i]);
+    const sortedDates = order.map(i => dates[i]);
+
+    switch (method) {
+        case 'yoy':
+            return growthYoY(sortedValues, sortedDates);
+        case 'qoq':
+            return growthQoQ(sortedValues, sortedDates);
+        case 'mom':
+            return growthMoM(sortedValues, sortedDates);
+        case 'cagr':
+            return [growthCagr(sortedValues, sortedDates)];
+        default:
+            throw new Error(`Unknown method: ${String(method)}`);
+    }
+}
+
+/**
+ * Calculate year-over-year growth rates
+ * Each value is compared with the latest observation at least a year earlier.
+ * @param values Values sorted by date
+ * @param dates Sorted dates
+ * @returns Growth rates (%)
+ */
+export function growthYoY(values: number[], dates: Date[]): number[] {
+    return periodGrowth(values, dates, 12, (current, previous) =>
+        previous !== 0 ? ((current - previous) / previous) * 100 : NaN
+    );
+}
+
+/**
+ * Calculate quarter-over-quarter growth rates, annualized
+ * ((V_t / V_{t-1})^4 - 1) * 100
+ * @param values Values sorted by date
+ * @param dates Sorted dates
+ * @returns Growth rates (%)
+ */
+export function growthQoQ(values: number[], dates: Date[]): number[] {
+    return periodGrowth(values, dates, 3, (current, previous) =>
+        previous !== 0 && current > 0 ? ((current / previous) ** 4 - 1) * 100 : NaN
+    );
+}
+
+/**
+ * Calculate month-over-month growth rates, annualized
+ * ((V_t / V_{t-1})^12 - 1) * 100
+ * @param values Values sorted by date
+ * @param dates Sorted dates
+ * @returns Growth rates (%)
+ */
+export function growthMoM(values: number[], dates: Date[]): number[] {
+    return periodGrowth(values, dates, 1, (current, previous) =>
+        previous !== 0 && current > 0 ? ((current / previous) ** 12 - 1) * 100 : NaN
+    );
+}
+
+/**
+ * Calculate the compound annual growth rate between the first and last observation
+ * Years are measured as days / 365.25.
+ * @param values Values sorted by date
+ * @param dates Sorted dates
+ * @returns CAGR (%), or NaN for non-positive values or a zero-length period
+ * @throws Error if there are fewer than 2 points
+ */
+export function growthCagr(values: number[], dates: Date[]): number {
+    if (values.length < 2) {
+        throw new Error('Need at least 2 data points for CAGR');
+    }
+
+    const days = (dates[dates.length - 1].getTime() - dates[0].getTime()) / MS_PER_DAY;
+    return cagr(values[0], values[values.length - 1], days / 365.25);
+}
+
+/**
+ * Calculate a compound annual growth rate
+ * @param initialValue Value at the start
+ * @param finalValue Value at the end
+ * @param years Length of the period in years
+ * @returns CAGR (%), or NaN for non-positive values or a zero-length period
+ */
+export function cagr(initialValue: number, finalValue: number, years: number): number {
+    if (initialValue <= 0 || finalValue <= 0 || years === 0) {
+        return NaN;
+    }
+
+    return ((finalValue / initialValue) ** (1 / years) - 1) * 100;
+}
+
+/**
+ * Calculate simple period-over-period growth rates
+ * @param values Values in period order
+ * @returns Growth rates (%), NaN first
+ */
+export function simpleGrowthRate(values: number[]): number[] {
+    const rates = [NaN];
+
+    for (let i = 1; i < values.length; i++) {
+        rates.push(values[i - 1] !== 0 ? ((values[i] - values[i - 1]) / values[i - 1]) * 100 : NaN);
+    }
+
+    return rates;
+}
+
+/**
+ * Subtract calendar months from a date, clamping to the end of the month
+ * (2020-03-31 minus one month is 2020-02-29), as Julia's Dates does
+ * @param date Date (UTC fields are used)
+ * @param months Number of months to subtract
+ * @returns New Date
+ */
+export function subtractMonths(date: Date, months: number): Date {
+    const totalMonths = date.getUTCFullYear() * 12 + date.getUTCMonth() - months;
+    const year = Math.floor(totalMonths / 12);
+    const month = totalMonths - year * 12;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const time = date.getTime() - Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+    return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)) + time);
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Compare each value with the latest observation at least `months` earlier
+ */
+function periodGrowth(
+    values: number[],
+    dates: Date[],
+    months: number,
+    rate: (current: number, previous: number) => number
+): number[] {
+    const rates = [NaN];
+
+    for (let i = 1; i < values.length; i++) {
+        const cutoff = subtractMonths(dates[i], months).getTime();
+        let previous = -1;
+
+        for (let j = i - 1; j >= 0; j--) {
+            if (dates[j].getTime() <= cutoff) {
+                previous = j;
+                break;
+            }
+        }
+
+        rates.push(previous >= 0 ? rate(values[i], values[previous]) : NaN);
+    }
+
+    return rates;
+}
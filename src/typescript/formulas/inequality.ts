@@ -0,0 +1,182 @@
+/**
+ * Lorenz Curve and Inequality Measures
+ *
+ * TypeScript port of src/julia/formulas/lorenz.jl: Lorenz curve, Gini,
+ * Atkinson, Theil and Palma measures with the same edge-case behaviour.
+ */
+
+/**
+ * Lorenz curve coordinates; both arrays have n + 1 points starting at 0
+ */
+export interface LorenzCurve {
+    populationShare: number[];
+    incomeShare: number[];
+}
+
+/**
+ * Calculate Lorenz curve coordinates
+ * @param incomes Income distribution (one value per person/household)
+ * @returns Cumulative population and income shares
+ * @throws Error if an income is negative
+ */
+export function lorenzCurve(incomes: number[]): LorenzCurve {
+    assertNonNegative(incomes);
+
+    const n = incomes.length;
+    const sorted = [...incomes].sort((a, b) => a - b);
+    const total = sum(sorted);
+
+    const populationShare = Array.from({ length: n + 1 }, (_, i) => i / n);
+    const incomeShare = [0];
+    let cumulative = 0;
+
+    for (const income of sorted) {
+        cumulative += income;
+        incomeShare.push(total === 0 ? 0 : cumulative / total);
+    }
+
+    return { populationShare, incomeShare };
+}
+
+/**
+ * Calculate the Gini coefficient
+ * G = 2 Σ(i y_i) / (n Σ y_i) - (n + 1) / n over incomes sorted ascending
+ * @param incomes Income distribution
+ * @returns Gini coefficient (0 = equality), 0 if all incomes are zero, NaN if empty
+ * @throws Error if an income is negative
+ */
+export function giniCoefficient(incomes: number[]): number {
+    assertNonNegative(incomes);
+
+    const n = incomes.length;
+
+    if (n === 0) {
+        return NaN;
+    }
+
+    const sorted = [...incomes].sort((a, b) => a - b);
+    const total = sum(sorted);
+
+    if (total === 0) {
+        return 0;
+    }
+
+    const weighted = sorted.reduce((acc, income, i) => acc + (i + 1) * income, 0);
+    return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+/**
+ * Calculate the Gini coefficient from Lorenz curve coordinates (trapezoidal rule)
+ * @param populationShare Cumulative population share
+ * @param incomeShare Cumulative income share
+ * @returns Gini coefficient clamped to [0, 1]
+ * @throws Error if the arrays differ in length
+ */
+export function giniFromLorenz(populationShare: number[], incomeShare: number[]): number {
+    if (populationShare.length !== incomeShare.length) {
+        throw new Error('Population and income shares must have same length');
+    }
+
+    let area = 0;
+    for (let i = 1; i < populationShare.length; i++) {
+        area += (populationShare[i] - populationShare[i - 1]) * ((incomeShare[i] + incomeShare[i - 1]) / 2);
+    }
+
+    return clamp01(1 - 2 * area);
+}
+
+/**
+ * Calculate the Atkinson inequality index
+ * Zero incomes are ignored.
+ * @param incomes Income distribution
+ * @param epsilon Inequality aversion (≥ 0, default 1)
+ * @returns Atkinson index clamped to [0, 1], NaN if no income is positive
+ * @throws Error if an income or epsilon is negative
+ */
+export function atkinsonIndex(incomes: number[], epsilon = 1): number {
+    assertNonNegative(incomes);
+
+    if (epsilon < 0) {
+        throw new Error('Epsilon must be non-negative');
+    }
+
+    const positive = incomes.filter(x => x > 0);
+
+    if (positive.length === 0) {
+        return NaN;
+    }
+
+    const meanIncome = sum(positive) / positive.length;
+    const equivalent =
+        epsilon === 1
+            ? Math.exp(sum(positive.map(Math.log)) / positive.length)
+            : (sum(positive.map(x => x ** (1 - epsilon))) / positive.length) ** (1 / (1 - epsilon));
+
+    return clamp01(1 - equivalent / meanIncome);
+}
+
+/**
+ * Calculate the Theil T index
+ * Zero incomes are ignored.
+ * @param incomes Income distribution
+ * @returns Theil index (0 = equality, log(n) = maximal), NaN if no income is positive
+ * @throws Error if an income is negative
+ */
+export function theilIndex(incomes: number[]): number {
+    assertNonNegative(incomes);
+
+    const positive = incomes.filter(x => x > 0);
+
+    if (positive.length === 0) {
+        return NaN;
+    }
+
+    const meanIncome = sum(positive) / positive.length;
+    return sum(positive.map(x => (x / meanIncome) * Math.log(x / meanIncome))) / positive.length;
+}
+
+/**
+ * Calculate the Palma ratio (income share of the top 10% over the bottom 40%)
+ * @param incomes Income distribution
+ * @returns Palma ratio, NaN if total income is zero, Infinity if the bottom 40% has none
+ */
+export function palmaRatio(incomes: number[]): number {
+    const sorted = [...incomes].sort((a, b) => a - b);
+    const n = sorted.length;
+    const total = sum(sorted);
+
+    if (total === 0) {
+        return NaN;
+    }
+
+    // Julia's 1-based ceil(0.9n):end and 1:ceil(0.4n)
+    const top = sum(sorted.slice(Math.ceil(0.9 * n) - 1));
+    const bottom = sum(sorted.slice(0, Math.ceil(0.4 * n)));
+
+    return bottom === 0 ? Infinity : top / bottom;
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Reject negative incomes
+ */
+function assertNonNegative(incomes: number[]): void {
+    if (incomes.some(x => x < 0)) {
+        throw new Error('Incomes cannot be negative');
+    }
+}
+
+/**
+ * Sum of an array
+ */
+function sum(values: number[]): number {
+    return values.reduce((acc, v) => acc + v, 0);
+}
+
+/**
+ * Clamp a value to [0, 1]
+ */
+function clamp01(value: number): number {
+    return Math.max(0, Math.min(1, value));
+}
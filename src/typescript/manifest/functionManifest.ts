@@ -0,0 +1,333 @@
+/**
+ * Custom Function Manifest Generation
+ *
+ * Generates the host declarations of custom functions from their
+ * CustomFunctionMetadata, so each function is described once:
+ * - Office: functions.json (the namespace itself is declared in manifest.xml)
+ * - LibreOffice Calc: the CalcAddIns.xcu configuration and the UNO IDL
+ *   interface of the add-in component
+ */
+
+import { CustomFunctionMetadata, CustomFunctionParameter } from '../adapters/ISpreadsheetAdapter';
+
+/**
+ * Office functions.json parameter
+ */
+export interface OfficeFunctionParameter {
+    name: string;
+    description: string;
+    type: 'string' | 'number' | 'boolean' | 'any';
+    dimensionality: 'scalar' | 'matrix';
+    optional?: boolean;
+    repeating?: boolean;
+}
+
+/**
+ * Office functions.json entry
+ */
+export interface OfficeFunction {
+    /** Id passed to CustomFunctions.associate (the full name, e.g. "ECON.GINI") */
+    id: string;
+    /** Name shown after the namespace (e.g. "GINI") */
+    name: string;
+    description: string;
+    helpUrl?: string;
+    result: {
+        type: 'string' | 'number' | 'boolean' | 'any';
+        dimensionality: 'scalar' | 'matrix';
+    };
+    parameters: OfficeFunctionParameter[];
+    options?: {
+        volatile?: boolean;
+        stream?: boolean;
+        cancelable?: boolean;
+    };
+}
+
+/**
+ * Office functions.json document
+ */
+export interface OfficeFunctionsJson {
+    functions: OfficeFunction[];
+}
+
+/**
+ * Options for the LibreOffice add-in description
+ */
+export interface CalcAddinOptions {
+    /** Implementation/service name of the add-in component */
+    serviceName?: string;
+    /** Name of the UNO interface holding the functions */
+    interfaceName?: string;
+    /** Function wizard category (e.g. "Add-In", "Statistical", "Financial") */
+    category?: string;
+    /** Language of display names and descriptions */
+    locale?: string;
+}
+
+/**
+ * Namespace of the toolkit's functions
+ */
+export const DEFAULT_NAMESPACE = 'ECON';
+
+const DEFAULT_CALC_OPTIONS: Required<CalcAddinOptions> = {
+    serviceName: 'org.economictoolkit.EconFunctions',
+    interfaceName: 'XEconFunctions',
+    category: 'Add-In',
+    locale: 'en'
+};
+
+const FUNCTION_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z][A-Za-z0-9_]*)*$/;
+const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check that function metadata can be declared in both hosts
+ * @param metadata Function metadata
+ * @throws Error describing the first problem found
+ */
+export function validateFunctionMetadata(metadata: CustomFunctionMetadata): void {
+    const fail = (reason: string): never => {
+        throw new Error(`Invalid metadata for ${metadata.name || '(unnamed function)'}: ${reason}`);
+    };
+
+    if (!metadata.name || !FUNCTION_NAME_PATTERN.test(metadata.name)) {
+        fail('name must be letters, digits and underscores separated by periods');
+    }
+
+    if (metadata.streaming && metadata.volatile) {
+        fail('a streaming function cannot be volatile');
+    }
+
+    const seen = new Set<string>();
+    let sawOptional = false;
+
+    metadata.parameters.forEach((param, index) => {
+        if (!PARAMETER_NAME_PATTERN.test(param.name)) {
+            fail(`parameter name "${param.name}" is not a valid identifier`);
+        }
+        if (seen.has(param.name.toLowerCase())) {
+            fail(`duplicate parameter "${param.name}"`);
+        }
+        seen.add(param.name.toLowerCase());
+
+        if (param.repeating && index !== metadata.parameters.length - 1) {
+            fail(`only the last parameter can repeat ("${param.name}" is not last)`);
+        }
+        if (sawOptional && !param.optional && !param.repeating) {
+            fail(`required parameter "${param.name}" follows an optional one`);
+        }
+        sawOptional = sawOptional || !!param.optional;
+    });
+}
+
+/**
+ * Generate Office's functions.json
+ * @param functions Function metadata
+ * @param namespace Namespace declared in manifest.xml (default "ECON")
+ * @returns functions.json document; serialize with JSON.stringify
+ * @throws Error if metadata is invalid, outside the namespace or duplicated
+ */
+export function generateOfficeFunctionsJson(
+    functions: CustomFunctionMetadata[],
+    namespace: string = DEFAULT_NAMESPACE
+): OfficeFunctionsJson {
+    const prefix = `${namespace.toUpperCase()}.`;
+    const ids = new Set<string>();
+
+    return {
+        functions: functions.map(metadata => {
+            validateFunctionMetadata(metadata);
+
+            const id = metadata.name.toUpperCase();
+            if (!id.startsWith(prefix)) {
+                throw new Error(`Function ${metadata.name} is not in the ${namespace} namespace`);
+            }
+            if (ids.has(id)) {
+                throw new Error(`Function ${metadata.name} is declared twice`);
+            }
+            ids.add(id);
+
+            const entry: OfficeFunction = {
+                id,
+                name: id.substring(prefix.length),
+                description: metadata.description,
+                result: officeType(metadata.returnType),
+                parameters: metadata.parameters.map(param => ({
+                    name: param.name,
+                    description: param.description,
+                    ...officeType(param.type),
+                    ...(param.optional ? { optional: true } : {}),
+                    ...(param.repeating ? { repeating: true } : {})
+                }))
+            };
+
+            if (metadata.helpUrl) {
+                entry.helpUrl = metadata.helpUrl;
+            }
+
+            const options = {
+                ...(metadata.volatile ? { volatile: true } : {}),
+                ...(metadata.streaming ? { stream: true } : {}),
+                ...(metadata.cancelable ? { cancelable: true } : {})
+            };
+            if (Object.keys(options).length > 0) {
+                entry.options = options;
+            }
+
+            return entry;
+        })
+    };
+}
+
+/**
+ * Generate the CalcAddIns.xcu configuration describing the functions to Calc's
+ * function wizard
+ * Help URLs and the volatile flag have no XCU equivalent and are omitted.
+ * @param functions Function metadata
+ * @param options Service name, category and locale
+ * @returns XCU document
+ * @throws Error if metadata is invalid
+ */
+export function generateCalcAddinXcu(functions: CustomFunctionMetadata[], options: CalcAddinOptions = {}): string {
+    const { serviceName, category, locale } = { ...DEFAULT_CALC_OPTIONS, ...options };
+    const localized = (value: string): string => `<value xml:lang="${locale}">${escapeXml(value)}</value>`;
+    const lines: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<oor:component-data xmlns:oor="http://openoffice.org/2001/registry" ' +
+            'xmlns:xs="http://www.w3.org/2001/XMLSchema" oor:name="CalcAddIns" oor:package="org.openoffice.Office">',
+        '  <node oor:name="AddInInfo">',
+        `    <node oor:name="${escapeXml(serviceName)}" oor:op="replace">`,
+        '      <node oor:name="AddInFunctions">'
+    ];
+
+    functions.forEach(metadata => {
+        validateFunctionMetadata(metadata);
+
+        lines.push(
+            `        <node oor:name="${unoMethodName(metadata.name)}" oor:op="replace">`,
+            `          <prop oor:name="DisplayName">${localized(metadata.name.toUpperCase())}</prop>`,
+            `          <prop oor:name="Description">${localized(metadata.description)}</prop>`,
+            `          <prop oor:name="Category"><value>${escapeXml(category)}</value></prop>`,
+            '          <prop oor:name="CompatibilityName">' +
+                `<value xml:lang="en-US">${escapeXml(metadata.name.toUpperCase())}</value></prop>`,
+            '          <node oor:name="Parameters">'
+        );
+
+        metadata.parameters.forEach(param => {
+            const description = param.optional ? `${param.description} (optional)` : param.description;
+            lines.push(
+                `            <node oor:name="${param.name}" oor:op="replace">`,
+                `              <prop oor:name="DisplayName">${localized(param.name)}</prop>`,
+                `              <prop oor:name="Description">${localized(description)}</prop>`,
+                '            </node>'
+            );
+        });
+
+        lines.push('          </node>', '        </node>');
+    });
+
+    lines.push('      </node>', '    </node>', '  </node>', '</oor:component-data>', '');
+    return lines.join('\n');
+}
+
+/**
+ * Generate the UNO IDL interface implemented by the Calc add-in component
+ * Optional parameters become `any`, repeating parameters `sequence< any >`,
+ * ranges `sequence< sequence< any > >` and streaming results XVolatileResult.
+ * @param functions Function metadata
+ * @param options Service and interface names
+ * @returns IDL source
+ * @throws Error if metadata is invalid
+ */
+export function generateCalcAddinIdl(functions: CustomFunctionMetadata[], options: CalcAddinOptions = {}): string {
+    const { serviceName, interfaceName } = { ...DEFAULT_CALC_OPTIONS, ...options };
+    const modules = serviceName.split('.').slice(0, -1);
+
+    const methods = functions.map(metadata => {
+        validateFunctionMetadata(metadata);
+
+        const params = metadata.parameters.map(param => `[in] ${idlParameterType(param)} ${param.name}`);
+        const result = metadata.streaming
+            ? 'com::sun::star::sheet::XVolatileResult'
+            : idlType(metadata.returnType);
+
+        return `        /** ${metadata.description.replace(/\*\//g, '* /')} */\n` +
+            `        ${result} ${unoMethodName(metadata.name)}(${params.join(', ')});`;
+    });
+
+    return [
+        '#include <com/sun/star/uno/XInterface.idl>',
+        '#include <com/sun/star/sheet/XVolatileResult.idl>',
+        '',
+        `${modules.map(name => `module ${name} {`).join(' ')}`,
+        `    interface ${interfaceName} : com::sun::star::uno::XInterface`,
+        '    {',
+        methods.join('\n\n'),
+        '    };',
+        `${modules.map(() => '};').join(' ')}`,
+        ''
+    ].join('\n');
+}
+
+/**
+ * Derive the UNO method name of a function ("ECON.INCOME_ELASTICITY" -> "econIncomeElasticity")
+ * @param name Function name
+ * @returns camelCase method name
+ */
+export function unoMethodName(name: string): string {
+    return name
+        .split(/[._]/)
+        .filter(part => part.length > 0)
+        .map((part, index) => {
+            const lower = part.toLowerCase();
+            return index === 0 ? lower : lower.charAt(0).toUpperCase() + lower.substring(1);
+        })
+        .join('');
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Map a metadata type to an Office type and dimensionality
+ */
+function officeType(type: CustomFunctionParameter['type']): Pick<OfficeFunctionParameter, 'type' | 'dimensionality'> {
+    return type === 'range' ? { type: 'any', dimensionality: 'matrix' } : { type, dimensionality: 'scalar' };
+}
+
+/**
+ * Map a metadata type to a UNO IDL type (Calc passes booleans as long)
+ */
+function idlType(type: CustomFunctionParameter['type']): string {
+    switch (type) {
+        case 'number':
+            return 'double';
+        case 'string':
+            return 'string';
+        case 'boolean':
+            return 'long';
+        default:
+            return 'sequence< sequence< any > >';
+    }
+}
+
+/**
+ * IDL type of a parameter, accounting for optional and repeating parameters
+ */
+function idlParameterType(param: CustomFunctionParameter): string {
+    if (param.repeating) {
+        return 'sequence< any >';
+    }
+    return param.optional ? 'any' : idlType(param.type);
+}
+
+/**
+ * Escape text for XML content and attributes
+ */
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,107 @@
+/**
+ * ChartBuilder - Ready-Made Charts for Quick Looks at Data
+ *
+ * Builds the charts most often wanted right after inserting data: a time
+ * series chart over a table written by SeriesWriter, and a Lorenz curve with
+ * its line of equality over the output of ECON.LORENZ. Built only on
+ * ISpreadsheetAdapter.createChart, so the charts look alike in Excel and Calc.
+ */
+
+import { ChartInfo, ISpreadsheetAdapter, RangeAddress } from '../adapters/ISpreadsheetAdapter';
+import { formatAddress, isRangeName, offsetRange, parseAddress, rangeSize, resizeRange } from '../utils/address';
+import { defaultChartPosition } from '../utils/charts';
+
+/**
+ * Options for a time series chart
+ */
+export interface TimeSeriesChartOptions {
+    title?: string;
+    yAxisTitle?: string;
+    /** Series (column headers) to plot against the secondary value axis */
+    secondaryAxis?: string[];
+    secondaryAxisTitle?: string;
+    /** Chart type (default 'line') */
+    type?: 'line' | 'column' | 'area';
+    /** Top-left cell, or range to cover (default: two columns right of the table) */
+    position?: RangeAddress;
+    name?: string;
+}
+
+/**
+ * Options for a Lorenz curve chart
+ */
+export interface LorenzChartOptions {
+    /** Chart title (default 'Lorenz Curve') */
+    title?: string;
+    /** Top-left cell, or range to cover (default: two columns right of the curve) */
+    position?: RangeAddress;
+    name?: string;
+}
+
+/**
+ * ChartBuilder class
+ */
+export class ChartBuilder {
+    private adapter: ISpreadsheetAdapter;
+
+    constructor(adapter: ISpreadsheetAdapter) {
+        this.adapter = adapter;
+    }
+
+    /**
+     * Chart the series of a wide table, one line per series against its dates
+     * @param table Table including its column header row, such as the tableAddress
+     * returned by SeriesWriter.write with the wide layout, or a name defined over it
+     * @param options Titles, axes, type and placement
+     * @returns The new chart
+     */
+    async timeSeries(table: RangeAddress, options: TimeSeriesChartOptions = {}): Promise<ChartInfo> {
+        return this.adapter.createChart({
+            type: options.type || 'line',
+            source: table,
+            hasHeaders: true,
+            title: options.title,
+            xAxisTitle: 'Date',
+            yAxisTitle: options.yAxisTitle,
+            secondaryAxis: options.secondaryAxis,
+            secondaryAxisTitle: options.secondaryAxisTitle,
+            position: options.position,
+            name: options.name
+        });
+    }
+
+    /**
+     * Chart a Lorenz curve with its line of equality
+     * @param curve Two columns without headers, cumulative population share then
+     * cumulative income share, as returned by ECON.LORENZ; or a name defined over them
+     * @param options Title and placement
+     * @returns The new chart
+     * @throws Error if the curve does not have two columns
+     */
+    async lorenzCurve(curve: RangeAddress, options: LorenzChartOptions = {}): Promise<ChartInfo> {
+        const range = parseAddress(isRangeName(curve) ? await this.adapter.resolveNamedRange(curve) : curve);
+        const { rows, columns } = rangeSize(range);
+
+        if (columns !== 2) {
+            throw new Error(`A Lorenz curve needs two columns (population share, income share), got ${columns}`);
+        }
+
+        const population = formatAddress(resizeRange(range, rows, 1));
+        const income = formatAddress(resizeRange(offsetRange(range, 0, 1), rows, 1));
+
+        return this.adapter.createChart({
+            type: 'scatter',
+            lines: true,
+            series: [
+                { name: 'Lorenz curve', values: income, xValues: population },
+                // Equal shares: income share equals population share at every point
+                { name: 'Line of equality', values: population, xValues: population, dashed: true }
+            ],
+            title: options.title ?? 'Lorenz Curve',
+            xAxisTitle: 'Cumulative share of population',
+            yAxisTitle: 'Cumulative share of income',
+            position: options.position ?? formatAddress(defaultChartPosition(range)),
+            name: options.name
+        });
+    }
+}
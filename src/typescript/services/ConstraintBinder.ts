@@ -0,0 +1,248 @@
+/**
+ * ConstraintBinder - Keeps Constraint Systems in Step with the Sheet
+ *
+ * Binds the variables of a ConstraintSystem to cells. Input cells are read
+ * before solving and fix their variables; solved values of the other
+ * variables are written to their output cells. Watching the inputs solves
+ * again whenever one of them changes, so a model laid out in the sheet keeps
+ * its identities (GDP = C + I + G + NX, ...) as the user edits it, without the
+ * Julia backend.
+ */
+
+import { CellAddress, CellValue, ISpreadsheetAdapter } from '../adapters/ISpreadsheetAdapter';
+import { ConstraintSolution, ConstraintSystem, SolveOptions } from '../formulas/constraints';
+import { formatAddress, isRangeName, parseAddress, rangeSize } from '../utils/address';
+
+/**
+ * How a bound cell is used
+ * - input: read before solving; a number fixes the variable, an empty cell leaves it free
+ * - output: receives the variable's solved value
+ */
+export type BindingRole = 'input' | 'output';
+
+/**
+ * A variable bound to a cell
+ */
+export interface VariableBinding {
+    variable: string;
+    /** Cell address or a name referring to one cell */
+    address: CellAddress;
+    role: BindingRole;
+}
+
+/**
+ * Result of solving a bound system
+ */
+export interface BoundSolution extends ConstraintSolution {
+    /** Output cells written, sheet-qualified or as the names bound; none unless the system converged */
+    written: CellAddress[];
+}
+
+/**
+ * Options for watching input cells
+ */
+export interface ConstraintWatchOptions extends SolveOptions {
+    /** Wait until inputs have stopped changing for this long before solving (default 0) */
+    debounceMs?: number;
+    /** Called with the result of every solve started by a change */
+    onSolved?: (solution: BoundSolution) => void;
+    /** Called when such a solve fails (default: logged to the console) */
+    onError?: (error: Error) => void;
+}
+
+/**
+ * ConstraintBinder class
+ */
+export class ConstraintBinder {
+    private adapter: ISpreadsheetAdapter;
+    private system: ConstraintSystem;
+    private bindings: VariableBinding[];
+    private solving: Promise<unknown>;
+
+    /**
+     * @param adapter Adapter of the workbook holding the cells
+     * @param system Constraint system to keep in step (default: a new, empty one)
+     */
+    constructor(adapter: ISpreadsheetAdapter, system: ConstraintSystem = new ConstraintSystem()) {
+        this.adapter = adapter;
+        this.system = system;
+        this.bindings = [];
+        this.solving = Promise.resolve();
+    }
+
+    /**
+     * The constraint system being solved
+     */
+    getSystem(): ConstraintSystem {
+        return this.system;
+    }
+
+    /**
+     * Bind a variable to a cell, replacing its previous binding
+     * @param variable Variable name
+     * @param address Single cell, or a name referring to one (looked up when solving)
+     * @param role 'input' to read the variable from the cell, 'output' to write it (default)
+     * @throws Error if the address is not a single cell
+     */
+    bind(variable: string, address: CellAddress, role: BindingRole = 'output'): void {
+        if (!isRangeName(address)) {
+            const { rows, columns } = rangeSize(parseAddress(address));
+            if (rows !== 1 || columns !== 1) {
+                throw new Error(`Variable ${variable} must be bound to a single cell, got ${address}`);
+            }
+        }
+
+        this.unbind(variable);
+        this.bindings.push({ variable, address, role });
+    }
+
+    /**
+     * Remove a variable's binding
+     * @param variable Variable name
+     * @returns True if the variable was bound
+     */
+    unbind(variable: string): boolean {
+        const count = this.bindings.length;
+        this.bindings = this.bindings.filter(b => b.variable !== variable);
+        return this.bindings.length < count;
+    }
+
+    /**
+     * Get the bindings in the order they were made
+     */
+    getBindings(): VariableBinding[] {
+        return [...this.bindings];
+    }
+
+    /**
+     * Read the inputs, solve and write the outputs
+     * Outputs are only written when every constraint holds; otherwise the
+     * cells keep their values and the result lists the failing constraints.
+     * @param options Iteration limit and tolerance
+     * @returns The solution and the cells written
+     * @throws Error if an input cell holds something other than a number
+     */
+    async solve(options: SolveOptions = {}): Promise<BoundSolution> {
+        const run = this.solving.then(() => this.solveOnce(options));
+        // Solves share the system and the cells, so they run one at a time
+        this.solving = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * Solve whenever an input cell changes
+     * Inputs are resolved to sheet-qualified cells when watching starts; bind
+     * inputs before calling this.
+     * @param options Solver options, debounce delay and result callbacks
+     * @returns Function that stops watching
+     * @throws Error if no inputs are bound or one cannot be resolved
+     */
+    async watch(options: ConstraintWatchOptions = {}): Promise<() => void> {
+        const inputs = (await this.resolveBindings()).filter(b => b.role === 'input');
+
+        if (inputs.length === 0) {
+            throw new Error('No input cells to watch');
+        }
+
+        const { debounceMs, onSolved, onError, ...solveOptions } = options;
+        const report = onError || ((error: Error) => console.error('Failed to solve constraints:', error));
+
+        return this.adapter.onCellsChanged(
+            () => {
+                void this.solve(solveOptions).then(onSolved, report);
+            },
+            { ranges: inputs.map(b => b.address), debounceMs }
+        );
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Read the inputs, solve and write the outputs
+     * @private
+     */
+    private async solveOnce(options: SolveOptions): Promise<BoundSolution> {
+        const bindings = await this.qualifyBindings();
+        const inputs = bindings.filter(b => b.role === 'input');
+        const outputs = bindings.filter(b => b.role === 'output');
+
+        const values = await this.adapter.batch(async context => {
+            const reads = inputs.map(b => context.getCellValue(b.address));
+            await context.sync();
+            return reads.map(read => read.value);
+        });
+
+        inputs.forEach((binding, i) => this.setInput(binding, values[i]));
+
+        const solution = this.system.solve(options);
+        const written = solution.converged ? outputs.filter(b => b.variable in solution.values) : [];
+
+        if (written.length > 0) {
+            await this.adapter.batch(async context => {
+                written.forEach(b => context.setCellValue(b.address, solution.values[b.variable]));
+            });
+        }
+
+        return { ...solution, written: written.map(b => b.address) };
+    }
+
+    /**
+     * Fix a variable to its input cell's number, or free it if the cell is empty
+     * @private
+     */
+    private setInput(binding: VariableBinding, value: CellValue): void {
+        if (value === null || value === '') {
+            if (this.system.isFixed(binding.variable)) {
+                this.system.clearVariable(binding.variable);
+            }
+            return;
+        }
+
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            throw new Error(`Input ${binding.variable} (${binding.address}) must be a number`);
+        }
+
+        this.system.setVariable(binding.variable, value, true);
+    }
+
+    /**
+     * Bindings with addresses qualified by the active sheet; names are kept
+     * @private
+     */
+    private async qualifyBindings(): Promise<VariableBinding[]> {
+        const activeSheet = await this.adapter.getActiveSheetName();
+
+        return this.bindings.map(binding => {
+            if (isRangeName(binding.address)) {
+                return binding;
+            }
+
+            const range = parseAddress(binding.address);
+            return { ...binding, address: formatAddress({ ...range, sheetName: range.sheetName || activeSheet }) };
+        });
+    }
+
+    /**
+     * Bindings with sheet-qualified cell addresses, names included
+     * Unqualified watched ranges would match every sheet.
+     * @private
+     */
+    private async resolveBindings(): Promise<VariableBinding[]> {
+        const activeSheet = await this.adapter.getActiveSheetName();
+
+        return Promise.all(
+            this.bindings.map(async binding => {
+                const range = parseAddress(
+                    isRangeName(binding.address) ? await this.adapter.resolveNamedRange(binding.address) : binding.address
+                );
+                const { rows, columns } = rangeSize(range);
+
+                if (rows !== 1 || columns !== 1) {
+                    throw new Error(`Variable ${binding.variable} must be bound to a single cell, got ${binding.address}`);
+                }
+
+                return { ...binding, address: formatAddress({ ...range, sheetName: range.sheetName || activeSheet }) };
+            })
+        );
+    }
+}
@@ -0,0 +1,329 @@
+/**
+ * ProvenanceRegistry - Records Where Inserted Series Came From
+ *
+ * Keeps a typed record of every block SeriesWriter inserts (source, series
+ * ids, date ranges, fetch time, cache keys, target range and the layout
+ * options needed to rewrite it) in the document's own metadata, so a workbook
+ * can be audited and refreshed after it has been saved and sent to someone else.
+ *
+ * The stored document carries a schema version. Documents written by older
+ * versions are migrated step by step when read; documents written by a newer
+ * version are refused rather than overwritten.
+ */
+
+import { ISpreadsheetAdapter, JsonValue, RangeAddress } from '../adapters/ISpreadsheetAdapter';
+import { SeriesLayout, SeriesWriteOptions, SeriesWriteResult, TimeSeries } from './SeriesWriter';
+
+/**
+ * Metadata key the registry is stored under
+ */
+export const PROVENANCE_METADATA_KEY = 'provenance';
+
+/**
+ * Current schema version of the stored registry
+ */
+export const PROVENANCE_SCHEMA_VERSION = 3;
+
+/**
+ * Provenance of one series in a block
+ */
+export interface SeriesProvenance {
+    /** Data source id (e.g., "fred") */
+    source: string;
+    /** Series id in its source (e.g., "GDPC1") */
+    seriesId: string;
+    title: string | null;
+    units: string | null;
+    frequency: string | null;
+    /** First observation date (YYYY-MM-DD), or null if the series was empty */
+    startDate: string | null;
+    /** Last observation date (YYYY-MM-DD), or null if the series was empty */
+    endDate: string | null;
+    /** Key of the cached response the series was read from, if any */
+    cacheKey: string | null;
+}
+
+/**
+ * Provenance of one inserted block
+ */
+export interface BlockProvenance {
+    /** Whole block, sheet-qualified */
+    address: RangeAddress;
+    /** Workbook-scoped name defined over the block, if any */
+    name: string | null;
+    /** Table over the block's data rows, if any; a refresh appends new observations to it */
+    table: string | null;
+    layout: SeriesLayout;
+    /** Whether the block starts with the provenance header block */
+    includeHeader: boolean;
+    /** Number format of the value cells, if one was set */
+    valueFormat: string | null;
+    /** When the data was fetched (ISO 8601) */
+    fetchedAt: string;
+    series: SeriesProvenance[];
+}
+
+/**
+ * The registry as stored in document metadata
+ */
+export interface ProvenanceDocument {
+    version: number;
+    blocks: BlockProvenance[];
+}
+
+/**
+ * Upgrade step from one schema version to the next
+ */
+export interface ProvenanceMigration {
+    /** Version this step produces; it is applied to documents at version - 1 */
+    version: number;
+    migrate(document: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Upgrade steps, in version order
+ * Add a step here whenever PROVENANCE_SCHEMA_VERSION is raised.
+ */
+export const PROVENANCE_MIGRATIONS: ProvenanceMigration[] = [
+    {
+        // 2: record the header, value format and series descriptions needed to rewrite a block
+        version: 2,
+        migrate: document => ({
+            ...document,
+            blocks: (document.blocks as Array<Record<string, unknown>>).map(block => ({
+                ...block,
+                includeHeader: true,
+                valueFormat: null,
+                series: (block.series as Array<Record<string, unknown>>).map(series => ({
+                    ...series,
+                    title: null,
+                    units: null,
+                    frequency: null
+                }))
+            }))
+        })
+    },
+    {
+        // 3: record the table written over the block's data rows
+        version: 3,
+        migrate: document => ({
+            ...document,
+            blocks: (document.blocks as Array<Record<string, unknown>>).map(block => ({ ...block, table: null }))
+        })
+    }
+];
+
+/**
+ * Options for recording a write
+ */
+export interface RecordWriteOptions extends SeriesWriteOptions {
+    /** Cache keys by series id */
+    cacheKeys?: Record<string, string>;
+}
+
+/**
+ * Bring a stored registry up to the current schema version
+ * @param stored Value read from document metadata (null if none was stored)
+ * @param migrations Upgrade steps (default PROVENANCE_MIGRATIONS)
+ * @param version Version to migrate to (default PROVENANCE_SCHEMA_VERSION)
+ * @returns Registry at the given version
+ * @throws Error if the value is not a registry, was written by a newer version,
+ * or a step between its version and the current one is missing
+ */
+export function migrateProvenance(
+    stored: unknown,
+    migrations: ProvenanceMigration[] = PROVENANCE_MIGRATIONS,
+    version: number = PROVENANCE_SCHEMA_VERSION
+): ProvenanceDocument {
+    if (stored === null || stored === undefined) {
+        return { version, blocks: [] };
+    }
+
+    const storedVersion = typeof stored === 'object' && !Array.isArray(stored) ? (stored as { version?: unknown }).version : undefined;
+
+    if (typeof storedVersion !== 'number' || !Number.isInteger(storedVersion)) {
+        throw new Error('Stored provenance is not a versioned registry');
+    }
+
+    let document = stored as Record<string, unknown>;
+
+    if (storedVersion > version) {
+        throw new Error(`Stored provenance has schema version ${storedVersion}; this version reads up to ${version}`);
+    }
+
+    for (let next = storedVersion + 1; next <= version; next++) {
+        const step = migrations.find(m => m.version === next);
+
+        if (!step) {
+            throw new Error(`No provenance migration to schema version ${next}`);
+        }
+
+        document = { ...step.migrate(document), version: next };
+    }
+
+    return document as unknown as ProvenanceDocument;
+}
+
+/**
+ * Describe a series for the registry
+ * @param series Series as written
+ * @param cacheKey Key of the cached response it was read from
+ * @returns Series provenance with its observation date range
+ */
+export function seriesProvenance(series: TimeSeries, cacheKey?: string): SeriesProvenance {
+    const times = series.observations
+        .map(obs => (obs.date instanceof Date ? obs.date : new Date(obs.date)).getTime())
+        .filter(time => !isNaN(time));
+    const day = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+    return {
+        source: series.source,
+        seriesId: series.id,
+        title: series.title || null,
+        units: series.units || null,
+        frequency: series.frequency || null,
+        startDate: times.length > 0 ? day(Math.min(...times)) : null,
+        endDate: times.length > 0 ? day(Math.max(...times)) : null,
+        cacheKey: cacheKey ?? null
+    };
+}
+
+/**
+ * ProvenanceRegistry class
+ */
+export class ProvenanceRegistry {
+    private adapter: ISpreadsheetAdapter;
+    private key: string;
+
+    /**
+     * @param adapter Adapter of the workbook to record in
+     * @param key Metadata key to store the registry under (default PROVENANCE_METADATA_KEY)
+     */
+    constructor(adapter: ISpreadsheetAdapter, key: string = PROVENANCE_METADATA_KEY) {
+        this.adapter = adapter;
+        this.key = key;
+    }
+
+    /**
+     * Read the registry, migrating it in memory if it was stored by an older version
+     * The document is not rewritten until the registry next changes.
+     * @returns Registry at the current schema version
+     * @throws Error if the stored registry cannot be read or migrated
+     */
+    async load(): Promise<ProvenanceDocument> {
+        return migrateProvenance(await this.adapter.getMetadata(this.key));
+    }
+
+    /**
+     * List the recorded blocks
+     * @returns Blocks in the order they were first recorded
+     */
+    async list(): Promise<BlockProvenance[]> {
+        return (await this.load()).blocks;
+    }
+
+    /**
+     * Find the block recorded at an address or under a name
+     * @param addressOrName Block address as returned by SeriesWriter, or its name
+     * @returns The block, or null if none is recorded
+     */
+    async find(addressOrName: RangeAddress): Promise<BlockProvenance | null> {
+        return (await this.list()).find(block => this.matches(block, addressOrName)) || null;
+    }
+
+    /**
+     * Record a block, replacing the record of the block it refreshes
+     * A record is replaced when it has the same name, the same address, or
+     * the address given as replaces (the footprint of a refresh).
+     * @param block Block to record
+     * @param replaces Address of the block's previous extent
+     */
+    async record(block: BlockProvenance, replaces?: RangeAddress): Promise<void> {
+        const document = await this.load();
+        const replaced = (b: BlockProvenance): boolean =>
+            this.matches(b, block.address) ||
+            (block.name !== null && this.matches(b, block.name)) ||
+            (replaces !== undefined && this.matches(b, replaces));
+
+        // Keep the refreshed block where its previous record was
+        const index = document.blocks.findIndex(replaced);
+        const blocks = document.blocks.filter(b => !replaced(b));
+        blocks.splice(index >= 0 ? index : blocks.length, 0, block);
+
+        await this.save({ version: PROVENANCE_SCHEMA_VERSION, blocks });
+    }
+
+    /**
+     * Record a SeriesWriter write
+     * @param result Result returned by SeriesWriter.write
+     * @param series Series that were written
+     * @param options Options the write was made with, plus cache keys by series id
+     * @returns The recorded block
+     */
+    async recordWrite(
+        result: SeriesWriteResult,
+        series: TimeSeries | TimeSeries[],
+        options: RecordWriteOptions = {}
+    ): Promise<BlockProvenance> {
+        const list = Array.isArray(series) ? series : [series];
+        const cacheKeys = options.cacheKeys || {};
+        const block: BlockProvenance = {
+            address: result.address,
+            name: options.name || null,
+            table: options.table || null,
+            layout: options.layout || 'wide',
+            includeHeader: options.includeHeader !== false,
+            valueFormat: options.valueFormat || null,
+            fetchedAt: (options.retrievedAt || new Date()).toISOString(),
+            series: list.map(s => seriesProvenance(s, cacheKeys[s.id]))
+        };
+
+        await this.record(block, options.footprint);
+        return block;
+    }
+
+    /**
+     * Forget the block recorded at an address or under a name
+     * @param addressOrName Block address or name
+     * @returns True if a block was removed
+     */
+    async remove(addressOrName: RangeAddress): Promise<boolean> {
+        const document = await this.load();
+        const blocks = document.blocks.filter(block => !this.matches(block, addressOrName));
+
+        if (blocks.length === document.blocks.length) {
+            return false;
+        }
+
+        await this.save({ version: PROVENANCE_SCHEMA_VERSION, blocks });
+        return true;
+    }
+
+    /**
+     * Remove the registry from the document
+     */
+    async clear(): Promise<void> {
+        await this.adapter.deleteMetadata(this.key);
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Store the registry
+     * @private
+     */
+    private async save(document: ProvenanceDocument): Promise<void> {
+        await this.adapter.setMetadata(this.key, document as unknown as JsonValue);
+    }
+
+    /**
+     * Check whether a block is recorded at an address or under a name (names ignore case)
+     * @private
+     */
+    private matches(block: BlockProvenance, addressOrName: RangeAddress): boolean {
+        return (
+            block.address === addressOrName ||
+            (block.name !== null && block.name.toLowerCase() === addressOrName.toLowerCase())
+        );
+    }
+}
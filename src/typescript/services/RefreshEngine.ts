@@ -0,0 +1,463 @@
+/**
+ * RefreshEngine - Refresh All Economic Data in a Workbook
+ *
+ * Re-fetches every block recorded in the ProvenanceRegistry from the Julia
+ * backend, compares the new observations with what the sheet holds and
+ * rewrites only the blocks that changed, through SeriesWriter's batched
+ * writes. Reports per block, including revisions to observations already in
+ * the sheet (a new vintage), and can run as a dry run that writes nothing.
+ * Blocks written with a table whose only change is new observations after
+ * its last row get them appended as table rows instead.
+ *
+ * Blocks are fetched and compared a few at a time; writes and registry
+ * updates then run one block after another, since they share the sheet and
+ * the registry document.
+ */
+
+import { CellValue, ISpreadsheetAdapter, RangeAddress } from '../adapters/ISpreadsheetAdapter';
+import { EconomicApiClient } from '../api/EconomicApiClient';
+import { RangeRef, formatAddress, parseAddress, rangeSize, resizeRange } from '../utils/address';
+import { serialToDate } from '../utils/dates';
+import { BlockProvenance, ProvenanceRegistry } from './ProvenanceRegistry';
+import { SeriesWriteOptions, SeriesWriter, TimeSeries, seriesFromApi } from './SeriesWriter';
+
+/**
+ * Blocks fetched at the same time unless options say otherwise
+ */
+export const DEFAULT_REFRESH_CONCURRENCY = 4;
+
+/**
+ * An observation whose value differs between the sheet and the backend
+ */
+export interface ObservationRevision {
+    /** Observation date (YYYY-MM-DD) */
+    date: string;
+    /** Value in the sheet */
+    previous: CellValue;
+    /** Value returned by the backend */
+    current: number | null;
+}
+
+/**
+ * Differences between one series in the sheet and the backend
+ */
+export interface SeriesChanges {
+    source: string;
+    seriesId: string;
+    /** Observations present in both whose value changed */
+    revised: ObservationRevision[];
+    /** Dates returned by the backend but not in the sheet */
+    added: string[];
+    /** Dates in the sheet no longer returned by the backend */
+    removed: string[];
+}
+
+/**
+ * Outcome of refreshing one block
+ * - updated: the data changed and the block was rewritten (in a dry run: would be)
+ * - unchanged: the sheet already holds the backend's data
+ * - failed: fetching, reading or writing the block failed
+ */
+export type BlockRefreshStatus = 'updated' | 'unchanged' | 'failed';
+
+/**
+ * Result of refreshing one block
+ */
+export interface BlockRefreshResult {
+    /** The block as recorded before the refresh */
+    block: BlockProvenance;
+    status: BlockRefreshStatus;
+    /** Changes per series (empty if the block failed) */
+    changes: SeriesChanges[];
+    /** Address of the rewritten block, when it was written */
+    address?: RangeAddress;
+    /** True if new observations were appended to the block's table rather than rewriting it */
+    appended?: boolean;
+    error?: Error;
+}
+
+/**
+ * Result of a refresh
+ */
+export interface RefreshReport {
+    dryRun: boolean;
+    results: BlockRefreshResult[];
+    updated: number;
+    unchanged: number;
+    failed: number;
+}
+
+/**
+ * Options for a refresh
+ */
+export interface RefreshOptions {
+    /** Compare and report without writing anything (default false) */
+    dryRun?: boolean;
+    /** Blocks fetched at the same time (default DEFAULT_REFRESH_CONCURRENCY) */
+    concurrency?: number;
+    /** Show a notification per block (default true) */
+    notify?: boolean;
+    /**
+     * Fetch observations after each series' recorded end date, so blocks grow
+     * with new data (default true); false keeps them to their recorded dates
+     */
+    extendToLatest?: boolean;
+    /** Signal used to cancel the refresh; blocks not yet written are reported as failed */
+    signal?: AbortSignal;
+}
+
+/**
+ * A block fetched and compared, waiting to be written
+ */
+interface ComparedBlock {
+    result: BlockRefreshResult;
+    /** Series as fetched */
+    series: TimeSeries[];
+    /** Current extent of the block (null if the comparison failed) */
+    current: RangeRef | null;
+    /** Whether the only changes are observations after the last row of the block's table */
+    appendOnly: boolean;
+}
+
+/**
+ * RefreshEngine class
+ */
+export class RefreshEngine {
+    private adapter: ISpreadsheetAdapter;
+    private client: EconomicApiClient;
+    private registry: ProvenanceRegistry;
+    private writer: SeriesWriter;
+
+    /**
+     * @param adapter Adapter of the workbook to refresh
+     * @param client Backend client the series are fetched from
+     * @param registry Registry of inserted blocks (default: the workbook's provenance registry)
+     */
+    constructor(adapter: ISpreadsheetAdapter, client: EconomicApiClient, registry?: ProvenanceRegistry) {
+        this.adapter = adapter;
+        this.client = client;
+        this.registry = registry || new ProvenanceRegistry(adapter);
+        this.writer = new SeriesWriter(adapter);
+    }
+
+    /**
+     * Refresh every recorded block
+     * Changed blocks are rewritten in place (their footprint may grow or
+     * shrink) and re-recorded, then the workbook is recalculated once.
+     * @param options Dry run, concurrency, notifications, date range and cancellation
+     * @returns Per-block results
+     * @throws Error if the concurrency is invalid or the registry cannot be read
+     */
+    async refreshAll(options: RefreshOptions = {}): Promise<RefreshReport> {
+        const concurrency = options.concurrency ?? DEFAULT_REFRESH_CONCURRENCY;
+
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            throw new Error(`Invalid concurrency: ${concurrency}`);
+        }
+
+        const dryRun = options.dryRun === true;
+        const blocks = await this.registry.list();
+        const extend = options.extendToLatest !== false;
+        const compared = await mapLimited(blocks, concurrency, block => this.compare(block, extend, options.signal));
+
+        let written = 0;
+        for (const entry of compared) {
+            if (dryRun || entry.result.status !== 'updated') {
+                continue;
+            }
+
+            if (options.signal?.aborted) {
+                entry.result.status = 'failed';
+                entry.result.error = new Error('Refresh was canceled');
+                continue;
+            }
+
+            try {
+                entry.result.address = entry.appendOnly ? await this.append(entry) : await this.rewrite(entry);
+                entry.result.appended = entry.appendOnly;
+                written++;
+            } catch (error) {
+                entry.result.status = 'failed';
+                entry.result.error = asError(error);
+            }
+        }
+
+        if (written > 0) {
+            await this.adapter.recalculate();
+        }
+
+        const results = compared.map(entry => entry.result);
+        if (options.notify !== false) {
+            for (const result of results) {
+                await this.notify(result, dryRun);
+            }
+        }
+
+        return {
+            dryRun,
+            results,
+            updated: results.filter(r => r.status === 'updated').length,
+            unchanged: results.filter(r => r.status === 'unchanged').length,
+            failed: results.filter(r => r.status === 'failed').length
+        };
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Fetch a block's series and compare them with the sheet
+     * @param extend Fetch past each series' recorded end date
+     * @private
+     */
+    private async compare(block: BlockProvenance, extend: boolean, signal?: AbortSignal): Promise<ComparedBlock> {
+        try {
+            const series = await Promise.all(
+                block.series.map(async s => {
+                    const data = await this.client.getSeries(s.source, s.seriesId, {
+                        start: s.startDate ?? undefined,
+                        end: extend ? undefined : s.endDate ?? undefined,
+                        signal
+                    });
+                    return {
+                        ...seriesFromApi(s.source, s.seriesId, data),
+                        title: s.title ?? undefined,
+                        units: s.units ?? undefined,
+                        frequency: s.frequency ?? undefined
+                    };
+                })
+            );
+
+            // A named block may have moved since it was recorded
+            const current = parseAddress(block.name ? await this.adapter.resolveNamedRange(block.name) : block.address);
+            const sheet = await this.readBlock(block, current);
+            const changes = series.map(s => diffSeries(s, sheet.get(s.id) || new Map<string, CellValue>()));
+            const changed = changes.some(c => c.revised.length > 0 || c.added.length > 0 || c.removed.length > 0);
+
+            const dates = Array.from(sheet.values()).flatMap(observations => Array.from(observations.keys()));
+            const last = dates.length > 0 ? dates.reduce((a, b) => (a > b ? a : b)) : null;
+            const appendOnly =
+                block.table !== null &&
+                last !== null &&
+                changes.every(c => c.revised.length === 0 && c.removed.length === 0 && c.added.every(d => d > last));
+
+            return { result: { block, status: changed ? 'updated' : 'unchanged', changes }, series, current, appendOnly };
+        } catch (error) {
+            return {
+                result: { block, status: 'failed', changes: [], error: asError(error) },
+                series: [],
+                current: null,
+                appendOnly: false
+            };
+        }
+    }
+
+    /**
+     * Read the observations a block holds in the sheet, by series id and date
+     * @private
+     */
+    private async readBlock(block: BlockProvenance, current: RangeRef): Promise<Map<string, Map<string, CellValue>>> {
+        const { rows, columns } = rangeSize(current);
+        const headerRows = block.includeHeader ? block.series.length + 1 : 0;
+        const observations = new Map<string, Map<string, CellValue>>();
+
+        if (rows <= headerRows + 1) {
+            return observations;
+        }
+
+        const table = resizeRange(
+            { ...current, start: { ...current.start, row: current.start.row + headerRows } },
+            rows - headerRows,
+            columns
+        );
+        const values = await this.adapter.getRange(
+            formatAddress(resizeRange(table, 1, 1)),
+            formatAddress({ ...table, start: table.end })
+        );
+        const add = (seriesId: CellValue, date: CellValue, value: CellValue): void => {
+            const key = dateKey(date);
+            if (typeof seriesId !== 'string' || key === null) {
+                return;
+            }
+            if (!observations.has(seriesId)) {
+                observations.set(seriesId, new Map());
+            }
+            (observations.get(seriesId) as Map<string, CellValue>).set(key, value);
+        };
+
+        const [labels, ...body] = values;
+        for (const row of body) {
+            if (block.layout === 'long') {
+                add(row[1], row[0], row[2]);
+            } else {
+                labels.slice(1).forEach((seriesId, i) => add(seriesId, row[0], row[i + 1]));
+            }
+        }
+
+        return observations;
+    }
+
+    /**
+     * Rewrite a changed block over its current footprint and re-record it
+     * @returns Address of the rewritten block
+     * @private
+     */
+    private async rewrite(entry: ComparedBlock): Promise<RangeAddress> {
+        const current = entry.current as RangeRef;
+        const options = this.writeOptions(entry.result.block, current);
+
+        const result = await this.writer.write(formatAddress(resizeRange(current, 1, 1)), entry.series, options);
+        await this.registry.recordWrite(result, entry.series, options);
+
+        return result.address;
+    }
+
+    /**
+     * Append a block's new observations to its table and re-record it
+     * @returns Address of the grown block
+     * @private
+     */
+    private async append(entry: ComparedBlock): Promise<RangeAddress> {
+        const { block, changes } = entry.result;
+        const current = entry.current as RangeRef;
+        const options = this.writeOptions(block, current);
+        const added = new Map(changes.map(c => [c.seriesId, new Set(c.added)]));
+        const rows = entry.series.map(s => ({
+            ...s,
+            observations: s.observations.filter(obs => added.get(s.id)?.has(dateKey(obs.date) as string))
+        }));
+
+        const result = await this.writer.append(formatAddress(current), rows, options);
+        await this.registry.recordWrite(result, entry.series, options);
+
+        return result.address;
+    }
+
+    /**
+     * Options to write a block with as it was recorded, over its current extent
+     * @private
+     */
+    private writeOptions(block: BlockProvenance, current: RangeRef): SeriesWriteOptions {
+        return {
+            layout: block.layout,
+            includeHeader: block.includeHeader,
+            footprint: formatAddress(current),
+            valueFormat: block.valueFormat ?? undefined,
+            name: block.name ?? undefined,
+            table: block.table ?? undefined,
+            retrievedAt: new Date()
+        };
+    }
+
+    /**
+     * Report a block's result through the adapter's notifications
+     * @private
+     */
+    private async notify(result: BlockRefreshResult, dryRun: boolean): Promise<void> {
+        const label = result.block.name || result.block.address;
+
+        if (result.status === 'failed') {
+            const reason = result.error ? result.error.message : 'unknown error';
+            await this.adapter.showNotification(`Failed to refresh ${label}: ${reason}`, 'error');
+        } else if (result.status === 'unchanged') {
+            await this.adapter.showNotification(`${label} is up to date`, 'info');
+        } else {
+            const verb = dryRun ? 'would change' : 'refreshed';
+            await this.adapter.showNotification(`${label} ${verb}: ${summarize(result.changes)}`, 'info');
+        }
+    }
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Compare a fetched series with the observations in the sheet
+ */
+function diffSeries(series: TimeSeries, sheet: Map<string, CellValue>): SeriesChanges {
+    const changes: SeriesChanges = { source: series.source, seriesId: series.id, revised: [], added: [], removed: [] };
+    const fetched = new Set<string>();
+
+    for (const obs of series.observations) {
+        const date = dateKey(obs.date);
+        if (date === null) {
+            continue;
+        }
+        fetched.add(date);
+
+        if (!sheet.has(date)) {
+            changes.added.push(date);
+        } else if (!sameValue(sheet.get(date), obs.value)) {
+            changes.revised.push({ date, previous: sheet.get(date), current: obs.value });
+        }
+    }
+
+    changes.removed = Array.from(sheet.keys()).filter(date => !fetched.has(date));
+    return changes;
+}
+
+/**
+ * Check whether a sheet value equals a fetched value (empty cells equal null)
+ */
+function sameValue(previous: CellValue, current: number | null): boolean {
+    const empty = previous === null || previous === undefined || previous === '';
+    return empty ? current === null : previous === current;
+}
+
+/**
+ * Date of an observation or a date cell as YYYY-MM-DD (numbers are date serials)
+ */
+function dateKey(value: CellValue): string | null {
+    let date: Date | null = null;
+
+    if (value instanceof Date) {
+        date = value;
+    } else if (typeof value === 'number') {
+        date = serialToDate(value);
+    } else if (typeof value === 'string' && value !== '') {
+        date = new Date(value);
+    }
+
+    return date && !isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Describe the changes of a block (e.g., "2 revised, 1 added")
+ */
+function summarize(changes: SeriesChanges[]): string {
+    const parts: string[] = [];
+    const count = (what: 'revised' | 'added' | 'removed'): void => {
+        const n = changes.reduce((total, c) => total + c[what].length, 0);
+        if (n > 0) {
+            parts.push(`${n} ${what}`);
+        }
+    };
+
+    count('revised');
+    count('added');
+    count('removed');
+    return `${parts.join(', ')} observation(s)`;
+}
+
+/**
+ * Map items through an async function, running at most limit calls at a time
+ */
+async function mapLimited<T, R>(items: T[], limit: number, run: (item: T) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await run(items[index]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Wrap a thrown value as an Error
+ */
+function asError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,199 @@
+/**
+ * SeriesDispatcher - Coalesces the Series Requests of Custom Functions
+ *
+ * A sheet with hundreds of =ECON.FRED(...) cells calls the function once per
+ * cell. The dispatcher collects the series asked for within a short window,
+ * groups them by data source and date range, and fetches each group with one
+ * batch request. Every caller gets its own series or its own error, so an
+ * unknown series id fails only the cells asking for it.
+ */
+
+import { EconomicApiClient, SeriesData } from '../api/EconomicApiClient';
+
+/**
+ * How long requests are collected before they are sent, unless options say otherwise
+ */
+export const DEFAULT_COALESCE_WINDOW_MS = 10;
+
+/**
+ * Most series fetched by one request, unless options say otherwise
+ */
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+
+/**
+ * Options for a SeriesDispatcher
+ */
+export interface SeriesDispatcherOptions {
+    /** How long requests are collected before they are sent (default DEFAULT_COALESCE_WINDOW_MS) */
+    windowMs?: number;
+    /** Most series fetched by one request; larger groups are split (default DEFAULT_MAX_BATCH_SIZE) */
+    maxBatchSize?: number;
+}
+
+/**
+ * Date range of a series request
+ */
+export interface SeriesRange {
+    /** First observation date (YYYY-MM-DD string or Date, read as UTC) */
+    start?: string | Date;
+    /** Last observation date (YYYY-MM-DD string or Date, read as UTC) */
+    end?: string | Date;
+}
+
+interface Waiter {
+    resolve: (data: SeriesData) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Requests of one data source and date range waiting to be sent
+ */
+interface PendingGroup {
+    source: string;
+    start?: string;
+    end?: string;
+    /** Callers by series id */
+    waiters: Map<string, Waiter[]>;
+}
+
+/**
+ * SeriesDispatcher class
+ */
+export class SeriesDispatcher {
+    private client: EconomicApiClient;
+    private windowMs: number;
+    private maxBatchSize: number;
+    private pending: Map<string, PendingGroup>;
+    private timer: ReturnType<typeof setTimeout> | null;
+    private sending: Set<Promise<void>>;
+
+    /**
+     * @param client Backend client
+     * @param options Collection window and batch size
+     * @throws Error if the batch size is not a positive integer
+     */
+    constructor(client: EconomicApiClient, options: SeriesDispatcherOptions = {}) {
+        this.client = client;
+        this.windowMs = options.windowMs ?? DEFAULT_COALESCE_WINDOW_MS;
+        this.maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+        this.pending = new Map();
+        this.timer = null;
+        this.sending = new Set();
+
+        if (!Number.isInteger(this.maxBatchSize) || this.maxBatchSize < 1) {
+            throw new Error('maxBatchSize must be a positive integer');
+        }
+    }
+
+    /**
+     * Fetch a series with the other requests made within the window
+     * @param source Data source id (e.g., "fred")
+     * @param seriesId Series id (World Bank: "COUNTRY/INDICATOR")
+     * @param range Date range
+     * @returns Series data
+     * @throws Error if a date is invalid, the backend reports an error for this
+     * series, or the batch request fails
+     */
+    async getSeries(source: string, seriesId: string, range: SeriesRange = {}): Promise<SeriesData> {
+        const start = range.start !== undefined ? isoDate(range.start) : undefined;
+        const end = range.end !== undefined ? isoDate(range.end) : undefined;
+        const key = `${source}|${start ?? ''}|${end ?? ''}`;
+
+        let group = this.pending.get(key);
+        if (!group) {
+            group = { source, start, end, waiters: new Map() };
+            this.pending.set(key, group);
+        }
+
+        const waiters = group.waiters.get(seriesId) || [];
+        group.waiters.set(seriesId, waiters);
+
+        const result = new Promise<SeriesData>((resolve, reject) => waiters.push({ resolve, reject }));
+        this.schedule();
+        return result;
+    }
+
+    /**
+     * Send the collected requests now
+     * @returns Resolves once every request sent so far has been answered
+     */
+    async flush(): Promise<void> {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const groups = Array.from(this.pending.values());
+        this.pending.clear();
+        groups.forEach(group => this.send(group));
+
+        await Promise.all(Array.from(this.sending));
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Start the window, if it is not running
+     * @private
+     */
+    private schedule(): void {
+        if (this.timer === null) {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                void this.flush();
+            }, this.windowMs);
+        }
+    }
+
+    /**
+     * Fetch a group in batches and hand every caller its series or error
+     * @private
+     */
+    private send(group: PendingGroup): void {
+        const ids = Array.from(group.waiters.keys());
+
+        for (let i = 0; i < ids.length; i += this.maxBatchSize) {
+            const batchIds = ids.slice(i, i + this.maxBatchSize);
+            const waitersOf = (id: string) => group.waiters.get(id) as Waiter[];
+
+            const request = this.client
+                .getSeriesBatch(group.source, batchIds, { start: group.start, end: group.end })
+                .then(
+                    batch => {
+                        for (const id of batchIds) {
+                            if (id in batch.series) {
+                                waitersOf(id).forEach(waiter => waiter.resolve(batch.series[id]));
+                            } else {
+                                const error = new Error(`Failed to fetch series ${group.source}/${id}: ${batch.errors[id]}`);
+                                waitersOf(id).forEach(waiter => waiter.reject(error));
+                            }
+                        }
+                    },
+                    // The request itself failed: every series in it fails with the same error
+                    (error: Error) => batchIds.forEach(id => waitersOf(id).forEach(waiter => waiter.reject(error)))
+                )
+                .finally(() => this.sending.delete(request));
+
+            this.sending.add(request);
+        }
+    }
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Format a request date as YYYY-MM-DD
+ */
+function isoDate(value: string | Date): string {
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) {
+            throw new Error('Invalid date');
+        }
+        return value.toISOString().substring(0, 10);
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        throw new Error(`Invalid date: ${value} (expected YYYY-MM-DD)`);
+    }
+    return value;
+}
@@ -0,0 +1,498 @@
+/**
+ * SeriesWriter - Writes Time Series into Sheets
+ *
+ * Lays fetched series out as a table at an anchor cell, preceded by a header
+ * block recording where each series came from. Built only on
+ * ISpreadsheetAdapter, so it works the same in Excel, Calc and in memory.
+ *
+ * Re-running a write with the footprint returned by the previous run refreshes
+ * the block in place: it grows or shrinks as the data changes, leftover cells
+ * of the old block are cleared, and cells outside the footprint are never
+ * overwritten unless they are empty. Giving the block a name lets later runs
+ * pass the name as anchor and footprint, which follows the block when rows or
+ * columns are inserted above or beside it.
+ *
+ * The data rows can also be written as a native table, which users can sort,
+ * filter and reference from formulas (e.g., "=AVERAGE(GDP_Table[GDPC1])").
+ * New observations are then appended to the table as rows instead of
+ * rewriting the block.
+ */
+
+import {
+    BatchContext,
+    CellMatrix,
+    CellValue,
+    ISpreadsheetAdapter,
+    RangeAddress
+} from '../adapters/ISpreadsheetAdapter';
+import { SeriesData, SeriesSearchResult } from '../api/EconomicApiClient';
+import {
+    RangeRef,
+    formatAddress,
+    formatCell,
+    isRangeName,
+    offsetRange,
+    parseAddress,
+    quoteSheetName,
+    rangeSize,
+    resizeRange,
+    subtractRange
+} from '../utils/address';
+
+/**
+ * A single observation
+ */
+export interface Observation {
+    /** Observation date (Date, or YYYY-MM-DD string read as UTC) */
+    date: Date | string;
+    value: number | null;
+}
+
+/**
+ * A time series with provenance metadata
+ */
+export interface TimeSeries {
+    /** Series id in its source (e.g., "GDPC1") */
+    id: string;
+    /** Data source id (e.g., "fred") */
+    source: string;
+    title?: string;
+    units?: string;
+    frequency?: string;
+    observations: Observation[];
+}
+
+/**
+ * Table layout
+ * - wide: one row per date, one column per series
+ * - long: one row per observation with Date, Series and Value columns
+ */
+export type SeriesLayout = 'wide' | 'long';
+
+/**
+ * Options for writing series
+ */
+export interface SeriesWriteOptions {
+    /** Table layout (default 'wide') */
+    layout?: SeriesLayout;
+    /** Write the provenance header block above the table (default true) */
+    includeHeader?: boolean;
+    /** Sheet to write to; created if missing. Ignored if the anchor names a sheet */
+    sheetName?: string;
+    /**
+     * Range the block may occupy, usually the address returned by the previous write.
+     * Non-empty cells outside it are never overwritten.
+     */
+    footprint?: RangeAddress;
+    /** Number format for the value cells (e.g., NumberFormats.number) */
+    valueFormat?: string;
+    /** Retrieval time recorded in the header block (defaults to now) */
+    retrievedAt?: Date;
+    /** Workbook-scoped name to define (or move) over the written block */
+    name?: string;
+    /** Name of a table to create (or resize) over the column header and data rows */
+    table?: string;
+}
+
+/**
+ * Where a block of series was written
+ */
+export interface SeriesWriteResult {
+    /** Whole block, sheet-qualified; pass it back as footprint to refresh */
+    address: RangeAddress;
+    /** Provenance header block, or null if not written */
+    headerAddress: RangeAddress | null;
+    /** Table including its column header row */
+    tableAddress: RangeAddress;
+    rows: number;
+    columns: number;
+}
+
+/**
+ * Column labels of the provenance header block
+ */
+export const PROVENANCE_COLUMNS = ['Series', 'Title', 'Source', 'Units', 'Frequency', 'Retrieved'];
+
+/**
+ * Build a TimeSeries from an EconomicApiClient response
+ * @param source Data source id
+ * @param seriesId Series id
+ * @param data Series data returned by getSeries
+ * @param info Search result describing the series, if available
+ * @returns TimeSeries
+ */
+export function seriesFromApi(
+    source: string,
+    seriesId: string,
+    data: SeriesData,
+    info?: SeriesSearchResult
+): TimeSeries {
+    return {
+        id: seriesId,
+        source,
+        title: info ? info.title : undefined,
+        units: info ? info.units : undefined,
+        frequency: info ? info.frequency : undefined,
+        observations: data.date.map((date, i) => ({ date, value: data.value[i] }))
+    };
+}
+
+/**
+ * SeriesWriter class
+ */
+export class SeriesWriter {
+    private adapter: ISpreadsheetAdapter;
+
+    constructor(adapter: ISpreadsheetAdapter) {
+        this.adapter = adapter;
+    }
+
+    /**
+     * Write one or more series at an anchor cell
+     * Runs as one batch: a sync to check the target cells, then one for all writes.
+     * @param anchor Top-left cell of the block (e.g., "Data!A1"), or a name whose top-left cell is used
+     * @param series Series to write (at least one)
+     * @param options Layout, footprint and formatting
+     * @returns Addresses of the written block
+     * @throws Error if the block would overwrite non-empty cells outside the footprint
+     */
+    async write(
+        anchor: RangeAddress,
+        series: TimeSeries | TimeSeries[],
+        options: SeriesWriteOptions = {}
+    ): Promise<SeriesWriteResult> {
+        const list = Array.isArray(series) ? series : [series];
+
+        if (list.length === 0) {
+            throw new Error('At least one series is required');
+        }
+
+        const layout = options.layout || 'wide';
+        const includeHeader = options.includeHeader !== false;
+        const anchorRef = await this.resolveAnchor(anchor, options.sheetName);
+
+        const header = includeHeader ? this.buildHeader(list, options.retrievedAt || new Date()) : [];
+        const table = layout === 'long' ? this.buildLongTable(list) : this.buildWideTable(list);
+        const columns = Math.max(table[0].length, header.length > 0 ? header[0].length : 0);
+        const block = [...header, ...table].map(row => this.pad(row, columns));
+
+        const target = resizeRange(anchorRef, block.length, columns);
+        const footprint = options.footprint ? await this.resolveFootprint(options.footprint, anchorRef) : null;
+
+        const headerRef = includeHeader ? resizeRange(anchorRef, header.length, header[0].length) : null;
+        const tableRef = resizeRange(offsetRange(anchorRef, header.length, 0), table.length, table[0].length);
+
+        await this.adapter.batch(async context => {
+            await this.assertWritable(context, target, footprint);
+
+            context.setRange(formatAddress(anchorRef), block);
+
+            if (footprint) {
+                for (const leftover of subtractRange(footprint, target)) {
+                    const [start, end] = this.corners(leftover);
+                    context.clearRange(start, end);
+                }
+            }
+
+            const boldRows = [resizeRange(tableRef, 1, table[0].length)];
+            if (headerRef) {
+                boldRows.unshift(resizeRange(headerRef, 1, header[0].length));
+            }
+            for (const row of boldRows) {
+                const [start, end] = this.corners(row);
+                this.queueFormat(() => context.setStyle(start, end, { font: { bold: true } }));
+            }
+
+            const valueFormat = options.valueFormat;
+            if (valueFormat && table.length > 1) {
+                const firstValueColumn = layout === 'long' ? 2 : 1;
+                const values = resizeRange(
+                    offsetRange(tableRef, 1, firstValueColumn),
+                    table.length - 1,
+                    layout === 'long' ? 1 : list.length
+                );
+                const [start, end] = this.corners(values);
+                this.queueFormat(() => context.setNumberFormat(start, end, valueFormat));
+            }
+        });
+
+        if (options.table) {
+            await this.defineTable(options.table, formatAddress(tableRef));
+        }
+        if (options.name) {
+            await this.defineName(options.name, formatAddress(target));
+        }
+
+        return {
+            address: formatAddress(target),
+            headerAddress: headerRef ? formatAddress(headerRef) : null,
+            tableAddress: formatAddress(tableRef),
+            rows: block.length,
+            columns
+        };
+    }
+
+    /**
+     * Append observations to a block written with a table, as new table rows
+     * The rest of the block is not rewritten: only the retrieval time in the
+     * provenance header is updated, and the block's name is moved over the
+     * grown block.
+     * @param footprint Current extent of the block (address or name)
+     * @param series Observations to add, for every series of the block in the
+     * order they were written; dates must follow the last row of the table
+     * @param options Options the block was written with; table is required
+     * @returns Addresses of the grown block
+     * @throws Error if no table is given or there are no observations to add
+     */
+    async append(
+        footprint: RangeAddress,
+        series: TimeSeries[],
+        options: SeriesWriteOptions
+    ): Promise<SeriesWriteResult> {
+        if (!options.table) {
+            throw new Error('Appending to a block requires its table');
+        }
+
+        const layout = options.layout || 'wide';
+        const [, ...rows] = layout === 'long' ? this.buildLongTable(series) : this.buildWideTable(series);
+
+        if (rows.length === 0) {
+            throw new Error('No observations to append');
+        }
+
+        const block = await this.parseTarget(footprint);
+        const table = parseAddress((await this.adapter.appendTableRows(options.table, rows)).address);
+        const { columns } = rangeSize(block);
+        const target: RangeRef = {
+            ...resizeRange(block, table.end.row - block.start.row + 1, columns),
+            sheetName: table.sheetName
+        };
+        const headerRef =
+            options.includeHeader !== false ? resizeRange(target, series.length + 1, PROVENANCE_COLUMNS.length) : null;
+
+        if (headerRef) {
+            // Retrieved column of each series row
+            const retrieved = offsetRange(resizeRange(target, 1, 1), 1, PROVENANCE_COLUMNS.length - 1);
+            const [start] = this.corners(retrieved);
+            await this.adapter.setRange(start, series.map(() => [options.retrievedAt || new Date()]));
+        }
+        if (options.name) {
+            await this.defineName(options.name, formatAddress(target));
+        }
+
+        return {
+            address: formatAddress(target),
+            headerAddress: headerRef ? formatAddress(headerRef) : null,
+            tableAddress: formatAddress(table),
+            rows: rangeSize(target).rows,
+            columns
+        };
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Queue formatting, skipping it on hosts whose batch context does not support it
+     * UnoAdapter throws its own mirror of AdapterError, so the code is checked rather than the class.
+     * @private
+     */
+    private queueFormat(queue: () => void): void {
+        try {
+            queue();
+        } catch (error) {
+            if ((error as { code?: unknown } | null)?.code !== 'not_supported') {
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Resolve the anchor to a sheet-qualified cell, creating the sheet if needed
+     * @private
+     */
+    private async resolveAnchor(anchor: RangeAddress, sheetName?: string): Promise<RangeRef> {
+        const parsed = await this.parseTarget(anchor);
+        const cell = resizeRange(parsed, 1, 1);
+        const wanted = parsed.sheetName || sheetName;
+
+        if (!wanted) {
+            return { ...cell, sheetName: await this.adapter.getActiveSheetName() };
+        }
+
+        const existing = (await this.adapter.getSheetNames()).find(name => name.toLowerCase() === wanted.toLowerCase());
+
+        if (!existing) {
+            await this.adapter.createSheet(wanted);
+        }
+
+        return { ...cell, sheetName: existing || wanted };
+    }
+
+    /**
+     * Parse an address, resolving it first if it is a name
+     * @private
+     */
+    private async parseTarget(address: RangeAddress): Promise<RangeRef> {
+        return parseAddress(isRangeName(address) ? await this.adapter.resolveNamedRange(address) : address);
+    }
+
+    /**
+     * Point a workbook-scoped name at the written block, replacing any previous definition
+     * @private
+     */
+    private async defineName(name: string, address: RangeAddress): Promise<void> {
+        const wanted = name.toLowerCase();
+        const existing = (await this.adapter.getNamedRanges()).some(
+            n => n.scope === null && n.name.toLowerCase() === wanted
+        );
+
+        if (existing) {
+            await this.adapter.deleteNamedRange(name);
+        }
+
+        await this.adapter.createNamedRange(name, address);
+    }
+
+    /**
+     * Create a table over the written data rows, or resize the one a previous write created
+     * @private
+     */
+    private async defineTable(name: string, address: RangeAddress): Promise<void> {
+        if (await this.adapter.getTable(name)) {
+            await this.adapter.resizeTable(name, address);
+        } else {
+            await this.adapter.createTable(address, { name });
+        }
+    }
+
+    /**
+     * Parse the declared footprint and check it is on the anchor's sheet
+     * @private
+     */
+    private async resolveFootprint(footprint: RangeAddress, anchor: RangeRef): Promise<RangeRef> {
+        const parsed = await this.parseTarget(footprint);
+
+        if (parsed.sheetName && anchor.sheetName && parsed.sheetName.toLowerCase() !== anchor.sheetName.toLowerCase()) {
+            throw new Error(`Footprint ${footprint} is not on sheet ${anchor.sheetName}`);
+        }
+
+        return { ...parsed, sheetName: anchor.sheetName };
+    }
+
+    /**
+     * Check that every cell the block needs outside the footprint is empty
+     * @throws Error naming the first conflicting cell
+     * @private
+     */
+    private async assertWritable(context: BatchContext, target: RangeRef, footprint: RangeRef | null): Promise<void> {
+        const outside = footprint ? subtractRange(target, footprint) : [target];
+        const reads = outside.map(range => {
+            const [start, end] = this.corners(range);
+            return { range, values: context.getRange(start, end) };
+        });
+
+        await context.sync();
+
+        for (const { range, values: result } of reads) {
+            const values = result.value;
+
+            for (let r = 0; r < values.length; r++) {
+                for (let c = 0; c < values[r].length; c++) {
+                    const value = values[r][c];
+                    if (value !== null && value !== undefined && value !== '') {
+                        const cell = formatCell({ row: range.start.row + r, column: range.start.column + c });
+                        throw new Error(
+                            `Cannot write series to ${formatAddress(target)}: cell ${cell} ` +
+                                'is outside the declared footprint and not empty'
+                        );
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Build the provenance header block
+     * @private
+     */
+    private buildHeader(list: TimeSeries[], retrievedAt: Date): CellMatrix {
+        return [
+            PROVENANCE_COLUMNS,
+            ...list.map(s => [s.id, s.title || null, s.source, s.units || null, s.frequency || null, retrievedAt])
+        ];
+    }
+
+    /**
+     * Build a wide table: Date followed by one column per series
+     * Dates missing from a series are left empty.
+     * @private
+     */
+    private buildWideTable(list: TimeSeries[]): CellMatrix {
+        const byDate = new Map<number, CellValue[]>();
+
+        list.forEach((s, index) => {
+            s.observations.forEach(obs => {
+                const date = this.toDate(obs.date);
+                const key = date.getTime();
+                if (!byDate.has(key)) {
+                    byDate.set(key, new Array<CellValue>(list.length).fill(null));
+                }
+                (byDate.get(key) as CellValue[])[index] = obs.value;
+            });
+        });
+
+        const rows = Array.from(byDate.keys())
+            .sort((a, b) => a - b)
+            .map(time => [new Date(time), ...(byDate.get(time) as CellValue[])]);
+
+        return [['Date', ...list.map(s => s.id)], ...rows];
+    }
+
+    /**
+     * Build a long table: one Date/Series/Value row per observation
+     * @private
+     */
+    private buildLongTable(list: TimeSeries[]): CellMatrix {
+        const rows: CellMatrix = [];
+
+        list.forEach(s => {
+            [...s.observations]
+                .map(obs => ({ date: this.toDate(obs.date), value: obs.value }))
+                .sort((a, b) => a.date.getTime() - b.date.getTime())
+                .forEach(obs => rows.push([obs.date, s.id, obs.value]));
+        });
+
+        return [['Date', 'Series', 'Value'], ...rows];
+    }
+
+    /**
+     * Convert an observation date to a Date
+     * @private
+     */
+    private toDate(value: Date | string): Date {
+        const date = value instanceof Date ? value : new Date(value);
+
+        if (isNaN(date.getTime())) {
+            throw new Error(`Invalid observation date: ${String(value)}`);
+        }
+
+        return date;
+    }
+
+    /**
+     * Pad a row with empty cells to a given width
+     * @private
+     */
+    private pad(row: CellValue[], width: number): CellValue[] {
+        return row.length >= width ? row : [...row, ...new Array<CellValue>(width - row.length).fill(null)];
+    }
+
+    /**
+     * Get the sheet-qualified start and end addresses of a range
+     * @private
+     */
+    private corners(range: RangeRef): [string, string] {
+        const prefix = range.sheetName ? `${quoteSheetName(range.sheetName)}!` : '';
+        return [`${prefix}${formatCell(range.start)}`, `${prefix}${formatCell(range.end)}`];
+    }
+}
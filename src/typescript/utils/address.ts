@@ -0,0 +1,631 @@
+/**
+ * A1 Address Parsing and Arithmetic
+ *
+ * Shared, host-independent helpers for parsing, formatting and manipulating
+ * spreadsheet addresses. All positions are zero-based; limits follow Excel
+ * (16,384 columns "A".."XFD" and 1,048,576 rows). Parse failures throw
+ * AdapterError with code 'invalid_address'.
+ */
+
+import { AdapterError } from '../adapters/AdapterError';
+
+/**
+ * Maximum number of columns in a worksheet (column "XFD")
+ */
+export const MAX_COLUMNS = 16384;
+
+/**
+ * Maximum number of rows in a worksheet
+ */
+export const MAX_ROWS = 1048576;
+
+/**
+ * A single cell reference (zero-based)
+ */
+export interface CellRef {
+    row: number;
+    column: number;
+    rowAbsolute?: boolean;
+    columnAbsolute?: boolean;
+}
+
+/**
+ * Shape of a parsed range
+ * - cell: a single cell ("B5")
+ * - range: a rectangular block ("A1:C10")
+ * - columns: whole columns ("A:C")
+ * - rows: whole rows ("3:5")
+ */
+export type RangeKind = 'cell' | 'range' | 'columns' | 'rows';
+
+/**
+ * A parsed range reference; start is always the top-left corner
+ */
+export interface RangeRef {
+    sheetName: string | null;
+    start: CellRef;
+    end: CellRef;
+    kind: RangeKind;
+}
+
+/**
+ * Number of rows and columns covered by a range
+ */
+export interface RangeSize {
+    rows: number;
+    columns: number;
+}
+
+const CELL_PATTERN = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)$/;
+const COLUMN_PATTERN = /^(\$?)([A-Za-z]{1,3})$/;
+const ROW_PATTERN = /^(\$?)(\d+)$/;
+const PLAIN_SHEET_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+const R1C1_PART = '(?:R(\\[-?\\d+\\]|\\d+)?)(?:C(\\[-?\\d+\\]|\\d+)?)';
+const R1C1_PATTERN = new RegExp(`^${R1C1_PART}(?::${R1C1_PART})?$`, 'i');
+const NAME_PATTERN = /^[A-Za-z_\\][A-Za-z0-9_.\\]*$/;
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Convert column letters to a zero-based column index
+ * @param letters Column letters (e.g., "A", "Z", "AA", "XFD")
+ * @returns Zero-based column index
+ * @throws Error if the letters are invalid or beyond column XFD
+ */
+export function columnToIndex(letters: string): number {
+    if (!/^[A-Za-z]+$/.test(letters)) {
+        throw new AdapterError(`Invalid column: ${letters}`, { code: 'invalid_address' });
+    }
+
+    let column = 0;
+    const upper = letters.toUpperCase();
+    for (let i = 0; i < upper.length; i++) {
+        column = column * 26 + (upper.charCodeAt(i) - 64);
+    }
+
+    if (column > MAX_COLUMNS) {
+        throw new AdapterError(`Column ${letters} exceeds the maximum column XFD`, { code: 'invalid_address' });
+    }
+
+    return column - 1;
+}
+
+/**
+ * Convert a zero-based column index to column letters
+ * @param index Zero-based column index
+ * @returns Column letters (e.g., 0 -> "A", 26 -> "AA")
+ * @throws Error if the index is outside the worksheet
+ */
+export function indexToColumn(index: number): string {
+    assertColumn(index);
+
+    let letters = '';
+    let column = index + 1;
+    while (column > 0) {
+        const remainder = (column - 1) % 26;
+        letters = String.fromCharCode(65 + remainder) + letters;
+        column = Math.floor((column - 1) / 26);
+    }
+
+    return letters;
+}
+
+/**
+ * Split an optional sheet prefix from an address
+ * Quoted names may contain "!" and doubled quotes (e.g., "'It''s!'!A1").
+ * @param address Address string (e.g., "Sheet1!A1", "'My Sheet'!A1:B2" or "C3")
+ * @returns Sheet name (or null) and the remaining reference
+ * @throws Error if a quoted sheet name is not terminated
+ */
+export function splitSheetName(address: string): { sheetName: string | null; reference: string } {
+    const trimmed = address.trim();
+
+    if (trimmed.startsWith("'")) {
+        let i = 1;
+        let name = '';
+        while (i < trimmed.length) {
+            if (trimmed[i] === "'") {
+                if (trimmed[i + 1] === "'") {
+                    name += "'";
+                    i += 2;
+                    continue;
+                }
+                break;
+            }
+            name += trimmed[i];
+            i++;
+        }
+
+        if (i >= trimmed.length || trimmed[i + 1] !== '!') {
+            throw new AdapterError(`Invalid sheet reference: ${address}`, { code: 'invalid_address', address });
+        }
+
+        return { sheetName: name, reference: trimmed.substring(i + 2) };
+    }
+
+    const separator = trimmed.lastIndexOf('!');
+    if (separator === -1) {
+        return { sheetName: null, reference: trimmed };
+    }
+
+    return { sheetName: trimmed.substring(0, separator), reference: trimmed.substring(separator + 1) };
+}
+
+/**
+ * Quote a sheet name for use in an address when required
+ * @param sheetName Sheet name
+ * @returns Sheet name, quoted if it contains anything but letters, digits, "_" or "."
+ */
+export function quoteSheetName(sheetName: string): string {
+    if (PLAIN_SHEET_PATTERN.test(sheetName) && !CELL_PATTERN.test(sheetName)) {
+        return sheetName;
+    }
+
+    return `'${sheetName.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Parse a single A1 cell reference (no sheet prefix)
+ * @param reference Cell reference (e.g., "B5", "$A$1")
+ * @returns Zero-based cell reference
+ * @throws Error if the reference is invalid or outside the worksheet
+ */
+export function parseCell(reference: string): CellRef {
+    const match = reference.trim().match(CELL_PATTERN);
+
+    if (!match) {
+        throw new AdapterError(`Invalid cell address: ${reference}`, { code: 'invalid_address', address: reference });
+    }
+
+    const row = parseInt(match[4], 10) - 1;
+    assertRow(row);
+
+    return {
+        row,
+        column: columnToIndex(match[2]),
+        rowAbsolute: match[3] === '$',
+        columnAbsolute: match[1] === '$'
+    };
+}
+
+/**
+ * Format a zero-based cell reference in A1 notation
+ * @param cell Cell reference
+ * @returns A1 reference (e.g., "B5" or "$B$5")
+ */
+export function formatCell(cell: CellRef): string {
+    assertRow(cell.row);
+    return `${cell.columnAbsolute ? '$' : ''}${indexToColumn(cell.column)}${cell.rowAbsolute ? '$' : ''}${cell.row + 1}`;
+}
+
+/**
+ * Parse an address in A1 notation
+ * Supports cells, ranges, whole columns ("A:C"), whole rows ("3:5"),
+ * absolute markers ("$A$1") and quoted sheet names.
+ * @param address Address string (e.g., "'My Sheet'!$A$1:B10")
+ * @returns Parsed range with normalized (top-left/bottom-right) corners
+ * @throws Error if the address is invalid or outside the worksheet
+ */
+export function parseAddress(address: string): RangeRef {
+    const { sheetName, reference } = splitSheetName(address);
+    const parts = reference.split(':');
+
+    if (parts.length === 1) {
+        const cell = parseCell(parts[0]);
+        return { sheetName, start: cell, end: cell, kind: 'cell' };
+    }
+
+    if (parts.length !== 2) {
+        throw new AdapterError(`Invalid range address: ${address}`, { code: 'invalid_address', address });
+    }
+
+    const [first, second] = parts.map(part => part.trim());
+
+    if (COLUMN_PATTERN.test(first) && COLUMN_PATTERN.test(second)) {
+        const a = first.match(COLUMN_PATTERN) as RegExpMatchArray;
+        const b = second.match(COLUMN_PATTERN) as RegExpMatchArray;
+        return normalize({
+            sheetName,
+            start: { row: 0, column: columnToIndex(a[2]), columnAbsolute: a[1] === '$' },
+            end: { row: MAX_ROWS - 1, column: columnToIndex(b[2]), columnAbsolute: b[1] === '$' },
+            kind: 'columns'
+        });
+    }
+
+    if (ROW_PATTERN.test(first) && ROW_PATTERN.test(second)) {
+        const a = first.match(ROW_PATTERN) as RegExpMatchArray;
+        const b = second.match(ROW_PATTERN) as RegExpMatchArray;
+        const startRow = parseInt(a[2], 10) - 1;
+        const endRow = parseInt(b[2], 10) - 1;
+        assertRow(startRow);
+        assertRow(endRow);
+        return normalize({
+            sheetName,
+            start: { row: startRow, column: 0, rowAbsolute: a[1] === '$' },
+            end: { row: endRow, column: MAX_COLUMNS - 1, rowAbsolute: b[1] === '$' },
+            kind: 'rows'
+        });
+    }
+
+    return normalize({ sheetName, start: parseCell(first), end: parseCell(second), kind: 'range' });
+}
+
+/**
+ * Build a range from separate start and end addresses
+ * Either address may carry a sheet prefix; if both do, they must match.
+ * @param startAddress Start cell address (e.g., "Sheet1!A1")
+ * @param endAddress End cell address (e.g., "C10" or "Sheet1!C10")
+ * @returns Range spanning both corners
+ * @throws Error if the addresses are invalid or name different sheets
+ */
+export function rangeFromCorners(startAddress: string, endAddress: string): RangeRef {
+    const start = parseAddress(startAddress);
+    const end = parseAddress(endAddress);
+
+    if (start.sheetName && end.sheetName && !sameSheet(start.sheetName, end.sheetName)) {
+        throw new AdapterError(`Range ${startAddress}:${endAddress} spans more than one sheet`, {
+            code: 'invalid_address',
+            address: `${startAddress}:${endAddress}`
+        });
+    }
+
+    return unionRanges({ ...start, sheetName: start.sheetName || end.sheetName }, { ...end, sheetName: null });
+}
+
+/**
+ * Format a range in A1 notation
+ * @param range Range reference
+ * @param options includeSheet (default true) adds the sheet prefix when the range has one
+ * @returns Address string (e.g., "Sheet1!A1:C10", "A:C", "3:5", "B5")
+ */
+export function formatAddress(range: RangeRef, options: { includeSheet?: boolean } = {}): string {
+    const includeSheet = options.includeSheet !== false;
+    const prefix = includeSheet && range.sheetName ? `${quoteSheetName(range.sheetName)}!` : '';
+    let reference: string;
+
+    if (range.kind === 'columns') {
+        reference =
+            `${range.start.columnAbsolute ? '$' : ''}${indexToColumn(range.start.column)}:` +
+            `${range.end.columnAbsolute ? '$' : ''}${indexToColumn(range.end.column)}`;
+    } else if (range.kind === 'rows') {
+        reference =
+            `${range.start.rowAbsolute ? '$' : ''}${range.start.row + 1}:` +
+            `${range.end.rowAbsolute ? '$' : ''}${range.end.row + 1}`;
+    } else if (range.start.row === range.end.row && range.start.column === range.end.column) {
+        reference = formatCell(range.start);
+    } else {
+        reference = `${formatCell(range.start)}:${formatCell(range.end)}`;
+    }
+
+    return `${prefix}${reference}`;
+}
+
+/**
+ * Get the number of rows and columns covered by a range
+ * @param range Range reference
+ * @returns Range size
+ */
+export function rangeSize(range: RangeRef): RangeSize {
+    return {
+        rows: range.end.row - range.start.row + 1,
+        columns: range.end.column - range.start.column + 1
+    };
+}
+
+/**
+ * Move a range by a number of rows and columns, keeping its size
+ * @param range Range reference
+ * @param rowOffset Rows to move (negative moves up)
+ * @param colOffset Columns to move (negative moves left)
+ * @returns Moved range
+ * @throws Error if the result falls outside the worksheet
+ */
+export function offsetRange(range: RangeRef, rowOffset: number, colOffset: number): RangeRef {
+    const moved: RangeRef = {
+        ...range,
+        start: { ...range.start, row: range.start.row + rowOffset, column: range.start.column + colOffset },
+        end: { ...range.end, row: range.end.row + rowOffset, column: range.end.column + colOffset }
+    };
+
+    assertInside(moved);
+    return moved;
+}
+
+/**
+ * Resize a range from its top-left corner
+ * @param range Range reference
+ * @param rows New number of rows (>= 1)
+ * @param columns New number of columns (>= 1)
+ * @returns Resized range
+ * @throws Error if the size is not positive or the result falls outside the worksheet
+ */
+export function resizeRange(range: RangeRef, rows: number, columns: number): RangeRef {
+    if (!Number.isInteger(rows) || !Number.isInteger(columns) || rows < 1 || columns < 1) {
+        throw new AdapterError(`Invalid range size: ${rows}x${columns}`, { code: 'invalid_argument' });
+    }
+
+    const resized: RangeRef = {
+        ...range,
+        end: { ...range.end, row: range.start.row + rows - 1, column: range.start.column + columns - 1 },
+        kind: rows === 1 && columns === 1 ? 'cell' : 'range'
+    };
+
+    assertInside(resized);
+    return resized;
+}
+
+/**
+ * Intersect two ranges
+ * @param a First range
+ * @param b Second range
+ * @returns Overlapping range, or null if the ranges do not overlap or are on different sheets
+ */
+export function intersectRanges(a: RangeRef, b: RangeRef): RangeRef | null {
+    if (a.sheetName && b.sheetName && !sameSheet(a.sheetName, b.sheetName)) {
+        return null;
+    }
+
+    const start = { row: Math.max(a.start.row, b.start.row), column: Math.max(a.start.column, b.start.column) };
+    const end = { row: Math.min(a.end.row, b.end.row), column: Math.min(a.end.column, b.end.column) };
+
+    if (start.row > end.row || start.column > end.column) {
+        return null;
+    }
+
+    return classify({ sheetName: a.sheetName || b.sheetName, start, end, kind: 'range' });
+}
+
+/**
+ * Get the smallest range covering both ranges (bounding box)
+ * @param a First range
+ * @param b Second range
+ * @returns Bounding range
+ * @throws Error if the ranges are on different sheets
+ */
+export function unionRanges(a: RangeRef, b: RangeRef): RangeRef {
+    if (a.sheetName && b.sheetName && !sameSheet(a.sheetName, b.sheetName)) {
+        throw new AdapterError(`Cannot combine ranges on sheets ${a.sheetName} and ${b.sheetName}`, {
+            code: 'invalid_address'
+        });
+    }
+
+    return classify({
+        sheetName: a.sheetName || b.sheetName,
+        start: { row: Math.min(a.start.row, b.start.row), column: Math.min(a.start.column, b.start.column) },
+        end: { row: Math.max(a.end.row, b.end.row), column: Math.max(a.end.column, b.end.column) },
+        kind: 'range'
+    });
+}
+
+/**
+ * Get the part of a range not covered by another range
+ * @param a Range to subtract from
+ * @param b Range to remove
+ * @returns Up to four non-overlapping ranges covering a minus b (empty if b covers a)
+ */
+export function subtractRange(a: RangeRef, b: RangeRef): RangeRef[] {
+    const overlap = intersectRanges(a, b);
+
+    if (!overlap) {
+        return [a];
+    }
+
+    const pieces: RangeRef[] = [];
+    const add = (start: CellRef, end: CellRef): void => {
+        if (start.row <= end.row && start.column <= end.column) {
+            pieces.push(classify({ sheetName: a.sheetName, start, end, kind: 'range' }));
+        }
+    };
+
+    // Full-width bands above and below the overlap, then the sides beside it
+    add(a.start, { row: overlap.start.row - 1, column: a.end.column });
+    add({ row: overlap.end.row + 1, column: a.start.column }, a.end);
+    add({ row: overlap.start.row, column: a.start.column }, { row: overlap.end.row, column: overlap.start.column - 1 });
+    add({ row: overlap.start.row, column: overlap.end.column + 1 }, { row: overlap.end.row, column: a.end.column });
+
+    return pieces;
+}
+
+/**
+ * Check whether a range contains a cell
+ * @param range Range reference
+ * @param cell Cell reference
+ * @returns True if the cell lies within the range
+ */
+export function containsCell(range: RangeRef, cell: CellRef): boolean {
+    return (
+        cell.row >= range.start.row &&
+        cell.row <= range.end.row &&
+        cell.column >= range.start.column &&
+        cell.column <= range.end.column
+    );
+}
+
+/**
+ * Convert an A1 reference to R1C1 notation
+ * Absolute parts become "R5C2"; relative parts are expressed against the base cell ("R[1]C[-1]").
+ * Without a base cell every part is written absolute.
+ * @param address A1 address (sheet prefix is preserved)
+ * @param base Cell that relative references are measured from
+ * @returns R1C1 address
+ */
+export function toR1C1(address: string, base?: CellRef): string {
+    const range = parseAddress(address);
+    const prefix = range.sheetName ? `${quoteSheetName(range.sheetName)}!` : '';
+
+    const part = (cell: CellRef): string => {
+        const row =
+            !base || cell.rowAbsolute ? `R${cell.row + 1}` : relativePart('R', cell.row - base.row);
+        const column =
+            !base || cell.columnAbsolute ? `C${cell.column + 1}` : relativePart('C', cell.column - base.column);
+        return `${row}${column}`;
+    };
+
+    const start = part(range.start);
+    const end = part(range.end);
+
+    return start === end && range.kind === 'cell' ? `${prefix}${start}` : `${prefix}${start}:${end}`;
+}
+
+/**
+ * Convert an R1C1 reference to A1 notation
+ * @param address R1C1 address (e.g., "R2C3", "R[-1]C", "Sheet1!R1C1:R10C2")
+ * @param base Cell that relative references are measured from (required for relative parts)
+ * @returns A1 address (sheet prefix is preserved)
+ * @throws Error if the address is invalid or relative without a base cell
+ */
+export function fromR1C1(address: string, base?: CellRef): string {
+    const { sheetName, reference } = splitSheetName(address);
+    const match = reference.match(R1C1_PATTERN);
+
+    if (!match) {
+        throw new AdapterError(`Invalid R1C1 address: ${address}`, { code: 'invalid_address', address });
+    }
+
+    const resolve = (token: string | undefined, axis: 'row' | 'column'): { index: number; absolute: boolean } => {
+        if (token !== undefined && !token.startsWith('[')) {
+            return { index: parseInt(token, 10) - 1, absolute: true };
+        }
+        if (!base) {
+            throw new AdapterError(`Relative R1C1 address requires a base cell: ${address}`, {
+                code: 'invalid_address',
+                address
+            });
+        }
+        const delta = token === undefined ? 0 : parseInt(token.slice(1, -1), 10);
+        return { index: base[axis] + delta, absolute: false };
+    };
+
+    const cell = (rowToken: string | undefined, colToken: string | undefined): CellRef => {
+        const row = resolve(rowToken, 'row');
+        const column = resolve(colToken, 'column');
+        const result = { row: row.index, column: column.index, rowAbsolute: row.absolute, columnAbsolute: column.absolute };
+        assertRow(result.row);
+        assertColumn(result.column);
+        return result;
+    };
+
+    const start = cell(match[1], match[2]);
+    const isRange = reference.includes(':');
+    const end = isRange ? cell(match[3], match[4]) : start;
+
+    return formatAddress({ sheetName, start, end, kind: isRange ? 'range' : 'cell' });
+}
+
+/**
+ * Check whether an address is valid A1 notation within worksheet limits
+ * @param address Address string
+ * @returns True if parseAddress would succeed
+ */
+export function isValidAddress(address: string): boolean {
+    try {
+        parseAddress(address);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check whether text is a defined name rather than an address
+ * Names start with a letter, underscore or backslash, contain only letters,
+ * digits, periods and underscores, and must not look like a cell reference
+ * ("GDP1") or an R1C1 reference ("R2C3", "R", "C"). A sheet prefix marks a
+ * sheet-scoped name ("Data!GDP_C").
+ * @param text Text to check (e.g., "GDP_C" or "'My Sheet'!Inputs")
+ * @returns True if the text is a valid name
+ */
+export function isRangeName(text: string): boolean {
+    let reference: string;
+
+    try {
+        reference = splitSheetName(text).reference;
+    } catch {
+        return false;
+    }
+
+    return (
+        reference.length <= MAX_NAME_LENGTH &&
+        NAME_PATTERN.test(reference) &&
+        !CELL_PATTERN.test(reference) &&
+        !R1C1_PATTERN.test(reference) &&
+        !/^[RC]$/i.test(reference)
+    );
+}
+
+// ===== Private Helpers =====
+
+function sameSheet(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+function relativePart(axis: 'R' | 'C', delta: number): string {
+    return delta === 0 ? axis : `${axis}[${delta}]`;
+}
+
+function assertRow(row: number): void {
+    if (!Number.isInteger(row) || row < 0 || row >= MAX_ROWS) {
+        throw new AdapterError(`Row ${row + 1} is outside the worksheet (1-${MAX_ROWS})`, { code: 'invalid_address' });
+    }
+}
+
+function assertColumn(column: number): void {
+    if (!Number.isInteger(column) || column < 0 || column >= MAX_COLUMNS) {
+        throw new AdapterError(`Column ${column + 1} is outside the worksheet (1-${MAX_COLUMNS})`, {
+            code: 'invalid_address'
+        });
+    }
+}
+
+function assertInside(range: RangeRef): void {
+    assertRow(range.start.row);
+    assertRow(range.end.row);
+    assertColumn(range.start.column);
+    assertColumn(range.end.column);
+}
+
+/**
+ * Order corners so start is top-left and end is bottom-right
+ */
+function normalize(range: RangeRef): RangeRef {
+    const top = Math.min(range.start.row, range.end.row);
+    const bottom = Math.max(range.start.row, range.end.row);
+    const left = Math.min(range.start.column, range.end.column);
+    const right = Math.max(range.start.column, range.end.column);
+    const startFirstRow = range.start.row <= range.end.row;
+    const startFirstCol = range.start.column <= range.end.column;
+
+    return {
+        ...range,
+        start: {
+            row: top,
+            column: left,
+            rowAbsolute: (startFirstRow ? range.start : range.end).rowAbsolute,
+            columnAbsolute: (startFirstCol ? range.start : range.end).columnAbsolute
+        },
+        end: {
+            row: bottom,
+            column: right,
+            rowAbsolute: (startFirstRow ? range.end : range.start).rowAbsolute,
+            columnAbsolute: (startFirstCol ? range.end : range.start).columnAbsolute
+        }
+    };
+}
+
+/**
+ * Recompute the kind of a range from its extent
+ */
+function classify(range: RangeRef): RangeRef {
+    const fullColumns = range.start.row === 0 && range.end.row === MAX_ROWS - 1;
+    const fullRows = range.start.column === 0 && range.end.column === MAX_COLUMNS - 1;
+    let kind: RangeKind = 'range';
+
+    if (range.start.row === range.end.row && range.start.column === range.end.column) {
+        kind = 'cell';
+    } else if (fullColumns && !fullRows) {
+        kind = 'columns';
+    } else if (fullRows && !fullColumns) {
+        kind = 'rows';
+    }
+
+    return { ...range, kind };
+}
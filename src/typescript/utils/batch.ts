@@ -0,0 +1,160 @@
+/**
+ * Batch Context Helpers
+ *
+ * Building blocks for BatchContext implementations: deferred read results
+ * that become available when the batch syncs, and a context that queues
+ * calls to an adapter's own methods and runs them in order on sync (for
+ * hosts without a request context of their own).
+ */
+
+import {
+    BatchContext,
+    BatchResult,
+    CellAddress,
+    CellMatrix,
+    CellValue,
+    FormulaMatrix,
+    FormulaOptions,
+    ISpreadsheetAdapter,
+    NumberFormat,
+    RangeStyle,
+    SetRangeOptions
+} from '../adapters/ISpreadsheetAdapter';
+
+/**
+ * Read result whose value is set when the batch syncs
+ */
+export class DeferredResult<T> implements BatchResult<T> {
+    private settled = false;
+    private result: T | undefined;
+
+    /**
+     * The value read
+     * @throws Error if the batch has not synced yet
+     */
+    get value(): T {
+        if (!this.settled) {
+            throw new Error('Batch result is not available until the batch has synced');
+        }
+        return this.result as T;
+    }
+
+    /**
+     * Set the value after the sync
+     * @param value Value read
+     */
+    resolve(value: T): void {
+        this.result = value;
+        this.settled = true;
+    }
+}
+
+/**
+ * BatchContext that queues calls to an adapter's methods and runs them in order on sync
+ */
+export class QueuedBatchContext implements BatchContext {
+    private adapter: ISpreadsheetAdapter;
+    private queue: Array<() => Promise<void>>;
+
+    /**
+     * @param adapter Adapter whose methods run the queued calls
+     */
+    constructor(adapter: ISpreadsheetAdapter) {
+        this.adapter = adapter;
+        this.queue = [];
+    }
+
+    /**
+     * Queue a read of one cell
+     */
+    getCellValue(address: CellAddress): BatchResult<CellValue> {
+        return this.read(() => this.adapter.getCellValue(address));
+    }
+
+    /**
+     * Queue a read of a range
+     */
+    getRange(startAddress: CellAddress, endAddress: CellAddress): BatchResult<CellMatrix> {
+        return this.read(() => this.adapter.getRange(startAddress, endAddress));
+    }
+
+    /**
+     * Queue a read of formulas
+     */
+    getFormulas(startAddress: CellAddress, endAddress: CellAddress, options?: FormulaOptions): BatchResult<FormulaMatrix> {
+        return this.read(() => this.adapter.getFormulas(startAddress, endAddress, options));
+    }
+
+    /**
+     * Queue a read of number formats
+     */
+    getNumberFormats(startAddress: CellAddress, endAddress: CellAddress): BatchResult<string[][]> {
+        return this.read(() => this.adapter.getNumberFormats(startAddress, endAddress));
+    }
+
+    /**
+     * Queue a write to one cell
+     */
+    setCellValue(address: CellAddress, value: CellValue): void {
+        this.queue.push(() => this.adapter.setCellValue(address, value));
+    }
+
+    /**
+     * Queue a write to a range
+     */
+    setRange(startAddress: CellAddress, data: CellMatrix, options?: SetRangeOptions): void {
+        this.queue.push(() => this.adapter.setRange(startAddress, data, options));
+    }
+
+    /**
+     * Queue clearing a range
+     */
+    clearRange(startAddress: CellAddress, endAddress: CellAddress): void {
+        this.queue.push(() => this.adapter.clearRange(startAddress, endAddress));
+    }
+
+    /**
+     * Queue a formula write
+     */
+    setFormulas(startAddress: CellAddress, formulas: FormulaMatrix, options?: FormulaOptions): void {
+        this.queue.push(() => this.adapter.setFormulas(startAddress, formulas, options));
+    }
+
+    /**
+     * Queue a number format change
+     */
+    setNumberFormat(startAddress: CellAddress, endAddress: CellAddress, format: NumberFormat): void {
+        this.queue.push(() => this.adapter.setNumberFormat(startAddress, endAddress, format));
+    }
+
+    /**
+     * Queue a style change
+     */
+    setStyle(startAddress: CellAddress, endAddress: CellAddress, style: RangeStyle): void {
+        this.queue.push(() => this.adapter.setStyle(startAddress, endAddress, style));
+    }
+
+    /**
+     * Run the queued calls in order
+     * @throws Error from the first call that fails; later calls are dropped
+     */
+    async sync(): Promise<void> {
+        const queued = this.queue;
+        this.queue = [];
+
+        for (const operation of queued) {
+            await operation();
+        }
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Queue a read and return its deferred result
+     */
+    private read<T>(operation: () => Promise<T>): BatchResult<T> {
+        const result = new DeferredResult<T>();
+        this.queue.push(async () => result.resolve(await operation()));
+        return result;
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * Cell Change Dispatch
+ *
+ * Filters cell change events against the ranges a listener watches and,
+ * when asked, holds them back until changes stop arriving so a burst of
+ * edits (a paste, a fill, a collaborator's save) reaches the listener as one
+ * call. Shared by the adapters, which only translate host events.
+ */
+
+import { AdapterError } from '../adapters/AdapterError';
+import { CellChange, CellChangeOptions } from '../adapters/ISpreadsheetAdapter';
+import { RangeRef, intersectRanges, parseAddress } from './address';
+
+/**
+ * Delivers cell changes to one listener
+ */
+export class CellChangeDispatcher {
+    private handler: (changes: CellChange[]) => void;
+    private ranges: RangeRef[] | null;
+    private debounceMs: number;
+    private pending: CellChange[];
+    private timer: ReturnType<typeof setTimeout> | null;
+    private disposed: boolean;
+
+    /**
+     * @param handler Listener receiving the changes
+     * @param options Watched ranges (A1 addresses, names already resolved) and debounce delay
+     * @throws AdapterError if a range cannot be parsed or the delay is negative
+     */
+    constructor(handler: (changes: CellChange[]) => void, options: CellChangeOptions = {}) {
+        const debounceMs = options.debounceMs ?? 0;
+
+        if (!Number.isFinite(debounceMs) || debounceMs < 0) {
+            throw new AdapterError(`Invalid debounce delay: ${debounceMs}`, { code: 'invalid_argument' });
+        }
+
+        this.handler = handler;
+        this.ranges = options.ranges ? options.ranges.map(range => parseAddress(range)) : null;
+        this.debounceMs = debounceMs;
+        this.pending = [];
+        this.timer = null;
+        this.disposed = false;
+    }
+
+    /**
+     * Report a change, if it touches a watched range
+     * @param change Change with a sheet-qualified address
+     */
+    push(change: CellChange): void {
+        if (this.disposed || !this.watches(change)) {
+            return;
+        }
+
+        if (this.debounceMs === 0) {
+            this.handler([change]);
+            return;
+        }
+
+        if (!this.pending.some(p => p.address === change.address && p.changeType === change.changeType)) {
+            this.pending.push(change);
+        }
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => this.flush(), this.debounceMs);
+    }
+
+    /**
+     * Report held-back changes now instead of waiting for the delay
+     */
+    flush(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        if (this.pending.length > 0 && !this.disposed) {
+            const changes = this.pending;
+            this.pending = [];
+            this.handler(changes);
+        }
+    }
+
+    /**
+     * Stop reporting; held-back changes are dropped
+     */
+    dispose(): void {
+        this.disposed = true;
+        this.pending = [];
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Check whether a change touches a watched range (unqualified ranges match every sheet)
+     * @private
+     */
+    private watches(change: CellChange): boolean {
+        if (!this.ranges) {
+            return true;
+        }
+
+        const changed = parseAddress(change.address);
+        return this.ranges.some(range => intersectRanges(range, changed) !== null);
+    }
+}
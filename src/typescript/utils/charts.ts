@@ -0,0 +1,72 @@
+/**
+ * Chart Series
+ *
+ * Expands a chart's source range into one series per column, so every adapter
+ * plots the same series under the same names instead of leaving the host to
+ * guess which rows and columns hold labels.
+ */
+
+import { AdapterError } from '../adapters/AdapterError';
+import { CellValue, ChartOptions, ChartSeries } from '../adapters/ISpreadsheetAdapter';
+import { RangeRef, formatAddress, offsetRange, rangeSize, resizeRange } from './address';
+
+/**
+ * List the series of a chart
+ * @param options Chart options
+ * @param source Parsed source range, sheet-qualified, or null if the chart has none
+ * @param headers First row of the source when it names the series, else null
+ * @returns Series of the source columns (named by header, else Series1, Series2, ...)
+ * followed by options.series
+ * @throws AdapterError if the source has no value column or there are no series at all
+ */
+export function chartSeries(
+    options: ChartOptions,
+    source: RangeRef | null,
+    headers: CellValue[] | null
+): ChartSeries[] {
+    const series: ChartSeries[] = [];
+
+    if (source) {
+        const { rows, columns } = rangeSize(source);
+        const headerRows = headers ? 1 : 0;
+
+        if (columns < 2 || rows <= headerRows) {
+            throw new AdapterError(
+                `Chart source ${formatAddress(source)} needs a category column and at least one value column`,
+                { code: 'invalid_argument', address: formatAddress(source) }
+            );
+        }
+
+        const column = (index: number): string =>
+            formatAddress(resizeRange(offsetRange(source, headerRows, index), rows - headerRows, 1));
+        const secondary = new Set((options.secondaryAxis || []).map(name => name.toLowerCase()));
+
+        for (let index = 1; index < columns; index++) {
+            const header = headers ? headers[index] : null;
+            const name = header === null || header === undefined || header === '' ? `Series${index}` : String(header);
+            series.push({
+                name,
+                values: column(index),
+                xValues: column(0),
+                secondaryAxis: secondary.has(name.toLowerCase())
+            });
+        }
+    }
+
+    series.push(...(options.series || []));
+
+    if (series.length === 0) {
+        throw new AdapterError('A chart needs a source range or at least one series', { code: 'invalid_argument' });
+    }
+
+    return series;
+}
+
+/**
+ * Where a chart goes when no position is given: two columns right of its data
+ * @param data Parsed range the chart plots
+ * @returns Top-left cell of the chart
+ */
+export function defaultChartPosition(data: RangeRef): RangeRef {
+    return resizeRange(offsetRange(data, 0, rangeSize(data).columns + 1), 1, 1);
+}
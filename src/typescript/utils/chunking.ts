@@ -0,0 +1,170 @@
+/**
+ * Chunked Range Transfers
+ *
+ * Splits large reads and writes into chunks that fit a per-request payload
+ * budget (counted in cells), runs them one after another, reports progress
+ * after each chunk and stops between chunks when aborted. Chunks are bands of
+ * whole rows; a row wider than the budget is split across columns.
+ */
+
+import { AdapterError } from '../adapters/AdapterError';
+import { CellAddress, CellMatrix, CellValue, ChunkOptions, RangeStyle, SetRangeOptions } from '../adapters/ISpreadsheetAdapter';
+import { RangeRef, formatAddress, offsetRange, parseAddress, rangeFromCorners, rangeSize, resizeRange } from './address';
+import { expandNumberFormat } from './formats';
+
+/**
+ * Default payload budget in cells, comfortably below Office.js request limits
+ */
+export const DEFAULT_MAX_CELLS_PER_CHUNK = 20000;
+
+/**
+ * Split a range into chunks of at most maxCells cells
+ * @param range Range to split
+ * @param maxCells Maximum cells per chunk
+ * @returns Chunks in row-major order
+ * @throws Error if maxCells is not a positive integer
+ */
+export function splitRange(range: RangeRef, maxCells: number): RangeRef[] {
+    if (!Number.isInteger(maxCells) || maxCells < 1) {
+        throw new AdapterError(`Invalid chunk size: ${maxCells}`, { code: 'invalid_argument' });
+    }
+
+    const { rows, columns } = rangeSize(range);
+    const chunks: RangeRef[] = [];
+
+    if (columns > maxCells) {
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < columns; c += maxCells) {
+                chunks.push(resizeRange(offsetRange(range, r, c), 1, Math.min(maxCells, columns - c)));
+            }
+        }
+        return chunks;
+    }
+
+    const rowsPerChunk = Math.floor(maxCells / columns);
+    for (let r = 0; r < rows; r += rowsPerChunk) {
+        chunks.push(resizeRange(offsetRange(range, r, 0), Math.min(rowsPerChunk, rows - r), columns));
+    }
+
+    return chunks;
+}
+
+/**
+ * Read a range chunk by chunk
+ * @param startAddress Start cell address
+ * @param endAddress End cell address
+ * @param options Chunk size, progress callback and abort signal
+ * @param defaultMaxCells Chunk size used when options do not set one
+ * @param readChunk Reads one chunk
+ * @returns The whole matrix
+ * @throws Error if aborted or a chunk fails
+ */
+export async function readInChunks(
+    startAddress: CellAddress,
+    endAddress: CellAddress,
+    options: ChunkOptions,
+    defaultMaxCells: number,
+    readChunk: (startAddress: CellAddress, endAddress: CellAddress) => Promise<CellMatrix>
+): Promise<CellMatrix> {
+    const range = rangeFromCorners(startAddress, endAddress);
+    const chunks = splitRange(range, options.maxCellsPerChunk ?? defaultMaxCells);
+    const { rows, columns } = rangeSize(range);
+    const result: CellMatrix = Array.from({ length: rows }, () => new Array<CellValue>(columns).fill(null));
+
+    await runChunks(chunks, options, rows * columns, async chunk => {
+        const values = await readChunk(formatAddress(resizeRange(chunk, 1, 1)), formatAddress(cornerOf(chunk)));
+        const rowOffset = chunk.start.row - range.start.row;
+        const colOffset = chunk.start.column - range.start.column;
+
+        values.forEach((row, r) => row.forEach((value, c) => (result[rowOffset + r][colOffset + c] = value)));
+    });
+
+    return result;
+}
+
+/**
+ * Write a matrix chunk by chunk
+ * A number format matrix is split along with the data. The style is applied
+ * once to the whole range after the last chunk, so borders outline the block
+ * rather than each chunk.
+ * @param startAddress Start cell address
+ * @param data Values to write
+ * @param options Number formats, styling, chunk size, progress callback and abort signal
+ * @param defaultMaxCells Chunk size used when options do not set one
+ * @param writeChunk Writes one chunk with its number formats
+ * @param setStyle Applies the style to the whole range
+ * @throws Error if the matrix is empty, aborted or a chunk fails
+ */
+export async function writeInChunks(
+    startAddress: CellAddress,
+    data: CellMatrix,
+    options: SetRangeOptions & ChunkOptions,
+    defaultMaxCells: number,
+    writeChunk: (startAddress: CellAddress, data: CellMatrix, options: SetRangeOptions) => Promise<void>,
+    setStyle: (startAddress: CellAddress, endAddress: CellAddress, style: RangeStyle) => Promise<void>
+): Promise<void> {
+    if (!data || data.length === 0 || data[0].length === 0) {
+        throw new AdapterError('Data matrix cannot be empty', { code: 'invalid_argument', address: startAddress });
+    }
+
+    const rows = data.length;
+    const columns = data[0].length;
+    const range = resizeRange(parseAddress(startAddress), rows, columns);
+    const chunks = splitRange(range, options.maxCellsPerChunk ?? defaultMaxCells);
+    const formats =
+        options.numberFormat !== undefined && typeof options.numberFormat !== 'string'
+            ? expandNumberFormat(options.numberFormat, rows, columns)
+            : null;
+
+    await runChunks(chunks, options, rows * columns, async chunk => {
+        const { rows: chunkRows, columns: chunkColumns } = rangeSize(chunk);
+        const rowOffset = chunk.start.row - range.start.row;
+        const colOffset = chunk.start.column - range.start.column;
+        const slice = <T>(matrix: T[][]): T[][] =>
+            matrix.slice(rowOffset, rowOffset + chunkRows).map(row => row.slice(colOffset, colOffset + chunkColumns));
+
+        await writeChunk(formatAddress(resizeRange(chunk, 1, 1)), slice(data), {
+            numberFormat: formats ? slice(formats) : options.numberFormat
+        });
+    });
+
+    if (options.style) {
+        await setStyle(formatAddress(resizeRange(range, 1, 1)), formatAddress(cornerOf(range)), options.style);
+    }
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Run chunks in order, checking the signal before each and reporting progress after each
+ */
+async function runChunks(
+    chunks: RangeRef[],
+    options: ChunkOptions,
+    totalCells: number,
+    run: (chunk: RangeRef) => Promise<void>
+): Promise<void> {
+    let completedCells = 0;
+
+    for (let i = 0; i < chunks.length; i++) {
+        if (options.signal?.aborted) {
+            throw new AdapterError(`Canceled after ${completedCells} of ${totalCells} cells`, { code: 'canceled' });
+        }
+
+        await run(chunks[i]);
+
+        const { rows, columns } = rangeSize(chunks[i]);
+        completedCells += rows * columns;
+
+        if (options.onProgress) {
+            options.onProgress({ completedCells, totalCells, completedChunks: i + 1, totalChunks: chunks.length });
+        }
+    }
+}
+
+/**
+ * Bottom-right cell of a range
+ */
+function cornerOf(range: RangeRef): RangeRef {
+    return { ...range, start: range.end, kind: 'cell' };
+}
@@ -0,0 +1,121 @@
+/**
+ * Excel Date Serials
+ *
+ * Conversion between spreadsheet date serials and JavaScript Dates.
+ *
+ * Dates are UTC-stable: a Date is read and written through its UTC fields, so
+ * 2024-01-01T00:00:00Z is serial 45292 on every machine regardless of its
+ * time zone. Build dates with Date.UTC(...) rather than new Date(y, m, d).
+ *
+ * The 1900 date system reproduces Excel's deliberate Lotus 1-2-3 bug: serial 60
+ * is the non-existent 1900-02-29, so serials 1-59 are shifted by one day.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** 1899-12-30, serial 0 for dates from 1900-03-01 onwards in the 1900 system */
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+
+/** 1904-01-01, serial 0 in the 1904 system (older Mac workbooks) */
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+/** Serial of the phantom 1900-02-29 */
+const PHANTOM_LEAP_DAY = 60;
+
+/** Largest serial Excel can display (9999-12-31) */
+export const MAX_DATE_SERIAL = 2958465;
+
+/**
+ * Workbook date system options
+ */
+export interface DateSystemOptions {
+    /** True for workbooks using the 1904 date system */
+    date1904?: boolean;
+}
+
+/**
+ * Convert a Date to an Excel date serial
+ * @param date Date (its UTC fields are used)
+ * @param options Workbook date system
+ * @returns Serial number; the fraction is the time of day
+ * @throws RangeError if the date is invalid or outside the date system
+ */
+export function dateToSerial(date: Date, options: DateSystemOptions = {}): number {
+    const time = date.getTime();
+
+    if (isNaN(time)) {
+        throw new RangeError('Invalid date');
+    }
+
+    let serial = options.date1904 ? (time - EPOCH_1904) / MS_PER_DAY : (time - EPOCH_1900) / MS_PER_DAY;
+
+    if (!options.date1904 && serial < PHANTOM_LEAP_DAY + 1) {
+        // Before 1900-03-01 Excel counts from 1899-12-31
+        serial -= 1;
+    }
+
+    if (serial < 0 || serial >= MAX_DATE_SERIAL + 1) {
+        throw new RangeError(`Date ${date.toISOString()} is outside the ${options.date1904 ? 1904 : 1900} date system`);
+    }
+
+    return roundToMillisecond(serial);
+}
+
+/**
+ * Convert an Excel date serial to a Date
+ * @param serial Serial number; the fraction is the time of day
+ * @param options Workbook date system
+ * @returns Date whose UTC fields hold the spreadsheet's calendar date and time
+ * @throws RangeError if the serial is outside the date system or is the phantom 1900-02-29
+ */
+export function serialToDate(serial: number, options: DateSystemOptions = {}): Date {
+    if (!Number.isFinite(serial) || serial < 0 || serial >= MAX_DATE_SERIAL + 1) {
+        throw new RangeError(`Serial ${serial} is outside the ${options.date1904 ? 1904 : 1900} date system`);
+    }
+
+    if (options.date1904) {
+        return new Date(EPOCH_1904 + Math.round(serial * MS_PER_DAY));
+    }
+
+    if (Math.floor(serial) === PHANTOM_LEAP_DAY) {
+        throw new RangeError('Serial 60 is 1900-02-29, which does not exist');
+    }
+
+    const days = serial < PHANTOM_LEAP_DAY ? serial + 1 : serial;
+    return new Date(EPOCH_1900 + Math.round(days * MS_PER_DAY));
+}
+
+/**
+ * Check whether a number format code displays a date or time
+ * Elapsed-time formats ("[h]:mm") are durations and are not treated as dates.
+ * @param format Number format code (e.g., "yyyy-mm-dd", "0.0%", "General")
+ * @returns True for date/time formats
+ */
+export function isDateFormat(format: string | null | undefined): boolean {
+    if (!format || /^general$/i.test(format.trim())) {
+        return false;
+    }
+
+    // Only the first (positive) section decides how dates are shown
+    const section = format.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/)[0];
+
+    if (/\[(h+|m+|s+)\]/i.test(section)) {
+        return false;
+    }
+
+    const stripped = section
+        .replace(/"[^"]*"/g, '') // quoted literals
+        .replace(/\\./g, '') // escaped characters
+        .replace(/\[[^\]]*\]/g, '') // colours, conditions and locales
+        .replace(/_.|\*./g, ''); // padding and fill characters
+
+    return /[dmyhs]/i.test(stripped);
+}
+
+/**
+ * Round a serial to whole milliseconds to hide floating point noise
+ * @private
+ */
+function roundToMillisecond(serial: number): number {
+    return Math.round(serial * MS_PER_DAY) / MS_PER_DAY;
+}
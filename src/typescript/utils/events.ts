@@ -0,0 +1,164 @@
+/**
+ * Event Subscriptions
+ *
+ * Keeps the handlers of each adapter event and the host registration behind
+ * them: the host handler is registered when the first handler subscribes and
+ * removed when the last one unsubscribes, however quickly subscriptions come
+ * and go. A host registration that is replaced while still being set up is
+ * removed once it completes and never delivers events, so handlers are never
+ * called twice for one host event.
+ */
+
+/**
+ * Removes a host event registration
+ */
+export type HostUnregister = () => Promise<void>;
+
+/**
+ * Registers a host event handler that passes events to emit
+ * @returns Function removing the registration
+ */
+export type HostRegister<T> = (emit: (arg: T) => void) => Promise<HostUnregister>;
+
+/**
+ * Handlers of one event and its current host registration
+ */
+interface EventChannel {
+    handlers: Set<(arg: unknown) => void>;
+    /** Current registration (null when none is active or pending) */
+    registration: Promise<HostUnregister | null> | null;
+}
+
+/**
+ * Manages the handlers and host registrations of an adapter's events
+ */
+export class EventSubscriptions {
+    private channels: Map<string, EventChannel>;
+
+    constructor() {
+        this.channels = new Map();
+    }
+
+    /**
+     * Add a handler, registering the host event if it is the first
+     * @param event Event name (e.g., "selectionChange")
+     * @param handler Event handler
+     * @param register Registers the host event; omit for events raised through emit()
+     * @returns Unsubscribe function; calling it more than once has no effect
+     */
+    subscribe<T>(event: string, handler: (arg: T) => void, register?: HostRegister<T>): () => void {
+        const channel = this.channel(event);
+        const entry = (arg: unknown): void => handler(arg as T);
+
+        channel.handlers.add(entry);
+        if (register && !channel.registration) {
+            this.register(event, channel, register);
+        }
+
+        return () => {
+            if (channel.handlers.delete(entry) && channel.handlers.size === 0) {
+                void this.unregister(channel);
+            }
+        };
+    }
+
+    /**
+     * Call every handler of an event; a handler that throws does not stop the others
+     * @param event Event name
+     * @param arg Event argument
+     */
+    emit<T>(event: string, arg: T): void {
+        const channel = this.channels.get(event);
+
+        if (!channel) {
+            return;
+        }
+
+        for (const handler of Array.from(channel.handlers)) {
+            try {
+                handler(arg);
+            } catch (error) {
+                console.error(`Error in ${event} handler:`, error);
+            }
+        }
+    }
+
+    /**
+     * Number of handlers subscribed to an event
+     * @param event Event name
+     */
+    count(event: string): number {
+        const channel = this.channels.get(event);
+        return channel ? channel.handlers.size : 0;
+    }
+
+    /**
+     * Remove every handler and host registration
+     * @returns Promise resolving once the host registrations are removed
+     */
+    async dispose(): Promise<void> {
+        const removals = Array.from(this.channels.values()).map(channel => {
+            channel.handlers.clear();
+            return this.unregister(channel);
+        });
+
+        this.channels.clear();
+        await Promise.all(removals);
+    }
+
+    // ===== Private Helper Methods =====
+
+    /**
+     * Get the channel of an event, creating it if needed
+     * @private
+     */
+    private channel(event: string): EventChannel {
+        let channel = this.channels.get(event);
+
+        if (!channel) {
+            channel = { handlers: new Set(), registration: null };
+            this.channels.set(event, channel);
+        }
+
+        return channel;
+    }
+
+    /**
+     * Register the host event; only the channel's current registration delivers events
+     * @private
+     */
+    private register<T>(event: string, channel: EventChannel, register: HostRegister<T>): void {
+        const registration: Promise<HostUnregister | null> = register(arg => {
+            if (channel.registration === registration) {
+                this.emit(event, arg);
+            }
+        }).catch(error => {
+            console.error(`Failed to register ${event} handler:`, error);
+            if (channel.registration === registration) {
+                // Let the next subscription try again
+                channel.registration = null;
+            }
+            return null;
+        });
+
+        channel.registration = registration;
+    }
+
+    /**
+     * Remove the channel's host registration once it has been set up
+     * @private
+     */
+    private async unregister(channel: EventChannel): Promise<void> {
+        const registration = channel.registration;
+        channel.registration = null;
+
+        const unregister = registration ? await registration : null;
+        if (unregister) {
+            try {
+                await unregister();
+            } catch (error) {
+                console.error('Failed to remove event handler:', error);
+            }
+        }
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * Formatting Presets and Helpers
+ *
+ * Number format codes and conditional formats commonly used when writing
+ * economic series into a sheet, plus shape helpers shared by the adapters.
+ */
+
+import { AdapterError } from '../adapters/AdapterError';
+import { ConditionalFormat, NumberFormat } from '../adapters/ISpreadsheetAdapter';
+
+/**
+ * Number format codes for common series values
+ */
+export const NumberFormats = {
+    general: 'General',
+    date: 'yyyy-mm-dd',
+    month: 'mmm yyyy',
+    year: 'yyyy',
+    integer: '#,##0',
+    number: '#,##0.00',
+    percent: '0.0%',
+    index: '0.0'
+} as const;
+
+/**
+ * Build a red/white/green colour scale centred on zero, suited to growth rates
+ * @param colors Optional colours for negative, zero and positive values
+ * @returns Conditional format definition
+ */
+export function growthColorScale(
+    colors: { negative?: string; zero?: string; positive?: string } = {}
+): ConditionalFormat {
+    return {
+        type: 'colorScale',
+        minimum: { type: 'lowestValue', color: colors.negative || '#F8696B' },
+        midpoint: { type: 'number', value: 0, color: colors.zero || '#FFFFFF' },
+        maximum: { type: 'highestValue', color: colors.positive || '#63BE7B' }
+    };
+}
+
+/**
+ * Expand a number format to a matrix matching a range
+ * @param format One format code, or a matrix of codes
+ * @param rows Number of rows in the range
+ * @param columns Number of columns in the range
+ * @returns Matrix of format codes
+ * @throws Error if a matrix does not match the range size
+ */
+export function expandNumberFormat(format: NumberFormat, rows: number, columns: number): string[][] {
+    if (typeof format === 'string') {
+        return Array.from({ length: rows }, () => new Array<string>(columns).fill(format));
+    }
+
+    if (format.length !== rows || format.some(row => row.length !== columns)) {
+        throw new AdapterError(`Number format matrix must be ${rows}x${columns}`, { code: 'invalid_argument' });
+    }
+
+    return format.map(row => [...row]);
+}
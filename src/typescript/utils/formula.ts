@@ -0,0 +1,211 @@
+/**
+ * Formula Text Helpers
+ *
+ * Host-independent helpers for building formulas and translating them between
+ * locale-specific and invariant (en-US) syntax, and between A1 and R1C1
+ * reference styles. String literals and quoted sheet names are never altered.
+ */
+
+import { CellRef, fromR1C1, parseCell, toR1C1 } from './address';
+
+/**
+ * Separators used when a formula is typed in a particular locale
+ * e.g., en-US uses "," and "."; de-DE uses ";" and ","
+ */
+export interface FormulaLocale {
+    argumentSeparator: ',' | ';';
+    decimalSeparator: '.' | ',';
+}
+
+/**
+ * Invariant locale used by Office.js `range.formulas` and our own formula builders
+ */
+export const INVARIANT_LOCALE: FormulaLocale = {
+    argumentSeparator: ',',
+    decimalSeparator: '.'
+};
+
+/**
+ * Argument for buildFormula
+ * - string/number/boolean: literal (strings are quoted)
+ * - { ref }: cell or range reference inserted as-is (e.g., { ref: 'A2:A10' })
+ */
+export type FormulaArgument = string | number | boolean | { ref: string };
+
+const A1_REFERENCE = /(^|[^A-Za-z0-9_.$])(\$?[A-Za-z]{1,3}\$?\d+)(?![A-Za-z0-9_(!])/g;
+const R1C1_REFERENCE = /(^|[^A-Za-z0-9_.$])(R(?:\[-?\d+\]|\d+)?C(?:\[-?\d+\]|\d+)?)(?![A-Za-z0-9_(!])/gi;
+
+/**
+ * Check whether a cell value is a formula
+ * @param value Cell value
+ * @returns True if the value is a string starting with "="
+ */
+export function isFormula(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith('=');
+}
+
+/**
+ * Build a function-call formula with correctly quoted arguments
+ * @param name Function name (e.g., "ECON.GROWTH")
+ * @param args Function arguments
+ * @returns Invariant formula (e.g., '=ECON.GROWTH(A2:A10,"YoY")')
+ * @throws Error if a numeric argument is not finite
+ */
+export function buildFormula(name: string, args: FormulaArgument[]): string {
+    const rendered = args.map(arg => {
+        if (typeof arg === 'object') {
+            return arg.ref;
+        }
+        if (typeof arg === 'string') {
+            return `"${arg.replace(/"/g, '""')}"`;
+        }
+        if (typeof arg === 'boolean') {
+            return arg ? 'TRUE' : 'FALSE';
+        }
+        if (!Number.isFinite(arg)) {
+            throw new Error(`Invalid numeric argument for ${name}: ${arg}`);
+        }
+        return String(arg);
+    });
+
+    return `=${name}(${rendered.join(',')})`;
+}
+
+/**
+ * Convert a formula typed in a locale to invariant syntax
+ * Array constants ({...}) are passed through unchanged.
+ * @param formula Formula text (e.g., '=ECON.GROWTH(A2:A10;"YoY";1,5)')
+ * @param locale Locale the formula was written in
+ * @returns Invariant formula (e.g., '=ECON.GROWTH(A2:A10,"YoY",1.5)')
+ */
+export function toInvariantFormula(formula: string, locale: FormulaLocale): string {
+    if (!isFormula(formula)) {
+        return formula;
+    }
+
+    return mapCode(formula, code => {
+        let result = code;
+        if (locale.decimalSeparator === ',') {
+            result = result.replace(/(\d),(\d)/g, '$1.$2');
+        }
+        if (locale.argumentSeparator === ';') {
+            result = result.replace(/;/g, ',');
+        }
+        return result;
+    });
+}
+
+/**
+ * Convert an invariant formula to the syntax of a locale
+ * Array constants ({...}) are passed through unchanged.
+ * @param formula Invariant formula text
+ * @param locale Target locale
+ * @returns Localized formula
+ */
+export function toLocalFormula(formula: string, locale: FormulaLocale): string {
+    if (!isFormula(formula)) {
+        return formula;
+    }
+
+    return mapCode(formula, code => {
+        let result = code;
+        if (locale.argumentSeparator === ';') {
+            result = result.replace(/,/g, ';');
+        }
+        if (locale.decimalSeparator === ',') {
+            result = result.replace(/(\d)\.(\d)/g, '$1,$2');
+        }
+        return result;
+    });
+}
+
+/**
+ * Rewrite the A1 cell references in a formula as R1C1 references
+ * Whole-column and whole-row references are left unchanged.
+ * @param formula A1 formula
+ * @param base Cell holding the formula (relative references are measured from it)
+ * @returns R1C1 formula
+ */
+export function formulaToR1C1(formula: string, base: CellRef): string {
+    if (!isFormula(formula)) {
+        return formula;
+    }
+
+    return mapCode(formula, code =>
+        code.replace(A1_REFERENCE, (_match, lead: string, ref: string) => {
+            try {
+                parseCell(ref);
+            } catch {
+                return `${lead}${ref}`;
+            }
+            return `${lead}${toR1C1(ref, base)}`;
+        })
+    );
+}
+
+/**
+ * Rewrite the R1C1 cell references in a formula as A1 references
+ * @param formula R1C1 formula
+ * @param base Cell holding the formula (relative references are measured from it)
+ * @returns A1 formula
+ * @throws Error if a relative reference falls outside the worksheet
+ */
+export function formulaFromR1C1(formula: string, base: CellRef): string {
+    if (!isFormula(formula)) {
+        return formula;
+    }
+
+    return mapCode(formula, code =>
+        code.replace(R1C1_REFERENCE, (_match, lead: string, ref: string) => `${lead}${fromR1C1(ref, base)}`)
+    );
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Apply a transform to the code parts of a formula, skipping string literals,
+ * quoted sheet names and array constants
+ */
+function mapCode(formula: string, transform: (code: string) => string): string {
+    let result = '';
+    let code = '';
+    let i = 0;
+
+    const flush = (): void => {
+        result += transform(code);
+        code = '';
+    };
+
+    while (i < formula.length) {
+        const ch = formula[i];
+
+        if (ch === '"' || ch === "'") {
+            flush();
+            let end = i + 1;
+            while (end < formula.length) {
+                if (formula[end] === ch) {
+                    if (formula[end + 1] === ch) {
+                        end += 2;
+                        continue;
+                    }
+                    break;
+                }
+                end++;
+            }
+            result += formula.substring(i, end + 1);
+            i = end + 1;
+        } else if (ch === '{') {
+            flush();
+            const end = formula.indexOf('}', i);
+            const stop = end === -1 ? formula.length : end + 1;
+            result += formula.substring(i, stop);
+            i = stop;
+        } else {
+            code += ch;
+            i++;
+        }
+    }
+
+    flush();
+    return result;
+}
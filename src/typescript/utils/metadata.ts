@@ -0,0 +1,45 @@
+/**
+ * Document Metadata Keys
+ *
+ * Metadata entries share the host's document store (Excel settings, Calc
+ * user-defined properties) with other add-ins and, in Calc, with the user's own
+ * custom properties. Keys are validated and stored under a common prefix so
+ * entries written by this toolkit can be listed without picking up the rest.
+ */
+
+import { AdapterError } from '../adapters/AdapterError';
+
+/**
+ * Prefix added to metadata keys in the host document
+ */
+export const METADATA_KEY_PREFIX = 'EconToolkit.';
+
+const METADATA_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_.-]{0,99}$/;
+
+/**
+ * Get the key a metadata entry is stored under in the host document
+ * @param key Entry key (e.g., "provenance")
+ * @returns Prefixed key (e.g., "EconToolkit.provenance")
+ * @throws AdapterError if the key is empty, too long or contains other characters
+ */
+export function metadataStorageKey(key: string): string {
+    if (!METADATA_KEY_PATTERN.test(key)) {
+        throw new AdapterError(`Invalid metadata key: ${key}`, { code: 'invalid_argument' });
+    }
+
+    return METADATA_KEY_PREFIX + key;
+}
+
+/**
+ * Get the entry key of a host document key
+ * @param storageKey Key as stored in the document
+ * @returns Entry key, or null if the document key was not written by metadataStorageKey
+ */
+export function metadataKeyOf(storageKey: string): string | null {
+    if (!storageKey.startsWith(METADATA_KEY_PREFIX)) {
+        return null;
+    }
+
+    const key = storageKey.slice(METADATA_KEY_PREFIX.length);
+    return METADATA_KEY_PATTERN.test(key) ? key : null;
+}
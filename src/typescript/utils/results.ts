@@ -0,0 +1,169 @@
+/**
+ * Range Results
+ *
+ * The result contract of custom functions with returnType 'range'. They
+ * return a CellMatrix, a MatrixResult (values with header rows above them)
+ * or a single value. Results are checked where they leave the adapter: every
+ * row must be as wide as the first and hold only strings, finite numbers,
+ * booleans, valid Dates or empty cells. Hosts always get the whole matrix,
+ * with Dates as serials and empty cells as "". Without dynamic arrays it only
+ * fills an array formula entered over enough cells, so results can instead be
+ * written with setRange, outside calculation.
+ */
+
+import { AdapterError } from '../adapters/AdapterError';
+import {
+    CellAddress,
+    CellMatrix,
+    CellValue,
+    ISpreadsheetAdapter,
+    MatrixResult
+} from '../adapters/ISpreadsheetAdapter';
+import { formatAddress, parseAddress, resizeRange } from './address';
+import { DateSystemOptions } from './dates';
+import { toHostValue } from './values';
+
+/**
+ * Check whether a value is a MatrixResult
+ * @param value Value to check
+ * @returns True for objects with a values array
+ */
+export function isMatrixResult(value: unknown): value is MatrixResult {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Date) &&
+        Array.isArray((value as MatrixResult).values)
+    );
+}
+
+/**
+ * Check the result of a range function and put its header rows above the values
+ * @param result Result returned by the function
+ * @param name Function name, for error messages
+ * @returns Single values as they are, otherwise one matrix with empty cells as null
+ * @throws AdapterError (invalid_argument) if the result breaks the contract
+ */
+export function toRangeResult(result: unknown, name: string): CellValue | CellMatrix {
+    if (!Array.isArray(result) && !isMatrixResult(result)) {
+        return checkCell(result, name, 'result');
+    }
+
+    const headers: unknown = isMatrixResult(result) ? result.headers ?? [] : [];
+    const values: unknown[] = isMatrixResult(result) ? result.values : (result as unknown[]);
+
+    if (!Array.isArray(headers)) {
+        throw invalid(name, 'headers must be an array of rows');
+    }
+
+    const rows: unknown[] = [...(headers as unknown[]), ...values];
+    const width = rows.length > 0 && Array.isArray(rows[0]) ? rows[0].length : 0;
+
+    return rows.map((row: unknown, r) => {
+        if (!Array.isArray(row)) {
+            throw invalid(name, `row ${r + 1} is not an array; expected a 2-D array`);
+        }
+        if (row.length === 0 || row.length !== width) {
+            throw invalid(name, `row ${r + 1} has ${row.length} cells; expected ${width || 'at least 1'}`);
+        }
+        return row.map((cell: unknown, c) => checkCell(cell, name, `row ${r + 1}, column ${c + 1}`));
+    });
+}
+
+/**
+ * Convert a checked range result to the matrix returned to the host
+ * Single values become 1x1 matrices and an empty result one empty cell.
+ * @param result Result from toRangeResult
+ * @param options Workbook date system
+ * @returns Matrix of host values
+ */
+export function toHostMatrix(
+    result: CellValue | CellMatrix,
+    options: DateSystemOptions = {}
+): (string | number | boolean)[][] {
+    const matrix = Array.isArray(result) ? result : [[result]];
+
+    if (matrix.length === 0) {
+        return [['']];
+    }
+
+    return matrix.map(row => row.map(cell => toHostValue(cell, options)));
+}
+
+/**
+ * Write a checked range result with setRange, for hosts without dynamic arrays
+ * @param adapter Spreadsheet adapter
+ * @param address Top-left cell
+ * @param result Result from toRangeResult
+ * @returns Address of the range covered by the result
+ */
+export async function writeRangeResult(
+    adapter: ISpreadsheetAdapter,
+    address: CellAddress,
+    result: CellValue | CellMatrix
+): Promise<CellAddress> {
+    const matrix = Array.isArray(result) ? result : [[result]];
+    const anchor = resizeRange(parseAddress(address), 1, 1);
+
+    if (matrix.length === 0) {
+        return formatAddress(anchor);
+    }
+
+    await adapter.setRange(formatAddress(anchor), matrix);
+    return formatAddress(resizeRange(anchor, matrix.length, matrix[0].length));
+}
+
+/**
+ * Call a range function and write its result at a cell
+ * Runs outside calculation, e.g. from a command, so it works on every host.
+ * @param adapter Spreadsheet adapter
+ * @param address Top-left cell
+ * @param name Function name
+ * @param args Function arguments
+ * @returns Address of the range covered by the result
+ * @throws AdapterError if the function fails or its result breaks the contract
+ */
+export async function writeFunctionResult(
+    adapter: ISpreadsheetAdapter,
+    address: CellAddress,
+    name: string,
+    ...args: unknown[]
+): Promise<CellAddress> {
+    const result = await adapter.callFunction(name, ...args);
+    return writeRangeResult(adapter, address, toRangeResult(result, name));
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Check one cell of a result; undefined becomes null
+ */
+function checkCell(value: unknown, name: string, where: string): CellValue {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (typeof value === 'string' || typeof value === 'boolean') {
+        return value;
+    }
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) {
+            throw invalid(name, `${where} is not a finite number`);
+        }
+        return value;
+    }
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) {
+            throw invalid(name, `${where} is an invalid Date`);
+        }
+        return value;
+    }
+    throw invalid(name, `${where} has unsupported type ${typeof value}`);
+}
+
+/**
+ * Error for a result breaking the contract
+ */
+function invalid(name: string, problem: string): AdapterError {
+    return new AdapterError(`${name} returned an invalid range: ${problem}`, { code: 'invalid_argument' });
+}
@@ -0,0 +1,209 @@
+/**
+ * Streaming Custom Functions
+ *
+ * Runs custom functions outside a host (programmatic calls) with the same
+ * invocation model Office uses: streaming functions push results through
+ * setResult, and streaming or cancelable functions are told when the call
+ * is canceled. Results of range functions are checked against the range
+ * result contract (see results). Also builds polling functions that refresh
+ * a cell on an interval, such as the auto-refresh interval from the settings.
+ */
+
+import {
+    CustomFunctionImplementation,
+    CustomFunctionMetadata,
+    CustomFunctionResult,
+    StreamingInvocation
+} from '../adapters/ISpreadsheetAdapter';
+import { toRangeResult } from './results';
+
+/**
+ * Options for polling functions
+ */
+export interface PollingOptions {
+    /** Delay between the end of one fetch and the start of the next (0 fetches once) */
+    intervalMs?: number;
+}
+
+/**
+ * Display settings that control auto-refresh (see EconomicSettings.display)
+ */
+export interface RefreshSettings {
+    autoRefresh: boolean;
+    refreshIntervalMinutes: number;
+}
+
+/**
+ * Start a custom function call
+ * Streaming and cancelable functions receive an invocation as their last argument.
+ * @param metadata Function metadata
+ * @param implementation Function implementation
+ * @param args Arguments
+ * @param handler Receives each result; errors and invalid range results are delivered as Error values
+ * @returns Cancel function; no results are delivered after it is called
+ */
+export function startInvocation(
+    metadata: CustomFunctionMetadata,
+    implementation: CustomFunctionImplementation,
+    args: unknown[],
+    handler: (result: CustomFunctionResult | Error) => void
+): () => void {
+    let canceled = false;
+    const deliver = (result: CustomFunctionResult | Error): void => {
+        if (!canceled) {
+            handler(result instanceof Error ? result : checkResult(metadata, result));
+        }
+    };
+    const invocation: StreamingInvocation = {
+        setResult: deliver
+    };
+
+    const withInvocation = metadata.streaming || metadata.cancelable;
+
+    try {
+        const returned = implementation(...(withInvocation ? [...args, invocation] : args));
+
+        if (!metadata.streaming) {
+            Promise.resolve(returned as CustomFunctionResult).then(deliver, error => deliver(toError(error)));
+        } else if (isPromiseLike(returned)) {
+            // A streaming function that fails before its first result
+            returned.then(undefined, error => deliver(toError(error)));
+        }
+    } catch (error) {
+        deliver(toError(error));
+    }
+
+    return () => {
+        if (canceled) {
+            return;
+        }
+        canceled = true;
+        if (invocation.onCanceled) {
+            invocation.onCanceled();
+        }
+    };
+}
+
+/**
+ * Call a custom function and resolve with its first result
+ * Streaming functions are canceled after their first result.
+ * @param metadata Function metadata
+ * @param implementation Function implementation
+ * @param args Arguments
+ * @returns Promise resolving to the first result
+ * @throws Error if the function fails
+ */
+export function firstResult(
+    metadata: CustomFunctionMetadata,
+    implementation: CustomFunctionImplementation,
+    args: unknown[]
+): Promise<CustomFunctionResult> {
+    return new Promise((resolve, reject) => {
+        let settled = false;
+
+        const cancel = startInvocation(metadata, implementation, args, result => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+
+            if (result instanceof Error) {
+                reject(result);
+            } else {
+                resolve(result);
+            }
+
+            if (metadata.streaming) {
+                // The first result may arrive before startInvocation has returned
+                void Promise.resolve().then(() => cancel());
+            }
+        });
+    });
+}
+
+/**
+ * Build a streaming implementation that fetches a value now and then again
+ * every interval until the call is canceled
+ * Failed fetches show as errors and polling continues. Register the result
+ * with `streaming: true` and `cancelable: true`.
+ * @param fetchValue Fetches the cell value; the signal aborts when the call is canceled
+ * @param options Polling interval
+ * @returns Streaming implementation
+ */
+export function pollingFunction(
+    fetchValue: (args: unknown[], signal: AbortSignal) => Promise<CustomFunctionResult>,
+    options: PollingOptions = {}
+): CustomFunctionImplementation {
+    const intervalMs = options.intervalMs ?? 0;
+
+    return (...argsWithInvocation: unknown[]) => {
+        const args = argsWithInvocation.slice(0, -1);
+        const invocation = argsWithInvocation[argsWithInvocation.length - 1] as StreamingInvocation;
+        const controller = new AbortController();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        invocation.onCanceled = () => {
+            controller.abort();
+            clearTimeout(timer);
+        };
+
+        const poll = async (): Promise<void> => {
+            try {
+                const value = await fetchValue(args, controller.signal);
+                if (!controller.signal.aborted) {
+                    invocation.setResult(value);
+                }
+            } catch (error) {
+                if (!controller.signal.aborted) {
+                    invocation.setResult(toError(error));
+                }
+            }
+
+            if (intervalMs > 0 && !controller.signal.aborted) {
+                timer = setTimeout(() => void poll(), intervalMs);
+            }
+        };
+
+        void poll();
+    };
+}
+
+/**
+ * Polling interval from the display settings
+ * @param settings Display settings
+ * @returns Interval in milliseconds, or 0 if auto-refresh is off
+ */
+export function refreshIntervalMs(settings: RefreshSettings): number {
+    return settings.autoRefresh ? settings.refreshIntervalMinutes * 60 * 1000 : 0;
+}
+
+// ===== Private Helpers =====
+
+/**
+ * Check the result of a range function; other results pass through
+ */
+function checkResult(metadata: CustomFunctionMetadata, result: CustomFunctionResult): CustomFunctionResult | Error {
+    if (metadata.returnType !== 'range') {
+        return result;
+    }
+
+    try {
+        return toRangeResult(result, metadata.name);
+    } catch (error) {
+        return toError(error);
+    }
+}
+
+/**
+ * Wrap a thrown value in an Error
+ */
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Check whether a value is a promise
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+}
@@ -0,0 +1,47 @@
+/**
+ * Table Columns and Records
+ *
+ * Excel names the columns of a new table itself: blank headers become
+ * Column1, Column2, ... and repeated headers are numbered. Calc database
+ * ranges take whatever the header row holds, so the other adapters apply the
+ * same rules and a table has the same columns on every host.
+ */
+
+import { CellMatrix, CellValue, TableRecord } from '../adapters/ISpreadsheetAdapter';
+
+/**
+ * Name the columns of a table from its header row
+ * @param headers Header row values
+ * @returns Column names, non-blank and unique (case-insensitive)
+ */
+export function tableColumnNames(headers: CellValue[]): string[] {
+    const used = new Set<string>();
+
+    return headers.map((header, index) => {
+        const text = header === null || header === undefined ? '' : String(header).trim();
+        let name = text === '' ? `Column${index + 1}` : text;
+
+        for (let n = 2; used.has(name.toLowerCase()); n++) {
+            name = `${text === '' ? 'Column' : text}${n}`;
+        }
+
+        used.add(name.toLowerCase());
+        return name;
+    });
+}
+
+/**
+ * Key the rows of a table by column name
+ * @param columns Column names
+ * @param rows Data rows
+ * @returns One record per row
+ */
+export function toTableRecords(columns: string[], rows: CellMatrix): TableRecord[] {
+    return rows.map(row => {
+        const record: TableRecord = {};
+        columns.forEach((column, index) => {
+            record[column] = row[index] ?? null;
+        });
+        return record;
+    });
+}
@@ -0,0 +1,149 @@
+/**
+ * Cell Value Normalization
+ *
+ * Converts raw host values to CellValue and back. Numbers shown with a date
+ * format become Dates, Dates are written as serials, and strings are never
+ * reinterpreted unless lenient mode is requested.
+ */
+
+import { CellValue } from '../adapters/ISpreadsheetAdapter';
+import { DateSystemOptions, dateToSerial, isDateFormat, serialToDate } from './dates';
+
+/**
+ * How strictly raw host values are mapped to CellValue
+ * - strict: strings stay strings; unsupported values throw
+ * - lenient: canonical numeric strings ("42", "-1.5") become numbers and
+ *   unsupported values are stringified; strings like "00123" stay strings
+ */
+export type ValueMode = 'strict' | 'lenient';
+
+/**
+ * Options for normalizing host values
+ */
+export interface ValueNormalizationOptions extends DateSystemOptions {
+    /** Normalization mode (default 'strict') */
+    mode?: ValueMode;
+}
+
+/**
+ * Number format used for Dates written without an explicit format
+ */
+export const DEFAULT_DATE_FORMAT = 'yyyy-mm-dd';
+
+/**
+ * Number format used for Dates with a time of day written without an explicit format
+ */
+export const DEFAULT_DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+/**
+ * Normalize a single raw host value
+ * @param value Raw value from the host
+ * @param numberFormat Number format code of the cell, used to recognise dates
+ * @param options Normalization mode and workbook date system
+ * @returns Normalized CellValue
+ * @throws TypeError in strict mode if the value has an unsupported type
+ */
+export function normalizeCellValue(
+    value: unknown,
+    numberFormat?: string | null,
+    options: ValueNormalizationOptions = {}
+): CellValue {
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+
+    if (typeof value === 'number') {
+        if (isDateFormat(numberFormat)) {
+            try {
+                return serialToDate(value, options);
+            } catch {
+                // Not representable as a date (e.g., negative or the phantom 1900-02-29)
+                return value;
+            }
+        }
+        return value;
+    }
+
+    if (typeof value === 'boolean' || value instanceof Date) {
+        return value;
+    }
+
+    if (typeof value === 'string') {
+        if (options.mode === 'lenient' && isCanonicalNumber(value)) {
+            return Number(value);
+        }
+        return value;
+    }
+
+    if (options.mode === 'lenient') {
+        return String(value);
+    }
+
+    throw new TypeError(`Unsupported cell value of type ${typeof value}`);
+}
+
+/**
+ * Normalize a matrix of raw host values
+ * @param values Raw values from the host
+ * @param numberFormats Matching number format codes (optional)
+ * @param options Normalization mode and workbook date system
+ * @returns Normalized matrix
+ */
+export function normalizeCellMatrix(
+    values: unknown[][],
+    numberFormats: unknown[][] | null | undefined,
+    options: ValueNormalizationOptions = {}
+): CellValue[][] {
+    return values.map((row, r) =>
+        row.map((cell, c) => {
+            const format = numberFormats && numberFormats[r] ? numberFormats[r][c] : null;
+            return normalizeCellValue(cell, typeof format === 'string' ? format : null, options);
+        })
+    );
+}
+
+/**
+ * Convert a CellValue to the raw value written to the host
+ * @param value Cell value
+ * @param options Workbook date system
+ * @returns Serial number for Dates, "" for empty values, otherwise the value
+ */
+export function toHostValue(value: CellValue, options: DateSystemOptions = {}): string | number | boolean {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    if (value instanceof Date) {
+        return dateToSerial(value, options);
+    }
+
+    return value;
+}
+
+/**
+ * Pick the number format to apply when a Date is written
+ * @param value Cell value
+ * @returns A date (or date-time) format for Dates, otherwise null (leave unchanged)
+ */
+export function dateFormatFor(value: CellValue): string | null {
+    if (!(value instanceof Date)) {
+        return null;
+    }
+
+    return value.getTime() % (24 * 60 * 60 * 1000) === 0 ? DEFAULT_DATE_FORMAT : DEFAULT_DATE_TIME_FORMAT;
+}
+
+/**
+ * Check whether a string is the canonical text of a finite number
+ * @private
+ */
+function isCanonicalNumber(value: string): boolean {
+    const trimmed = value.trim();
+
+    if (trimmed === '' || trimmed !== value) {
+        return false;
+    }
+
+    const num = Number(trimmed);
+    return Number.isFinite(num) && String(num) === trimmed;
+}
@@ -0,0 +1,101 @@
+import {
+  AdapterError,
+  isAdapterError,
+  isTransientError,
+  toAdapterError,
+} from '../../../src/typescript/adapters/AdapterError';
+import { parseAddress } from '../../../src/typescript/utils/address';
+
+/**
+ * Shape of OfficeExtension.Error as thrown by Excel.run
+ */
+function officeError(code: string, message = 'The requested resource does not exist.'): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('AdapterError', () => {
+  it('should carry code, address and cause', () => {
+    const cause = new Error('boom');
+    const error = new AdapterError('Failed', {
+      code: 'protected',
+      address: 'A1',
+      sheetName: 'Data',
+      cause,
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('AdapterError');
+    expect(error).toMatchObject({ code: 'protected', address: 'A1', sheetName: 'Data', cause });
+    expect(error.transient).toBe(false);
+  });
+
+  describe('toAdapterError', () => {
+    it('should map Office.js error codes', () => {
+      expect(toAdapterError(officeError('InvalidArgument'), 'Failed').code).toBe(
+        'invalid_argument'
+      );
+      expect(toAdapterError(officeError('AccessDenied'), 'Failed').code).toBe('protected');
+      expect(toAdapterError(officeError('ApiNotFound'), 'Failed').code).toBe('not_supported');
+      expect(toAdapterError(officeError('ActivityLimitReached'), 'Failed').code).toBe('transient');
+      expect(toAdapterError(officeError('SomethingNew'), 'Failed')).toMatchObject({
+        code: 'unknown',
+        hostCode: 'SomethingNew',
+      });
+    });
+
+    it('should read ItemNotFound as a missing sheet when the address names one', () => {
+      const error = toAdapterError(officeError('ItemNotFound'), 'Failed to get range', {
+        address: "'My Data'!A1:B2",
+      });
+
+      expect(error).toMatchObject({
+        code: 'sheet_not_found',
+        sheetName: 'My Data',
+        address: "'My Data'!A1:B2",
+        hostCode: 'ItemNotFound',
+      });
+      expect(toAdapterError(officeError('ItemNotFound'), 'Failed', { address: 'A1' }).code).toBe(
+        'not_found'
+      );
+    });
+
+    it('should prefix the message and keep the cause', () => {
+      const cause = officeError('InvalidReference', 'Bad reference');
+      const error = toAdapterError(cause, 'Failed to set range at A1', { address: 'A1' });
+
+      expect(error.message).toBe('Failed to set range at A1: Bad reference');
+      expect(error.cause).toBe(cause);
+      expect(error.code).toBe('invalid_address');
+    });
+
+    it('should keep the code of a wrapped AdapterError', () => {
+      let inner: unknown;
+      try {
+        parseAddress('1A');
+      } catch (error) {
+        inner = error;
+      }
+
+      const error = toAdapterError(inner, 'Failed to get cell value at 1A', { address: '1A' });
+      expect(error.code).toBe('invalid_address');
+      expect(error.message).toBe('Failed to get cell value at 1A: Invalid cell address: 1A');
+    });
+
+    it('should classify anything else as unknown', () => {
+      expect(toAdapterError('oops', 'Failed')).toMatchObject({
+        code: 'unknown',
+        message: 'Failed: oops',
+      });
+    });
+  });
+
+  it('should identify transient errors', () => {
+    const busy = toAdapterError(officeError('InvalidOperationInCellEditMode'), 'Failed');
+
+    expect(isTransientError(busy)).toBe(true);
+    expect(busy.transient).toBe(true);
+    expect(isTransientError(new Error('busy'))).toBe(false);
+    expect(isAdapterError(busy)).toBe(true);
+    expect(isAdapterError(busy, 'protected')).toBe(false);
+  });
+});
@@ -1,10 +1,15 @@
-import { detectPlatform, Platform } from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import {
+  createAdapter,
+  detectPlatform,
+  Platform,
+} from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
 
 describe('ISpreadsheetAdapter', () => {
   describe('detectPlatform', () => {
-    it('should detect unknown platform in test environment', () => {
+    it('should detect in-memory platform under Node', () => {
       const platform = detectPlatform();
-      expect(platform).toBe(Platform.Unknown);
+      expect(platform).toBe(Platform.Memory);
     });
 
     it('should detect Excel when Office is available', () => {
@@ -20,5 +25,26 @@ describe('ISpreadsheetAdapter', () => {
       expect(platform).toBe(Platform.LibreOffice);
       delete (global as any).window;
     });
+
+    it('should detect web when window has no host API', () => {
+      (global as any).window = {};
+      const platform = detectPlatform();
+      expect(platform).toBe(Platform.Web);
+      delete (global as any).window;
+    });
+  });
+
+  describe('createAdapter', () => {
+    it('should create an in-memory adapter under Node', () => {
+      const adapter = createAdapter();
+      expect(adapter).toBeInstanceOf(InMemoryAdapter);
+      expect(adapter.getPlatform()).toBe(Platform.Memory);
+    });
+
+    it('should throw on a plain web page', () => {
+      (global as any).window = {};
+      expect(() => createAdapter()).toThrow('Unknown platform');
+      delete (global as any).window;
+    });
   });
 });
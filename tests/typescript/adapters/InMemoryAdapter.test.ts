@@ -0,0 +1,690 @@
+import { AdapterError } from '../../../src/typescript/adapters/AdapterError';
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import {
+  Platform,
+  StreamingInvocation,
+} from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import { NumberFormats, growthColorScale } from '../../../src/typescript/utils/formats';
+
+describe('InMemoryAdapter', () => {
+  let adapter: InMemoryAdapter;
+
+  beforeEach(() => {
+    adapter = new InMemoryAdapter({ sheetNames: ['Sheet1', 'My Sheet'] });
+  });
+
+  it('should report the memory platform and be ready', async () => {
+    expect(adapter.getPlatform()).toBe(Platform.Memory);
+    await expect(adapter.isReady()).resolves.toBe(true);
+  });
+
+  describe('cells and ranges', () => {
+    it('should read back a written cell on the active sheet', async () => {
+      await adapter.setCellValue('B5', 42);
+      expect(await adapter.getCellValue('B5')).toBe(42);
+      expect(await adapter.getCellValue('Sheet1!B5')).toBe(42);
+    });
+
+    it('should return null for empty cells', async () => {
+      expect(await adapter.getCellValue('Z99')).toBeNull();
+    });
+
+    it('should address quoted sheet names', async () => {
+      await adapter.setCellValue("'My Sheet'!A1", 'gdp');
+      expect(await adapter.getCellValue("'My Sheet'!A1")).toBe('gdp');
+      expect(await adapter.getCellValue('A1')).toBeNull();
+    });
+
+    it('should accept absolute references and sheet names containing "!"', async () => {
+      await adapter.createSheet('Wow!');
+      await adapter.setCellValue("'Wow!'!$B$2", 7);
+      expect(await adapter.getRange("'Wow!'!A1", 'B2')).toEqual([
+        [null, null],
+        [null, 7],
+      ]);
+    });
+
+    it('should round-trip a matrix through setRange/getRange', async () => {
+      const date = new Date(Date.UTC(2024, 0, 1));
+      await adapter.setRange('B2', [
+        ['Date', 'GDP'],
+        [date, 101.5],
+        [null, true],
+      ]);
+
+      expect(await adapter.getRange('B2', 'C4')).toEqual([
+        ['Date', 'GDP'],
+        [date, 101.5],
+        [null, true],
+      ]);
+    });
+
+    it('should normalize reversed range corners', async () => {
+      await adapter.setRange('A1', [
+        [1, 2],
+        [3, 4],
+      ]);
+      expect(await adapter.getRange('B2', 'A1')).toEqual([
+        [1, 2],
+        [3, 4],
+      ]);
+    });
+
+    it('should reject an empty matrix', async () => {
+      await expect(adapter.setRange('A1', [])).rejects.toThrow('Data matrix cannot be empty');
+    });
+
+    it('should clear a range', async () => {
+      await adapter.setRange('A1', [
+        [1, 2],
+        [3, 4],
+      ]);
+      await adapter.clearRange('A1', 'A2');
+      expect(await adapter.getRange('A1', 'B2')).toEqual([
+        [null, 2],
+        [null, 4],
+      ]);
+    });
+
+    it('should reject ranges spanning two sheets', async () => {
+      await expect(adapter.getRange('Sheet1!A1', "'My Sheet'!B2")).rejects.toThrow(
+        'spans more than one sheet'
+      );
+    });
+
+    it('should reject invalid addresses and unknown sheets', async () => {
+      await expect(adapter.getCellValue('1A')).rejects.toThrow('Invalid cell address');
+      await expect(adapter.getCellValue('Nope!A1')).rejects.toThrow('Sheet not found: Nope');
+    });
+
+    it('should reject with typed adapter errors', async () => {
+      await expect(adapter.getCellValue('1A')).rejects.toMatchObject({ code: 'invalid_address' });
+      await expect(adapter.getCellValue('Nope!A1')).rejects.toMatchObject({
+        code: 'sheet_not_found',
+        sheetName: 'Nope',
+      });
+      await expect(adapter.setRange('A1', [])).rejects.toBeInstanceOf(AdapterError);
+      await expect(adapter.createSheet('sheet1')).rejects.toMatchObject({ code: 'already_exists' });
+    });
+  });
+
+  describe('formulas', () => {
+    it('should read back formulas and constants', async () => {
+      await adapter.setFormulas('A1', [[1, 2, '=ECON.GROWTH(A1:B1,"YoY")']]);
+
+      expect(await adapter.getFormulas('A1', 'C1')).toEqual([[1, 2, '=ECON.GROWTH(A1:B1,"YoY")']]);
+      expect(await adapter.getRange('A1', 'C1')).toEqual([[1, 2, null]]);
+    });
+
+    it('should accept and return semicolon-locale formulas', async () => {
+      const locale = { argumentSeparator: ';', decimalSeparator: ',' } as const;
+      await adapter.setFormulas('B2', [['=ROUND(A1;2)*1,5']], { locale });
+
+      expect(await adapter.getFormulas('B2', 'B2')).toEqual([['=ROUND(A1,2)*1.5']]);
+      expect(await adapter.getFormulas('B2', 'B2', { locale })).toEqual([['=ROUND(A1;2)*1,5']]);
+    });
+
+    it('should read and write R1C1 formulas relative to each cell', async () => {
+      await adapter.setFormulas('C3', [['=R[-1]C[-1]', '=R1C1']], { style: 'R1C1' });
+
+      expect(await adapter.getFormulas('C3', 'D3')).toEqual([['=B2', '=$A$1']]);
+      expect(await adapter.getFormulas('C3', 'D3', { style: 'R1C1' })).toEqual([
+        ['=R[-1]C[-1]', '=R1C1'],
+      ]);
+    });
+
+    it('should replace a formula when a value is written or the range is cleared', async () => {
+      await adapter.setFormulas('A1', [['=1+1', '=2+2']]);
+      await adapter.setCellValue('A1', 5);
+      await adapter.clearRange('B1', 'B1');
+
+      expect(await adapter.getFormulas('A1', 'B1')).toEqual([[5, null]]);
+    });
+  });
+
+  describe('dates', () => {
+    it('should store Dates as serials with a default date format', async () => {
+      await adapter.setCellValue('A1', new Date(Date.UTC(2024, 0, 1)));
+      await adapter.setCellValue('A2', new Date(Date.UTC(2024, 0, 1, 9, 30)));
+
+      expect(await adapter.getNumberFormats('A1', 'A2')).toEqual([
+        ['yyyy-mm-dd'],
+        ['yyyy-mm-dd hh:mm:ss'],
+      ]);
+      expect(await adapter.getFormulas('A1', 'A1')).toEqual([[new Date(Date.UTC(2024, 0, 1))]]);
+    });
+
+    it('should read serials as numbers once the date format is removed', async () => {
+      await adapter.setCellValue('A1', new Date(Date.UTC(2024, 0, 1)));
+      await adapter.setNumberFormat('A1', 'A1', NumberFormats.general);
+      expect(await adapter.getCellValue('A1')).toBe(45292);
+    });
+
+    it('should honour the 1904 date system', async () => {
+      const mac = new InMemoryAdapter({ date1904: true });
+      await mac.setCellValue('A1', new Date(Date.UTC(1904, 0, 1)));
+      await mac.setNumberFormat('A1', 'A1', NumberFormats.general);
+      expect(await mac.getCellValue('A1')).toBe(0);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should apply number formats together with values', async () => {
+      await adapter.setRange(
+        'A1',
+        [
+          [new Date(Date.UTC(2024, 0, 1)), 0.021],
+          [new Date(Date.UTC(2024, 3, 1)), -0.004],
+        ],
+        {
+          numberFormat: [
+            [NumberFormats.date, NumberFormats.percent],
+            [NumberFormats.date, NumberFormats.percent],
+          ],
+        }
+      );
+
+      expect(await adapter.getNumberFormats('A1', 'C2')).toEqual([
+        ['yyyy-mm-dd', '0.0%', 'General'],
+        ['yyyy-mm-dd', '0.0%', 'General'],
+      ]);
+    });
+
+    it('should set one number format over a range', async () => {
+      await adapter.setNumberFormat('B2', 'B3', NumberFormats.integer);
+      expect(await adapter.getNumberFormats('B1', 'B3')).toEqual([
+        ['General'],
+        ['#,##0'],
+        ['#,##0'],
+      ]);
+    });
+
+    it('should merge styles cell by cell', async () => {
+      await adapter.setStyle('A1', 'B1', { font: { bold: true }, fill: '#DDEBF7' });
+      await adapter.setStyle('A1', 'A1', {
+        font: { color: '#1F4E79' },
+        borders: { bottom: { style: 'continuous' } },
+      });
+
+      expect(adapter.getCellStyle('A1')).toEqual({
+        font: { bold: true, color: '#1F4E79' },
+        fill: '#DDEBF7',
+        borders: { bottom: { style: 'continuous' } },
+      });
+      expect(adapter.getCellStyle('B1').font).toEqual({ bold: true });
+    });
+
+    it('should add and clear conditional formats', async () => {
+      await adapter.addConditionalFormat('B2', 'B20', growthColorScale());
+      await adapter.addConditionalFormat("'My Sheet'!A1", 'A5', { type: 'dataBar' });
+
+      expect(adapter.getConditionalFormats().map((c) => c.address)).toEqual(['Sheet1!B2:B20']);
+
+      await adapter.clearConditionalFormats('B10', 'B10');
+      expect(adapter.getConditionalFormats()).toEqual([]);
+      expect(adapter.getConditionalFormats('My Sheet')).toHaveLength(1);
+    });
+  });
+
+  describe('sheets', () => {
+    it('should create, list and delete sheets', async () => {
+      await adapter.createSheet('Data');
+      expect(await adapter.getSheetNames()).toEqual(['Sheet1', 'My Sheet', 'Data']);
+
+      await adapter.deleteSheet('data');
+      expect(await adapter.getSheetNames()).toEqual(['Sheet1', 'My Sheet']);
+    });
+
+    it('should reject duplicate sheet names', async () => {
+      await expect(adapter.createSheet('sheet1')).rejects.toThrow('already exists');
+    });
+
+    it('should refuse to delete the last sheet', async () => {
+      const single = new InMemoryAdapter();
+      await expect(single.deleteSheet('Sheet1')).rejects.toThrow('at least one sheet');
+    });
+
+    it('should activate another sheet when the active sheet is deleted', async () => {
+      await adapter.deleteSheet('Sheet1');
+      expect(await adapter.getActiveSheetName()).toBe('My Sheet');
+    });
+  });
+
+  describe('named ranges', () => {
+    it('should read and write through a workbook-scoped name', async () => {
+      await adapter.createNamedRange('GDP_Inputs', "'My Sheet'!B2:B5", { comment: 'C, I, G, NX' });
+      await adapter.setRange('GDP_Inputs', [[1], [2], [3], [4]]);
+
+      expect(await adapter.resolveNamedRange('gdp_inputs')).toBe("'My Sheet'!B2:B5");
+      expect(await adapter.getRange('GDP_Inputs', 'GDP_Inputs')).toEqual([[1], [2], [3], [4]]);
+      expect(await adapter.getCellValue('GDP_Inputs')).toBe(1);
+      expect(await adapter.getCellValue("'My Sheet'!B5")).toBe(4);
+      expect(await adapter.getNamedRanges()).toEqual([
+        { name: 'GDP_Inputs', address: "'My Sheet'!B2:B5", scope: null, comment: 'C, I, G, NX' },
+      ]);
+    });
+
+    it('should prefer a name scoped to the active sheet', async () => {
+      await adapter.createNamedRange('Rate', 'A1');
+      await adapter.createNamedRange('Rate', "'My Sheet'!C3", { scope: 'My Sheet' });
+
+      expect(await adapter.resolveNamedRange('Rate')).toBe('Sheet1!A1');
+      expect(await adapter.resolveNamedRange("'My Sheet'!Rate")).toBe("'My Sheet'!C3");
+
+      adapter.activateSheet('My Sheet');
+      expect(await adapter.resolveNamedRange('Rate')).toBe("'My Sheet'!C3");
+    });
+
+    it('should delete names and reject invalid or unknown ones', async () => {
+      await adapter.createNamedRange('GDP_C', 'B2');
+      await expect(adapter.createNamedRange('gdp_c', 'B3')).rejects.toMatchObject({
+        code: 'already_exists',
+      });
+      await expect(adapter.createNamedRange('B2', 'B3')).rejects.toThrow('Invalid name: B2');
+
+      await adapter.deleteNamedRange('GDP_C');
+      await expect(adapter.getCellValue('GDP_C')).rejects.toMatchObject({ code: 'not_found' });
+      await expect(adapter.deleteNamedRange('GDP_C')).rejects.toThrow('Name not found: GDP_C');
+    });
+
+    it('should drop names on a deleted sheet', async () => {
+      await adapter.createNamedRange('Inputs', "'My Sheet'!A1:A4");
+      await adapter.deleteSheet('My Sheet');
+
+      expect(await adapter.getNamedRanges()).toEqual([]);
+    });
+  });
+
+  describe('tables', () => {
+    beforeEach(async () => {
+      await adapter.setRange('B2', [
+        ['Date', 'GDP', null],
+        [new Date(Date.UTC(2024, 0, 1)), 100, 1],
+        [new Date(Date.UTC(2024, 3, 1)), 101, 2],
+      ]);
+    });
+
+    it('should create a table, naming blank headers', async () => {
+      const table = await adapter.createTable('B2:D4', { name: 'GDP_Table' });
+
+      expect(table).toEqual({
+        name: 'GDP_Table',
+        address: 'Sheet1!B2:D4',
+        sheetName: 'Sheet1',
+        columns: ['Date', 'GDP', 'Column3'],
+        rowCount: 2,
+      });
+      expect(await adapter.getCellValue('D2')).toBe('Column3');
+      expect(await adapter.getTable('gdp_table')).toEqual(table);
+      expect(await adapter.getTable('Other')).toBeNull();
+    });
+
+    it('should default names and reject clashes and overlaps', async () => {
+      await adapter.createNamedRange('Inputs', 'A1');
+
+      expect((await adapter.createTable('B2:C4')).name).toBe('Table1');
+      await expect(adapter.createTable('F1:G2', { name: 'table1' })).rejects.toMatchObject({
+        code: 'already_exists',
+      });
+      await expect(adapter.createTable('F1:G2', { name: 'Inputs' })).rejects.toMatchObject({
+        code: 'already_exists',
+      });
+      await expect(adapter.createNamedRange('Table1', 'A1')).rejects.toMatchObject({
+        code: 'already_exists',
+      });
+      await expect(adapter.createTable('C3:E5')).rejects.toThrow('would overlap table Table1');
+      await expect(adapter.createTable('F1:G2', { name: 'A1' })).rejects.toThrow(
+        'Invalid table name: A1'
+      );
+    });
+
+    it('should append rows and read records', async () => {
+      await adapter.createTable('B2:C4', { name: 'GDP_Table' });
+      const table = await adapter.appendTableRows('GDP_Table', [
+        [new Date(Date.UTC(2024, 6, 1)), 102],
+      ]);
+
+      expect(table).toMatchObject({ address: 'Sheet1!B2:C5', rowCount: 3 });
+      expect(await adapter.getTableRecords('GDP_Table')).toEqual([
+        { Date: new Date(Date.UTC(2024, 0, 1)), GDP: 100 },
+        { Date: new Date(Date.UTC(2024, 3, 1)), GDP: 101 },
+        { Date: new Date(Date.UTC(2024, 6, 1)), GDP: 102 },
+      ]);
+    });
+
+    it('should reject rows of the wrong width or over non-empty cells', async () => {
+      await adapter.createTable('B2:C4', { name: 'GDP_Table' });
+      await adapter.setCellValue('C6', 'note');
+
+      await expect(adapter.appendTableRows('GDP_Table', [[1]])).rejects.toThrow(
+        'must have 2 values each'
+      );
+      await expect(
+        adapter.appendTableRows('GDP_Table', [
+          [1, 2],
+          [3, 4],
+        ])
+      ).rejects.toMatchObject({
+        code: 'invalid_operation',
+      });
+      await expect(adapter.appendTableRows('Missing', [[1, 2]])).rejects.toThrow(
+        'Table not found: Missing'
+      );
+    });
+
+    it('should resize a table without moving its header row', async () => {
+      await adapter.createTable('B2:C4', { name: 'GDP_Table' });
+
+      expect(await adapter.resizeTable('GDP_Table', 'B2:D3')).toMatchObject({
+        address: 'Sheet1!B2:D3',
+        columns: ['Date', 'GDP', 'Column3'],
+        rowCount: 1,
+      });
+      await expect(adapter.resizeTable('GDP_Table', 'B3:D4')).rejects.toThrow(
+        'the new range must start at Sheet1!B2'
+      );
+    });
+
+    it('should drop tables on a deleted sheet', async () => {
+      await adapter.createTable("'My Sheet'!A1:B2", { name: 'Other' });
+      await adapter.deleteSheet('My Sheet');
+
+      expect(await adapter.getTable('Other')).toBeNull();
+    });
+  });
+
+  describe('charts', () => {
+    beforeEach(async () => {
+      await adapter.setRange('B2', [
+        ['Date', 'GDP', 'Rate'],
+        [new Date(Date.UTC(2024, 0, 1)), 100, 5],
+        [new Date(Date.UTC(2024, 3, 1)), 101, 5.25],
+      ]);
+    });
+
+    it('should plot one series per source column, named by header', async () => {
+      const chart = await adapter.createChart({
+        type: 'line',
+        source: 'B2:D4',
+        title: 'GDP and rates',
+        secondaryAxis: ['rate'],
+      });
+
+      expect(chart).toEqual({ name: 'Chart 1', sheetName: 'Sheet1', series: ['GDP', 'Rate'] });
+      expect(adapter.getCharts()).toEqual([
+        expect.objectContaining({
+          name: 'Chart 1',
+          type: 'line',
+          position: 'Sheet1!F2',
+          title: 'GDP and rates',
+          series: [
+            { name: 'GDP', values: 'Sheet1!C3:C4', xValues: 'Sheet1!B3:B4', secondaryAxis: false },
+            { name: 'Rate', values: 'Sheet1!D3:D4', xValues: 'Sheet1!B3:B4', secondaryAxis: true },
+          ],
+        }),
+      ]);
+    });
+
+    it('should place charts and reject names taken on the sheet', async () => {
+      await adapter.createSheet('Charts');
+      await adapter.createNamedRange('Data', 'B2:C4');
+
+      const chart = await adapter.createChart({
+        type: 'column',
+        source: 'Data',
+        position: 'Charts!A1:H20',
+        name: 'GDP',
+      });
+
+      expect(chart.sheetName).toBe('Charts');
+      expect(adapter.getCharts('Charts')[0].position).toBe('Charts!A1:H20');
+      expect(adapter.getCharts()).toEqual([]);
+      await expect(
+        adapter.createChart({ type: 'line', source: 'B2:C4', position: 'Charts!A1', name: 'gdp' })
+      ).rejects.toMatchObject({ code: 'already_exists' });
+
+      await adapter.deleteSheet('Charts');
+      expect(await adapter.createChart({ type: 'line', source: 'B2:C4', position: 'Z1' })).toEqual(
+        expect.objectContaining({ name: 'Chart 1', sheetName: 'Sheet1' })
+      );
+    });
+
+    it('should require a value column or explicit series', async () => {
+      await expect(adapter.createChart({ type: 'line', source: 'B2:B4' })).rejects.toMatchObject({
+        code: 'invalid_argument',
+      });
+      await expect(adapter.createChart({ type: 'line' })).rejects.toThrow(
+        'A chart needs a source range or at least one series'
+      );
+    });
+  });
+
+  describe('cell change events', () => {
+    it('should report adapter writes and simulated edits with their change type', async () => {
+      const handler = jest.fn();
+      const unsubscribe = adapter.onCellsChanged(handler);
+
+      await adapter.setRange('B2', [[1, 2]]);
+      adapter.editCells("'My Sheet'!C3", [[3]], 'remote');
+      await adapter.clearRange('A1', 'A2');
+
+      expect(handler.mock.calls).toEqual([
+        [[{ address: 'Sheet1!B2:C2', sheetName: 'Sheet1', changeType: 'api' }]],
+        [[{ address: "'My Sheet'!C3", sheetName: 'My Sheet', changeType: 'remote' }]],
+        [[{ address: 'Sheet1!A1:A2', sheetName: 'Sheet1', changeType: 'api' }]],
+      ]);
+
+      unsubscribe();
+      await adapter.setCellValue('A1', 1);
+      expect(handler).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only report changes touching watched ranges', async () => {
+      await adapter.createNamedRange('Inputs', 'B2:B5');
+      const handler = jest.fn();
+      adapter.onCellsChanged(handler, { ranges: ['Inputs', 'D1'] });
+
+      adapter.editCells('A1', [[1]]);
+      adapter.editCells('A5', [[1, 2]]);
+      await adapter.setCellValue("'My Sheet'!D1", 1);
+      await adapter.setFormulas('C1', [['=1', '=2']]);
+
+      expect(handler.mock.calls.map(([changes]) => changes[0].address)).toEqual([
+        'Sheet1!A5:B5',
+        "'My Sheet'!D1",
+        'Sheet1!C1:D1',
+      ]);
+    });
+  });
+
+  describe('event lifecycle', () => {
+    it('should stop every handler on dispose and accept new subscriptions afterwards', async () => {
+      const selection = jest.fn();
+      const cells = jest.fn();
+      adapter.onSelectionChange(selection);
+      adapter.onCellsChanged(cells, { debounceMs: 10 });
+      await adapter.setCellValue('A1', 1);
+
+      await adapter.dispose();
+      await adapter.setSelectedRange('B2');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(selection).not.toHaveBeenCalled();
+      expect(cells).not.toHaveBeenCalled();
+
+      adapter.onSelectionChange(selection);
+      await adapter.setSelectedRange('C3');
+      expect(selection).toHaveBeenCalledWith('Sheet1!C3');
+    });
+  });
+
+  describe('document metadata', () => {
+    it('should store copies of JSON values by key', async () => {
+      const value = { version: 1, blocks: [{ address: 'Data!A1:C9', tags: ['gdp'] }] };
+      await adapter.setMetadata('provenance', value);
+      value.blocks[0].address = 'changed';
+
+      expect(await adapter.getMetadata('provenance')).toEqual({
+        version: 1,
+        blocks: [{ address: 'Data!A1:C9', tags: ['gdp'] }],
+      });
+      expect(await adapter.getMetadata('missing')).toBeNull();
+      expect(await adapter.getMetadataKeys()).toEqual(['provenance']);
+    });
+
+    it('should delete entries and reject invalid keys', async () => {
+      await adapter.setMetadata('refresh.state', 'idle');
+      await adapter.deleteMetadata('refresh.state');
+      await adapter.deleteMetadata('refresh.state');
+
+      expect(await adapter.getMetadataKeys()).toEqual([]);
+      await expect(adapter.setMetadata('bad key', 1)).rejects.toMatchObject({
+        code: 'invalid_argument',
+      });
+    });
+  });
+
+  describe('selection and events', () => {
+    it('should default the selection to A1 on the first sheet', async () => {
+      expect(await adapter.getSelectedRange()).toBe('Sheet1!A1');
+    });
+
+    it('should select ranges and notify selection handlers', async () => {
+      const handler = jest.fn();
+      adapter.onSelectionChange(handler);
+
+      await adapter.setSelectedRange('C3:A1');
+
+      expect(await adapter.getSelectedRange()).toBe('Sheet1!A1:C3');
+      expect(handler).toHaveBeenCalledWith('Sheet1!A1:C3');
+    });
+
+    it('should switch sheets when selecting a qualified address', async () => {
+      const sheetHandler = jest.fn();
+      adapter.onSheetChange(sheetHandler);
+
+      await adapter.setSelectedRange("'My Sheet'!B2");
+
+      expect(await adapter.getActiveSheetName()).toBe('My Sheet');
+      expect(await adapter.getSelectedRange()).toBe("'My Sheet'!B2");
+      expect(sheetHandler).toHaveBeenCalledWith('My Sheet');
+    });
+
+    it('should stop notifying after unsubscribe', async () => {
+      const handler = jest.fn();
+      const unsubscribe = adapter.onCalculate(handler);
+
+      await adapter.recalculate();
+      unsubscribe();
+      await adapter.recalculate();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('custom functions', () => {
+    it('should register and call functions case-insensitively', async () => {
+      adapter.registerFunction(
+        {
+          name: 'ECON.DOUBLE',
+          description: 'Double a value',
+          parameters: [{ name: 'value', description: 'Input', type: 'number' }],
+          returnType: 'number',
+        },
+        async (value: unknown) => Number(value) * 2
+      );
+
+      expect(await adapter.callFunction('econ.double', 21)).toBe(42);
+      expect(adapter.getRegisteredFunctions().map((f) => f.name)).toEqual(['ECON.DOUBLE']);
+    });
+
+    it('should reject unknown functions and wrap implementation errors', async () => {
+      adapter.registerFunction(
+        { name: 'ECON.FAIL', description: 'Always fails', parameters: [], returnType: 'number' },
+        () => {
+          throw new Error('boom');
+        }
+      );
+
+      await expect(adapter.callFunction('ECON.MISSING')).rejects.toThrow('not registered');
+      await expect(adapter.callFunction('ECON.FAIL')).rejects.toThrow(
+        'Error calling function ECON.FAIL: boom'
+      );
+    });
+
+    it('should stream results from streaming functions', async () => {
+      adapter.registerFunction(
+        {
+          name: 'ECON.TICK',
+          description: 'Count up from a value',
+          parameters: [{ name: 'start', description: 'First value', type: 'number' }],
+          returnType: 'number',
+          streaming: true,
+        },
+        (start: unknown, invocation: unknown) => {
+          (invocation as StreamingInvocation).setResult(Number(start));
+          (invocation as StreamingInvocation).setResult(Number(start) + 1);
+        }
+      );
+
+      const results: unknown[] = [];
+      const cancel = adapter.streamFunction('econ.tick', [1], (result) => results.push(result));
+      cancel();
+
+      expect(results).toEqual([1, 2]);
+      expect(await adapter.callFunction('ECON.TICK', 5)).toBe(5);
+      expect(() => adapter.streamFunction('ECON.MISSING', [], jest.fn())).toThrow('not registered');
+    });
+  });
+
+  describe('batch and UI', () => {
+    it('should return the batch result', async () => {
+      const result = await adapter.batch(async () => {
+        await adapter.setCellValue('A1', 1);
+        await adapter.setCellValue('A2', 2);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(await adapter.getRange('A1', 'A2')).toEqual([[1], [2]]);
+    });
+
+    it('should queue batch context operations until the batch syncs', async () => {
+      await adapter.setCellValue('A1', 'old');
+
+      const read = await adapter.batch(async (context) => {
+        const before = context.getCellValue('A1');
+        context.setRange('A1', [['new'], [2]]);
+        context.setNumberFormat('A2', 'A2', '0.00');
+        const after = context.getRange('A1', 'A2');
+
+        expect(() => before.value).toThrow('not available until the batch has synced');
+        expect(await adapter.getCellValue('A1')).toBe('old');
+
+        await context.sync();
+        expect(before.value).toBe('old');
+
+        context.setCellValue('B1', true);
+        return after;
+      });
+
+      expect(read.value).toEqual([['new'], [2]]);
+      expect(await adapter.getCellValue('B1')).toBe(true);
+      expect(await adapter.getNumberFormats('A2', 'A2')).toEqual([['0.00']]);
+    });
+
+    it('should fail the batch when a queued operation fails', async () => {
+      await expect(
+        adapter.batch(async (context) => {
+          context.setCellValue('Missing!A1', 1);
+        })
+      ).rejects.toThrow('Batch operation failed: Sheet not found: Missing');
+    });
+
+    it('should record notifications', async () => {
+      await adapter.showNotification('Data loaded', 'info');
+      expect(adapter.getNotifications()).toEqual([
+        { kind: 'notification', message: 'Data loaded', type: 'info' },
+      ]);
+    });
+  });
+});
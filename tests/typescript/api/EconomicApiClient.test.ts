@@ -0,0 +1,298 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  ApiError,
+  EconomicApiClient,
+  EconomicSettings,
+} from '../../../src/typescript/api/EconomicApiClient';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('EconomicApiClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse, body: string) => void;
+
+  const json = (res: http.ServerResponse, status: number, payload: unknown): void => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        handler(req, res, body);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handler = (_req, res) => json(res, 200, {});
+  });
+
+  const createClient = (timeoutMs = 2000): EconomicApiClient =>
+    new EconomicApiClient({ baseUrl: `${baseUrl}/`, timeoutMs });
+
+  it('should call the health endpoint', async () => {
+    handler = (_req, res) => json(res, 200, { status: 'ok', version: '2.0.0' });
+    const client = createClient();
+
+    expect(client.getBaseUrl()).toBe(baseUrl);
+    expect(await client.health()).toEqual({ status: 'ok', version: '2.0.0' });
+    expect(requests[0].method).toBe('GET');
+    expect(requests[0].url).toBe('/health');
+  });
+
+  it('should list sources', async () => {
+    const sources = [
+      { id: 'fred', name: 'Federal Reserve Economic Data', status: 'active' },
+      { id: 'bea', name: 'Bureau of Economic Analysis', status: 'stub' },
+    ];
+    handler = (_req, res) => json(res, 200, sources);
+
+    expect(await createClient().listSources()).toEqual(sources);
+    expect(requests[0].url).toBe('/api/v1/sources');
+  });
+
+  it('should encode search queries', async () => {
+    handler = (_req, res) =>
+      json(res, 200, [{ id: 'GDPC1', title: 'Real Gross Domestic Product' }]);
+
+    const results = await createClient().searchSeries('fred', 'real GDP & growth');
+    expect(results[0].id).toBe('GDPC1');
+    expect(requests[0].url).toBe('/api/v1/sources/fred/search?q=real%20GDP%20%26%20growth');
+  });
+
+  it('should fetch a series with a date range', async () => {
+    const data = { date: ['2020-01-01', '2020-04-01'], value: [19032.1, null] };
+    handler = (_req, res) => json(res, 200, data);
+
+    const result = await createClient().getSeries('fred', 'GDPC1', {
+      start: new Date(Date.UTC(2020, 0, 1)),
+      end: '2023-12-31',
+    });
+
+    expect(result).toEqual(data);
+    expect(requests[0].url).toBe(
+      '/api/v1/sources/fred/series/GDPC1?start=2020-01-01&end=2023-12-31'
+    );
+  });
+
+  it('should fetch several series in one request', async () => {
+    const data = { date: ['2020-01-01'], value: [19032.1] };
+    handler = (_req, res) =>
+      json(res, 200, {
+        series: { GDPC1: data, UNRATE: { date: ['2020-01-01'], value: [] } },
+        errors: { BAD: 'Unknown series' },
+      });
+
+    const batch = await createClient().getSeriesBatch('fred', ['GDPC1', 'UNRATE', 'BAD', 'GONE'], {
+      end: '2023-12-31',
+    });
+
+    expect(batch).toEqual({
+      series: { GDPC1: data },
+      errors: {
+        UNRATE: 'malformed series data',
+        BAD: 'Unknown series',
+        GONE: 'missing from the response',
+      },
+    });
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toBe('/api/v1/sources/fred/series');
+    expect(JSON.parse(requests[0].body)).toEqual({
+      ids: ['GDPC1', 'UNRATE', 'BAD', 'GONE'],
+      end: '2023-12-31',
+    });
+  });
+
+  it('should reject malformed dates and series data', async () => {
+    const client = createClient();
+    await expect(client.getSeries('fred', 'GDPC1', { start: '01/01/2020' })).rejects.toThrow(
+      'expected YYYY-MM-DD'
+    );
+
+    handler = (_req, res) => json(res, 200, { date: ['2020-01-01'], value: [] });
+    await expect(client.getSeries('fred', 'GDPC1')).rejects.toMatchObject({
+      kind: 'invalid_response',
+    });
+  });
+
+  it('should round-trip settings', async () => {
+    const settings: EconomicSettings = {
+      apiKeys: [{ source: 'FRED', key: 'abc' }],
+      cache: { enabled: true, ttlHours: 24, maxSizeMb: 500 },
+      rateLimit: { enabled: true, customLimits: [['fred', 60]] },
+      retry: { enabled: true, maxRetries: 3, initialDelayMs: 1000, useExponentialBackoff: true },
+      display: {
+        showNotifications: true,
+        autoRefresh: false,
+        refreshIntervalMinutes: 60,
+        dateFormat: 'yyyy-mm-dd',
+        numberFormat: '#,##0.00',
+      },
+    };
+    let saved = '';
+    handler = (req, res, body) => {
+      if (req.method === 'POST') {
+        saved = body;
+        res.writeHead(204);
+        res.end();
+      } else {
+        json(res, 200, JSON.parse(saved));
+      }
+    };
+
+    const client = createClient();
+    await client.saveSettings(settings);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers['content-type']).toBe('application/json');
+    expect(await client.getSettings()).toEqual(settings);
+  });
+
+  it('should report HTTP errors with the backend message', async () => {
+    handler = (_req, res) => json(res, 404, { error: 'Source not found' });
+
+    const error = await createClient()
+      .searchSeries('nope', 'GDP')
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ kind: 'http', status: 404, serverMessage: 'Source not found' });
+    expect(error.message).toContain('HTTP 404 Source not found');
+  });
+
+  it('should report invalid JSON', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200);
+      res.end('<html>');
+    };
+
+    await expect(createClient().health()).rejects.toMatchObject({ kind: 'invalid_response' });
+  });
+
+  it('should time out slow requests', async () => {
+    handler = (_req, res) => {
+      setTimeout(() => json(res, 200, {}), 500);
+    };
+
+    await expect(createClient(50).health()).rejects.toMatchObject({ kind: 'timeout' });
+  });
+
+  it('should cancel requests through an AbortSignal', async () => {
+    handler = (_req, res) => {
+      setTimeout(() => json(res, 200, {}), 500);
+    };
+    const client = createClient();
+
+    const controller = new AbortController();
+    const pending = client.listSources({ signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await expect(pending).rejects.toMatchObject({ kind: 'aborted' });
+
+    await expect(client.listSources({ signal: controller.signal })).rejects.toMatchObject({
+      kind: 'aborted',
+    });
+  });
+
+  it('should report unreachable backends as network errors', async () => {
+    const client = new EconomicApiClient({ baseUrl: 'http://127.0.0.1:1', timeoutMs: 2000 });
+    await expect(client.health()).rejects.toMatchObject({ kind: 'network' });
+  });
+
+  it('should share identical GET requests in flight', async () => {
+    handler = (_req, res) => {
+      setTimeout(() => json(res, 200, { date: ['2020-01-01'], value: [1] }), 50);
+    };
+    const client = createClient();
+
+    const [a, b, c] = await Promise.all([
+      client.getSeries('fred', 'GDPC1'),
+      client.getSeries('fred', 'GDPC1'),
+      client.getSeries('fred', 'CPIAUCSL'),
+    ]);
+
+    expect(a).toEqual(b);
+    expect(c).toEqual(a);
+    expect(requests.map((r) => r.url)).toEqual([
+      '/api/v1/sources/fred/series/GDPC1',
+      '/api/v1/sources/fred/series/CPIAUCSL',
+    ]);
+  });
+
+  it('should keep a shared request for callers that did not cancel', async () => {
+    handler = (_req, res) => {
+      setTimeout(() => json(res, 200, [{ id: 'fred', name: 'FRED', status: 'active' }]), 50);
+    };
+    const client = createClient();
+
+    const controller = new AbortController();
+    const cancelled = client.listSources({ signal: controller.signal });
+    const kept = client.listSources();
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ kind: 'aborted' });
+    expect(await kept).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry failed requests as the settings ask', async () => {
+    let failures = 1;
+    handler = (_req, res) => {
+      if (failures-- > 0) {
+        res.writeHead(503, { 'Retry-After': '0' });
+        res.end('{"error": "busy"}');
+      } else {
+        json(res, 200, { status: 'ok', version: '2.0.0' });
+      }
+    };
+    const client = createClient();
+
+    await expect(client.health()).rejects.toMatchObject({
+      kind: 'http',
+      status: 503,
+      retryAfterMs: 0,
+    });
+
+    failures = 1;
+    client.applySettings({
+      rateLimit: { enabled: false, customLimits: [] },
+      retry: { enabled: true, maxRetries: 2, initialDelayMs: 10, useExponentialBackoff: true },
+    });
+    expect(await client.health()).toEqual({ status: 'ok', version: '2.0.0' });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should limit the rate of data source requests', async () => {
+    handler = (_req, res) => json(res, 200, []);
+    const client = new EconomicApiClient({
+      baseUrl,
+      rateLimit: { limits: { fred: 1 }, maxWaitMs: 0 },
+    });
+
+    await client.searchSeries('fred', 'gdp');
+    await expect(client.searchSeries('fred', 'cpi')).rejects.toMatchObject({
+      kind: 'rate_limited',
+    });
+    await client.searchSeries('imf', 'gdp');
+    await client.health();
+
+    expect(requests).toHaveLength(3);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  DEFAULT_SOURCE_RATE_LIMITS,
+  RateLimiter,
+  rateLimitOptionsFromSettings,
+} from '../../../src/typescript/api/RateLimiter';
+
+describe('RateLimiter', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('lets a minute of requests through, then refills continuously', () => {
+    const limiter = new RateLimiter({ limits: { fred: 60 } });
+
+    for (let i = 0; i < 60; i++) {
+      expect(limiter.tryAcquire('fred')).toBe(true);
+    }
+    expect(limiter.tryAcquire('fred')).toBe(false);
+    expect(limiter.getRemaining('fred')).toBe(0);
+
+    jest.advanceTimersByTime(2000);
+    expect(limiter.getRemaining('fred')).toBe(2);
+  });
+
+  it('keeps a bucket per source', () => {
+    const limiter = new RateLimiter({ limits: { fred: 1 } });
+
+    expect(limiter.tryAcquire('fred')).toBe(true);
+    expect(limiter.tryAcquire('fred')).toBe(false);
+    expect(limiter.tryAcquire('imf')).toBe(true);
+  });
+
+  it('queues requests in order until tokens are earned', async () => {
+    const limiter = new RateLimiter({ limits: { fred: 60 } });
+    for (let i = 0; i < 60; i++) {
+      limiter.tryAcquire('fred');
+    }
+
+    const order: number[] = [];
+    const first = limiter.acquire('fred').then(() => order.push(1));
+    const second = limiter.acquire('fred').then(() => order.push(2));
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(order).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(order).toEqual([1]);
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, second]);
+    expect(order).toEqual([1, 2]);
+  });
+
+  it('refuses requests that would wait longer than the maximum', async () => {
+    const limiter = new RateLimiter({ limits: { fred: 1 }, maxWaitMs: 30000 });
+
+    expect(await limiter.acquire('fred')).toBe(true);
+    expect(await limiter.acquire('fred')).toBe(false);
+
+    jest.advanceTimersByTime(30000);
+    const third = limiter.acquire('fred');
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(await third).toBe(true);
+  });
+
+  it('returns the token of a cancelled wait', async () => {
+    const limiter = new RateLimiter({ limits: { fred: 60 } });
+    for (let i = 0; i < 60; i++) {
+      limiter.tryAcquire('fred');
+    }
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire('fred', controller.signal);
+    controller.abort();
+
+    expect(await waiting).toBe(false);
+    jest.advanceTimersByTime(1000);
+    expect(limiter.tryAcquire('fred')).toBe(true);
+  });
+
+  it('lets everything through when disabled', () => {
+    const limiter = new RateLimiter({ enabled: false, limits: { fred: 1 } });
+
+    expect(limiter.tryAcquire('fred')).toBe(true);
+    expect(limiter.tryAcquire('fred')).toBe(true);
+  });
+
+  it('resets buckets', () => {
+    const limiter = new RateLimiter({ limits: { fred: 1 } });
+    limiter.tryAcquire('fred');
+    limiter.reset();
+
+    expect(limiter.getRemaining('fred')).toBe(1);
+  });
+
+  it('reads limits from the settings over the defaults', () => {
+    const limiter = new RateLimiter(
+      rateLimitOptionsFromSettings({ enabled: true, customLimits: [['fred', 5]] })
+    );
+
+    expect(limiter.getLimit('fred')).toBe(5);
+    expect(limiter.getLimit('dbnomics')).toBe(DEFAULT_SOURCE_RATE_LIMITS.dbnomics);
+    expect(limiter.getLimit('unknown')).toBe(60);
+  });
+
+  it('rejects limits that are not positive', () => {
+    expect(() => new RateLimiter({ limits: { fred: 0 } })).toThrow('Rate limit of fred');
+  });
+});
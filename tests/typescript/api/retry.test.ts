@@ -0,0 +1,135 @@
+import {
+  backoffDelay,
+  parseRetryAfter,
+  retryOptionsFromSettings,
+  withRetry,
+} from '../../../src/typescript/api/retry';
+
+describe('retry', () => {
+  describe('backoffDelay', () => {
+    it('grows the delay up to the maximum', () => {
+      const options = { jitter: 0 };
+      expect([1, 2, 3, 4, 5, 6, 7].map((attempt) => backoffDelay(attempt, options))).toEqual([
+        2000, 4000, 8000, 16000, 32000, 32000, 32000,
+      ]);
+    });
+
+    it('shortens delays by the jitter', () => {
+      expect(backoffDelay(1, { random: () => 0.5 })).toBe(1750);
+      expect(backoffDelay(1, { jitter: 1, random: () => 0.999 })).toBe(2);
+    });
+
+    it('keeps a constant delay without exponential backoff', () => {
+      const options = {
+        ...retryOptionsFromSettings({
+          enabled: true,
+          maxRetries: 5,
+          initialDelayMs: 500,
+          useExponentialBackoff: false,
+        }),
+        jitter: 0,
+      };
+      expect(backoffDelay(4, options)).toBe(500);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('reads seconds and dates', () => {
+      const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+      expect(parseRetryAfter('120')).toBe(120000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 12:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 11:00:00 GMT', now)).toBe(0);
+    });
+
+    it('ignores missing and malformed values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('withRetry', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    const failing = (failures: unknown[]) => {
+      const task = jest.fn(async (attempt: number) => {
+        if (attempt <= failures.length) {
+          throw failures[attempt - 1];
+        }
+        return 'ok';
+      });
+      return task;
+    };
+
+    it('retries after growing delays', async () => {
+      const task = failing([new Error('a'), new Error('b')]);
+      const delays: number[] = [];
+
+      const result = withRetry(task, () => ({ status: 503 }), {
+        jitter: 0,
+        onRetry: (_error, _attempt, delayMs) => delays.push(delayMs),
+      });
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(task).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1 + 4000);
+      await expect(result).resolves.toBe('ok');
+      expect(delays).toEqual([2000, 4000]);
+    });
+
+    it('gives up after the last retry', async () => {
+      const task = failing([1, 2, 3].map((i) => new Error(`failure ${i}`)));
+
+      const result = withRetry(task, () => ({}), { maxRetries: 2, initialDelayMs: 10 });
+      const settled = expect(result).rejects.toThrow('failure 3');
+      await jest.advanceTimersByTimeAsync(100);
+      await settled;
+      expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry failures that are not worth it', async () => {
+      const task = failing([new Error('not found')]);
+
+      await expect(withRetry(task, () => ({ status: 404 }))).rejects.toThrow('not found');
+      await expect(withRetry(task, () => null)).rejects.toThrow('not found');
+      expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('waits as long as Retry-After asks', async () => {
+      const task = failing([new Error('busy')]);
+
+      const result = withRetry(task, () => ({ status: 429, retryAfterMs: 10000 }), { jitter: 0 });
+
+      await jest.advanceTimersByTimeAsync(9999);
+      expect(task).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe('ok');
+    });
+
+    it('does not retry when Retry-After exceeds the maximum delay', async () => {
+      const task = failing([new Error('come back tomorrow')]);
+
+      await expect(
+        withRetry(task, () => ({ status: 429, retryAfterMs: 86400000 }))
+      ).rejects.toThrow('come back tomorrow');
+    });
+
+    it('stops when cancelled', async () => {
+      const task = failing([new Error('down'), new Error('down')]);
+      const controller = new AbortController();
+
+      const result = withRetry(task, () => ({}), { signal: controller.signal });
+      await jest.advanceTimersByTimeAsync(100);
+      controller.abort();
+
+      await expect(result).rejects.toThrow('down');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry when disabled', async () => {
+      const task = failing([new Error('down')]);
+
+      await expect(withRetry(task, () => ({}), { enabled: false })).rejects.toThrow('down');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheEntry } from '../../../src/typescript/cache/CacheStore';
+import { FileCacheStore } from '../../../src/typescript/cache/FileCacheStore';
+
+describe('FileCacheStore', () => {
+  let directory: string;
+  let store: FileCacheStore;
+
+  const entry = (key: string, value: CacheEntry['value'] = [1, 2]): CacheEntry => ({
+    key,
+    source: 'fred',
+    seriesId: 'GDPC1',
+    createdAt: 1000,
+    expiresAt: 2000,
+    accessedAt: 1000,
+    size: JSON.stringify(value).length,
+    value,
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'series-cache-'));
+    store = new FileCacheStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores and reads entries', async () => {
+    await store.put(entry('a/b'));
+
+    expect(await store.get('a/b')).toEqual(entry('a/b'));
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('keeps entries across instances', async () => {
+    await store.put(entry('a', { x: 'y' }));
+    await store.touch('a', 1500);
+
+    const reopened = new FileCacheStore(directory);
+    expect(await reopened.get('a')).toEqual({ ...entry('a', { x: 'y' }), accessedAt: 1500 });
+    expect(await reopened.list()).toEqual([
+      expect.not.objectContaining({ value: expect.anything() }),
+    ]);
+  });
+
+  it('deletes entries and their files', async () => {
+    await Promise.all([store.put(entry('a')), store.put(entry('b'))]);
+    await store.delete(['a']);
+
+    expect((await store.list()).map((info) => info.key)).toEqual(['b']);
+    expect(await fs.readdir(directory)).toEqual(expect.not.arrayContaining(['a.json']));
+  });
+
+  it('forgets entries whose file is gone', async () => {
+    await store.put(entry('a'));
+    await fs.rm(path.join(directory, 'a.json'));
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('starts over from a corrupt index', async () => {
+    await fs.writeFile(path.join(directory, 'index.json'), '{not json', 'utf8');
+
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('clears its own files and leaves others alone', async () => {
+    await store.put(entry('a'));
+    await store.put(entry('b/c'));
+    await fs.writeFile(path.join(directory, 'notes.txt'), 'keep me', 'utf8');
+    await store.clear();
+
+    expect(await store.list()).toEqual([]);
+    expect(await new FileCacheStore(directory).list()).toEqual([]);
+    expect(await fs.readdir(directory)).toEqual(['notes.txt']);
+  });
+});
@@ -0,0 +1,90 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { CacheEntry } from '../../../src/typescript/cache/CacheStore';
+import { IndexedDbCacheStore } from '../../../src/typescript/cache/IndexedDbCacheStore';
+
+describe('IndexedDbCacheStore', () => {
+  let factory: IDBFactory;
+  let store: IndexedDbCacheStore;
+
+  const entry = (key: string, value: CacheEntry['value'] = [1, 2]): CacheEntry => ({
+    key,
+    source: 'fred',
+    seriesId: 'GDPC1',
+    createdAt: 1000,
+    expiresAt: 2000,
+    accessedAt: 1000,
+    size: JSON.stringify(value).length,
+    value,
+  });
+
+  const info = (key: string, value?: CacheEntry['value']): Omit<CacheEntry, 'value'> => {
+    const { value: _value, ...rest } = entry(key, value);
+    return rest;
+  };
+
+  const openDatabase = (version: number, upgrade: (database: IDBDatabase) => void) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open('economic-toolkit-cache', version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+    store = new IndexedDbCacheStore({ indexedDB: factory });
+  });
+
+  it('stores and reads entries', async () => {
+    const value = { date: ['2020-01-01'], value: [1.5] };
+    await store.put(entry('a', value));
+
+    expect(await store.get('a')).toEqual(entry('a', value));
+    expect(await store.get('missing')).toBeNull();
+    expect(await store.list()).toEqual([info('a', value)]);
+  });
+
+  it('keeps entries across instances', async () => {
+    await store.put(entry('a'));
+
+    expect(await new IndexedDbCacheStore({ indexedDB: factory }).get('a')).toEqual(entry('a'));
+  });
+
+  it('updates the access time of existing entries only', async () => {
+    await store.put(entry('a'));
+    await store.touch('a', 1500);
+    await store.touch('missing', 1500);
+
+    expect(await store.list()).toEqual([{ ...info('a'), accessedAt: 1500 }]);
+  });
+
+  it('deletes and clears entries', async () => {
+    await store.put(entry('a'));
+    await store.put(entry('b'));
+    await store.put(entry('c'));
+
+    await store.delete(['a', 'missing']);
+    expect((await store.list()).map((item) => item.key)).toEqual(['b', 'c']);
+    expect(await store.get('a')).toBeNull();
+
+    await store.clear();
+    expect(await store.list()).toEqual([]);
+    expect(await store.get('b')).toBeNull();
+  });
+
+  it('lets a newer version upgrade the database', async () => {
+    await store.put(entry('a'));
+
+    const upgraded = await openDatabase(2, (database) =>
+      database.createObjectStore('series', { keyPath: 'key' })
+    );
+    expect(Array.from(upgraded.objectStoreNames)).toEqual(['entries', 'series', 'values']);
+    upgraded.close();
+
+    await expect(store.get('a')).rejects.toMatchObject({ name: 'VersionError' });
+  });
+
+  it('requires an IndexedDB implementation', () => {
+    expect(() => new IndexedDbCacheStore()).toThrow('IndexedDB is not available');
+  });
+});
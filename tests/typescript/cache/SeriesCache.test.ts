@@ -0,0 +1,356 @@
+import { ApiError, EconomicApiClient } from '../../../src/typescript/api/EconomicApiClient';
+import { MemoryCacheStore } from '../../../src/typescript/cache/CacheStore';
+import {
+  SeriesCache,
+  cacheKey,
+  cacheOptionsFromSettings,
+  searchCacheKey,
+} from '../../../src/typescript/cache/SeriesCache';
+
+describe('cache keys', () => {
+  it('hashes series requests as the Julia cache does', async () => {
+    // bytes2hex(sha256("fred|GDPC1|2020-01-01|2023-12-31"))
+    expect(await cacheKey('fred', 'GDPC1', '2020-01-01', '2023-12-31')).toBe(
+      'abf2208d47a169f73d771757053e9570ee938da2dc848729136d79933139133d'
+    );
+    expect(await cacheKey('fred', 'GDPC1', new Date(Date.UTC(2020, 0, 1)), '2023-12-31')).toBe(
+      await cacheKey('fred', 'GDPC1', '2020-01-01', '2023-12-31')
+    );
+  });
+
+  it('tells series, ranges and searches apart', async () => {
+    const keys = await Promise.all([
+      cacheKey('fred', 'GDPC1'),
+      cacheKey('fred', 'GDPC1', '2020-01-01'),
+      cacheKey('imf', 'GDPC1'),
+      searchCacheKey('fred', 'GDPC1'),
+    ]);
+    expect(new Set(keys).size).toBe(4);
+    keys.forEach((key) => expect(key).toMatch(/^[0-9a-f]{64}$/));
+  });
+
+  it('reads options from the settings', () => {
+    expect(cacheOptionsFromSettings({ enabled: true, ttlHours: 2, maxSizeMb: 1 })).toEqual({
+      enabled: true,
+      ttlMs: 2 * 60 * 60 * 1000,
+      maxSizeBytes: 1024 * 1024,
+    });
+  });
+});
+
+describe('SeriesCache', () => {
+  let now: number;
+  let store: MemoryCacheStore;
+  let cache: SeriesCache;
+
+  const offline = () =>
+    new ApiError('Backend unreachable', {
+      kind: 'network',
+      method: 'GET',
+      url: 'http://localhost:8080/',
+    });
+
+  beforeEach(() => {
+    now = 1_000_000;
+    store = new MemoryCacheStore();
+    cache = new SeriesCache({ store, ttlMs: 1000, staleWhileRevalidateMs: 500, now: () => now });
+  });
+
+  describe('get and set', () => {
+    it('serves values within their TTL', async () => {
+      await cache.set('k', { a: 1 }, { source: 'fred', seriesId: 'GDPC1' });
+
+      expect(await cache.get('k')).toEqual({ a: 1 });
+      now += 1000;
+      expect(await cache.get('k')).toBeNull();
+    });
+
+    it('uses a per-entry TTL', async () => {
+      await cache.set('k', 1, { source: 'fred', ttlMs: 5000 });
+      now += 2000;
+      expect(await cache.get('k')).toBe(1);
+    });
+
+    it('stores nothing when disabled', async () => {
+      cache = new SeriesCache({ store, enabled: false });
+      await cache.set('k', 1, { source: 'fred' });
+
+      expect(await store.list()).toEqual([]);
+      expect(await cache.get('k')).toBeNull();
+    });
+
+    it('rejects negative limits', () => {
+      expect(() => new SeriesCache({ ttlMs: -1 })).toThrow('must not be negative');
+    });
+  });
+
+  describe('eviction', () => {
+    beforeEach(() => {
+      // '"xxxxxxxx"' is 10 bytes
+      cache = new SeriesCache({ store, maxSizeBytes: 25, now: () => now });
+    });
+
+    it('evicts the least recently used entries', async () => {
+      await cache.set('a', 'xxxxxxxx', { source: 'fred' });
+      now++;
+      await cache.set('b', 'xxxxxxxx', { source: 'fred' });
+      now++;
+      await cache.get('a');
+      now++;
+      await cache.set('c', 'xxxxxxxx', { source: 'fred' });
+
+      expect((await store.list()).map((info) => info.key).sort()).toEqual(['a', 'c']);
+    });
+
+    it('does not store values larger than the limit', async () => {
+      await cache.set('a', 'xxxxxxxx', { source: 'fred' });
+      await cache.set('big', 'x'.repeat(30), { source: 'fred' });
+
+      expect((await store.list()).map((info) => info.key)).toEqual(['a']);
+    });
+  });
+
+  describe('clearing and stats', () => {
+    beforeEach(async () => {
+      await cache.set('a', [1, 2], { source: 'fred', seriesId: 'GDPC1' });
+      await cache.set('b', [3], { source: 'fred', seriesId: 'CPIAUCSL', ttlMs: 5000 });
+      await cache.set('c', [4], { source: 'imf', seriesId: 'NGDP' });
+      now += 2000;
+    });
+
+    it('counts entries by freshness and source', async () => {
+      expect(await cache.stats()).toEqual({
+        total: 3,
+        active: 1,
+        expired: 2,
+        bySource: { fred: 2, imf: 1 },
+        sizeBytes: 11,
+        sizeMb: 0,
+      });
+    });
+
+    it('clears expired entries', async () => {
+      expect(await cache.clearExpired()).toBe(2);
+      expect((await store.list()).map((info) => info.key)).toEqual(['b']);
+    });
+
+    it('clears one source', async () => {
+      expect(await cache.clearSource('fred')).toBe(2);
+      expect((await store.list()).map((info) => info.key)).toEqual(['c']);
+    });
+
+    it('deletes entries and clears all', async () => {
+      expect(await cache.delete('a')).toBe(true);
+      expect(await cache.delete('a')).toBe(false);
+      expect(await cache.clearAll()).toBe(2);
+      expect((await cache.stats()).total).toBe(0);
+    });
+  });
+
+  describe('fetch', () => {
+    const meta = { source: 'fred', seriesId: 'GDPC1' };
+
+    it('fetches and stores values it does not have', async () => {
+      const fetcher = jest.fn().mockResolvedValue({ v: 1 });
+
+      const first = await cache.fetch('k', meta, fetcher);
+      const second = await cache.fetch('k', meta, fetcher);
+
+      expect(first).toEqual({
+        value: { v: 1 },
+        key: 'k',
+        status: 'fetched',
+        fetchedAt: new Date(now),
+      });
+      expect(second.status).toBe('fresh');
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares concurrent fetches of a key', async () => {
+      const fetcher = jest.fn().mockResolvedValue(1);
+
+      await Promise.all([cache.fetch('k', meta, fetcher), cache.fetch('k', meta, fetcher)]);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps a shared fetch for callers that did not cancel', async () => {
+      let finish: (value: number) => void = () => undefined;
+      let fetchSignal: AbortSignal | undefined;
+      const fetcher = (signal: AbortSignal) => {
+        fetchSignal = signal;
+        return new Promise<number>((resolve) => (finish = resolve));
+      };
+
+      const controller = new AbortController();
+      const cancelled = cache.fetch('k', meta, fetcher, { signal: controller.signal });
+      const kept = cache.fetch('k', meta, fetcher);
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(cancelled).rejects.toMatchObject({ kind: 'aborted' });
+      expect(fetchSignal?.aborted).toBe(false);
+      finish(1);
+      expect(await kept).toMatchObject({ value: 1, status: 'fetched' });
+    });
+
+    it('cancels a shared fetch once every caller has cancelled', async () => {
+      let fetchSignal: AbortSignal | undefined;
+      const controller = new AbortController();
+      const result = cache.fetch(
+        'k',
+        meta,
+        (signal) => {
+          fetchSignal = signal;
+          return new Promise<number>(() => undefined);
+        },
+        { signal: controller.signal }
+      );
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ kind: 'aborted' });
+      expect(fetchSignal?.aborted).toBe(true);
+    });
+
+    it('does not let callers cancel a background fetch', async () => {
+      await cache.set('k', 1, meta);
+      now += 1200;
+      let fetchSignal: AbortSignal | undefined;
+      const controller = new AbortController();
+
+      const result = await cache.fetch(
+        'k',
+        meta,
+        async (signal) => {
+          fetchSignal = signal;
+          return 2;
+        },
+        { signal: controller.signal }
+      );
+      controller.abort();
+      await cache.settle();
+
+      expect(result.status).toBe('stale');
+      expect(fetchSignal?.aborted).toBe(false);
+      expect(await cache.get('k')).toBe(2);
+    });
+
+    it('serves stale values while fetching them again in the background', async () => {
+      await cache.set('k', 1, meta);
+      now += 1200;
+
+      const result = await cache.fetch('k', meta, async () => 2);
+      expect(result).toMatchObject({ value: 1, status: 'stale' });
+
+      await cache.settle();
+      expect(await cache.get('k')).toBe(2);
+    });
+
+    it('reports failed background fetches', async () => {
+      const onRevalidateError = jest.fn();
+      cache = new SeriesCache({ store, ttlMs: 1000, now: () => now, onRevalidateError });
+      await cache.set('k', 1, meta);
+      now += 1200;
+
+      await cache.fetch('k', meta, () => Promise.reject(offline()));
+      await cache.settle();
+
+      expect(onRevalidateError).toHaveBeenCalledWith(expect.any(ApiError), 'k');
+      expect((await store.get('k'))?.value).toBe(1);
+    });
+
+    it('fetches old values first and serves them when offline', async () => {
+      await cache.set('k', 1, meta);
+      const fetchedAt = new Date(now);
+      now += 10_000;
+
+      expect(await cache.fetch('k', meta, async () => 2)).toMatchObject({
+        value: 2,
+        status: 'fetched',
+      });
+
+      now += 10_000;
+      expect(await cache.fetch('k', meta, () => Promise.reject(offline()))).toMatchObject({
+        value: 2,
+        status: 'offline',
+        fetchedAt: new Date(fetchedAt.getTime() + 10_000),
+      });
+    });
+
+    it('serves cached values for server errors but not for refused requests', async () => {
+      await cache.set('k', 1, meta);
+      const error = (status: number) =>
+        new ApiError(`HTTP ${status}`, {
+          kind: 'http',
+          method: 'GET',
+          url: 'http://localhost:8080/',
+          status,
+        });
+
+      const served = await cache.fetch('k', meta, () => Promise.reject(error(503)), {
+        forceRefresh: true,
+      });
+      expect(served.status).toBe('offline');
+
+      await expect(
+        cache.fetch('k', meta, () => Promise.reject(error(404)), { forceRefresh: true })
+      ).rejects.toThrow('HTTP 404');
+    });
+
+    it('throws when offline with nothing cached', async () => {
+      await expect(cache.fetch('k', meta, () => Promise.reject(offline()))).rejects.toThrow(
+        'Backend unreachable'
+      );
+    });
+
+    it('always fetches when disabled', async () => {
+      cache = new SeriesCache({ store, enabled: false });
+      const fetcher = jest.fn().mockResolvedValue(1);
+
+      await cache.fetch('k', meta, fetcher);
+      await cache.fetch('k', meta, fetcher);
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(await store.list()).toEqual([]);
+    });
+  });
+
+  describe('client requests', () => {
+    it('caches series under their Julia key', async () => {
+      const urls: string[] = [];
+      const client = new EconomicApiClient({
+        fetch: async (url: RequestInfo | URL) => {
+          urls.push(String(url));
+          return new Response(JSON.stringify({ date: ['2020-01-01'], value: [19032.1] }), {
+            status: 200,
+          });
+        },
+      });
+
+      const options = { start: '2020-01-01', end: '2023-12-31' };
+      const first = await cache.getSeries(client, 'fred', 'GDPC1', options);
+      const second = await cache.getSeries(client, 'fred', 'GDPC1', options);
+
+      expect(first.key).toBe(await cacheKey('fred', 'GDPC1', '2020-01-01', '2023-12-31'));
+      expect(second).toMatchObject({
+        status: 'fresh',
+        value: { date: ['2020-01-01'], value: [19032.1] },
+      });
+      expect(urls).toHaveLength(1);
+      expect((await store.list())[0]).toMatchObject({ source: 'fred', seriesId: 'GDPC1' });
+    });
+
+    it('caches searches', async () => {
+      const client = new EconomicApiClient({
+        fetch: async () =>
+          new Response(JSON.stringify([{ id: 'GDPC1', title: 'Real GDP' }]), { status: 200 }),
+      });
+
+      const result = await cache.searchSeries(client, 'fred', 'gdp');
+
+      expect(result.key).toBe(await searchCacheKey('fred', 'gdp'));
+      expect((await store.list())[0]).toMatchObject({ source: 'fred', seriesId: '' });
+    });
+  });
+});
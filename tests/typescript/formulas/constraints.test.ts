@@ -0,0 +1,133 @@
+import {
+  ConstraintSystem,
+  evaluateExpression,
+  gdpIdentitySystem,
+  parseEquation,
+} from '../../../src/typescript/formulas/constraints';
+
+// Cases from tests/julia/test_constraints.jl
+describe('constraints', () => {
+  it('should solve the GDP identity for GDP or a component', () => {
+    const system = gdpIdentitySystem({ C: 14000, I: 3000, G: 3500, NX: -500 });
+    expect(system.solve().converged).toBe(true);
+    expect(system.getVariable('GDP')).toBeCloseTo(20000, 6);
+
+    const component = gdpIdentitySystem({ GDP: 20000, C: 14000, I: 3000, G: 3500 });
+    expect(component.solve()).toEqual(
+      expect.objectContaining({ converged: true, unsatisfied: [] })
+    );
+    expect(component.getVariable('NX')).toBeCloseTo(-500, 6);
+  });
+
+  it('should solve constraints that share free variables', () => {
+    const system = new ConstraintSystem();
+    system.addConstraint('c1', 'X + Y = 10');
+    system.addConstraint('c2', 'X - Y = 2');
+
+    const solution = system.solve();
+
+    expect(solution.converged).toBe(true);
+    expect(solution.values.X).toBeCloseTo(6, 6);
+    expect(solution.values.Y).toBeCloseTo(4, 6);
+  });
+
+  it('should move free variables as little as possible', () => {
+    const system = new ConstraintSystem();
+    system.addConstraint('budget', 'Y = C + S');
+    system.setVariable('Y', 50000, true);
+    system.setVariable('C', 40000);
+    system.setVariable('S', 9000);
+
+    system.solve();
+
+    expect(system.getVariable('Y')).toBe(50000);
+    expect(system.getVariable('C')).toBeCloseTo(40500, 6);
+    expect(system.getVariable('S')).toBeCloseTo(9500, 6);
+  });
+
+  it('should solve nonlinear equations', () => {
+    const system = new ConstraintSystem();
+    system.addConstraint('production', 'Y = A * K^0.3 * L^0.7');
+    system.addConstraint('quantity theory', 'ln(M) + ln(V) = ln(P) + ln(Y)');
+    system.setVariable('A', 2, true);
+    system.setVariable('L', 100, true);
+    system.setVariable('Y', 300, true);
+    system.setVariable('M', 1000, true);
+    system.setVariable('V', 3, true);
+
+    const solution = system.solve();
+
+    expect(solution.converged).toBe(true);
+    expect(2 * solution.values.K ** 0.3 * 100 ** 0.7).toBeCloseTo(300, 4);
+    expect(solution.values.P).toBeCloseTo(10, 6);
+  });
+
+  it('should report constraints that cannot be satisfied', () => {
+    const system = new ConstraintSystem();
+    system.addConstraint('c1', 'X + Y = 100');
+    system.setVariable('X', 40);
+    system.setVariable('Y', 60);
+    expect(system.check()).toEqual([]);
+
+    system.setVariable('X', 100, true);
+    system.setVariable('Y', 100, true);
+    expect(system.check()).toEqual([{ name: 'c1', equation: 'X + Y = 100', residual: 100 }]);
+
+    const solution = system.solve();
+    expect(solution.converged).toBe(false);
+    expect(solution.unsatisfied.map((u) => u.name)).toEqual(['c1']);
+  });
+
+  it('should leave contradictory constraints unsatisfied and solve the rest', () => {
+    const system = new ConstraintSystem();
+    system.addConstraint('a', 'X = 1');
+    system.addConstraint('b', 'X = 3');
+    system.addConstraint('c', 'Z = 2 * W');
+    system.setVariable('W', 5, true);
+
+    const solution = system.solve();
+
+    expect(solution.converged).toBe(false);
+    expect(solution.values.Z).toBeCloseTo(10, 6);
+    expect(solution.values.X).toBeCloseTo(2, 6);
+    expect(solution.unsatisfied.map((u) => u.name)).toEqual(['a', 'b']);
+  });
+
+  it('should manage variables and constraints', () => {
+    const system = new ConstraintSystem();
+    system.setVariable('X', 10);
+    system.setVariable('Y', 20, true);
+
+    expect(system.getVariable('X')).toBe(10);
+    expect(system.isFixed('Y')).toBe(true);
+    expect(system.getVariable('Z')).toBeNull();
+
+    system.setVariable('Y', 20);
+    expect(system.isFixed('Y')).toBe(false);
+    system.clearVariable('X');
+    expect(system.getVariable('X')).toBeNull();
+
+    system.addConstraint('sum', 'X + Y = Z');
+    expect(system.getVariableNames()).toEqual(['X', 'Y', 'Z']);
+    expect(() => system.addConstraint('sum', 'X = 1')).toThrow('Constraint already exists: sum');
+    expect(system.removeConstraint('sum')).toBe(true);
+    expect(system.getConstraints()).toEqual([]);
+    expect(() => system.setVariable('X', NaN)).toThrow('Value of X must be a finite number');
+  });
+
+  it('should parse operator precedence and functions', () => {
+    const { left, right } = parseEquation('-2^2 + 3 * (1 - x) / 2 = sqrt(exp(y))');
+    expect(evaluateExpression(left, { x: 5 })).toBeCloseTo(-10, 12);
+    expect(evaluateExpression(right, { y: 2 })).toBeCloseTo(Math.E, 12);
+    expect(evaluateExpression(parseEquation('y = 2^3^2').right, {})).toBe(512);
+    expect(() => evaluateExpression(left, {})).toThrow('No value for variable x');
+  });
+
+  it('should reject malformed equations', () => {
+    expect(() => parseEquation('X + Y')).toThrow('expected exactly one "="');
+    expect(() => parseEquation('X = (Y + 1')).toThrow('missing ")"');
+    expect(() => parseEquation('X = Y +')).toThrow('unexpected end of expression');
+    expect(() => parseEquation('X = log(Y)')).toThrow('unknown function log');
+    expect(() => parseEquation('X = Y Z')).toThrow('unexpected "Z"');
+  });
+});
@@ -0,0 +1,63 @@
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import { EconomicApiClient } from '../../../src/typescript/api/EconomicApiClient';
+import {
+  DATA_FUNCTION_METADATA,
+  registerDataFunctions,
+} from '../../../src/typescript/formulas/dataFunctions';
+import { SeriesDispatcher } from '../../../src/typescript/services/SeriesDispatcher';
+
+describe('dataFunctions', () => {
+  let adapter: InMemoryAdapter;
+  let bodies: { ids: string[]; start?: string; end?: string }[];
+
+  beforeEach(() => {
+    bodies = [];
+    const client = new EconomicApiClient({
+      fetch: async (_url: RequestInfo | URL, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body)) as { ids: string[] };
+        bodies.push(body);
+        const series = Object.fromEntries(
+          body.ids
+            .filter((id) => id !== 'NOPE')
+            .map((id) => [id, { date: ['2020-01-01', '2020-04-01'], value: [1.5, null] }])
+        );
+        return new Response(JSON.stringify({ series, errors: { NOPE: 'Unknown series' } }), {
+          status: 200,
+        });
+      },
+    });
+
+    adapter = new InMemoryAdapter();
+    registerDataFunctions(adapter, new SeriesDispatcher(client, { windowMs: 5 }));
+  });
+
+  it('should register every function with its metadata', () => {
+    expect(adapter.getRegisteredFunctions()).toEqual(DATA_FUNCTION_METADATA);
+  });
+
+  it('should return [date, value] rows', async () => {
+    expect(await adapter.callFunction('ECON.FRED', 'GDPC1', '2020-01-01', '')).toEqual([
+      [new Date(Date.UTC(2020, 0, 1)), 1.5],
+      [new Date(Date.UTC(2020, 3, 1)), null],
+    ]);
+    expect(bodies).toEqual([{ ids: ['GDPC1'], start: '2020-01-01' }]);
+  });
+
+  it('should coalesce calls from many cells and isolate bad ids', async () => {
+    const results = await Promise.allSettled([
+      adapter.callFunction('ECON.FRED', 'GDPC1', 43831),
+      adapter.callFunction('ECON.FRED', 'NOPE', 43831),
+      adapter.callFunction('ECON.WB', 'NY.GDP.MKTP.CD', 'USA'),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(bodies).toEqual([
+      { ids: ['GDPC1', 'NOPE'], start: '2020-01-01' },
+      { ids: ['USA/NY.GDP.MKTP.CD'] },
+    ]);
+  });
+
+  it('should require series ids', async () => {
+    await expect(adapter.callFunction('ECON.FRED', '')).rejects.toThrow('series_id is required');
+  });
+});
@@ -0,0 +1,110 @@
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import { CellMatrix } from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import {
+  ECON_FUNCTIONS,
+  registerEconFunctions,
+} from '../../../src/typescript/formulas/econFunctions';
+
+describe('econFunctions', () => {
+  let adapter: InMemoryAdapter;
+
+  beforeEach(() => {
+    adapter = new InMemoryAdapter();
+    registerEconFunctions(adapter);
+  });
+
+  it('should register every function with its metadata', () => {
+    const registered = adapter.getRegisteredFunctions();
+    expect(registered).toEqual(ECON_FUNCTIONS.map((fn) => fn.metadata));
+    expect(registered.map((metadata) => metadata.name)).toEqual(
+      expect.arrayContaining([
+        'ECON.ELASTICITY',
+        'ECON.GROWTH',
+        'ECON.CAGR',
+        'ECON.GINI',
+        'ECON.LORENZ',
+        'ECON.ATKINSON',
+        'ECON.THEIL',
+      ])
+    );
+  });
+
+  it('should accept column ranges and method names in any case', async () => {
+    const quantities = [[100], [85], [70]];
+    const prices = [[10], [12], [14]];
+
+    expect(await adapter.callFunction('ECON.ELASTICITY', quantities, prices)).toBeCloseTo(
+      -1.058823529411765,
+      12
+    );
+    expect(await adapter.callFunction('econ.elasticity', quantities, prices, 'LOG')).toBeCloseTo(
+      -1.0549536513043598,
+      12
+    );
+  });
+
+  it('should skip rows where either paired cell is empty', async () => {
+    expect(
+      await adapter.callFunction('ECON.ELASTICITY', [[100], [null], [70]], [[10], [11], [14]])
+    ).toBeCloseTo(-1.058823529411765, 12);
+  });
+
+  it('should return growth as a column with empty cells for NaN', async () => {
+    const values = [[100], [110], [121]];
+    // Excel date serials for 2020-01-01, 2021-01-01 and 2022-01-01
+    const dates = [[43831], [44197], [44562]];
+
+    const growth = (await adapter.callFunction('ECON.GROWTH', values, dates, 'YoY')) as CellMatrix;
+    expect(growth[0]).toEqual([null]);
+    expect(growth[1][0]).toBeCloseTo(10, 12);
+    expect(growth[2][0]).toBeCloseTo(10, 12);
+
+    expect(await adapter.callFunction('ECON.GROWTH', values, 'YoY')).toEqual(growth);
+    expect(await adapter.callFunction('ECON.GROWTH', values, 'CAGR')).toBeCloseTo(10, 12);
+    expect(await adapter.callFunction('ECON.GROWTH', values)).toEqual(growth);
+    expect(await adapter.callFunction('ECON.GROWTH', values, null, 'CAGR')).toBeCloseTo(10, 12);
+    expect(await adapter.callFunction('ECON.GROWTH', values, [['YoY']])).toEqual(growth);
+  });
+
+  it('should return an empty cell when CAGR is undefined', async () => {
+    expect(await adapter.callFunction('ECON.GROWTH', [[-1], [2]], 'CAGR')).toBeNull();
+    expect(
+      await adapter.callFunction('ECON.GROWTH', [[-1], [2]], [[43831], [44197]], 'CAGR')
+    ).toBeNull();
+  });
+
+  it('should return the Lorenz curve as two columns', async () => {
+    expect(await adapter.callFunction('ECON.LORENZ', [[1], [3]])).toEqual([
+      [0, 0],
+      [0.5, 0.25],
+      [1, 1],
+    ]);
+  });
+
+  it('should compute scalar functions', async () => {
+    const incomes = [[10000], [20000], [30000], [40000], [50000]];
+    expect(await adapter.callFunction('ECON.GINI', incomes)).toBeCloseTo(0.2666666666666666, 12);
+    expect(await adapter.callFunction('ECON.ATKINSON', incomes)).toBeCloseTo(
+      0.13160963843421647,
+      12
+    );
+    expect(await adapter.callFunction('ECON.ATKINSON', incomes, 0.5)).toBeCloseTo(
+      0.06315339222708649,
+      12
+    );
+    expect(await adapter.callFunction('ECON.THEIL', [[30000], [30000]])).toBeCloseTo(0, 12);
+    expect(await adapter.callFunction('ECON.CAGR', 100, 150, 5)).toBeCloseTo(8.447177119769855, 10);
+  });
+
+  it('should report bad arguments', async () => {
+    await expect(adapter.callFunction('ECON.GINI', [['a']])).rejects.toThrow(
+      'distribution must contain only numbers'
+    );
+    await expect(adapter.callFunction('ECON.ELASTICITY', [[1], [2]], [[1]])).rejects.toThrow(
+      'quantities and prices must have the same size'
+    );
+    await expect(adapter.callFunction('ECON.GROWTH', [[1], [2]], 'weekly')).rejects.toThrow(
+      'Unknown method: weekly'
+    );
+  });
+});
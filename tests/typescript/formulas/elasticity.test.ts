@@ -0,0 +1,43 @@
+import {
+  crossPriceElasticity,
+  elasticity,
+  incomeElasticity,
+} from '../../../src/typescript/formulas/elasticity';
+
+// Reference values from src/julia/formulas/elasticity.jl
+describe('elasticity', () => {
+  const prices = [10, 12, 14];
+  const quantities = [100, 85, 70];
+
+  it('should match the Julia results for every method', () => {
+    expect(elasticity(quantities, prices)).toBeCloseTo(-1.058823529411765, 12);
+    expect(elasticity(quantities, prices, 'midpoint')).toBeCloseTo(-1.058823529411765, 12);
+    expect(elasticity(quantities, prices, 'arc')).toBeCloseTo(-1.074978204010462, 12);
+    expect(elasticity(quantities, prices, 'point')).toBeCloseTo(-1.0588235294117647, 12);
+    expect(elasticity(quantities, prices, 'log')).toBeCloseTo(-1.0549536513043598, 12);
+  });
+
+  it('should skip flat segments in arc elasticity', () => {
+    expect(elasticity([100, 90, 88, 75], [10, 12, 12, 14], 'arc')).toBeCloseTo(
+      -0.8078785921859863,
+      12
+    );
+  });
+
+  it('should return Infinity or NaN where Julia does', () => {
+    expect(elasticity([100, 90], [10, 10])).toBe(Infinity);
+    expect(elasticity([100, 90], [10, 10], 'point')).toBe(Infinity);
+    expect(elasticity([100, 90], [10, 10], 'arc')).toBeNaN();
+  });
+
+  it('should compute income and cross-price elasticity with the midpoint method', () => {
+    expect(incomeElasticity([10, 15, 22], [30000, 40000, 50000])).toBeCloseTo(1.5, 12);
+    expect(crossPriceElasticity([100, 120, 140], [2, 2.5, 3])).toBeCloseTo(0.8333333333333333, 12);
+  });
+
+  it('should validate inputs', () => {
+    expect(() => elasticity([100], [10])).toThrow('Need at least 2 data points');
+    expect(() => elasticity([100, 90], [10, 11, 12])).toThrow('same length');
+    expect(() => elasticity([0, -1], [10, 11], 'log')).toThrow('2 positive data points');
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  cagr,
+  gdpGrowth,
+  simpleGrowthRate,
+  subtractMonths,
+} from '../../../src/typescript/formulas/growth';
+
+const utc = (year: number, month: number, day: number): Date =>
+  new Date(Date.UTC(year, month - 1, day));
+
+// Reference values from src/julia/formulas/gdp_growth.jl
+describe('growth', () => {
+  const dates = [
+    utc(2020, 1, 1),
+    utc(2020, 4, 1),
+    utc(2020, 7, 1),
+    utc(2020, 10, 1),
+    utc(2021, 1, 1),
+    utc(2021, 4, 1),
+  ];
+  const values = [21000, 20000, 21500, 22000, 22500, 23000];
+
+  it('should match the Julia YoY results', () => {
+    const growth = gdpGrowth(values, dates, 'yoy');
+    expect(growth.slice(0, 4).every(isNaN)).toBe(true);
+    expect(growth[4]).toBeCloseTo(7.142857142857142, 10);
+    expect(growth[5]).toBeCloseTo(15, 10);
+  });
+
+  it('should match the Julia annualized QoQ results', () => {
+    const expected = [
+      -17.729752520811815, 33.54691406249999, 9.63188556455905, 9.40554884399971, 9.18959914647155,
+    ];
+    const growth = gdpGrowth(values, dates, 'qoq');
+    expect(growth[0]).toBeNaN();
+    expected.forEach((rate, i) => expect(growth[i + 1]).toBeCloseTo(rate, 10));
+  });
+
+  it('should clamp month arithmetic like Julia in MoM growth', () => {
+    // 2021-02-28 minus one month is 2021-01-28, before the January observation
+    const growth = gdpGrowth(
+      [100, 101, 100.5],
+      [utc(2021, 1, 31), utc(2021, 2, 28), utc(2021, 3, 31)],
+      'mom'
+    );
+    expect(growth[1]).toBeNaN();
+    expect(growth[2]).toBeCloseTo(-5.781484837964634, 10);
+  });
+
+  it('should match the Julia CAGR over 365.25-day years', () => {
+    expect(gdpGrowth([18000, 23000], [utc(2015, 1, 1), utc(2020, 1, 1)], 'cagr')[0]).toBeCloseTo(
+      5.025312192024978,
+      10
+    );
+    expect(cagr(100, 150, 5)).toBeCloseTo((1.5 ** 0.2 - 1) * 100, 12);
+    expect(cagr(0, 150, 5)).toBeNaN();
+  });
+
+  it('should sort observations by date', () => {
+    const growth = gdpGrowth([110, 100], [utc(2021, 1, 1), utc(2020, 1, 1)], 'yoy');
+    expect(growth[1]).toBeCloseTo(10, 12);
+  });
+
+  it('should compute simple growth rates', () => {
+    const growth = simpleGrowthRate([100, 105, 110, 108]);
+    expect(growth[0]).toBeNaN();
+    expect(growth[1]).toBeCloseTo(5, 12);
+    expect(growth[2]).toBeCloseTo(4.761904761904762, 12);
+    expect(growth[3]).toBeCloseTo(-1.8181818181818181, 12);
+  });
+
+  it('should subtract months with end-of-month clamping', () => {
+    expect(subtractMonths(utc(2020, 3, 31), 1)).toEqual(utc(2020, 2, 29));
+    expect(subtractMonths(utc(2020, 2, 29), 12)).toEqual(utc(2019, 2, 28));
+    expect(subtractMonths(utc(2021, 1, 15), 3)).toEqual(utc(2020, 10, 15));
+  });
+
+  it('should validate inputs', () => {
+    expect(() => gdpGrowth([100], [utc(2020, 1, 1)])).toThrow('Need at least 2 data points');
+    expect(() => gdpGrowth([100, 110], [utc(2020, 1, 1)])).toThrow('same length');
+  });
+});
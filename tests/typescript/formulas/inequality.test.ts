@@ -0,0 +1,65 @@
+import {
+  atkinsonIndex,
+  giniCoefficient,
+  giniFromLorenz,
+  lorenzCurve,
+  palmaRatio,
+  theilIndex,
+} from '../../../src/typescript/formulas/inequality';
+
+// Reference values from src/julia/formulas/lorenz.jl
+describe('inequality', () => {
+  const incomes = [10000, 20000, 30000, 40000, 50000];
+
+  it('should match the Julia Gini coefficient', () => {
+    expect(giniCoefficient(incomes)).toBeCloseTo(0.2666666666666666, 12);
+    expect(giniCoefficient([10000, 10000, 10000, 10000, 100000])).toBeCloseTo(
+      0.5142857142857142,
+      12
+    );
+    expect(giniCoefficient([50000, 50000, 50000])).toBeCloseTo(0, 12);
+    expect(giniCoefficient([0, 0])).toBe(0);
+    expect(giniCoefficient([])).toBeNaN();
+  });
+
+  it('should build the Lorenz curve and agree with the direct Gini', () => {
+    const curve = lorenzCurve([60000, 20000, 40000, 30000]);
+    expect(curve.populationShare).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(curve.incomeShare[1]).toBeCloseTo(0.13333333333333333, 12);
+    expect(curve.incomeShare[4]).toBeCloseTo(1, 12);
+    expect(giniFromLorenz(curve.populationShare, curve.incomeShare)).toBeCloseTo(
+      0.21666666666666667,
+      12
+    );
+    expect(lorenzCurve([0, 0]).incomeShare).toEqual([0, 0, 0]);
+  });
+
+  it('should match the Julia Atkinson index', () => {
+    expect(atkinsonIndex(incomes)).toBeCloseTo(0.13160963843421647, 12);
+    expect(atkinsonIndex(incomes, 0.5)).toBeCloseTo(0.06315339222708649, 12);
+    expect(atkinsonIndex(incomes, 2)).toBeCloseTo(0.27007299270072993, 12);
+    expect(atkinsonIndex([0, 0])).toBeNaN();
+    expect(() => atkinsonIndex(incomes, -1)).toThrow('Epsilon must be non-negative');
+  });
+
+  it('should match the Julia Theil index', () => {
+    expect(theilIndex([10000, 30000, 60000])).toBeCloseTo(0.20066656381132986, 12);
+    expect(theilIndex([30000, 30000, 30000])).toBeCloseTo(0, 12);
+  });
+
+  it('should match the Julia Palma ratio, including its index boundaries', () => {
+    const distribution = [
+      ...new Array(40).fill(10000),
+      ...new Array(50).fill(50000),
+      ...new Array(10).fill(200000),
+    ];
+    // ceil(0.9n):end includes the 90th value, as in Julia
+    expect(palmaRatio(distribution)).toBeCloseTo(5.125, 12);
+    expect(palmaRatio([0, 0])).toBeNaN();
+  });
+
+  it('should reject negative incomes', () => {
+    expect(() => giniCoefficient([-10000, 20000])).toThrow('Incomes cannot be negative');
+    expect(() => lorenzCurve([-1])).toThrow('Incomes cannot be negative');
+  });
+});
@@ -0,0 +1,168 @@
+import { CustomFunctionMetadata } from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import { ECON_FUNCTIONS } from '../../../src/typescript/formulas/econFunctions';
+import {
+  generateCalcAddinIdl,
+  generateCalcAddinXcu,
+  generateOfficeFunctionsJson,
+  unoMethodName,
+  validateFunctionMetadata,
+} from '../../../src/typescript/manifest/functionManifest';
+
+const metadata = ECON_FUNCTIONS.map((fn) => fn.metadata);
+
+const fn = (overrides: Partial<CustomFunctionMetadata>): CustomFunctionMetadata => ({
+  name: 'ECON.TEST',
+  description: 'Test function',
+  parameters: [],
+  returnType: 'number',
+  ...overrides,
+});
+
+describe('functionManifest', () => {
+  describe('generateOfficeFunctionsJson', () => {
+    it('should declare every ECON function', () => {
+      const json = generateOfficeFunctionsJson(metadata);
+      expect(json.functions.map((f) => f.id)).toEqual(metadata.map((m) => m.name));
+    });
+
+    it('should map ranges to matrices and keep optional parameters', () => {
+      const growth = generateOfficeFunctionsJson(metadata).functions.find(
+        (f) => f.id === 'ECON.GROWTH'
+      );
+
+      expect(growth).toEqual({
+        id: 'ECON.GROWTH',
+        name: 'GROWTH',
+        description: 'Calculate growth rates in percent (YoY, QoQ, MoM, CAGR)',
+        result: { type: 'any', dimensionality: 'matrix' },
+        parameters: [
+          { name: 'values', description: 'Series values', type: 'any', dimensionality: 'matrix' },
+          {
+            name: 'dates',
+            description: 'Observation dates, or the method if dates are omitted',
+            type: 'any',
+            dimensionality: 'matrix',
+            optional: true,
+          },
+          {
+            name: 'method',
+            description: 'YoY (default), QoQ, MoM or CAGR',
+            type: 'string',
+            dimensionality: 'scalar',
+            optional: true,
+          },
+        ],
+      });
+    });
+
+    it('should emit help URLs and options', () => {
+      const [entry] = generateOfficeFunctionsJson([
+        fn({
+          helpUrl: 'https://example.com/help',
+          streaming: true,
+          cancelable: true,
+          parameters: [{ name: 'values', description: 'Values', type: 'number', repeating: true }],
+        }),
+      ]).functions;
+
+      expect(entry.helpUrl).toBe('https://example.com/help');
+      expect(entry.options).toEqual({ stream: true, cancelable: true });
+      expect(entry.parameters[0].repeating).toBe(true);
+    });
+
+    it('should reject functions outside the namespace or declared twice', () => {
+      expect(() => generateOfficeFunctionsJson([fn({ name: 'OTHER.TEST' })])).toThrow(
+        'not in the ECON namespace'
+      );
+      expect(() => generateOfficeFunctionsJson([fn({}), fn({ name: 'econ.test' })])).toThrow(
+        'declared twice'
+      );
+    });
+  });
+
+  describe('validateFunctionMetadata', () => {
+    it('should accept the ECON functions', () => {
+      metadata.forEach((m) => expect(() => validateFunctionMetadata(m)).not.toThrow());
+    });
+
+    it('should reject required parameters after optional ones', () => {
+      const parameters: CustomFunctionMetadata['parameters'] = [
+        { name: 'a', description: 'A', type: 'number', optional: true },
+        { name: 'b', description: 'B', type: 'number' },
+      ];
+      expect(() => validateFunctionMetadata(fn({ parameters }))).toThrow(
+        'required parameter "b" follows an optional one'
+      );
+    });
+
+    it('should reject a repeating parameter that is not last', () => {
+      const parameters: CustomFunctionMetadata['parameters'] = [
+        { name: 'a', description: 'A', type: 'number', repeating: true },
+        { name: 'b', description: 'B', type: 'number' },
+      ];
+      expect(() => validateFunctionMetadata(fn({ parameters }))).toThrow(
+        'only the last parameter can repeat'
+      );
+    });
+
+    it('should reject streaming volatile functions and invalid names', () => {
+      expect(() => validateFunctionMetadata(fn({ streaming: true, volatile: true }))).toThrow(
+        'cannot be volatile'
+      );
+      expect(() => validateFunctionMetadata(fn({ name: 'ECON.BAD NAME' }))).toThrow(
+        'Invalid metadata'
+      );
+    });
+  });
+
+  describe('LibreOffice add-in', () => {
+    it('should derive camelCase method names', () => {
+      expect(unoMethodName('ECON.INCOME_ELASTICITY')).toBe('econIncomeElasticity');
+      expect(unoMethodName('ECON.GINI')).toBe('econGini');
+    });
+
+    it('should describe functions and parameters in the XCU', () => {
+      const xcu = generateCalcAddinXcu(metadata, { category: 'Statistical' });
+
+      expect(xcu).toContain('oor:name="CalcAddIns"');
+      expect(xcu).toContain('<node oor:name="org.economictoolkit.EconFunctions" oor:op="replace">');
+      expect(xcu).toContain('<node oor:name="econCrossElasticity" oor:op="replace">');
+      expect(xcu).toContain('<value xml:lang="en">ECON.CROSS_ELASTICITY</value>');
+      expect(xcu).toContain('<prop oor:name="Category"><value>Statistical</value></prop>');
+      expect(xcu).toContain(
+        '<value xml:lang="en">Inequality aversion (default 1) (optional)</value>'
+      );
+    });
+
+    it('should escape XML in descriptions', () => {
+      const xcu = generateCalcAddinXcu([fn({ description: 'Top 10% / bottom <40%> & "more"' })]);
+      expect(xcu).toContain('Top 10% / bottom &lt;40%&gt; &amp; &quot;more&quot;');
+    });
+
+    it('should map parameter types in the IDL', () => {
+      const idl = generateCalcAddinIdl(metadata);
+
+      expect(idl).toContain('module org { module economictoolkit {');
+      expect(idl).toContain('interface XEconFunctions : com::sun::star::uno::XInterface');
+      expect(idl).toContain(
+        'double econCagr([in] double initial_value, [in] double final_value, [in] double periods);'
+      );
+      expect(idl).toContain(
+        'double econAtkinson([in] sequence< sequence< any > > distribution, [in] any epsilon);'
+      );
+      expect(idl).toContain('sequence< sequence< any > > econLorenz(');
+    });
+
+    it('should return XVolatileResult for streaming functions', () => {
+      const idl = generateCalcAddinIdl([
+        fn({
+          streaming: true,
+          parameters: [{ name: 'values', description: 'Values', type: 'number', repeating: true }],
+        }),
+      ]);
+      expect(idl).toContain(
+        'com::sun::star::sheet::XVolatileResult econTest([in] sequence< any > values);'
+      );
+    });
+  });
+});
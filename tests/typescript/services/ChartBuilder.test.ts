@@ -0,0 +1,69 @@
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import { ChartBuilder } from '../../../src/typescript/services/ChartBuilder';
+
+describe('ChartBuilder', () => {
+  let adapter: InMemoryAdapter;
+  let builder: ChartBuilder;
+
+  beforeEach(() => {
+    adapter = new InMemoryAdapter({ sheetNames: ['Data'] });
+    builder = new ChartBuilder(adapter);
+  });
+
+  it('should chart a wide series table against its dates', async () => {
+    await adapter.setRange('A5', [
+      ['Date', 'GDPC1', 'UNRATE'],
+      [new Date(Date.UTC(2024, 0, 1)), 100, 3.7],
+      [new Date(Date.UTC(2024, 3, 1)), 101, 3.9],
+    ]);
+
+    const chart = await builder.timeSeries('Data!A5:C7', {
+      title: 'Output and unemployment',
+      secondaryAxis: ['UNRATE'],
+      secondaryAxisTitle: 'Percent',
+    });
+
+    expect(chart.series).toEqual(['GDPC1', 'UNRATE']);
+    expect(adapter.getCharts('Data')[0]).toEqual(
+      expect.objectContaining({
+        type: 'line',
+        position: 'Data!E5',
+        title: 'Output and unemployment',
+        xAxisTitle: 'Date',
+        secondaryAxisTitle: 'Percent',
+      })
+    );
+    expect(adapter.getCharts('Data')[0].series[1].secondaryAxis).toBe(true);
+  });
+
+  it('should chart a Lorenz curve with its line of equality', async () => {
+    await adapter.setRange('B2', [
+      [0, 0],
+      [0.5, 0.2],
+      [1, 1],
+    ]);
+    await adapter.createNamedRange('Curve', 'B2:C4');
+
+    const chart = await builder.lorenzCurve('Curve');
+
+    expect(chart.series).toEqual(['Lorenz curve', 'Line of equality']);
+    expect(adapter.getCharts('Data')[0]).toEqual(
+      expect.objectContaining({
+        type: 'scatter',
+        lines: true,
+        title: 'Lorenz Curve',
+        position: 'Data!E2',
+        series: [
+          { name: 'Lorenz curve', values: 'Data!C2:C4', xValues: 'Data!B2:B4' },
+          { name: 'Line of equality', values: 'Data!B2:B4', xValues: 'Data!B2:B4', dashed: true },
+        ],
+      })
+    );
+  });
+
+  it('should reject a curve without two columns', async () => {
+    await expect(builder.lorenzCurve('Data!B2:B4')).rejects.toThrow(
+      'A Lorenz curve needs two columns (population share, income share), got 1'
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import { ConstraintSystem, gdpIdentitySystem } from '../../../src/typescript/formulas/constraints';
+import { ConstraintBinder } from '../../../src/typescript/services/ConstraintBinder';
+
+describe('ConstraintBinder', () => {
+  let adapter: InMemoryAdapter;
+  let binder: ConstraintBinder;
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter({ sheetNames: ['Model', 'Other'] });
+    binder = new ConstraintBinder(adapter, gdpIdentitySystem());
+    await adapter.setRange('B1', [[14000], [3000], [3500], [-500]]);
+    binder.bind('C', 'B1', 'input');
+    binder.bind('I', 'B2', 'input');
+    binder.bind('G', 'B3', 'input');
+    binder.bind('NX', 'B4', 'input');
+    binder.bind('GDP', 'B5');
+  });
+
+  it('should solve from input cells and write outputs', async () => {
+    const solution = await binder.solve();
+
+    expect(solution.converged).toBe(true);
+    expect(solution.written).toEqual(['Model!B5']);
+    expect(await adapter.getCellValue('B5')).toBeCloseTo(20000, 6);
+  });
+
+  it('should read and write cells bound to names', async () => {
+    await adapter.createNamedRange('Total_GDP', 'Model!C5');
+    binder.bind('GDP', 'Total_GDP');
+
+    const solution = await binder.solve();
+
+    expect(solution.written).toEqual(['Total_GDP']);
+    expect(await adapter.getCellValue('C5')).toBeCloseTo(20000, 6);
+  });
+
+  it('should treat empty inputs as unknowns', async () => {
+    await adapter.setCellValue('B4', null);
+    await adapter.setCellValue('B6', 20000);
+    binder.bind('GDP', 'B6', 'input');
+    binder.bind('NX', 'B4', 'output');
+
+    await binder.solve();
+
+    expect(await adapter.getCellValue('B4')).toBeCloseTo(-500, 6);
+  });
+
+  it('should report unsatisfied constraints without writing', async () => {
+    const system = new ConstraintSystem();
+    system.addConstraint('budget', 'Y = C + S');
+    system.addConstraint('savings', 'S = 0.2 * Y');
+    const budget = new ConstraintBinder(adapter, system);
+    budget.bind('Y', 'D1', 'input');
+    budget.bind('C', 'D2', 'input');
+    budget.bind('S', 'D3');
+    await adapter.setRange('D1', [[100], [90]]);
+
+    const solution = await budget.solve();
+
+    expect(solution.converged).toBe(false);
+    expect(solution.unsatisfied.length).toBeGreaterThan(0);
+    expect(solution.written).toEqual([]);
+    expect(await adapter.getCellValue('D3')).toBeNull();
+  });
+
+  it('should reject inputs that are not numbers and ranges that are not cells', async () => {
+    await adapter.setCellValue('B1', 'n/a');
+    await expect(binder.solve()).rejects.toThrow('Input C (Model!B1) must be a number');
+    expect(() => binder.bind('C', 'B1:B2')).toThrow('must be bound to a single cell');
+  });
+
+  it('should propagate input changes to outputs on the same sheet only', async () => {
+    await adapter.createNamedRange('Consumption', 'Model!B1');
+    binder.bind('C', 'Consumption', 'input');
+    const onSolved = jest.fn();
+    const stop = await binder.watch({ onSolved });
+
+    adapter.editCells('Model!B1', [[15000]]);
+    await binder.solve();
+    expect(onSolved).toHaveBeenCalledWith(expect.objectContaining({ converged: true }));
+    expect(await adapter.getCellValue('B5')).toBeCloseTo(21000, 6);
+
+    adapter.editCells('Other!B2', [[1]]);
+    stop();
+    adapter.editCells('Model!B2', [[4000]]);
+    await binder.solve();
+    expect(onSolved).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report failed solves started by changes', async () => {
+    const onError = jest.fn();
+    await binder.watch({ onError });
+
+    adapter.editCells('B2', [['?']]);
+    await binder.solve().catch(() => undefined);
+
+    expect(onError).toHaveBeenCalledWith(new Error('Input I (Model!B2) must be a number'));
+  });
+});
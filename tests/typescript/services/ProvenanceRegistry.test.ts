@@ -0,0 +1,171 @@
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import {
+  PROVENANCE_SCHEMA_VERSION,
+  ProvenanceRegistry,
+  migrateProvenance,
+} from '../../../src/typescript/services/ProvenanceRegistry';
+import { SeriesWriter, TimeSeries } from '../../../src/typescript/services/SeriesWriter';
+
+describe('ProvenanceRegistry', () => {
+  let adapter: InMemoryAdapter;
+  let writer: SeriesWriter;
+  let registry: ProvenanceRegistry;
+  const retrievedAt = new Date(Date.UTC(2024, 5, 1));
+
+  const gdp: TimeSeries = {
+    id: 'GDPC1',
+    source: 'fred',
+    title: 'Real Gross Domestic Product',
+    observations: [
+      { date: '2020-04-01', value: 17302.5 },
+      { date: '2020-01-01', value: 19032.1 },
+    ],
+  };
+
+  const cpi: TimeSeries = {
+    id: 'CPIAUCSL',
+    source: 'fred',
+    observations: [],
+  };
+
+  beforeEach(() => {
+    adapter = new InMemoryAdapter();
+    writer = new SeriesWriter(adapter);
+    registry = new ProvenanceRegistry(adapter);
+  });
+
+  it('should record a written block in document metadata', async () => {
+    const options = { retrievedAt, cacheKeys: { GDPC1: 'fred:GDPC1:2020' } };
+    const result = await writer.write('Data!A1', [gdp, cpi], options);
+    await registry.recordWrite(result, [gdp, cpi], options);
+
+    const block = {
+      address: result.address,
+      name: null,
+      table: null,
+      layout: 'wide',
+      includeHeader: true,
+      valueFormat: null,
+      fetchedAt: '2024-06-01T00:00:00.000Z',
+      series: [
+        {
+          source: 'fred',
+          seriesId: 'GDPC1',
+          title: 'Real Gross Domestic Product',
+          units: null,
+          frequency: null,
+          startDate: '2020-01-01',
+          endDate: '2020-04-01',
+          cacheKey: 'fred:GDPC1:2020',
+        },
+        {
+          source: 'fred',
+          seriesId: 'CPIAUCSL',
+          title: null,
+          units: null,
+          frequency: null,
+          startDate: null,
+          endDate: null,
+          cacheKey: null,
+        },
+      ],
+    };
+
+    expect(await registry.list()).toEqual([block]);
+    expect(await registry.find(result.address)).toEqual(block);
+    expect(await adapter.getMetadata('provenance')).toEqual({ version: 3, blocks: [block] });
+  });
+
+  it('should replace the record of a refreshed block', async () => {
+    const first = await writer.write('Data!A1', [gdp, cpi], { retrievedAt });
+    await registry.recordWrite(first, [gdp, cpi], { retrievedAt });
+    const other = await writer.write('Data!H1', cpi, { retrievedAt });
+    await registry.recordWrite(other, cpi, { retrievedAt });
+
+    const refreshed = await writer.write('Data!A1', gdp, { footprint: first.address });
+    await registry.recordWrite(refreshed, gdp, { footprint: first.address, name: 'GDP_Block' });
+
+    const blocks = await registry.list();
+    expect(blocks.map((b) => b.address)).toEqual([refreshed.address, other.address]);
+    expect((await registry.find('gdp_block'))?.series.map((s) => s.seriesId)).toEqual(['GDPC1']);
+
+    expect(await registry.remove('GDP_Block')).toBe(true);
+    expect(await registry.remove('GDP_Block')).toBe(false);
+    expect(await registry.list()).toHaveLength(1);
+  });
+
+  describe('migrateProvenance', () => {
+    const migrations = [
+      {
+        version: 2,
+        migrate: (doc: Record<string, unknown>) => ({ blocks: doc.entries }),
+      },
+      {
+        version: 3,
+        migrate: (doc: Record<string, unknown>) => ({ ...doc, note: 'v3' }),
+      },
+    ];
+
+    it('should start an empty registry when nothing is stored', () => {
+      expect(migrateProvenance(null)).toEqual({ version: PROVENANCE_SCHEMA_VERSION, blocks: [] });
+    });
+
+    it('should apply each step from the stored version', () => {
+      expect(migrateProvenance({ version: 1, entries: [] }, migrations, 3)).toEqual({
+        version: 3,
+        blocks: [],
+        note: 'v3',
+      });
+      expect(migrateProvenance({ version: 2, blocks: [] }, migrations, 3)).toEqual({
+        version: 3,
+        blocks: [],
+        note: 'v3',
+      });
+    });
+
+    it('should migrate a version 1 registry', async () => {
+      await adapter.setMetadata('provenance', {
+        version: 1,
+        blocks: [
+          {
+            address: 'Data!A1:B5',
+            name: null,
+            layout: 'wide',
+            fetchedAt: '2024-01-01T00:00:00.000Z',
+            series: [
+              {
+                source: 'fred',
+                seriesId: 'GDPC1',
+                startDate: '2020-01-01',
+                endDate: '2020-04-01',
+                cacheKey: null,
+              },
+            ],
+          },
+        ],
+      });
+
+      const [block] = await registry.list();
+      expect(block).toMatchObject({ includeHeader: true, valueFormat: null, table: null });
+      expect(block.series[0]).toMatchObject({ seriesId: 'GDPC1', title: null, units: null });
+    });
+
+    it('should refuse newer, unversioned and unmigratable documents', () => {
+      expect(() => migrateProvenance({ version: 4, blocks: [] }, migrations, 3)).toThrow(
+        'schema version 4'
+      );
+      expect(() => migrateProvenance([], migrations, 3)).toThrow('not a versioned registry');
+      expect(() => migrateProvenance({ version: 1 }, [], 2)).toThrow(
+        'No provenance migration to schema version 2'
+      );
+    });
+
+    it('should refuse to overwrite a registry from a newer version', async () => {
+      await adapter.setMetadata('provenance', {
+        version: PROVENANCE_SCHEMA_VERSION + 1,
+        blocks: [],
+      });
+      await expect(registry.remove('Data!A1')).rejects.toThrow('this version reads up to');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import { EconomicApiClient, SeriesData } from '../../../src/typescript/api/EconomicApiClient';
+import { ProvenanceRegistry } from '../../../src/typescript/services/ProvenanceRegistry';
+import { RefreshEngine } from '../../../src/typescript/services/RefreshEngine';
+import { SeriesWriter, TimeSeries } from '../../../src/typescript/services/SeriesWriter';
+
+describe('RefreshEngine', () => {
+  let adapter: InMemoryAdapter;
+  let registry: ProvenanceRegistry;
+  let backend: Record<string, SeriesData | number>;
+  let urls: string[];
+  let inFlight: number;
+  let maxInFlight: number;
+  let engine: RefreshEngine;
+
+  const gdp: TimeSeries = {
+    id: 'GDPC1',
+    source: 'fred',
+    title: 'Real Gross Domestic Product',
+    observations: [
+      { date: '2020-01-01', value: 19032.1 },
+      { date: '2020-04-01', value: 17302.5 },
+    ],
+  };
+
+  const cpi: TimeSeries = {
+    id: 'CPIAUCSL',
+    source: 'fred',
+    observations: [{ date: '2020-01-01', value: 258.7 }],
+  };
+
+  const stubFetch = async (url: RequestInfo | URL): Promise<Response> => {
+    urls.push(String(url));
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight--;
+
+    const id = /series\/([^?]+)/.exec(String(url))?.[1] as string;
+    const end = new URL(String(url)).searchParams.get('end');
+    const data = backend[id];
+    if (typeof data === 'number') {
+      return new Response('{"error": "upstream failure"}', { status: data });
+    }
+
+    const kept = data.date.map((date) => end === null || date <= end);
+    return new Response(
+      JSON.stringify({
+        date: data.date.filter((_, i) => kept[i]),
+        value: data.value.filter((_, i) => kept[i]),
+      }),
+      { status: 200 }
+    );
+  };
+
+  beforeEach(async () => {
+    adapter = new InMemoryAdapter();
+    registry = new ProvenanceRegistry(adapter);
+    urls = [];
+    inFlight = 0;
+    maxInFlight = 0;
+    backend = {
+      GDPC1: {
+        date: ['2020-01-01', '2020-04-01', '2020-07-01'],
+        value: [19010.8, 17302.5, 18596.5],
+      },
+      CPIAUCSL: { date: ['2020-01-01'], value: [258.7] },
+    };
+    engine = new RefreshEngine(adapter, new EconomicApiClient({ fetch: stubFetch }));
+
+    const writer = new SeriesWriter(adapter);
+    const first = await writer.write('Data!A1', gdp, { name: 'GDP_Block' });
+    await registry.recordWrite(first, gdp, { name: 'GDP_Block' });
+    const second = await writer.write('Data!H1', cpi, { includeHeader: false });
+    await registry.recordWrite(second, cpi, { includeHeader: false });
+  });
+
+  it('should report revisions without writing in a dry run', async () => {
+    const report = await engine.refreshAll({ dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, updated: 1, unchanged: 1, failed: 0 });
+    expect(report.results[0].changes).toEqual([
+      {
+        source: 'fred',
+        seriesId: 'GDPC1',
+        revised: [{ date: '2020-01-01', previous: 19032.1, current: 19010.8 }],
+        added: ['2020-07-01'],
+        removed: [],
+      },
+    ]);
+    expect(urls[0]).toContain('/api/v1/sources/fred/series/GDPC1?start=2020-01-01');
+    expect(await adapter.getCellValue('Data!B4')).toBe(19032.1);
+    expect(adapter.getNotifications().map((n) => n.message)).toEqual([
+      'GDP_Block would change: 1 revised, 1 added observation(s)',
+      'Data!H1:I2 is up to date',
+    ]);
+  });
+
+  it('should keep blocks to their recorded dates when not extending to the latest', async () => {
+    const report = await engine.refreshAll({ dryRun: true, extendToLatest: false });
+
+    expect(urls[0]).toContain('/api/v1/sources/fred/series/GDPC1?start=2020-01-01&end=2020-04-01');
+    expect(report.results[0].changes).toEqual([
+      {
+        source: 'fred',
+        seriesId: 'GDPC1',
+        revised: [{ date: '2020-01-01', previous: 19032.1, current: 19010.8 }],
+        added: [],
+        removed: [],
+      },
+    ]);
+  });
+
+  it('should rewrite changed blocks, re-record them and recalculate once', async () => {
+    const calculated = jest.fn();
+    adapter.onCalculate(calculated);
+
+    const report = await engine.refreshAll();
+
+    expect(report.results[0]).toMatchObject({ status: 'updated', address: 'Data!A1:F6' });
+    expect(await adapter.getRange('Data!A4', 'Data!B6')).toEqual([
+      [new Date(Date.UTC(2020, 0, 1)), 19010.8],
+      [new Date(Date.UTC(2020, 3, 1)), 17302.5],
+      [new Date(Date.UTC(2020, 6, 1)), 18596.5],
+    ]);
+    expect(await adapter.getCellValue('Data!B2')).toBe('Real Gross Domestic Product');
+    expect(await registry.find('GDP_Block')).toMatchObject({
+      address: 'Data!A1:F6',
+      series: [{ seriesId: 'GDPC1', startDate: '2020-01-01', endDate: '2020-07-01' }],
+    });
+    expect(calculated).toHaveBeenCalledTimes(1);
+
+    expect((await engine.refreshAll({ notify: false })).updated).toBe(0);
+  });
+
+  it('should append new observations to a table instead of rewriting the block', async () => {
+    const writer = new SeriesWriter(adapter);
+    const block = await writer.write('Data!K1', cpi, { table: 'CPI_Table' });
+    await registry.recordWrite(block, cpi, { table: 'CPI_Table' });
+    backend.CPIAUCSL = { date: ['2020-01-01', '2020-02-01'], value: [258.7, 259.0] };
+    const append = jest.spyOn(adapter, 'appendTableRows');
+
+    const report = await engine.refreshAll({ notify: false });
+
+    expect(report.results[2]).toMatchObject({
+      status: 'updated',
+      appended: true,
+      address: 'Data!K1:P5',
+    });
+    expect(report.results[1]).toMatchObject({ status: 'updated', appended: false });
+    expect(append).toHaveBeenCalledTimes(1);
+    expect(append).toHaveBeenCalledWith('CPI_Table', [[new Date(Date.UTC(2020, 1, 1)), 259.0]]);
+    expect(await adapter.getTableRecords('CPI_Table')).toEqual([
+      { Date: new Date(Date.UTC(2020, 0, 1)), CPIAUCSL: 258.7 },
+      { Date: new Date(Date.UTC(2020, 1, 1)), CPIAUCSL: 259.0 },
+    ]);
+    expect(await registry.find('Data!K1:P5')).toMatchObject({
+      table: 'CPI_Table',
+      series: [{ startDate: '2020-01-01', endDate: '2020-02-01' }],
+    });
+  });
+
+  it('should rewrite a table block whose observations were revised', async () => {
+    const writer = new SeriesWriter(adapter);
+    const block = await writer.write('Data!K1', cpi, { table: 'CPI_Table' });
+    await registry.recordWrite(block, cpi, { table: 'CPI_Table' });
+    backend.CPIAUCSL = { date: ['2020-01-01', '2020-02-01'], value: [258.9, 259.0] };
+
+    const report = await engine.refreshAll({ notify: false });
+
+    expect(report.results[2]).toMatchObject({ status: 'updated', appended: false });
+    expect(await adapter.getTable('CPI_Table')).toMatchObject({
+      address: 'Data!K3:L5',
+      rowCount: 2,
+    });
+  });
+
+  it('should report failed blocks and keep refreshing the others', async () => {
+    backend.CPIAUCSL = 500;
+    backend.GDPC1 = { date: ['2020-01-01'], value: [19032.1] };
+
+    const report = await engine.refreshAll({ concurrency: 1 });
+
+    expect(report).toMatchObject({ updated: 1, failed: 1 });
+    expect(report.results[0].changes[0].removed).toEqual(['2020-04-01']);
+    expect(report.results[1].error?.message).toContain('HTTP 500 upstream failure');
+    expect(maxInFlight).toBe(1);
+    expect(adapter.getNotifications()[1]).toMatchObject({
+      message: expect.stringContaining('Failed to refresh Data!H1:I2'),
+      type: 'error',
+    });
+  });
+
+  it('should reject an invalid concurrency', async () => {
+    await expect(engine.refreshAll({ concurrency: 0 })).rejects.toThrow('Invalid concurrency: 0');
+  });
+});
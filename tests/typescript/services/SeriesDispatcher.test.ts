@@ -0,0 +1,136 @@
+import { EconomicApiClient } from '../../../src/typescript/api/EconomicApiClient';
+import { SeriesDispatcher } from '../../../src/typescript/services/SeriesDispatcher';
+
+describe('SeriesDispatcher', () => {
+  let requests: { url: string; body: { ids: string[]; start?: string; end?: string } }[];
+  let status: number;
+  let dispatcher: SeriesDispatcher;
+
+  const stubFetch = async (url: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const body = JSON.parse(String(init?.body)) as { ids: string[] };
+    requests.push({ url: String(url), body });
+
+    if (status !== 200) {
+      return new Response('{"error": "Source not found"}', { status });
+    }
+
+    const series: Record<string, unknown> = {};
+    const errors: Record<string, string> = {};
+    body.ids.forEach((id) => {
+      if (id.startsWith('BAD')) {
+        errors[id] = `Unknown series ${id}`;
+      } else {
+        series[id] = { date: ['2020-01-01'], value: [id.length] };
+      }
+    });
+    return new Response(JSON.stringify({ series, errors }), { status: 200 });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    requests = [];
+    status = 200;
+    dispatcher = new SeriesDispatcher(new EconomicApiClient({ fetch: stubFetch }), {
+      windowMs: 10,
+    });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('fetches the series asked for within the window in one request', async () => {
+    const results = Promise.all([
+      dispatcher.getSeries('fred', 'GDPC1'),
+      dispatcher.getSeries('fred', 'UNRATE'),
+      dispatcher.getSeries('fred', 'GDPC1'),
+    ]);
+
+    await jest.advanceTimersByTimeAsync(9);
+    expect(requests).toHaveLength(0);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(await results).toEqual([
+      { date: ['2020-01-01'], value: [5] },
+      { date: ['2020-01-01'], value: [6] },
+      { date: ['2020-01-01'], value: [5] },
+    ]);
+    expect(requests).toEqual([
+      {
+        url: 'http://localhost:8080/api/v1/sources/fred/series',
+        body: { ids: ['GDPC1', 'UNRATE'] },
+      },
+    ]);
+  });
+
+  it('groups requests by source and date range', async () => {
+    const results = Promise.all([
+      dispatcher.getSeries('fred', 'GDPC1', { start: '2020-01-01' }),
+      dispatcher.getSeries('fred', 'UNRATE', { start: new Date(Date.UTC(2020, 0, 1)) }),
+      dispatcher.getSeries('fred', 'CPIAUCSL'),
+      dispatcher.getSeries('worldbank', 'USA/NY.GDP.MKTP.CD', { start: '2020-01-01' }),
+    ]);
+    await dispatcher.flush();
+    await results;
+
+    expect(requests.map((r) => [r.url.replace('http://localhost:8080', ''), r.body])).toEqual([
+      ['/api/v1/sources/fred/series', { ids: ['GDPC1', 'UNRATE'], start: '2020-01-01' }],
+      ['/api/v1/sources/fred/series', { ids: ['CPIAUCSL'] }],
+      ['/api/v1/sources/worldbank/series', { ids: ['USA/NY.GDP.MKTP.CD'], start: '2020-01-01' }],
+    ]);
+  });
+
+  it('splits large groups into batches', async () => {
+    dispatcher = new SeriesDispatcher(new EconomicApiClient({ fetch: stubFetch }), {
+      maxBatchSize: 2,
+    });
+
+    const results = Promise.all(['A', 'B', 'C'].map((id) => dispatcher.getSeries('fred', id)));
+    await dispatcher.flush();
+    await results;
+
+    expect(requests.map((r) => r.body.ids)).toEqual([['A', 'B'], ['C']]);
+  });
+
+  it('fails only the callers of a bad series id', async () => {
+    const good = dispatcher.getSeries('fred', 'GDPC1');
+    const bad = dispatcher.getSeries('fred', 'BAD1');
+    const settled = expect(bad).rejects.toThrow(
+      'Failed to fetch series fred/BAD1: Unknown series BAD1'
+    );
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(await good).toEqual({ date: ['2020-01-01'], value: [5] });
+    await settled;
+    expect(requests).toHaveLength(1);
+  });
+
+  it('fails every caller when the request fails', async () => {
+    status = 404;
+    const results = [dispatcher.getSeries('nope', 'A'), dispatcher.getSeries('nope', 'B')];
+    const settled = Promise.all(
+      results.map((result) => expect(result).rejects.toMatchObject({ kind: 'http', status: 404 }))
+    );
+    await jest.advanceTimersByTimeAsync(10);
+
+    await settled;
+  });
+
+  it('rejects invalid dates without sending them', async () => {
+    await expect(dispatcher.getSeries('fred', 'GDPC1', { start: '01/02/2020' })).rejects.toThrow(
+      'Invalid date'
+    );
+    await dispatcher.flush();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('starts a new window after sending', async () => {
+    const first = dispatcher.getSeries('fred', 'GDPC1');
+    await jest.advanceTimersByTimeAsync(10);
+    await first;
+
+    const second = dispatcher.getSeries('fred', 'GDPC1');
+    await jest.advanceTimersByTimeAsync(10);
+    await second;
+
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,255 @@
+import { AdapterError } from '../../../src/typescript/adapters/AdapterError';
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import {
+  SeriesWriter,
+  TimeSeries,
+  seriesFromApi,
+} from '../../../src/typescript/services/SeriesWriter';
+
+const utc = (year: number, month: number, day: number): Date =>
+  new Date(Date.UTC(year, month - 1, day));
+
+describe('SeriesWriter', () => {
+  let adapter: InMemoryAdapter;
+  let writer: SeriesWriter;
+  const retrievedAt = utc(2024, 6, 1);
+
+  const gdp: TimeSeries = {
+    id: 'GDPC1',
+    source: 'fred',
+    title: 'Real Gross Domestic Product',
+    units: 'Billions of Chained 2012 Dollars',
+    frequency: 'Quarterly',
+    observations: [
+      { date: '2020-04-01', value: 17302.5 },
+      { date: '2020-01-01', value: 19032.1 },
+    ],
+  };
+
+  const cpi: TimeSeries = {
+    id: 'CPIAUCSL',
+    source: 'fred',
+    observations: [
+      { date: utc(2020, 1, 1), value: 258.7 },
+      { date: utc(2020, 7, 1), value: 259.1 },
+    ],
+  };
+
+  beforeEach(() => {
+    adapter = new InMemoryAdapter();
+    writer = new SeriesWriter(adapter);
+  });
+
+  it('should write a wide table with a provenance header', async () => {
+    const result = await writer.write('B2', [gdp, cpi], { retrievedAt });
+
+    expect(result).toEqual({
+      address: 'Sheet1!B2:G8',
+      headerAddress: 'Sheet1!B2:G4',
+      tableAddress: 'Sheet1!B5:D8',
+      rows: 7,
+      columns: 6,
+    });
+    expect(await adapter.getRange('B2', 'G4')).toEqual([
+      ['Series', 'Title', 'Source', 'Units', 'Frequency', 'Retrieved'],
+      [
+        'GDPC1',
+        'Real Gross Domestic Product',
+        'fred',
+        'Billions of Chained 2012 Dollars',
+        'Quarterly',
+        retrievedAt,
+      ],
+      ['CPIAUCSL', null, 'fred', null, null, retrievedAt],
+    ]);
+    expect(await adapter.getRange('B5', 'D8')).toEqual([
+      ['Date', 'GDPC1', 'CPIAUCSL'],
+      [utc(2020, 1, 1), 19032.1, 258.7],
+      [utc(2020, 4, 1), 17302.5, null],
+      [utc(2020, 7, 1), null, 259.1],
+    ]);
+    expect(adapter.getCellStyle('B5').font).toEqual({ bold: true });
+  });
+
+  it('should write a long table without a header', async () => {
+    const result = await writer.write('A1', [gdp, cpi], { layout: 'long', includeHeader: false });
+
+    expect(result.headerAddress).toBeNull();
+    expect(await adapter.getRange('A1', 'C5')).toEqual([
+      ['Date', 'Series', 'Value'],
+      [utc(2020, 1, 1), 'GDPC1', 19032.1],
+      [utc(2020, 4, 1), 'GDPC1', 17302.5],
+      [utc(2020, 1, 1), 'CPIAUCSL', 258.7],
+      [utc(2020, 7, 1), 'CPIAUCSL', 259.1],
+    ]);
+  });
+
+  it('should create the target sheet and format values', async () => {
+    const result = await writer.write('A1', gdp, {
+      sheetName: 'GDP Data',
+      includeHeader: false,
+      valueFormat: '#,##0.0',
+    });
+
+    expect(await adapter.getSheetNames()).toEqual(['Sheet1', 'GDP Data']);
+    expect(result.address).toBe("'GDP Data'!A1:B3");
+    expect(await adapter.getNumberFormats("'GDP Data'!B1", 'B3')).toEqual([
+      ['General'],
+      ['#,##0.0'],
+      ['#,##0.0'],
+    ]);
+  });
+
+  it('should write without formatting on hosts that do not support it', async () => {
+    const unsupported = (): never => {
+      throw new AdapterError('Formatting is not supported', { code: 'not_supported' });
+    };
+    const formatting = ['setStyle', 'setNumberFormat'];
+    const batch = adapter.batch.bind(adapter);
+    jest.spyOn(adapter, 'batch').mockImplementation((operations) =>
+      batch((context) =>
+        operations(
+          new Proxy(context, {
+            get: (target, property) =>
+              formatting.includes(String(property))
+                ? unsupported
+                : (Reflect.get(target, property) as () => unknown).bind(target),
+          })
+        )
+      )
+    );
+
+    const result = await writer.write('A1', gdp, { retrievedAt, valueFormat: '#,##0.0' });
+
+    expect(result.address).toBe('Sheet1!A1:F5');
+    expect(await adapter.getRange('A3', 'B4')).toEqual([
+      ['Date', 'GDPC1'],
+      [utc(2020, 1, 1), 19032.1],
+    ]);
+    expect(adapter.getCellStyle('A3')).toEqual({});
+    expect(await adapter.getNumberFormats('B4', 'B5')).toEqual([['General'], ['General']]);
+  });
+
+  it('should refuse to overwrite unrelated cells', async () => {
+    await adapter.setCellValue('B3', 'keep me');
+
+    await expect(writer.write('A1', gdp, { includeHeader: false })).rejects.toThrow(
+      'cell B3 is outside the declared footprint'
+    );
+    await expect(
+      writer.write('A1', gdp, { includeHeader: false, footprint: 'A1:A3' })
+    ).rejects.toThrow('cell B3');
+    expect(await adapter.getCellValue('B3')).toBe('keep me');
+    expect(await adapter.getCellValue('A1')).toBeNull();
+  });
+
+  it('should refresh in place, shrinking and growing within the footprint', async () => {
+    const first = await writer.write('A1', [gdp, cpi], { includeHeader: false });
+    expect(first.address).toBe('Sheet1!A1:C4');
+
+    const shorter = await writer.write('A1', gdp, {
+      includeHeader: false,
+      footprint: first.address,
+    });
+    expect(shorter.address).toBe('Sheet1!A1:B3');
+    expect(await adapter.getRange('A1', 'C4')).toEqual([
+      ['Date', 'GDPC1', null],
+      [utc(2020, 1, 1), 19032.1, null],
+      [utc(2020, 4, 1), 17302.5, null],
+      [null, null, null],
+    ]);
+
+    const longer = await writer.write(
+      'A1',
+      { ...gdp, observations: [...gdp.observations, { date: '2020-07-01', value: 18596.5 }] },
+      { includeHeader: false, footprint: shorter.address }
+    );
+    expect(longer.address).toBe('Sheet1!A1:B4');
+    expect(await adapter.getCellValue('B4')).toBe(18596.5);
+  });
+
+  it('should name the block and refresh it through the name', async () => {
+    await adapter.createSheet('Data');
+    const first = await writer.write('Data!B2', gdp, { includeHeader: false, name: 'GDP_Block' });
+    expect(await adapter.resolveNamedRange('GDP_Block')).toBe(first.address);
+
+    const longer = await writer.write(
+      'GDP_Block',
+      { ...gdp, observations: [...gdp.observations, { date: '2020-07-01', value: 18596.5 }] },
+      { includeHeader: false, footprint: 'GDP_Block', name: 'GDP_Block' }
+    );
+    expect(longer.address).toBe('Data!B2:C5');
+    expect(await adapter.resolveNamedRange('GDP_Block')).toBe('Data!B2:C5');
+    expect(await adapter.getNamedRanges()).toHaveLength(1);
+  });
+
+  it('should write the data rows as a table, resize it and append to it', async () => {
+    const first = await writer.write('A1', gdp, { retrievedAt, table: 'GDP_Table' });
+    expect(first.tableAddress).toBe('Sheet1!A3:B5');
+    expect(await adapter.getTable('GDP_Table')).toMatchObject({
+      address: 'Sheet1!A3:B5',
+      columns: ['Date', 'GDPC1'],
+    });
+
+    const shorter = await writer.write(
+      'A1',
+      { ...gdp, observations: gdp.observations.slice(1) },
+      { retrievedAt, table: 'GDP_Table', footprint: first.address }
+    );
+    expect(await adapter.getTable('GDP_Table')).toMatchObject({
+      address: 'Sheet1!A3:B4',
+      rowCount: 1,
+    });
+
+    const later = utc(2024, 7, 1);
+    const grown = await writer.append(
+      shorter.address,
+      [{ ...gdp, observations: [{ date: '2020-07-01', value: 18596.5 }] }],
+      { retrievedAt: later, table: 'GDP_Table' }
+    );
+    expect(grown).toEqual({
+      address: 'Sheet1!A1:F5',
+      headerAddress: 'Sheet1!A1:F2',
+      tableAddress: 'Sheet1!A3:B5',
+      rows: 5,
+      columns: 6,
+    });
+    expect(await adapter.getRange('A4', 'B5')).toEqual([
+      [utc(2020, 1, 1), 19032.1],
+      [utc(2020, 7, 1), 18596.5],
+    ]);
+    expect(await adapter.getCellValue('F2')).toEqual(later);
+
+    await expect(writer.append(grown.address, [gdp], {})).rejects.toThrow(
+      'Appending to a block requires its table'
+    );
+  });
+
+  it('should reject a footprint on another sheet and empty input', async () => {
+    await expect(writer.write('A1', gdp, { footprint: 'Other!A1:B2' })).rejects.toThrow(
+      'is not on sheet Sheet1'
+    );
+    await expect(writer.write('A1', [])).rejects.toThrow('At least one series is required');
+    await expect(
+      writer.write('A1', { ...gdp, observations: [{ date: 'soon', value: 1 }] })
+    ).rejects.toThrow('Invalid observation date: soon');
+  });
+
+  it('should build a series from an API response', () => {
+    const series = seriesFromApi(
+      'fred',
+      'GDPC1',
+      { date: ['2020-01-01'], value: [19032.1] },
+      { id: 'GDPC1', title: 'Real GDP', units: 'Billions', frequency: 'Quarterly' }
+    );
+
+    expect(series).toEqual({
+      id: 'GDPC1',
+      source: 'fred',
+      title: 'Real GDP',
+      units: 'Billions',
+      frequency: 'Quarterly',
+      observations: [{ date: '2020-01-01', value: 19032.1 }],
+    });
+  });
+});
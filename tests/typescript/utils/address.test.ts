@@ -0,0 +1,336 @@
+import {
+  MAX_COLUMNS,
+  MAX_ROWS,
+  columnToIndex,
+  containsCell,
+  formatAddress,
+  formatCell,
+  fromR1C1,
+  indexToColumn,
+  intersectRanges,
+  isRangeName,
+  isValidAddress,
+  offsetRange,
+  parseAddress,
+  parseCell,
+  quoteSheetName,
+  rangeFromCorners,
+  rangeSize,
+  resizeRange,
+  splitSheetName,
+  subtractRange,
+  toR1C1,
+  unionRanges,
+} from '../../../src/typescript/utils/address';
+
+describe('address', () => {
+  describe('columns', () => {
+    it.each([
+      ['A', 0],
+      ['Z', 25],
+      ['AA', 26],
+      ['AZ', 51],
+      ['BA', 52],
+      ['ZZ', 701],
+      ['AAA', 702],
+      ['XFD', MAX_COLUMNS - 1],
+    ])('should convert %s to index %i and back', (letters, index) => {
+      expect(columnToIndex(letters)).toBe(index);
+      expect(indexToColumn(index)).toBe(letters);
+    });
+
+    it('should accept lower-case letters', () => {
+      expect(columnToIndex('ab')).toBe(27);
+    });
+
+    it('should reject columns beyond XFD or invalid input', () => {
+      expect(() => columnToIndex('XFE')).toThrow('exceeds the maximum column');
+      expect(() => columnToIndex('A1')).toThrow('Invalid column');
+      expect(() => indexToColumn(MAX_COLUMNS)).toThrow('outside the worksheet');
+      expect(() => indexToColumn(-1)).toThrow('outside the worksheet');
+    });
+  });
+
+  describe('splitSheetName', () => {
+    it.each([
+      ['A1', null, 'A1'],
+      ['Sheet1!A1', 'Sheet1', 'A1'],
+      ["'My Sheet'!A1:B2", 'My Sheet', 'A1:B2'],
+      ["'Wow!'!C3", 'Wow!', 'C3'],
+      ["'It''s'!D4", "It's", 'D4'],
+      ["'a''!b'!E5", "a'!b", 'E5'],
+    ])('should split %s', (address, sheetName, reference) => {
+      expect(splitSheetName(address)).toEqual({ sheetName, reference });
+    });
+
+    it('should reject unterminated quoted names', () => {
+      expect(() => splitSheetName("'My Sheet!A1")).toThrow('Invalid sheet reference');
+      expect(() => splitSheetName("'My Sheet'A1")).toThrow('Invalid sheet reference');
+    });
+  });
+
+  describe('quoteSheetName', () => {
+    it('should leave simple names unquoted', () => {
+      expect(quoteSheetName('Sheet1')).toBe('Sheet1');
+      expect(quoteSheetName('GDP_2024')).toBe('GDP_2024');
+    });
+
+    it('should quote names with spaces, punctuation or cell-like names', () => {
+      expect(quoteSheetName('My Sheet')).toBe("'My Sheet'");
+      expect(quoteSheetName("It's")).toBe("'It''s'");
+      expect(quoteSheetName('2024')).toBe("'2024'");
+      expect(quoteSheetName('AB12')).toBe("'AB12'");
+    });
+  });
+
+  describe('parseCell / formatCell', () => {
+    it('should parse relative and absolute references', () => {
+      expect(parseCell('B5')).toEqual({
+        row: 4,
+        column: 1,
+        rowAbsolute: false,
+        columnAbsolute: false,
+      });
+      expect(parseCell('$A$1')).toEqual({
+        row: 0,
+        column: 0,
+        rowAbsolute: true,
+        columnAbsolute: true,
+      });
+      expect(parseCell('A$1')).toEqual({
+        row: 0,
+        column: 0,
+        rowAbsolute: true,
+        columnAbsolute: false,
+      });
+      expect(parseCell('$A1')).toEqual({
+        row: 0,
+        column: 0,
+        rowAbsolute: false,
+        columnAbsolute: true,
+      });
+    });
+
+    it('should format cells with absolute markers', () => {
+      expect(formatCell({ row: 4, column: 1 })).toBe('B5');
+      expect(formatCell({ row: 0, column: 0, rowAbsolute: true, columnAbsolute: true })).toBe(
+        '$A$1'
+      );
+    });
+
+    it('should enforce row limits', () => {
+      expect(parseCell(`A${MAX_ROWS}`).row).toBe(MAX_ROWS - 1);
+      expect(() => parseCell(`A${MAX_ROWS + 1}`)).toThrow('outside the worksheet');
+      expect(() => parseCell('A0')).toThrow('outside the worksheet');
+    });
+
+    it('should reject malformed references', () => {
+      expect(() => parseCell('1A')).toThrow('Invalid cell address');
+      expect(() => parseCell('AAAA1')).toThrow('Invalid cell address');
+      expect(() => parseCell('')).toThrow('Invalid cell address');
+    });
+  });
+
+  describe('parseAddress', () => {
+    it('should parse single cells', () => {
+      const range = parseAddress('Sheet1!C10');
+      expect(range.sheetName).toBe('Sheet1');
+      expect(range.kind).toBe('cell');
+      expect(range.start).toEqual(range.end);
+    });
+
+    it('should parse and normalize rectangular ranges', () => {
+      const range = parseAddress('C10:A1');
+      expect(range.kind).toBe('range');
+      expect(range.start).toMatchObject({ row: 0, column: 0 });
+      expect(range.end).toMatchObject({ row: 9, column: 2 });
+    });
+
+    it('should keep absolute markers attached to their corners when normalizing', () => {
+      expect(formatAddress(parseAddress('$C$10:A1'))).toBe('A1:$C$10');
+    });
+
+    it('should parse whole columns and rows', () => {
+      const columns = parseAddress('A:C');
+      expect(columns.kind).toBe('columns');
+      expect(columns.end).toMatchObject({ row: MAX_ROWS - 1, column: 2 });
+
+      const rows = parseAddress("'Data Sheet'!$3:$5");
+      expect(rows.kind).toBe('rows');
+      expect(rows.sheetName).toBe('Data Sheet');
+      expect(rows.start).toMatchObject({ row: 2, column: 0, rowAbsolute: true });
+      expect(rows.end).toMatchObject({ row: 4, column: MAX_COLUMNS - 1 });
+    });
+
+    it('should reject malformed ranges', () => {
+      expect(() => parseAddress('A1:B2:C3')).toThrow('Invalid range address');
+      expect(() => parseAddress('A:3')).toThrow('Invalid cell address');
+      expect(() => parseAddress('0:1')).toThrow('outside the worksheet');
+    });
+  });
+
+  describe('formatAddress', () => {
+    it.each([
+      'B5',
+      'A1:C10',
+      '$A$1:$B$2',
+      'A:C',
+      '$B:$B',
+      '3:5',
+      'Sheet1!A1:B2',
+      "'My Sheet'!A1",
+      "'It''s'!A:A",
+    ])('should round-trip %s', (address) => {
+      expect(formatAddress(parseAddress(address))).toBe(address);
+    });
+
+    it('should omit the sheet prefix on request', () => {
+      expect(formatAddress(parseAddress("'My Sheet'!A1:B2"), { includeSheet: false })).toBe(
+        'A1:B2'
+      );
+    });
+  });
+
+  describe('rangeFromCorners', () => {
+    it('should take the sheet from either corner', () => {
+      expect(formatAddress(rangeFromCorners('Sheet1!A1', 'C3'))).toBe('Sheet1!A1:C3');
+      expect(formatAddress(rangeFromCorners('A1', 'Sheet1!C3'))).toBe('Sheet1!A1:C3');
+    });
+
+    it('should accept matching sheet names case-insensitively', () => {
+      expect(formatAddress(rangeFromCorners('Sheet1!A1', 'SHEET1!B2'))).toBe('Sheet1!A1:B2');
+    });
+
+    it('should reject corners on different sheets', () => {
+      expect(() => rangeFromCorners('Sheet1!A1', 'Sheet2!B2')).toThrow('spans more than one sheet');
+    });
+
+    it('should collapse identical corners to a cell', () => {
+      expect(rangeFromCorners('B2', 'B2').kind).toBe('cell');
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should measure range size', () => {
+      expect(rangeSize(parseAddress('B2:D10'))).toEqual({ rows: 9, columns: 3 });
+      expect(rangeSize(parseAddress('A:A'))).toEqual({ rows: MAX_ROWS, columns: 1 });
+    });
+
+    it('should offset ranges', () => {
+      expect(formatAddress(offsetRange(parseAddress('A1:B2'), 2, 3))).toBe('D3:E4');
+      expect(formatAddress(offsetRange(parseAddress('C3'), -2, -2))).toBe('A1');
+      expect(formatAddress(offsetRange(parseAddress('A:B'), 0, 1))).toBe('B:C');
+    });
+
+    it('should reject offsets that leave the worksheet', () => {
+      expect(() => offsetRange(parseAddress('A1'), -1, 0)).toThrow('outside the worksheet');
+      expect(() => offsetRange(parseAddress('XFD1'), 0, 1)).toThrow('outside the worksheet');
+      expect(() => offsetRange(parseAddress('A:A'), 1, 0)).toThrow('outside the worksheet');
+    });
+
+    it('should resize from the top-left corner', () => {
+      expect(formatAddress(resizeRange(parseAddress('Sheet1!B2'), 3, 2))).toBe('Sheet1!B2:C4');
+      expect(formatAddress(resizeRange(parseAddress('B2:Z99'), 1, 1))).toBe('B2');
+    });
+
+    it('should reject invalid sizes', () => {
+      expect(() => resizeRange(parseAddress('A1'), 0, 1)).toThrow('Invalid range size');
+      expect(() => resizeRange(parseAddress('A1'), 1.5, 1)).toThrow('Invalid range size');
+      expect(() => resizeRange(parseAddress(`A${MAX_ROWS}`), 2, 1)).toThrow(
+        'outside the worksheet'
+      );
+    });
+
+    it('should intersect ranges', () => {
+      const overlap = intersectRanges(parseAddress('A1:C3'), parseAddress('B2:D4'));
+      expect(overlap && formatAddress(overlap)).toBe('B2:C3');
+      expect(intersectRanges(parseAddress('A1:B2'), parseAddress('C3:D4'))).toBeNull();
+      expect(intersectRanges(parseAddress('Sheet1!A1'), parseAddress('Sheet2!A1'))).toBeNull();
+    });
+
+    it('should intersect whole columns with whole rows to a block', () => {
+      const overlap = intersectRanges(parseAddress('B:C'), parseAddress('2:3'));
+      expect(overlap && formatAddress(overlap)).toBe('B2:C3');
+    });
+
+    it('should union ranges to their bounding box', () => {
+      expect(formatAddress(unionRanges(parseAddress('A1'), parseAddress('C3')))).toBe('A1:C3');
+      expect(formatAddress(unionRanges(parseAddress('A1:A2'), parseAddress('A:A')))).toBe('A:A');
+      expect(() => unionRanges(parseAddress('Sheet1!A1'), parseAddress('Sheet2!A1'))).toThrow(
+        'Cannot combine ranges'
+      );
+    });
+
+    it('should subtract one range from another', () => {
+      const pieces = (a: string, b: string): string[] =>
+        subtractRange(parseAddress(a), parseAddress(b)).map((r) => formatAddress(r));
+
+      expect(pieces('A1:C3', 'B2')).toEqual(['A1:C1', 'A3:C3', 'A2', 'C2']);
+      expect(pieces('A1:C10', 'A1:C4')).toEqual(['A5:C10']);
+      expect(pieces('A1:C3', 'E5')).toEqual(['A1:C3']);
+      expect(pieces('B2:C3', 'A1:D4')).toEqual([]);
+    });
+
+    it('should test cell containment', () => {
+      const range = parseAddress('B2:C3');
+      expect(containsCell(range, parseCell('C3'))).toBe(true);
+      expect(containsCell(range, parseCell('D3'))).toBe(false);
+    });
+  });
+
+  describe('R1C1', () => {
+    it('should convert to absolute R1C1 without a base cell', () => {
+      expect(toR1C1('B5')).toBe('R5C2');
+      expect(toR1C1("'My Sheet'!A1:C10")).toBe("'My Sheet'!R1C1:R10C3");
+    });
+
+    it('should convert relative references against a base cell', () => {
+      const base = parseCell('C3');
+      expect(toR1C1('B5', base)).toBe('R[2]C[-1]');
+      expect(toR1C1('C3', base)).toBe('RC');
+      expect(toR1C1('$A$1:B3', base)).toBe('R1C1:RC[-1]');
+    });
+
+    it('should convert R1C1 back to A1', () => {
+      expect(fromR1C1('R5C2')).toBe('$B$5');
+      expect(fromR1C1('Sheet1!R1C1:R10C3')).toBe('Sheet1!$A$1:$C$10');
+      expect(fromR1C1('R[2]C[-1]', parseCell('C3'))).toBe('B5');
+      expect(fromR1C1('rc', parseCell('C3'))).toBe('C3');
+    });
+
+    it('should round-trip relative references', () => {
+      const base = parseCell('D4');
+      expect(fromR1C1(toR1C1('A1:$F$9', base), base)).toBe('A1:$F$9');
+    });
+
+    it('should reject invalid or unresolvable R1C1 addresses', () => {
+      expect(() => fromR1C1('A1')).toThrow('Invalid R1C1 address');
+      expect(() => fromR1C1('R[1]C1')).toThrow('requires a base cell');
+      expect(() => fromR1C1('R[-1]C', parseCell('A1'))).toThrow('outside the worksheet');
+    });
+  });
+
+  describe('isValidAddress', () => {
+    it('should validate addresses without throwing', () => {
+      expect(isValidAddress("'My Sheet'!$A$1:B2")).toBe(true);
+      expect(isValidAddress('XFD1048576')).toBe(true);
+      expect(isValidAddress('XFE1')).toBe(false);
+      expect(isValidAddress('A1048577')).toBe(false);
+      expect(isValidAddress('not an address')).toBe(false);
+    });
+  });
+
+  describe('isRangeName', () => {
+    it('should tell names from addresses', () => {
+      expect(isRangeName('GDP_C')).toBe(true);
+      expect(isRangeName("'My Sheet'!Inputs")).toBe(true);
+      expect(isRangeName('_series.gdp')).toBe(true);
+      expect(isRangeName('GDP1')).toBe(false);
+      expect(isRangeName('A1:B2')).toBe(false);
+      expect(isRangeName('R2C3')).toBe(false);
+      expect(isRangeName('C')).toBe(false);
+      expect(isRangeName('1st')).toBe(false);
+      expect(isRangeName('has space')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { CellChange } from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import { CellChangeDispatcher } from '../../../src/typescript/utils/changes';
+
+describe('CellChangeDispatcher', () => {
+  const change = (address: string, changeType: CellChange['changeType'] = 'local'): CellChange => ({
+    address,
+    sheetName: address.split('!')[0],
+    changeType,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should coalesce changes until the delay passes without another change', () => {
+    const handler = jest.fn();
+    const dispatcher = new CellChangeDispatcher(handler, { debounceMs: 50 });
+
+    dispatcher.push(change('Sheet1!A1'));
+    jest.advanceTimersByTime(40);
+    dispatcher.push(change('Sheet1!A1'));
+    dispatcher.push(change('Sheet1!A1', 'remote'));
+    jest.advanceTimersByTime(40);
+    expect(handler).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(10);
+    expect(handler).toHaveBeenCalledWith([change('Sheet1!A1'), change('Sheet1!A1', 'remote')]);
+  });
+
+  it('should filter by watched ranges, qualified or on every sheet', () => {
+    const handler = jest.fn();
+    const dispatcher = new CellChangeDispatcher(handler, { ranges: ['B2:C3', 'Data!A:A'] });
+
+    dispatcher.push(change('Sheet1!C3:D4'));
+    dispatcher.push(change('Sheet1!A1'));
+    dispatcher.push(change('Data!A9'));
+    dispatcher.push(change('Other!A9'));
+
+    expect(handler.mock.calls.map(([changes]) => changes[0].address)).toEqual([
+      'Sheet1!C3:D4',
+      'Data!A9',
+    ]);
+  });
+
+  it('should drop held-back changes when disposed and reject negative delays', () => {
+    const handler = jest.fn();
+    const dispatcher = new CellChangeDispatcher(handler, { debounceMs: 10 });
+
+    dispatcher.push(change('Sheet1!A1'));
+    dispatcher.dispose();
+    jest.runAllTimers();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(() => new CellChangeDispatcher(handler, { debounceMs: -1 })).toThrow(
+      'Invalid debounce delay: -1'
+    );
+  });
+});
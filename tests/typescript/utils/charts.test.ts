@@ -0,0 +1,46 @@
+import { parseAddress } from '../../../src/typescript/utils/address';
+import { chartSeries, defaultChartPosition } from '../../../src/typescript/utils/charts';
+
+describe('chart series', () => {
+  const source = parseAddress('Data!A1:C5');
+
+  it('should name source columns by header, else by position', () => {
+    expect(chartSeries({ type: 'line' }, source, ['Date', 'GDP', null])).toEqual([
+      { name: 'GDP', values: 'Data!B2:B5', xValues: 'Data!A2:A5', secondaryAxis: false },
+      { name: 'Series2', values: 'Data!C2:C5', xValues: 'Data!A2:A5', secondaryAxis: false },
+    ]);
+    expect(chartSeries({ type: 'line' }, source, null)[0]).toEqual(
+      expect.objectContaining({ name: 'Series1', values: 'Data!B1:B5' })
+    );
+  });
+
+  it('should add explicit series after the source', () => {
+    const extra = { name: 'Target', values: 'Data!E2:E5', dashed: true };
+    const series = chartSeries({ type: 'line', secondaryAxis: ['GDP'], series: [extra] }, source, [
+      'Date',
+      'gdp',
+      'CPI',
+    ]);
+
+    expect(series.map((s) => [s.name, s.secondaryAxis])).toEqual([
+      ['gdp', true],
+      ['CPI', false],
+      ['Target', undefined],
+    ]);
+    expect(chartSeries({ type: 'scatter', series: [extra] }, null, null)).toEqual([extra]);
+  });
+
+  it('should reject sources without values and charts without series', () => {
+    expect(() => chartSeries({ type: 'line' }, parseAddress('A1:A5'), ['Date'])).toThrow(
+      'Chart source A1:A5 needs a category column and at least one value column'
+    );
+    expect(() => chartSeries({ type: 'line' }, parseAddress('A1:B1'), ['Date', 'GDP'])).toThrow(
+      'needs a category column'
+    );
+    expect(() => chartSeries({ type: 'line' }, null, null)).toThrow('at least one series');
+  });
+
+  it('should place charts two columns right of their data', () => {
+    expect(defaultChartPosition(source)).toEqual(parseAddress('Data!E1'));
+  });
+});
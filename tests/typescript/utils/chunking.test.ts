@@ -0,0 +1,111 @@
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import { ChunkProgress } from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import { formatAddress, parseAddress } from '../../../src/typescript/utils/address';
+import { splitRange, writeInChunks } from '../../../src/typescript/utils/chunking';
+
+const matrix = (rows: number, columns: number) =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: columns }, (_, c) => r * columns + c)
+  );
+
+describe('chunking', () => {
+  describe('splitRange', () => {
+    it('should split into bands of whole rows', () => {
+      const chunks = splitRange(parseAddress('Data!B2:D11'), 9);
+      expect(chunks.map((chunk) => formatAddress(chunk))).toEqual([
+        'Data!B2:D4',
+        'Data!B5:D7',
+        'Data!B8:D10',
+        'Data!B11:D11',
+      ]);
+    });
+
+    it('should split rows wider than the budget across columns', () => {
+      const chunks = splitRange(parseAddress('A1:E2'), 2);
+      expect(chunks.map((chunk) => formatAddress(chunk))).toEqual([
+        'A1:B1',
+        'C1:D1',
+        'E1',
+        'A2:B2',
+        'C2:D2',
+        'E2',
+      ]);
+    });
+
+    it('should reject an invalid budget', () => {
+      expect(() => splitRange(parseAddress('A1:B2'), 0)).toThrow('Invalid chunk size: 0');
+    });
+  });
+
+  describe('chunked adapter transfers', () => {
+    let adapter: InMemoryAdapter;
+
+    beforeEach(() => {
+      adapter = new InMemoryAdapter();
+    });
+
+    it('should write and read back in chunks, reporting progress', async () => {
+      const data = matrix(10, 3);
+      const writes: ChunkProgress[] = [];
+      const reads: ChunkProgress[] = [];
+
+      await adapter.setRangeChunked('B2', data, {
+        maxCellsPerChunk: 12,
+        onProgress: (progress) => writes.push(progress),
+      });
+      const read = await adapter.getRangeChunked('B2', 'D11', {
+        maxCellsPerChunk: 7,
+        onProgress: (progress) => reads.push(progress),
+      });
+
+      expect(read).toEqual(data);
+      expect(writes.map((p) => p.completedCells)).toEqual([12, 24, 30]);
+      expect(writes[2]).toEqual({
+        completedCells: 30,
+        totalCells: 30,
+        completedChunks: 3,
+        totalChunks: 3,
+      });
+      expect(reads).toHaveLength(5);
+    });
+
+    it('should split a number format matrix with the data and style the whole block once', async () => {
+      const formats = matrix(4, 2).map((row) => row.map((n) => (n % 2 === 0 ? '0' : '0.00')));
+      const setStyle = jest.fn().mockResolvedValue(undefined);
+      const chunks: string[][][] = [];
+
+      await writeInChunks(
+        'A1',
+        matrix(4, 2),
+        { numberFormat: formats, style: { font: { bold: true } }, maxCellsPerChunk: 4 },
+        100,
+        async (_start, _data, options) => {
+          chunks.push(options.numberFormat as string[][]);
+        },
+        setStyle
+      );
+
+      expect(chunks).toEqual([formats.slice(0, 2), formats.slice(2)]);
+      expect(setStyle).toHaveBeenCalledTimes(1);
+      expect(setStyle).toHaveBeenCalledWith('A1', 'B4', { font: { bold: true } });
+    });
+
+    it('should stop between chunks when aborted, keeping written chunks', async () => {
+      const controller = new AbortController();
+
+      await expect(
+        adapter.setRangeChunked('A1', matrix(6, 1), {
+          maxCellsPerChunk: 2,
+          signal: controller.signal,
+          onProgress: (progress) => {
+            if (progress.completedChunks === 2) {
+              controller.abort();
+            }
+          },
+        })
+      ).rejects.toThrow('Canceled after 4 of 6 cells');
+
+      expect(await adapter.getRange('A1', 'A6')).toEqual([[0], [1], [2], [3], [null], [null]]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  MAX_DATE_SERIAL,
+  dateToSerial,
+  isDateFormat,
+  serialToDate,
+} from '../../../src/typescript/utils/dates';
+
+describe('dates', () => {
+  describe('dateToSerial', () => {
+    it('should use UTC fields regardless of the local time zone', () => {
+      expect(dateToSerial(new Date(Date.UTC(2024, 0, 1)))).toBe(45292);
+      expect(dateToSerial(new Date('2024-01-01T00:00:00Z'))).toBe(45292);
+    });
+
+    it('should encode the time of day as a fraction', () => {
+      expect(dateToSerial(new Date(Date.UTC(2024, 0, 1, 12)))).toBe(45292.5);
+      expect(dateToSerial(new Date(Date.UTC(2024, 0, 1, 6)))).toBe(45292.25);
+    });
+
+    it('should reproduce the 1900 leap year bug', () => {
+      expect(dateToSerial(new Date(Date.UTC(1900, 0, 1)))).toBe(1);
+      expect(dateToSerial(new Date(Date.UTC(1900, 1, 28)))).toBe(59);
+      expect(dateToSerial(new Date(Date.UTC(1900, 2, 1)))).toBe(61);
+    });
+
+    it('should support the 1904 date system', () => {
+      expect(dateToSerial(new Date(Date.UTC(1904, 0, 1)), { date1904: true })).toBe(0);
+      expect(dateToSerial(new Date(Date.UTC(2024, 0, 1)), { date1904: true })).toBe(45292 - 1462);
+    });
+
+    it('should reject dates outside the date system', () => {
+      expect(() => dateToSerial(new Date(Date.UTC(1899, 0, 1)))).toThrow(RangeError);
+      expect(() => dateToSerial(new Date(Date.UTC(10000, 0, 1)))).toThrow(RangeError);
+      expect(() => dateToSerial(new Date(Date.UTC(1903, 0, 1)), { date1904: true })).toThrow(
+        RangeError
+      );
+      expect(() => dateToSerial(new Date(NaN))).toThrow('Invalid date');
+    });
+  });
+
+  describe('serialToDate', () => {
+    it('should round-trip modern dates', () => {
+      const date = new Date(Date.UTC(2023, 5, 15, 18, 30));
+      expect(serialToDate(dateToSerial(date))).toEqual(date);
+      expect(serialToDate(45292).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should map serials around the phantom leap day', () => {
+      expect(serialToDate(1).toISOString()).toBe('1900-01-01T00:00:00.000Z');
+      expect(serialToDate(59).toISOString()).toBe('1900-02-28T00:00:00.000Z');
+      expect(serialToDate(61).toISOString()).toBe('1900-03-01T00:00:00.000Z');
+      expect(() => serialToDate(60)).toThrow('does not exist');
+    });
+
+    it('should support the 1904 date system', () => {
+      expect(serialToDate(0, { date1904: true }).toISOString()).toBe('1904-01-01T00:00:00.000Z');
+    });
+
+    it('should reject serials outside the date system', () => {
+      expect(() => serialToDate(-1)).toThrow(RangeError);
+      expect(() => serialToDate(MAX_DATE_SERIAL + 1)).toThrow(RangeError);
+      expect(() => serialToDate(NaN)).toThrow(RangeError);
+      expect(serialToDate(MAX_DATE_SERIAL).toISOString()).toBe('9999-12-31T00:00:00.000Z');
+    });
+  });
+
+  describe('isDateFormat', () => {
+    it('should recognise date and time formats', () => {
+      expect(isDateFormat('yyyy-mm-dd')).toBe(true);
+      expect(isDateFormat('mmm yyyy')).toBe(true);
+      expect(isDateFormat('[$-409]d-mmm-yy;@')).toBe(true);
+      expect(isDateFormat('hh:mm:ss')).toBe(true);
+    });
+
+    it('should reject number, text and elapsed-time formats', () => {
+      expect(isDateFormat('General')).toBe(false);
+      expect(isDateFormat('0.0%')).toBe(false);
+      expect(isDateFormat('#,##0.00')).toBe(false);
+      expect(isDateFormat('"days" 0')).toBe(false);
+      expect(isDateFormat('[Red]0.00')).toBe(false);
+      expect(isDateFormat('[h]:mm')).toBe(false);
+      expect(isDateFormat(null)).toBe(false);
+    });
+  });
+});
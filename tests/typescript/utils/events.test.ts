@@ -0,0 +1,111 @@
+import { EventSubscriptions, HostRegister } from '../../../src/typescript/utils/events';
+
+describe('EventSubscriptions', () => {
+  let events: EventSubscriptions;
+  let registered: number;
+  let removed: number;
+  let hostHandlers: Array<(arg: string) => void>;
+
+  // Fake host: registration and removal each take a tick, like an Excel.run round trip
+  const register: HostRegister<string> = async (emit) => {
+    await Promise.resolve();
+    registered++;
+    hostHandlers.push(emit);
+    return async () => {
+      await Promise.resolve();
+      removed++;
+      hostHandlers.splice(hostHandlers.indexOf(emit), 1);
+    };
+  };
+
+  const settle = async (): Promise<void> => {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  const fire = (arg: string): void => hostHandlers.forEach((h) => h(arg));
+
+  beforeEach(() => {
+    events = new EventSubscriptions();
+    registered = 0;
+    removed = 0;
+    hostHandlers = [];
+  });
+
+  it('should register the host event once and remove it with the last handler', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = events.subscribe('selectionChange', first, register);
+    const unsubscribeSecond = events.subscribe('selectionChange', second, register);
+    await settle();
+
+    fire('Sheet1!A1');
+    expect(registered).toBe(1);
+    expect(first).toHaveBeenCalledWith('Sheet1!A1');
+    expect(second).toHaveBeenCalledWith('Sheet1!A1');
+
+    unsubscribeFirst();
+    unsubscribeFirst();
+    await settle();
+    expect(removed).toBe(0);
+
+    unsubscribeSecond();
+    await settle();
+    expect(removed).toBe(1);
+    expect(hostHandlers).toHaveLength(0);
+  });
+
+  it('should keep one live registration through subscribe/unsubscribe churn', async () => {
+    const handler = jest.fn();
+
+    for (let i = 0; i < 5; i++) {
+      events.subscribe('selectionChange', handler, register)();
+    }
+    const unsubscribe = events.subscribe('selectionChange', handler, register);
+    await settle();
+
+    expect(registered - removed).toBe(1);
+    fire('Sheet2!B2');
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    await settle();
+    expect(registered).toBe(removed);
+
+    events.subscribe('selectionChange', handler, register);
+    await settle();
+    expect(registered - removed).toBe(1);
+  });
+
+  it('should retry a failed registration on the next subscription', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const failing: HostRegister<string> = async () => {
+      throw new Error('host busy');
+    };
+
+    events.subscribe('calculate', jest.fn(), failing);
+    await settle();
+    events.subscribe('calculate', jest.fn(), register);
+    await settle();
+
+    expect(registered).toBe(1);
+    expect(error).toHaveBeenCalledWith('Failed to register calculate handler:', expect.any(Error));
+    error.mockRestore();
+  });
+
+  it('should remove every registration on dispose', async () => {
+    const handler = jest.fn();
+    events.subscribe('selectionChange', handler, register);
+    events.subscribe('sheetChange', handler, register);
+    events.subscribe('local', handler);
+
+    await events.dispose();
+    fire('Sheet1!A1');
+    events.emit('local', 'x');
+
+    expect(removed).toBe(2);
+    expect(handler).not.toHaveBeenCalled();
+    expect(events.count('local')).toBe(0);
+  });
+});
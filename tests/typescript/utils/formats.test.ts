@@ -0,0 +1,38 @@
+import {
+  NumberFormats,
+  expandNumberFormat,
+  growthColorScale,
+} from '../../../src/typescript/utils/formats';
+
+describe('formats', () => {
+  describe('expandNumberFormat', () => {
+    it('should repeat a single code over the range', () => {
+      expect(expandNumberFormat(NumberFormats.percent, 2, 3)).toEqual([
+        ['0.0%', '0.0%', '0.0%'],
+        ['0.0%', '0.0%', '0.0%'],
+      ]);
+    });
+
+    it('should pass through a matrix of the right shape', () => {
+      const formats = [[NumberFormats.date, NumberFormats.number]];
+      expect(expandNumberFormat(formats, 1, 2)).toEqual(formats);
+    });
+
+    it('should reject a matrix of the wrong shape', () => {
+      expect(() => expandNumberFormat([['0'], ['0']], 1, 1)).toThrow('must be 1x1');
+      expect(() => expandNumberFormat([['0']], 1, 2)).toThrow('must be 1x2');
+    });
+  });
+
+  describe('growthColorScale', () => {
+    it('should centre a three-colour scale on zero', () => {
+      const scale = growthColorScale({ positive: '#00FF00' });
+      expect(scale).toEqual({
+        type: 'colorScale',
+        minimum: { type: 'lowestValue', color: '#F8696B' },
+        midpoint: { type: 'number', value: 0, color: '#FFFFFF' },
+        maximum: { type: 'highestValue', color: '#00FF00' },
+      });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { parseCell } from '../../../src/typescript/utils/address';
+import {
+  buildFormula,
+  formulaFromR1C1,
+  formulaToR1C1,
+  isFormula,
+  toInvariantFormula,
+  toLocalFormula,
+} from '../../../src/typescript/utils/formula';
+
+const GERMAN = { argumentSeparator: ';', decimalSeparator: ',' } as const;
+
+describe('formula', () => {
+  describe('isFormula', () => {
+    it('should only accept strings starting with "="', () => {
+      expect(isFormula('=SUM(A1:A3)')).toBe(true);
+      expect(isFormula('SUM(A1:A3)')).toBe(false);
+      expect(isFormula(42)).toBe(false);
+      expect(isFormula(null)).toBe(false);
+    });
+  });
+
+  describe('buildFormula', () => {
+    it('should build an ECON call with references and quoted literals', () => {
+      expect(buildFormula('ECON.GROWTH', [{ ref: 'A2:A10' }, 'YoY'])).toBe(
+        '=ECON.GROWTH(A2:A10,"YoY")'
+      );
+    });
+
+    it('should escape quotes and render numbers and booleans', () => {
+      expect(buildFormula('ECON.X', ['say "hi"', 1.5, true])).toBe(
+        '=ECON.X("say ""hi""",1.5,TRUE)'
+      );
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(() => buildFormula('ECON.X', [NaN])).toThrow('Invalid numeric argument');
+    });
+  });
+
+  describe('locale conversion', () => {
+    it('should convert semicolon-locale formulas to invariant syntax', () => {
+      expect(toInvariantFormula('=ECON.GROWTH(A2:A10;"YoY";1,5)', GERMAN)).toBe(
+        '=ECON.GROWTH(A2:A10,"YoY",1.5)'
+      );
+    });
+
+    it('should convert invariant formulas to semicolon-locale syntax', () => {
+      expect(toLocalFormula('=ECON.GROWTH(A2:A10,"YoY",1.5)', GERMAN)).toBe(
+        '=ECON.GROWTH(A2:A10;"YoY";1,5)'
+      );
+    });
+
+    it('should leave string literals, quoted sheet names and arrays untouched', () => {
+      const local = '=CONCAT("a;b";\'x;y\'!A1;{1;2})';
+      expect(toInvariantFormula(local, GERMAN)).toBe('=CONCAT("a;b",\'x;y\'!A1,{1;2})');
+    });
+
+    it('should pass constants through', () => {
+      expect(toInvariantFormula('1,5', GERMAN)).toBe('1,5');
+      expect(toLocalFormula('a,b', GERMAN)).toBe('a,b');
+    });
+  });
+
+  describe('R1C1 conversion', () => {
+    const base = parseCell('C3');
+
+    it('should rewrite A1 references relative to the formula cell', () => {
+      expect(formulaToR1C1('=SUM(A1:B2)*$A$1', base)).toBe('=SUM(R[-2]C[-2]:R[-1]C[-1])*R1C1');
+    });
+
+    it('should not touch function names, sheet names or strings', () => {
+      expect(formulaToR1C1('=LOG10(Sheet1!C3)&"A1"&\'Q1\'!B3', base)).toBe(
+        '=LOG10(Sheet1!RC)&"A1"&\'Q1\'!RC[-1]'
+      );
+    });
+
+    it('should rewrite R1C1 references back to A1', () => {
+      expect(formulaFromR1C1('=SUM(R[-2]C[-2]:R[-1]C[-1])*R1C1', base)).toBe('=SUM(A1:B2)*$A$1');
+      expect(formulaFromR1C1('=ROUND(RC[-1],2)', base)).toBe('=ROUND(B3,2)');
+    });
+  });
+});
@@ -0,0 +1,15 @@
+import { metadataKeyOf, metadataStorageKey } from '../../../src/typescript/utils/metadata';
+
+describe('metadata keys', () => {
+  it('should prefix valid keys and strip the prefix again', () => {
+    expect(metadataStorageKey('provenance')).toBe('EconToolkit.provenance');
+    expect(metadataKeyOf('EconToolkit.refresh.state')).toBe('refresh.state');
+    expect(metadataKeyOf('OtherAddin.setting')).toBeNull();
+  });
+
+  it('should reject empty and malformed keys', () => {
+    expect(() => metadataStorageKey('')).toThrow('Invalid metadata key: ');
+    expect(() => metadataStorageKey('1st')).toThrow('Invalid metadata key: 1st');
+    expect(() => metadataStorageKey('a b')).toThrow('Invalid metadata key: a b');
+  });
+});
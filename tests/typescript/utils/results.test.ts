@@ -0,0 +1,116 @@
+import { InMemoryAdapter } from '../../../src/typescript/adapters/InMemoryAdapter';
+import { CustomFunctionMetadata } from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import {
+  isMatrixResult,
+  toHostMatrix,
+  toRangeResult,
+  writeFunctionResult,
+  writeRangeResult,
+} from '../../../src/typescript/utils/results';
+
+describe('results', () => {
+  const date = new Date(Date.UTC(2020, 0, 1));
+  const metadata: CustomFunctionMetadata = {
+    name: 'TEST.RANGE',
+    description: 'Returns its argument',
+    parameters: [{ name: 'result', description: 'Result', type: 'range' }],
+    returnType: 'range',
+  };
+
+  describe('toRangeResult', () => {
+    it('should put header rows above the values', () => {
+      const result = { headers: [['date', 'value']], values: [[date, 1.5]] };
+
+      expect(isMatrixResult(result)).toBe(true);
+      expect(toRangeResult(result, 'ECON.FRED')).toEqual([
+        ['date', 'value'],
+        [date, 1.5],
+      ]);
+    });
+
+    it('should keep single values and empty cells', () => {
+      expect(toRangeResult(10, 'ECON.GROWTH')).toBe(10);
+      expect(toRangeResult([[1, undefined]], 'ECON.GROWTH')).toEqual([[1, null]]);
+      expect(toRangeResult([], 'ECON.FRED')).toEqual([]);
+    });
+
+    it('should reject results that are not rectangular matrices of cell values', () => {
+      expect(() => toRangeResult([1, 2], 'ECON.LORENZ')).toThrow(
+        'ECON.LORENZ returned an invalid range: row 1 is not an array'
+      );
+      expect(() => toRangeResult([[1, 2], [3]], 'ECON.LORENZ')).toThrow(
+        'row 2 has 1 cells; expected 2'
+      );
+      expect(() => toRangeResult({ headers: [['a', 'b', 'c']], values: [[1, 2]] }, 'X')).toThrow(
+        'row 2 has 2 cells; expected 3'
+      );
+      expect(() => toRangeResult([[NaN]], 'X')).toThrow('row 1, column 1 is not a finite number');
+      expect(() => toRangeResult([[new Date('nope')]], 'X')).toThrow('is an invalid Date');
+      expect(() => toRangeResult([[{}]], 'X')).toThrow('has unsupported type object');
+    });
+  });
+
+  describe('toHostMatrix', () => {
+    it('should write Dates as serials and empty cells as empty strings', () => {
+      expect(toHostMatrix([[date, null, true]])).toEqual([[43831, '', true]]);
+      expect(toHostMatrix([[date]], { date1904: true })).toEqual([[42369]]);
+    });
+
+    it('should return single values and empty results as one cell', () => {
+      expect(toHostMatrix(10)).toEqual([[10]]);
+      expect(toHostMatrix([])).toEqual([['']]);
+    });
+  });
+
+  describe('writeRangeResult', () => {
+    it('should write the matrix from a cell', async () => {
+      const adapter = new InMemoryAdapter({ sheetNames: ['Data'] });
+
+      expect(
+        await writeRangeResult(adapter, 'Data!B2', [
+          ['a', 'b'],
+          [1, 2],
+        ])
+      ).toBe('Data!B2:C3');
+      expect(await adapter.getRange('Data!B2', 'Data!C3')).toEqual([
+        ['a', 'b'],
+        [1, 2],
+      ]);
+    });
+
+    it('should write the result of a range function', async () => {
+      const adapter = new InMemoryAdapter({ sheetNames: ['Data'], dynamicArrays: false });
+      adapter.registerFunction(metadata, (result: unknown) => result);
+
+      expect(
+        await writeFunctionResult(adapter, 'Data!D2', 'TEST.RANGE', {
+          headers: [['x']],
+          values: [[1]],
+        })
+      ).toBe('Data!D2:D3');
+      expect(await adapter.getRange('Data!D2', 'Data!D3')).toEqual([['x'], [1]]);
+      await expect(
+        writeFunctionResult(adapter, 'Data!D2', 'TEST.RANGE', [[1], [1, 2]])
+      ).rejects.toMatchObject({ code: 'invalid_argument' });
+    });
+  });
+
+  describe('range functions', () => {
+    it('should check results where they leave the adapter', async () => {
+      const adapter = new InMemoryAdapter();
+      adapter.registerFunction(metadata, (result: unknown) => result);
+
+      expect(await adapter.callFunction('TEST.RANGE', { headers: [['x']], values: [[1]] })).toEqual(
+        [['x'], [1]]
+      );
+      await expect(adapter.callFunction('TEST.RANGE', [[1], [1, 2]])).rejects.toMatchObject({
+        code: 'invalid_argument',
+      });
+    });
+
+    it('should report whether the host spills results', () => {
+      expect(new InMemoryAdapter().supportsDynamicArrays()).toBe(true);
+      expect(new InMemoryAdapter({ dynamicArrays: false }).supportsDynamicArrays()).toBe(false);
+    });
+  });
+});
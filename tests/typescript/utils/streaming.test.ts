@@ -0,0 +1,195 @@
+import {
+  CustomFunctionMetadata,
+  StreamingInvocation,
+} from '../../../src/typescript/adapters/ISpreadsheetAdapter';
+import {
+  firstResult,
+  pollingFunction,
+  refreshIntervalMs,
+  startInvocation,
+} from '../../../src/typescript/utils/streaming';
+
+const metadata = (overrides: Partial<CustomFunctionMetadata> = {}): CustomFunctionMetadata => ({
+  name: 'ECON.TEST',
+  description: 'Test function',
+  parameters: [],
+  returnType: 'number',
+  ...overrides,
+});
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('streaming', () => {
+  describe('startInvocation', () => {
+    it('should deliver the result of a regular function', async () => {
+      const handler = jest.fn();
+      startInvocation(
+        metadata(),
+        (a: unknown, b: unknown) => Number(a) + Number(b),
+        [1, 2],
+        handler
+      );
+      await flush();
+      expect(handler).toHaveBeenCalledWith(3);
+    });
+
+    it('should deliver streamed results until canceled', () => {
+      const handler = jest.fn();
+      const onCanceled = jest.fn();
+      let invocation: StreamingInvocation | undefined;
+
+      const cancel = startInvocation(
+        metadata({ streaming: true }),
+        (start: unknown, inv: unknown) => {
+          invocation = inv as StreamingInvocation;
+          invocation.onCanceled = onCanceled;
+          invocation.setResult(Number(start));
+        },
+        [1],
+        handler
+      );
+
+      invocation!.setResult(2);
+      cancel();
+      cancel();
+      invocation!.setResult(3);
+
+      expect(handler.mock.calls).toEqual([[1], [2]]);
+      expect(onCanceled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass an invocation to cancelable functions', () => {
+      const onCanceled = jest.fn();
+      const cancel = startInvocation(
+        metadata({ cancelable: true }),
+        (_value: unknown, inv: unknown) => {
+          (inv as StreamingInvocation).onCanceled = onCanceled;
+          return new Promise(() => undefined);
+        },
+        [1],
+        jest.fn()
+      );
+
+      cancel();
+      expect(onCanceled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deliver errors as Error values', async () => {
+      const handler = jest.fn();
+      startInvocation(
+        metadata({ streaming: true }),
+        () => Promise.reject(new Error('offline')),
+        [],
+        handler
+      );
+      startInvocation(
+        metadata(),
+        () => {
+          throw new Error('boom');
+        },
+        [],
+        handler
+      );
+      await flush();
+
+      expect(handler.mock.calls.map(([error]) => (error as Error).message).sort()).toEqual([
+        'boom',
+        'offline',
+      ]);
+    });
+  });
+
+  describe('firstResult', () => {
+    it('should resolve with the first streamed result and cancel', async () => {
+      const onCanceled = jest.fn();
+      const result = await firstResult(
+        metadata({ streaming: true }),
+        (inv: unknown) => {
+          const invocation = inv as StreamingInvocation;
+          invocation.onCanceled = onCanceled;
+          invocation.setResult(1);
+          invocation.setResult(2);
+        },
+        []
+      );
+      await flush();
+
+      expect(result).toBe(1);
+      expect(onCanceled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject with a streamed error', async () => {
+      await expect(
+        firstResult(
+          metadata({ streaming: true }),
+          (inv: unknown) => (inv as StreamingInvocation).setResult(new Error('no data')),
+          []
+        )
+      ).rejects.toThrow('no data');
+    });
+  });
+
+  describe('pollingFunction', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should fetch immediately and then on every interval until canceled', async () => {
+      let count = 0;
+      const fetchValue = jest.fn(async () => ++count);
+      const handler = jest.fn();
+
+      const cancel = startInvocation(
+        metadata({ streaming: true, cancelable: true }),
+        pollingFunction(fetchValue, { intervalMs: 1000 }),
+        ['GDP'],
+        handler
+      );
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(handler.mock.calls).toEqual([[1]]);
+      expect(fetchValue).toHaveBeenCalledWith(['GDP'], expect.any(AbortSignal));
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(handler.mock.calls).toEqual([[1], [2], [3]]);
+
+      cancel();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(fetchValue).toHaveBeenCalledTimes(3);
+      expect((fetchValue.mock.calls[2] as unknown[])[1]).toHaveProperty('aborted', true);
+    });
+
+    it('should report failed fetches and keep polling', async () => {
+      const fetchValue = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockResolvedValueOnce(42);
+      const handler = jest.fn();
+
+      const cancel = startInvocation(
+        metadata({ streaming: true }),
+        pollingFunction(fetchValue, { intervalMs: 1000 }),
+        [],
+        handler
+      );
+
+      await jest.advanceTimersByTimeAsync(1000);
+      cancel();
+
+      expect((handler.mock.calls[0] as unknown[])[0]).toEqual(new Error('timeout'));
+      expect(handler.mock.calls[1]).toEqual([42]);
+    });
+
+    it('should fetch once without an interval', async () => {
+      const fetchValue = jest.fn(async () => 1);
+      startInvocation(metadata({ streaming: true }), pollingFunction(fetchValue), [], jest.fn());
+
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(fetchValue).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should derive the polling interval from the display settings', () => {
+    expect(refreshIntervalMs({ autoRefresh: true, refreshIntervalMinutes: 60 })).toBe(3600000);
+    expect(refreshIntervalMs({ autoRefresh: false, refreshIntervalMinutes: 60 })).toBe(0);
+  });
+});
@@ -0,0 +1,22 @@
+import { tableColumnNames, toTableRecords } from '../../../src/typescript/utils/tables';
+
+describe('table columns', () => {
+  it('should name blank and repeated headers as Excel does', () => {
+    expect(tableColumnNames(['Date', null, 'GDP', 'gdp', ' ', 'GDP'])).toEqual([
+      'Date',
+      'Column2',
+      'GDP',
+      'gdp2',
+      'Column5',
+      'GDP3',
+    ]);
+    expect(tableColumnNames([2024, 'Column2', ''])).toEqual(['2024', 'Column2', 'Column3']);
+  });
+
+  it('should key rows by column name', () => {
+    expect(toTableRecords(['Date', 'GDP'], [['2024-01-01', 100], ['2024-04-01']])).toEqual([
+      { Date: '2024-01-01', GDP: 100 },
+      { Date: '2024-04-01', GDP: null },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  DEFAULT_DATE_FORMAT,
+  DEFAULT_DATE_TIME_FORMAT,
+  dateFormatFor,
+  normalizeCellMatrix,
+  normalizeCellValue,
+  toHostValue,
+} from '../../../src/typescript/utils/values';
+
+describe('values', () => {
+  describe('normalizeCellValue', () => {
+    it('should map empty values to null', () => {
+      expect(normalizeCellValue('')).toBeNull();
+      expect(normalizeCellValue(null)).toBeNull();
+      expect(normalizeCellValue(undefined)).toBeNull();
+    });
+
+    it('should keep strings as strings in strict mode', () => {
+      expect(normalizeCellValue('00123')).toBe('00123');
+      expect(normalizeCellValue('42')).toBe('42');
+      expect(normalizeCellValue('1e3')).toBe('1e3');
+    });
+
+    it('should convert only canonical numeric strings in lenient mode', () => {
+      const options = { mode: 'lenient' as const };
+      expect(normalizeCellValue('42', null, options)).toBe(42);
+      expect(normalizeCellValue('-1.5', null, options)).toBe(-1.5);
+      expect(normalizeCellValue('00123', null, options)).toBe('00123');
+      expect(normalizeCellValue(' 42', null, options)).toBe(' 42');
+      expect(normalizeCellValue('1,000', null, options)).toBe('1,000');
+    });
+
+    it('should reject unsupported values in strict mode only', () => {
+      expect(() => normalizeCellValue({})).toThrow(TypeError);
+      expect(normalizeCellValue({}, null, { mode: 'lenient' })).toBe('[object Object]');
+    });
+
+    it('should convert numbers shown with a date format to Dates', () => {
+      expect(normalizeCellValue(45292, 'yyyy-mm-dd')).toEqual(new Date(Date.UTC(2024, 0, 1)));
+      expect(normalizeCellValue(45292, '#,##0')).toBe(45292);
+      expect(normalizeCellValue(0, 'yyyy-mm-dd', { date1904: true })).toEqual(
+        new Date(Date.UTC(1904, 0, 1))
+      );
+    });
+
+    it('should keep numbers that are not representable as dates', () => {
+      expect(normalizeCellValue(-5, 'yyyy-mm-dd')).toBe(-5);
+      expect(normalizeCellValue(60, 'yyyy-mm-dd')).toBe(60);
+    });
+  });
+
+  describe('normalizeCellMatrix', () => {
+    it('should pair each value with its number format', () => {
+      const result = normalizeCellMatrix(
+        [
+          [45292, 0.05],
+          ['', true],
+        ],
+        [
+          ['yyyy-mm-dd', '0.0%'],
+          ['General', 'General'],
+        ]
+      );
+      expect(result).toEqual([
+        [new Date(Date.UTC(2024, 0, 1)), 0.05],
+        [null, true],
+      ]);
+    });
+
+    it('should work without number formats', () => {
+      expect(normalizeCellMatrix([[45292]], null)).toEqual([[45292]]);
+    });
+  });
+
+  describe('toHostValue', () => {
+    it('should write Dates as serials and empty values as ""', () => {
+      expect(toHostValue(new Date(Date.UTC(2024, 0, 1)))).toBe(45292);
+      expect(toHostValue(new Date(Date.UTC(2024, 0, 1)), { date1904: true })).toBe(43830);
+      expect(toHostValue(null)).toBe('');
+      expect(toHostValue('text')).toBe('text');
+    });
+  });
+
+  describe('dateFormatFor', () => {
+    it('should pick a date or date-time format for Dates', () => {
+      expect(dateFormatFor(new Date(Date.UTC(2024, 0, 1)))).toBe(DEFAULT_DATE_FORMAT);
+      expect(dateFormatFor(new Date(Date.UTC(2024, 0, 1, 9)))).toBe(DEFAULT_DATE_TIME_FORMAT);
+      expect(dateFormatFor(42)).toBeNull();
+    });
+  });
+});